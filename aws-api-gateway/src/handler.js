@@ -2,6 +2,7 @@ const axios = require('axios');
 const { S3Client, PutObjectCommand } = require('@aws-sdk/client-s3');
 const { SQSClient, DeleteMessageBatchCommand } = require('@aws-sdk/client-sqs');
 const jwt = require('jsonwebtoken');
+const jwksClient = require('jwks-rsa');
 
 // Service URLs from environment variables
 const USERS_URL = process.env.USERS_URL || 'http://localhost:3001';
@@ -9,7 +10,10 @@ const PRODUCTS_URL = process.env.PRODUCTS_URL || 'http://localhost:3002';
 const ORDERS_URL = process.env.ORDERS_URL || 'http://localhost:3003';
 const S3_BUCKET_NAME = process.env.S3_BUCKET_NAME;
 const SQS_QUEUE_NAME = process.env.SQS_QUEUE_NAME;
-const ACCESS_TOKEN_SECRET = process.env.ACCESS_TOKEN_SECRET || '';
+// Public keys user-service signs access tokens with
+const JWKS_URL = process.env.JWKS_URL || `${USERS_URL}/.well-known/jwks.json`;
+// Must match the services' GATEWAY_API_KEY, or they ignore X-Client-Ip
+const GATEWAY_API_KEY = process.env.GATEWAY_API_KEY || 'gateway_key';
 
 // AWS clients (lazy, region taken from env/AWS SDK defaults)
 const s3Client = new S3Client({});
@@ -18,7 +22,7 @@ const sqsClient = new SQSClient({});
 // CORS headers
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'Content-Type,Authorization,X-Requested-With,Accept,Origin,Access-Control-Request-Method,Access-Control-Request-Headers',
+  'Access-Control-Allow-Headers': 'Content-Type,Authorization,X-Requested-With,Accept,Origin,Access-Control-Request-Method,Access-Control-Request-Headers,Idempotency-Key',
   'Access-Control-Allow-Methods': 'GET,POST,PUT,DELETE,OPTIONS,PATCH',
   'Access-Control-Allow-Credentials': 'true'
 };
@@ -38,6 +42,8 @@ const getTargetService = (path) => {
     return { url: PRODUCTS_URL, path: path.replace('/api/products', '') };
   } else if (path.startsWith('/api/orders')) {
     return { url: ORDERS_URL, path: path.replace('/api/orders', '') };
+  } else if (path.startsWith('/api/cart')) {
+    return { url: ORDERS_URL, path: path.replace('/api/cart', '/cart') };
   }
   return null;
 };
@@ -86,13 +92,41 @@ exports.gateway = async (event) => {
       requestConfig.headers.Authorization = headers.Authorization;
     }
 
+    // user-service records the device and address each session signs in from,
+    // and throttles logins per address. It takes the address from X-Client-Ip,
+    // believed only alongside the gateway key; without it every caller would
+    // share this Lambda's address. No X-User-* headers are sent, so the
+    // services still verify the caller from the token.
+    const userAgent = headers['User-Agent'] || headers['user-agent'];
+    if (userAgent) {
+      requestConfig.headers['User-Agent'] = userAgent;
+    }
+    requestConfig.headers['X-Gateway-Key'] = GATEWAY_API_KEY;
+    if (event.requestContext?.identity?.sourceIp) {
+      requestConfig.headers['X-Client-Ip'] = event.requestContext.identity.sourceIp;
+    }
+
+    // Let order-service de-duplicate retried order submissions
+    const idempotencyKey = headers['Idempotency-Key'] || headers['idempotency-key'];
+    if (idempotencyKey) {
+      requestConfig.headers['Idempotency-Key'] = idempotencyKey;
+    }
+
+    // Payment webhooks are verified against the exact body, so pass it through untouched
+    const paymentSignature = headers['X-Payment-Signature'] || headers['x-payment-signature'];
+    if (paymentSignature) {
+      requestConfig.headers['X-Payment-Signature'] = paymentSignature;
+    }
+
     // Add query parameters
     if (queryStringParameters) {
       requestConfig.params = queryStringParameters;
     }
 
     // Add request body for POST/PUT/PATCH requests
-    if (body && ['POST', 'PUT', 'PATCH'].includes(httpMethod)) {
+    if (body && paymentSignature) {
+      requestConfig.data = body;
+    } else if (body && ['POST', 'PUT', 'PATCH'].includes(httpMethod)) {
       try {
         requestConfig.data = JSON.parse(body);
       } catch (e) {
@@ -114,12 +148,16 @@ exports.gateway = async (event) => {
 
     // Handle axios errors
     if (error.response) {
-      // Service responded with error status
+      // Service responded with error status. code and retryAfter (e.g. login
+      // lockouts) stay top-level, where clients of the services look for them.
+      const { code, retryAfter } = error.response.data || {};
       return createResponse(error.response.status, {
         error: error.response.data?.error || 'Service error',
+        code,
+        retryAfter,
         service: 'gateway',
         details: error.response.data
-      });
+      }, retryAfter ? { 'Retry-After': String(retryAfter) } : {});
     } else if (error.request) {
       // Service is unreachable
       return createResponse(502, {
@@ -153,6 +191,23 @@ exports.health = async (event) => {
   });
 };
 
+// Created outside the handler so warm invocations reuse the cached keys. A kid
+// it hasn't seen (user-service just rotated) fetches the set again.
+const signingKeys = jwksClient({
+  jwksUri: JWKS_URL,
+  cache: true,
+  cacheMaxAge: 10 * 60 * 1000,
+  rateLimit: true,
+  jwksRequestsPerMinute: 10
+});
+
+const verifyAccessToken = async (token) => {
+  const kid = jwt.decode(token, { complete: true })?.header.kid;
+  if (!kid) throw new Error('token has no kid');
+  const key = await signingKeys.getSigningKey(kid);
+  return jwt.verify(token, key.getPublicKey(), { algorithms: ['RS256'] });
+};
+
 // Lambda Authorizer (REQUEST type for HTTP API)
 exports.authorize = async (event) => {
   const authHeader = event.headers?.authorization || event.headers?.Authorization || '';
@@ -164,13 +219,15 @@ exports.authorize = async (event) => {
   }
   const token = authHeader.slice(7).trim();
   try {
-    const decoded = jwt.verify(token, ACCESS_TOKEN_SECRET);
+    const decoded = await verifyAccessToken(token);
     return {
       isAuthorized: true,
       context: {
         sub: decoded.sub || decoded.id || '',
         username: decoded.username || '',
-        role: decoded.role || 'user'
+        role: decoded.role || 'user',
+        // Authorizer context values must be strings
+        permissions: (decoded.permissions || []).join(',')
       }
     };
   } catch (e) {
@@ -89,8 +89,8 @@ exports.nonProxyListProducts = async (event) => {
     
     // Return simple array - API Gateway adds metadata
     return {
-      products: response.data,
-      count: response.data.length,
+      products: response.data.data,
+      count: response.data.total,
       filters: queryParameters,
       requestedBy: user?.username || 'anonymous'
     };
@@ -493,11 +493,11 @@ exports.transformPagination = async (event) => {
       params: { page: pageNum, limit: limitNum }
     });
     
-    const total = response.data.length; // In real app, this comes from backend
+    const total = response.data.total;
     const hasMore = pageNum * limitNum < total;
     
     return createResponse(200, {
-      items: response.data,
+      items: response.data.data,
       pagination: {
         page: pageNum,
         limit: limitNum,
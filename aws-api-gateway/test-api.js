@@ -11,6 +11,7 @@ const axios = require('axios');
 const API_BASE_URL = process.env.API_URL || 'http://localhost:3000';
 const TEST_USER = {
   username: `testuser_${Date.now()}`,
+  email: `testuser_${Date.now()}@example.com`,
   password: 'TestPass123!'
 };
 
@@ -103,9 +104,9 @@ async function testGetProducts() {
   console.log('🔍 Testing get products...');
   const result = await apiCall('GET', '/api/products');
   if (result.success) {
-    console.log('✅ Get products passed:', `${result.data.length} products found`);
-    if (result.data.length > 0) {
-      testProductId = result.data[0].id;
+    console.log('✅ Get products passed:', `${result.data.total} products found`);
+    if (result.data.data.length > 0) {
+      testProductId = result.data.data[0].id;
     }
   } else {
     console.log('❌ Get products failed:', result.error);
@@ -139,7 +140,15 @@ async function testCreateOrder() {
   const orderData = {
     items: [
       { productId: testProductId, qty: 2 }
-    ]
+    ],
+    shippingAddress: {
+      fullName: 'Test User',
+      phone: '9876543210',
+      line1: '12 MG Road',
+      city: 'Bengaluru',
+      state: 'Karnataka',
+      pincode: '560001'
+    }
   };
   
   const result = await apiCall('POST', '/api/orders', orderData, {
@@ -123,6 +123,7 @@ async function seedTestData() {
   try {
     const testUser = {
       username: `testuser_${Date.now()}`,
+      email: `testuser_${Date.now()}@example.com`,
       password: 'TestPass123!'
     };
     
@@ -158,7 +159,7 @@ async function testLambdaProxyIntegration() {
   const productsResult = await apiCall('GET', '/api/products');
   logTest('Lambda Proxy', 'Get Products', 
     productsResult.success,
-    productsResult.success ? `Found ${productsResult.data?.length || 0} products` : `Error: ${productsResult.error}`
+    productsResult.success ? `Found ${productsResult.data?.total || 0} products` : `Error: ${productsResult.error}`
   );
   
   // Test 1.3: Protected route (existing proxy with auth)
@@ -9,9 +9,19 @@ import Products from './pages/Products';
 import ProductDetails from './pages/ProductDetails';
 import Cart from './pages/Cart';
 import Orders from './pages/Orders';
+import Payment from './pages/Payment';
+import Sessions from './pages/Sessions';
+import Security from './pages/Security';
 import Login from './pages/Login';
 import Register from './pages/Register';
+import ForgotPassword from './pages/ForgotPassword';
+import ResetPassword from './pages/ResetPassword';
+import VerifyEmail from './pages/VerifyEmail';
 import AdminProducts from './pages/AdminProducts';
+import AdminUsers from './pages/AdminUsers';
+import AdminOrders from './pages/AdminOrders';
+import AdminRoles from './pages/AdminRoles';
+import AdminStatus from './pages/AdminStatus';
 import ProtectedRoute from './components/Auth/ProtectedRoute';
 import ErrorBoundary from './components/ErrorBoundary';
 import './App.css';
@@ -28,6 +38,9 @@ function App() {
               {/* Public routes */}
               <Route path="/login" element={<Login />} />
               <Route path="/register" element={<Register />} />
+              <Route path="/forgot-password" element={<ForgotPassword />} />
+              <Route path="/reset-password" element={<ResetPassword />} />
+              <Route path="/verify-email" element={<VerifyEmail />} />
               
               {/* Protected routes with layout */}
               <Route path="/" element={
@@ -40,11 +53,34 @@ function App() {
                 <Route path="products/:id" element={<ProductDetails />} />
                 <Route path="cart" element={<Cart />} />
                 <Route path="orders" element={<Orders />} />
+                <Route path="orders/:id/pay" element={<Payment />} />
+                <Route path="account/sessions" element={<Sessions />} />
+                <Route path="account/security" element={<Security />} />
                 <Route path="admin" element={
-                  <ProtectedRoute roles={['admin']}>
+                  <ProtectedRoute permission="products:write">
                     <AdminPage />
                   </ProtectedRoute>
                 } />
+                <Route path="admin/users" element={
+                  <ProtectedRoute permission="users:read">
+                    <AdminUsers />
+                  </ProtectedRoute>
+                } />
+                <Route path="admin/orders" element={
+                  <ProtectedRoute permission="orders:manage">
+                    <AdminOrders />
+                  </ProtectedRoute>
+                } />
+                <Route path="admin/roles" element={
+                  <ProtectedRoute permission="roles:manage">
+                    <AdminRoles />
+                  </ProtectedRoute>
+                } />
+                <Route path="admin/status" element={
+                  <ProtectedRoute permission="system:read">
+                    <AdminStatus />
+                  </ProtectedRoute>
+                } />
               </Route>
               
               {/* Catch all route */}
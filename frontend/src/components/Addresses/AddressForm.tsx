@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { AddressInput } from '../../services/api';
+import { INDIAN_STATES, isValidPhone, isValidPincode } from '../../utils/address';
+
+interface AddressFormProps {
+  initialValues?: Partial<AddressInput>;
+  saving?: boolean;
+  submitLabel?: string;
+  onSubmit: (values: AddressInput) => void;
+  onCancel?: () => void;
+}
+
+const emptyAddress: AddressInput = {
+  fullName: '',
+  phone: '',
+  line1: '',
+  line2: '',
+  city: '',
+  state: '',
+  pincode: '',
+  isDefault: false,
+};
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500';
+
+const AddressForm: React.FC<AddressFormProps> = ({
+  initialValues,
+  saving = false,
+  submitLabel = 'Save Address',
+  onSubmit,
+  onCancel,
+}) => {
+  const [values, setValues] = useState<AddressInput>({ ...emptyAddress, ...initialValues });
+  const [error, setError] = useState<string | null>(null);
+
+  const setField = (field: keyof AddressInput) => (
+    e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>
+  ) => {
+    const value = e.target.type === 'checkbox' ? (e.target as HTMLInputElement).checked : e.target.value;
+    setValues(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const required: Array<keyof AddressInput> = ['fullName', 'phone', 'line1', 'city', 'state', 'pincode'];
+    if (required.some(field => !String(values[field] ?? '').trim())) {
+      setError('Please fill in all required fields');
+      return;
+    }
+    if (!isValidPhone(values.phone)) {
+      setError('Enter a 10-digit mobile number');
+      return;
+    }
+    if (!isValidPincode(values.pincode)) {
+      setError('Enter a valid 6-digit PIN code');
+      return;
+    }
+    setError(null);
+    onSubmit({ ...values, line2: values.line2?.trim() || null });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <input className={inputClass} value={values.fullName} onChange={setField('fullName')} placeholder="Full name" />
+        <input className={inputClass} value={values.phone} onChange={setField('phone')} placeholder="Mobile number" inputMode="tel" />
+        <input className={`${inputClass} md:col-span-2`} value={values.line1} onChange={setField('line1')} placeholder="House no., building, street" />
+        <input className={`${inputClass} md:col-span-2`} value={values.line2 || ''} onChange={setField('line2')} placeholder="Area, landmark (optional)" />
+        <input className={inputClass} value={values.city} onChange={setField('city')} placeholder="City" />
+        <select className={inputClass} value={values.state} onChange={setField('state')}>
+          <option value="">State</option>
+          {INDIAN_STATES.map(state => (
+            <option key={state} value={state}>{state}</option>
+          ))}
+        </select>
+        <input className={inputClass} value={values.pincode} onChange={setField('pincode')} placeholder="PIN code" inputMode="numeric" maxLength={7} />
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <input type="checkbox" checked={!!values.isDefault} onChange={setField('isDefault')} />
+          <span>Make this my default address</span>
+        </label>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex space-x-2">
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {saving ? 'Saving…' : submitLabel}
+        </button>
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+    </form>
+  );
+};
+
+export default AddressForm;
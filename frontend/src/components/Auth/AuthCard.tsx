@@ -0,0 +1,29 @@
+import React from 'react';
+
+interface AuthCardProps {
+  title: string;
+  subtitle?: string;
+  children: React.ReactNode;
+}
+
+// The branded card the signed-out account pages sit in, as on Login and Register
+const AuthCard: React.FC<AuthCardProps> = ({ title, subtitle, children }) => (
+  <div className="min-h-screen gradient-bg flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+    <div className="max-w-md w-full">
+      <div className="card p-8">
+        <div className="text-center mb-8">
+          <div className="mx-auto h-12 w-12 bg-primary-600 rounded-xl flex items-center justify-center mb-4">
+            <svg className="h-8 w-8 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 11V7a4 4 0 00-8 0v4M5 9h14l1 12H4L5 9z" />
+            </svg>
+          </div>
+          <h2 className="text-3xl font-bold text-gray-900 mb-2">{title}</h2>
+          {subtitle && <p className="text-gray-600">{subtitle}</p>}
+        </div>
+        {children}
+      </div>
+    </div>
+  </div>
+);
+
+export default AuthCard;
@@ -3,13 +3,15 @@ import { Navigate, useLocation } from 'react-router-dom';
 import { useSelector } from 'react-redux';
 import { RootState } from '../../store';
 import LoadingSpinner from '../UI/LoadingSpinner';
+import { Permission } from '../../services/api';
+import { hasPermission } from '../../utils/permissions';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
-  roles?: Array<'user' | 'admin'>;
+  permission?: Permission;
 }
 
-const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, roles }) => {
+const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, permission }) => {
   const { isAuthenticated, loading, user } = useSelector((state: RootState) => state.auth);
   const location = useLocation();
 
@@ -26,7 +28,7 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, roles }) => {
     return <Navigate to="/login" state={{ from: location }} replace />;
   }
 
-  if (roles && user && !roles.includes(user.role)) {
+  if (permission && user && !hasPermission(user, permission)) {
     return <Navigate to="/" replace />;
   }
 
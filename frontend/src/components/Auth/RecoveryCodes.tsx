@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import toast from 'react-hot-toast';
+
+interface RecoveryCodesProps {
+  codes: string[];
+  onDone: () => void;
+}
+
+// Recovery codes are only ever shown once, so make the user confirm they kept them
+const RecoveryCodes: React.FC<RecoveryCodesProps> = ({ codes, onDone }) => {
+  const [saved, setSaved] = useState(false);
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(codes.join('\n'));
+      toast.success('Recovery codes copied');
+    } catch {
+      toast.error('Copy failed; please write the codes down');
+    }
+  };
+
+  const download = () => {
+    const url = URL.createObjectURL(new Blob([`${codes.join('\n')}\n`], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'microstore-recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 text-sm text-yellow-800">
+        Save these recovery codes somewhere safe. Each one signs you in once if you lose your authenticator app.
+        They won&apos;t be shown again.
+      </div>
+      <ul className="grid grid-cols-2 gap-2 font-mono text-sm text-gray-800 bg-gray-50 rounded-lg p-4">
+        {codes.map((code) => (
+          <li key={code}>{code}</li>
+        ))}
+      </ul>
+      <div className="flex space-x-3">
+        <button type="button" onClick={copy} className="flex-1 border border-gray-300 rounded-md py-2 text-sm font-medium text-gray-700 hover:bg-gray-50">
+          Copy
+        </button>
+        <button type="button" onClick={download} className="flex-1 border border-gray-300 rounded-md py-2 text-sm font-medium text-gray-700 hover:bg-gray-50">
+          Download
+        </button>
+      </div>
+      <label className="flex items-center space-x-2 text-sm text-gray-700">
+        <input type="checkbox" checked={saved} onChange={(e) => setSaved(e.target.checked)} />
+        <span>I have saved my recovery codes</span>
+      </label>
+      <button
+        type="button"
+        onClick={onDone}
+        disabled={!saved}
+        className="w-full btn-primary py-3 text-base font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        Continue
+      </button>
+    </div>
+  );
+};
+
+export default RecoveryCodes;
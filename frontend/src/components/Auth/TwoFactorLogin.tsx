@@ -0,0 +1,123 @@
+import React, { useEffect, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { AppDispatch, RootState } from '../../store';
+import {
+  verifyTwoFactorLogin,
+  startTwoFactorEnrollment,
+  completeTwoFactorEnrollment,
+  cancelTwoFactorLogin,
+} from '../../store/slices/authSlice';
+import TwoFactorSetupForm from './TwoFactorSetupForm';
+import LoadingSpinner from '../UI/LoadingSpinner';
+
+// The second step of Login: a code from the authenticator app, a recovery
+// code, or, for roles that require two-factor, enrolling first
+const TwoFactorLogin: React.FC = () => {
+  const dispatch = useDispatch<AppDispatch>();
+  const { twoFactorChallenge, twoFactorSetup, loading, error } = useSelector((state: RootState) => state.auth);
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const enrolling = !!twoFactorChallenge?.enrollmentRequired;
+
+  useEffect(() => {
+    if (enrolling && !twoFactorSetup) dispatch(startTwoFactorEnrollment());
+  }, [dispatch, enrolling, twoFactorSetup]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+    dispatch(verifyTwoFactorLogin(useRecoveryCode ? { recoveryCode: code.trim() } : { code: code.trim() }));
+  };
+
+  const errorBox = error && (
+    <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-800">{error}</div>
+  );
+
+  const back = (
+    <div className="mt-6 text-center">
+      <button
+        type="button"
+        onClick={() => dispatch(cancelTwoFactorLogin())}
+        className="text-sm font-semibold text-primary-600 hover:text-primary-500 transition-colors"
+      >
+        Sign in as someone else
+      </button>
+    </div>
+  );
+
+  if (enrolling) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-gray-700 font-medium">Your role requires two-factor authentication. Set it up to continue.</p>
+        {errorBox}
+        {twoFactorSetup ? (
+          <TwoFactorSetupForm
+            setup={twoFactorSetup}
+            submitting={loading}
+            onSubmit={(setupCode) => dispatch(completeTwoFactorEnrollment(setupCode))}
+          />
+        ) : (
+          <div className="flex justify-center py-6">
+            <LoadingSpinner size="lg" />
+          </div>
+        )}
+        {back}
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <form className="space-y-6" onSubmit={handleSubmit}>
+        <div>
+          <label htmlFor="twoFactorCode" className="block text-sm font-medium text-gray-700 mb-2">
+            {useRecoveryCode ? 'Recovery code' : 'Authentication code'}
+          </label>
+          <input
+            id="twoFactorCode"
+            type="text"
+            inputMode={useRecoveryCode ? 'text' : 'numeric'}
+            autoComplete="one-time-code"
+            autoFocus
+            required
+            className="input-field text-center tracking-widest font-mono"
+            placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+          />
+          <p className="mt-2 text-xs text-gray-500">
+            {useRecoveryCode
+              ? 'Each recovery code works once.'
+              : 'Open your authenticator app and enter the 6-digit code for MicroStore.'}
+          </p>
+        </div>
+
+        {errorBox}
+
+        <button
+          type="submit"
+          disabled={loading}
+          className="w-full btn-primary py-3 text-base font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {loading ? <LoadingSpinner size="sm" /> : 'Verify'}
+        </button>
+      </form>
+
+      <div className="mt-4 text-center">
+        <button
+          type="button"
+          onClick={() => {
+            setUseRecoveryCode(!useRecoveryCode);
+            setCode('');
+          }}
+          className="text-sm text-primary-600 hover:text-primary-500 transition-colors"
+        >
+          {useRecoveryCode ? 'Use your authenticator app instead' : 'Lost your device? Use a recovery code'}
+        </button>
+      </div>
+      {back}
+    </div>
+  );
+};
+
+export default TwoFactorLogin;
@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { TwoFactorSetup } from '../../services/api';
+import LoadingSpinner from '../UI/LoadingSpinner';
+
+interface TwoFactorSetupFormProps {
+  setup: TwoFactorSetup;
+  submitting: boolean;
+  onSubmit: (code: string) => void;
+}
+
+// Scan (or type) the secret into an authenticator app, then prove it with a code
+const TwoFactorSetupForm: React.FC<TwoFactorSetupFormProps> = ({ setup, submitting, onSubmit }) => {
+  const [code, setCode] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (code.trim()) onSubmit(code.trim());
+  };
+
+  return (
+    <form className="space-y-4" onSubmit={handleSubmit}>
+      <p className="text-sm text-gray-600">
+        Scan this QR code with an authenticator app such as Google Authenticator, 1Password or Authy, then enter the
+        6-digit code it shows.
+      </p>
+      <img src={setup.qrCode} alt="Two-factor QR code" className="mx-auto h-48 w-48" />
+      <p className="text-xs text-gray-500 text-center">
+        Can&apos;t scan it? Enter this key instead:
+        <span className="block mt-1 font-mono text-sm text-gray-800 break-all select-all">{setup.secret}</span>
+      </p>
+      <div>
+        <label htmlFor="setupCode" className="block text-sm font-medium text-gray-700 mb-2">
+          Code from your app
+        </label>
+        <input
+          id="setupCode"
+          type="text"
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          maxLength={6}
+          required
+          className="input-field text-center tracking-widest font-mono"
+          placeholder="123456"
+          value={code}
+          onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+        />
+      </div>
+      <button
+        type="submit"
+        disabled={submitting || code.length !== 6}
+        className="w-full btn-primary py-3 text-base font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {submitting ? <LoadingSpinner size="sm" /> : 'Turn on two-factor authentication'}
+      </button>
+    </form>
+  );
+};
+
+export default TwoFactorSetupForm;
@@ -0,0 +1,36 @@
+import React, { useState } from 'react';
+import { useSelector } from 'react-redux';
+import toast from 'react-hot-toast';
+import { RootState } from '../../store';
+import { apiService } from '../../services/api';
+
+// Shown until the signed-in user verifies their email; accounts without one have nothing to verify
+const EmailVerificationBanner: React.FC = () => {
+  const { user } = useSelector((state: RootState) => state.auth);
+  const [sending, setSending] = useState(false);
+
+  if (!user?.email || user.emailVerifiedAt) return null;
+
+  const resend = async () => {
+    setSending(true);
+    try {
+      await apiService.resendVerificationEmail();
+      toast.success(`Verification email sent to ${user.email}`);
+    } catch (err) {
+      // Error toast is shown by the API client
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="mb-6 flex items-center justify-between rounded-lg border border-yellow-200 bg-yellow-50 p-4 text-sm text-yellow-800">
+      <span>Please verify your email address, {user.email}, using the link we sent you.</span>
+      <button onClick={resend} disabled={sending} className="font-medium underline hover:text-yellow-900 disabled:opacity-50">
+        Resend email
+      </button>
+    </div>
+  );
+};
+
+export default EmailVerificationBanner;
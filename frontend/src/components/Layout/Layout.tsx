@@ -1,12 +1,22 @@
-import React from 'react';
+import React, { useEffect } from 'react';
 import { Outlet } from 'react-router-dom';
 import Header from './Header';
 import Sidebar from './Sidebar';
-import { useSelector } from 'react-redux';
-import { RootState } from '../../store';
+import EmailVerificationBanner from './EmailVerificationBanner';
+import { useDispatch, useSelector } from 'react-redux';
+import { AppDispatch, RootState } from '../../store';
+import { fetchCart } from '../../store/slices/orderSlice';
 
 const Layout: React.FC = () => {
+  const dispatch = useDispatch<AppDispatch>();
   const { sidebarOpen } = useSelector((state: RootState) => state.ui);
+  const { isAuthenticated } = useSelector((state: RootState) => state.auth);
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      dispatch(fetchCart());
+    }
+  }, [dispatch, isAuthenticated]);
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -19,6 +29,7 @@ const Layout: React.FC = () => {
           sidebarOpen ? 'ml-64' : 'ml-16'
         }`}>
           <div className="p-6">
+            <EmailVerificationBanner />
             <Outlet />
           </div>
         </main>
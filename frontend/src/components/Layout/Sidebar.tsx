@@ -7,8 +7,15 @@ import {
   ShoppingBagIcon,
   ShoppingCartIcon,
   ClipboardDocumentListIcon,
-  ShieldCheckIcon
+  ClipboardDocumentCheckIcon,
+  ShieldCheckIcon,
+  UsersIcon,
+  KeyIcon,
+  ComputerDesktopIcon,
+  LockClosedIcon,
+  SignalIcon
 } from '@heroicons/react/24/outline';
+import { hasPermission } from '../../utils/permissions';
 
 const Sidebar: React.FC = () => {
   const { sidebarOpen } = useSelector((state: RootState) => state.ui);
@@ -19,7 +26,14 @@ const Sidebar: React.FC = () => {
     { name: 'Products', href: '/products', icon: ShoppingBagIcon },
     { name: 'Cart', href: '/cart', icon: ShoppingCartIcon },
     { name: 'Orders', href: '/orders', icon: ClipboardDocumentListIcon },
-    ...(user?.role === 'admin' ? [{ name: 'Admin', href: '/admin', icon: ShieldCheckIcon }] : []),
+    { name: 'Sessions', href: '/account/sessions', icon: ComputerDesktopIcon },
+    { name: 'Security', href: '/account/security', icon: LockClosedIcon },
+    // end: stay unhighlighted on /admin/users, /admin/orders, /admin/roles and /admin/status
+    ...(hasPermission(user, 'products:write') ? [{ name: 'Admin', href: '/admin', icon: ShieldCheckIcon, end: true }] : []),
+    ...(hasPermission(user, 'users:read') ? [{ name: 'Users', href: '/admin/users', icon: UsersIcon }] : []),
+    ...(hasPermission(user, 'orders:manage') ? [{ name: 'All Orders', href: '/admin/orders', icon: ClipboardDocumentCheckIcon }] : []),
+    ...(hasPermission(user, 'roles:manage') ? [{ name: 'Roles', href: '/admin/roles', icon: KeyIcon }] : []),
+    ...(hasPermission(user, 'system:read') ? [{ name: 'Status', href: '/admin/status', icon: SignalIcon }] : []),
   ];
 
   return (
@@ -32,6 +46,7 @@ const Sidebar: React.FC = () => {
             <NavLink
               key={item.name}
               to={item.href}
+              end={item.end}
               className={({ isActive }) =>
                 `group flex items-center px-2 py-2 text-sm font-medium rounded-md transition-colors duration-200 ${
                   isActive
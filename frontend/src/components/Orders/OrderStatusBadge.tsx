@@ -0,0 +1,17 @@
+import React from 'react';
+import { OrderStatus } from '../../services/api';
+import { ORDER_STATUS_STYLES, formatOrderStatus } from '../../utils/orderStatus';
+
+interface OrderStatusBadgeProps {
+  status: OrderStatus;
+}
+
+const OrderStatusBadge: React.FC<OrderStatusBadgeProps> = ({ status }) => {
+  return (
+    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${ORDER_STATUS_STYLES[status] || 'bg-gray-100 text-gray-800'}`}>
+      {formatOrderStatus(status)}
+    </span>
+  );
+};
+
+export default OrderStatusBadge;
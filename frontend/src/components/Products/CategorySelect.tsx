@@ -0,0 +1,40 @@
+import React from 'react';
+import { Category } from '../../services/api';
+import { buildCategoryTree, flattenCategoryTree } from '../../utils/categories';
+
+interface CategorySelectProps {
+  categories: Category[];
+  value: string | null | undefined;
+  onChange: (categoryId: string | null) => void;
+  emptyLabel?: string;
+  // Hidden from the options, e.g. a category cannot be its own parent
+  excludeId?: string;
+  className?: string;
+}
+
+const CategorySelect: React.FC<CategorySelectProps> = ({
+  categories,
+  value,
+  onChange,
+  emptyLabel = 'No category',
+  excludeId,
+  className = 'border rounded px-3 py-2',
+}) => {
+  const options = React.useMemo(
+    () => flattenCategoryTree(buildCategoryTree(categories)).filter(({ category }) => category.id !== excludeId),
+    [categories, excludeId]
+  );
+
+  return (
+    <select className={className} value={value || ''} onChange={(e) => onChange(e.target.value || null)}>
+      <option value="">{emptyLabel}</option>
+      {options.map(({ category, depth }) => (
+        <option key={category.id} value={category.id}>
+          {`${'  '.repeat(depth)}${category.name}`}
+        </option>
+      ))}
+    </select>
+  );
+};
+
+export default CategorySelect;
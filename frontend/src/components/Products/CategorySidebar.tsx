@@ -0,0 +1,51 @@
+import React from 'react';
+import { Category } from '../../services/api';
+import { buildCategoryTree, CategoryNode } from '../../utils/categories';
+
+interface CategorySidebarProps {
+  categories: Category[];
+  selected?: string;
+  onSelect: (slug: string | undefined) => void;
+}
+
+const CategorySidebar: React.FC<CategorySidebarProps> = ({ categories, selected, onSelect }) => {
+  const tree = React.useMemo(() => buildCategoryTree(categories), [categories]);
+
+  const itemClass = (active: boolean) =>
+    `w-full text-left px-3 py-1.5 text-sm rounded-md transition-colors duration-200 ${
+      active ? 'bg-primary-100 text-primary-900 font-medium' : 'text-gray-600 hover:bg-gray-50 hover:text-gray-900'
+    }`;
+
+  const renderNodes = (nodes: CategoryNode[], depth: number): React.ReactNode =>
+    nodes.map((node) => (
+      <li key={node.id}>
+        <button
+          onClick={() => onSelect(node.slug)}
+          className={itemClass(selected === node.slug)}
+          style={{ paddingLeft: `${0.75 + depth * 0.75}rem` }}
+        >
+          {node.name}
+        </button>
+        {node.children.length > 0 && <ul className="space-y-1 mt-1">{renderNodes(node.children, depth + 1)}</ul>}
+      </li>
+    ));
+
+  return (
+    <aside className="bg-white rounded-lg shadow p-4">
+      <h2 className="text-sm font-semibold text-gray-900 uppercase tracking-wide mb-3">Categories</h2>
+      <ul className="space-y-1">
+        <li>
+          <button onClick={() => onSelect(undefined)} className={itemClass(!selected)}>
+            All products
+          </button>
+        </li>
+        {renderNodes(tree, 0)}
+      </ul>
+      {categories.length === 0 && (
+        <p className="mt-2 text-xs text-gray-500">No categories yet.</p>
+      )}
+    </aside>
+  );
+};
+
+export default CategorySidebar;
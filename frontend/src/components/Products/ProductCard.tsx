@@ -3,7 +3,7 @@ import { Link } from 'react-router-dom';
 import { useDispatch } from 'react-redux';
 import { AppDispatch } from '../../store';
 import { addToCart } from '../../store/slices/orderSlice';
-import { Product } from '../../services/api';
+import { Product, productImageUrl } from '../../services/api';
 import { ShoppingCartIcon } from '@heroicons/react/24/outline';
 import toast from 'react-hot-toast';
 import { formatINR } from '../../utils/currency';
@@ -15,25 +15,44 @@ interface ProductCardProps {
 const ProductCard: React.FC<ProductCardProps> = ({ product }) => {
   const dispatch = useDispatch<AppDispatch>();
 
-  const handleAddToCart = () => {
+  const handleAddToCart = async () => {
     if (product.stock <= 0) {
       toast.error('Product is out of stock');
       return;
     }
 
-    dispatch(addToCart({
-      productId: product.id,
-      name: product.name,
-      price: product.price,
-      qty: 1,
-      stock: product.stock,
-    }));
-
-    toast.success(`${product.name} added to cart!`);
+    try {
+      await dispatch(addToCart({
+        productId: product.id,
+        name: product.name,
+        price: product.price,
+        qty: 1,
+        stock: product.stock,
+      })).unwrap();
+      toast.success(`${product.name} added to cart!`);
+    } catch (error) {
+      // Error is handled by the thunk
+    }
   };
 
+  const thumbnail = product.images?.[0];
+
   return (
     <div className="bg-white rounded-lg shadow-md overflow-hidden hover:shadow-lg transition-shadow duration-200">
+      <Link to={`/products/${product.id}`} className="block aspect-square bg-gray-100">
+        {thumbnail ? (
+          <img
+            src={productImageUrl(thumbnail.thumbnailPath)}
+            alt={product.name}
+            loading="lazy"
+            className="w-full h-full object-cover"
+          />
+        ) : (
+          <div className="w-full h-full flex items-center justify-center">
+            <ShoppingCartIcon className="h-12 w-12 text-gray-300" />
+          </div>
+        )}
+      </Link>
       <div className="p-4">
         <div className="flex items-center justify-between mb-2">
           <h3 className="text-lg font-semibold text-gray-900 truncate">
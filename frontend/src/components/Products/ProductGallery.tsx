@@ -0,0 +1,68 @@
+import React, { useEffect, useState } from 'react';
+import { ShoppingCartIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { ProductImage, productImageUrl } from '../../services/api';
+
+interface ProductGalleryProps {
+  images: ProductImage[];
+  alt: string;
+  onRemove?: (imageId: string) => void;
+}
+
+const ProductGallery: React.FC<ProductGalleryProps> = ({ images, alt, onRemove }) => {
+  const [activeId, setActiveId] = useState<string | null>(images[0]?.id || null);
+
+  // Keep a valid selection when images are added or removed
+  useEffect(() => {
+    if (!images.some((img) => img.id === activeId)) {
+      setActiveId(images[0]?.id || null);
+    }
+  }, [images, activeId]);
+
+  const active = images.find((img) => img.id === activeId);
+
+  if (!active) {
+    return (
+      <div className="aspect-square bg-gray-100 rounded-lg flex items-center justify-center">
+        <div className="text-center">
+          <ShoppingCartIcon className="mx-auto h-24 w-24 text-gray-400" />
+          <p className="mt-2 text-sm text-gray-500">No images yet</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="aspect-square bg-gray-100 rounded-lg overflow-hidden flex items-center justify-center">
+        <img src={productImageUrl(active.path)} alt={alt} className="max-h-full max-w-full object-contain" />
+      </div>
+      {images.length > 1 || onRemove ? (
+        <div className="grid grid-cols-5 gap-2">
+          {images.map((img) => (
+            <div key={img.id} className="relative">
+              <button
+                onClick={() => setActiveId(img.id)}
+                className={`block w-full aspect-square rounded-md overflow-hidden border-2 ${
+                  img.id === active.id ? 'border-primary-600' : 'border-transparent hover:border-gray-300'
+                }`}
+              >
+                <img src={productImageUrl(img.thumbnailPath)} alt={alt} className="w-full h-full object-cover" />
+              </button>
+              {onRemove && (
+                <button
+                  onClick={() => onRemove(img.id)}
+                  className="absolute -top-2 -right-2 bg-white rounded-full shadow p-0.5 text-red-500 hover:text-red-600"
+                  title="Remove image"
+                >
+                  <XMarkIcon className="h-4 w-4" />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+};
+
+export default ProductGallery;
@@ -0,0 +1,60 @@
+import React from 'react';
+import { ChevronLeftIcon, ChevronRightIcon } from '@heroicons/react/24/outline';
+
+interface PaginationProps {
+  page: number;
+  totalPages: number;
+  onPageChange: (page: number) => void;
+  disabled?: boolean;
+}
+
+const Pagination: React.FC<PaginationProps> = ({ page, totalPages, onPageChange, disabled = false }) => {
+  if (totalPages <= 1) return null;
+
+  // Show the first, last and up to two pages either side of the current one
+  const pages = Array.from({ length: totalPages }, (_, i) => i + 1).filter(
+    (p) => p === 1 || p === totalPages || Math.abs(p - page) <= 2
+  );
+
+  const buttonClass = 'px-3 py-1 text-sm rounded-md border disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <nav className="flex items-center justify-center space-x-1" aria-label="Pagination">
+      <button
+        onClick={() => onPageChange(page - 1)}
+        disabled={disabled || page <= 1}
+        className={`${buttonClass} border-gray-300 text-gray-700 bg-white hover:bg-gray-50`}
+        aria-label="Previous page"
+      >
+        <ChevronLeftIcon className="h-4 w-4" />
+      </button>
+      {pages.map((p, index) => (
+        <React.Fragment key={p}>
+          {index > 0 && p - pages[index - 1] > 1 && <span className="px-2 text-gray-400">…</span>}
+          <button
+            onClick={() => onPageChange(p)}
+            disabled={disabled}
+            aria-current={p === page ? 'page' : undefined}
+            className={`${buttonClass} ${
+              p === page
+                ? 'border-primary-600 bg-primary-600 text-white'
+                : 'border-gray-300 text-gray-700 bg-white hover:bg-gray-50'
+            }`}
+          >
+            {p}
+          </button>
+        </React.Fragment>
+      ))}
+      <button
+        onClick={() => onPageChange(page + 1)}
+        disabled={disabled || page >= totalPages}
+        className={`${buttonClass} border-gray-300 text-gray-700 bg-white hover:bg-gray-50`}
+        aria-label="Next page"
+      >
+        <ChevronRightIcon className="h-4 w-4" />
+      </button>
+    </nav>
+  );
+};
+
+export default Pagination;
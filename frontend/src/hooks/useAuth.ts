@@ -6,13 +6,14 @@ import {
   registerUser, 
   loadUser, 
   logoutUser, 
-  clearError 
+  clearError,
+  acknowledgeRecoveryCodes,
 } from '../store/slices/authSlice';
 import { LoginRequest, RegisterRequest } from '../services/api';
 
 export function useAuth() {
   const dispatch = useDispatch<AppDispatch>();
-  const { user, accessToken, isAuthenticated, loading, error } = useSelector(
+  const { user, accessToken, isAuthenticated, loading, error, loginRetryAt, twoFactorChallenge, recoveryCodes } = useSelector(
     (state: RootState) => state.auth
   );
 
@@ -39,15 +40,23 @@ export function useAuth() {
     dispatch(clearError());
   };
 
+  const dismissRecoveryCodes = () => {
+    dispatch(acknowledgeRecoveryCodes());
+  };
+
   return {
     user,
     accessToken,
     isAuthenticated,
     loading,
     error,
+    loginRetryAt,
+    twoFactorChallenge,
+    recoveryCodes,
     login,
     register,
     logout,
     clearError: clearAuthError,
+    dismissRecoveryCodes,
   };
 }
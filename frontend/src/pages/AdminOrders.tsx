@@ -0,0 +1,135 @@
+import React, { useEffect, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { RootState, AppDispatch } from '../store';
+import { fetchAllOrders, updateOrderStatus } from '../store/slices/orderAdminSlice';
+import { OrderQuery, OrderStatus } from '../services/api';
+import Pagination from '../components/UI/Pagination';
+import OrderStatusBadge from '../components/Orders/OrderStatusBadge';
+import { ORDER_TRANSITIONS, formatOrderStatus } from '../utils/orderStatus';
+import { formatINR } from '../utils/currency';
+
+const ADMIN_PAGE_SIZE = 50;
+
+const ORDER_STATUSES = Object.keys(ORDER_TRANSITIONS) as OrderStatus[];
+
+const AdminOrders: React.FC = () => {
+  const dispatch = useDispatch<AppDispatch>();
+  const { orders, loading, updatingOrderId, total, totalPages } = useSelector((s: RootState) => s.orderAdmin);
+  const [page, setPage] = useState(1);
+  const [status, setStatus] = useState<OrderStatus | ''>('');
+  const [customerInput, setCustomerInput] = useState('');
+  const [customer, setCustomer] = useState('');
+
+  useEffect(() => {
+    const query: OrderQuery = { page, limit: ADMIN_PAGE_SIZE };
+    if (status) query.status = status;
+    if (customer) query.userId = customer;
+    dispatch(fetchAllOrders(query));
+  }, [dispatch, page, status, customer]);
+
+  const onSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPage(1);
+    setCustomer(customerInput.trim());
+  };
+
+  const changeStatus = (id: string, next: OrderStatus) => {
+    dispatch(updateOrderStatus({ id, status: next }));
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <h1 className="text-2xl font-semibold">All Orders</h1>
+
+      <form onSubmit={onSearch} className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+        <div className="flex flex-col md:col-span-2">
+          <label className="text-sm text-gray-500">Customer</label>
+          <input className="border rounded px-3 py-2" value={customerInput} onChange={(e) => setCustomerInput(e.target.value)} placeholder="User id" />
+        </div>
+        <div className="flex flex-col">
+          <label className="text-sm text-gray-500">Status</label>
+          <select className="border rounded px-3 py-2" value={status} onChange={(e) => { setPage(1); setStatus(e.target.value as OrderStatus | ''); }}>
+            <option value="">All</option>
+            {ORDER_STATUSES.map((s) => (
+              <option key={s} value={s}>{formatOrderStatus(s)}</option>
+            ))}
+          </select>
+        </div>
+        <div className="md:col-span-4">
+          <button type="submit" className="bg-blue-600 text-white rounded px-4 py-2 w-full md:w-auto" disabled={loading}>
+            Search
+          </button>
+          <span className="ml-3 text-sm text-gray-500">{total} order{total !== 1 ? 's' : ''}</span>
+        </div>
+      </form>
+
+      <div className="overflow-x-auto border rounded">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Order</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Customer</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Placed</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Items</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Total</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+              <th className="px-4 py-2"/>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 bg-white">
+            {orders.map((order) => {
+              const busy = updatingOrderId === order.id;
+              const itemCount = order.items.reduce((count, item) => count + item.qty, 0);
+              return (
+                <tr key={order.id}>
+                  <td className="px-4 py-2 font-mono text-sm">#{order.id.slice(-8)}</td>
+                  <td className="px-4 py-2 text-sm">
+                    <span>{order.shippingAddress?.fullName || '—'}</span>
+                    <button
+                      type="button"
+                      className="ml-2 text-xs text-blue-600 hover:underline"
+                      onClick={() => { setPage(1); setCustomerInput(order.userId); setCustomer(order.userId); }}
+                      title="Show only this customer's orders"
+                    >
+                      all orders
+                    </button>
+                  </td>
+                  <td className="px-4 py-2 text-sm">{new Date(order.createdAt).toLocaleString()}</td>
+                  <td className="px-4 py-2 text-sm">{itemCount}</td>
+                  <td className="px-4 py-2 text-sm text-right">{formatINR(order.total)}</td>
+                  <td className="px-4 py-2"><OrderStatusBadge status={order.status} /></td>
+                  <td className="px-4 py-2 text-right">
+                    {ORDER_TRANSITIONS[order.status]?.length > 0 && (
+                      <select
+                        className="border rounded px-2 py-1 text-sm"
+                        value=""
+                        onChange={(e) => changeStatus(order.id, e.target.value as OrderStatus)}
+                        disabled={busy}
+                      >
+                        <option value="" disabled>{busy ? 'Updating…' : 'Move to…'}</option>
+                        {ORDER_TRANSITIONS[order.status].map((next) => (
+                          <option key={next} value={next}>{formatOrderStatus(next)}</option>
+                        ))}
+                      </select>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+            {orders.length === 0 && (
+              <tr>
+                <td className="px-4 py-6 text-center text-gray-500" colSpan={7}>
+                  {loading ? 'Loading orders…' : 'No orders found.'}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <Pagination page={page} totalPages={totalPages} onPageChange={setPage} disabled={loading} />
+    </div>
+  );
+};
+
+export default AdminOrders;
@@ -1,4 +1,4 @@
-import React, { useEffect, useMemo, useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useDispatch, useSelector } from 'react-redux';
 import { RootState, AppDispatch } from '../store';
 import {
@@ -7,23 +7,45 @@ import {
   updateProduct,
   deleteProduct,
 } from '../store/slices/productSlice';
+import {
+  fetchCategories,
+  createCategory,
+  deleteCategory,
+} from '../store/slices/categorySlice';
+import Pagination from '../components/UI/Pagination';
+import CategorySelect from '../components/Products/CategorySelect';
+
+const ADMIN_PAGE_SIZE = 50;
 
 const AdminProducts: React.FC = () => {
   const dispatch = useDispatch<AppDispatch>();
-  const { products, loading } = useSelector((s: RootState) => s.products);
+  const { products, loading, totalPages } = useSelector((s: RootState) => s.products);
+  const { categories } = useSelector((s: RootState) => s.categories);
+  const [page, setPage] = useState(1);
   const [name, setName] = useState('');
   const [price, setPrice] = useState<string>('');
   const [stock, setStock] = useState<string>('');
+  const [weight, setWeight] = useState<string>('');
+  const [sku, setSku] = useState('');
+  const [description, setDescription] = useState('');
+  const [categoryId, setCategoryId] = useState<string | null>(null);
   const [editingId, setEditingId] = useState<string | null>(null);
-  const [editValues, setEditValues] = useState<Record<string, { name: string; price: string; stock: string }>>({});
+  const [editValues, setEditValues] = useState<Record<string, { name: string; sku: string; price: string; stock: string; weight: string; categoryId: string | null }>>({});
+  const [categoryName, setCategoryName] = useState('');
+  const [categoryParentId, setCategoryParentId] = useState<string | null>(null);
+
+  const categoryNames = React.useMemo(
+    () => new Map(categories.map((c) => [c.id, c.name])),
+    [categories]
+  );
 
   useEffect(() => {
-    dispatch(fetchProducts());
+    dispatch(fetchCategories());
   }, [dispatch]);
 
-  const sortedProducts = useMemo(() => {
-    return [...products].sort((a, b) => a.name.localeCompare(b.name));
-  }, [products]);
+  useEffect(() => {
+    dispatch(fetchProducts({ page, limit: ADMIN_PAGE_SIZE, sort: 'name' }));
+  }, [dispatch, page]);
 
   const normalizePrice = (raw: string): number => {
     const cleaned = raw.replace(/[^0-9.]/g, '');
@@ -35,16 +57,50 @@ const AdminProducts: React.FC = () => {
     return Number.parseInt(cleaned || '0', 10);
   };
 
+  // Blank means unknown; weight-based shipping treats it as 0 g
+  const normalizeWeight = (raw: string): number | null => {
+    const cleaned = raw.replace(/[^0-9]/g, '');
+    return cleaned ? Number.parseInt(cleaned, 10) : null;
+  };
+
   const onCreate = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!name.trim()) return;
     const priceNum = normalizePrice(price);
     const stockNum = normalizeStock(stock);
     if (Number.isNaN(priceNum) || Number.isNaN(stockNum)) return;
-    await dispatch(createProduct({ name: name.trim(), price: priceNum, stock: stockNum } as any));
+    const result = await dispatch(createProduct({
+      name: name.trim(),
+      sku: sku.trim() || null,
+      description: description.trim() || null,
+      price: priceNum,
+      stock: stockNum,
+      weight: normalizeWeight(weight),
+      categoryId,
+    } as any));
+    if (!createProduct.fulfilled.match(result)) return;
     setName('');
+    setSku('');
+    setDescription('');
     setPrice('');
     setStock('');
+    setWeight('');
+    setCategoryId(null);
+  };
+
+  const onCreateCategory = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!categoryName.trim()) return;
+    const result = await dispatch(createCategory({ name: categoryName.trim(), parentId: categoryParentId }));
+    if (createCategory.fulfilled.match(result)) {
+      setCategoryName('');
+      setCategoryParentId(null);
+    }
+  };
+
+  const removeCategory = async (id: string) => {
+    if (!window.confirm('Delete this category? Its subcategories move up a level and its products become uncategorised.')) return;
+    await dispatch(deleteCategory(id));
   };
 
   const beginEdit = (id: string) => {
@@ -53,7 +109,7 @@ const AdminProducts: React.FC = () => {
     setEditingId(id);
     setEditValues((prev) => ({
       ...prev,
-      [id]: { name: p.name, price: String(p.price), stock: String(p.stock) },
+      [id]: { name: p.name, sku: p.sku || '', price: String(p.price), stock: String(p.stock), weight: p.weight != null ? String(p.weight) : '', categoryId: p.categoryId || null },
     }));
   };
 
@@ -66,8 +122,11 @@ const AdminProducts: React.FC = () => {
     if (!values) return;
     const payload: any = {
       name: values.name,
+      sku: values.sku.trim() || null,
       price: normalizePrice(values.price),
       stock: normalizeStock(values.stock),
+      weight: normalizeWeight(values.weight),
+      categoryId: values.categoryId,
     };
     await dispatch(updateProduct({ id, productData: payload }));
     setEditingId(null);
@@ -81,11 +140,15 @@ const AdminProducts: React.FC = () => {
     <div className="p-6 space-y-6">
       <h1 className="text-2xl font-semibold">Admin Products</h1>
 
-      <form onSubmit={onCreate} className="grid grid-cols-1 md:grid-cols-5 gap-3 items-end">
+      <form onSubmit={onCreate} className="grid grid-cols-1 md:grid-cols-7 gap-3 items-end">
         <div className="flex flex-col">
           <label className="text-sm text-gray-500">Name</label>
           <input className="border rounded px-3 py-2" value={name} onChange={(e) => setName(e.target.value)} placeholder="Product name" />
         </div>
+        <div className="flex flex-col">
+          <label className="text-sm text-gray-500">SKU</label>
+          <input className="border rounded px-3 py-2" value={sku} onChange={(e) => setSku(e.target.value)} placeholder="Optional" />
+        </div>
         <div className="flex flex-col">
           <label className="text-sm text-gray-500">Price</label>
           <input className="border rounded px-3 py-2" value={price} onChange={(e) => setPrice(e.target.value)} placeholder="0" />
@@ -94,7 +157,19 @@ const AdminProducts: React.FC = () => {
           <label className="text-sm text-gray-500">Stock</label>
           <input className="border rounded px-3 py-2" value={stock} onChange={(e) => setStock(e.target.value)} placeholder="0" />
         </div>
-        <div className="md:col-span-2">
+        <div className="flex flex-col">
+          <label className="text-sm text-gray-500">Weight (g)</label>
+          <input className="border rounded px-3 py-2" value={weight} onChange={(e) => setWeight(e.target.value)} placeholder="Optional" />
+        </div>
+        <div className="flex flex-col">
+          <label className="text-sm text-gray-500">Category</label>
+          <CategorySelect categories={categories} value={categoryId} onChange={setCategoryId} />
+        </div>
+        <div className="flex flex-col md:col-span-7">
+          <label className="text-sm text-gray-500">Description</label>
+          <textarea className="border rounded px-3 py-2" rows={2} value={description} onChange={(e) => setDescription(e.target.value)} placeholder="Optional" />
+        </div>
+        <div className="md:col-span-7">
           <button type="submit" className="bg-blue-600 text-white rounded px-4 py-2 w-full md:w-auto" disabled={loading}>
             {loading ? 'Creating...' : 'Create Product'}
           </button>
@@ -106,15 +181,18 @@ const AdminProducts: React.FC = () => {
           <thead className="bg-gray-50">
             <tr>
               <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Name</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">SKU</th>
               <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Price</th>
               <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Stock</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Weight (g)</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Category</th>
               <th className="px-4 py-2"/>
             </tr>
           </thead>
           <tbody className="divide-y divide-gray-200 bg-white">
-            {sortedProducts.map((p) => {
+            {products.map((p) => {
               const isEditing = editingId === p.id;
-              const ev = editValues[p.id] || { name: p.name, price: String(p.price), stock: String(p.stock) };
+              const ev = editValues[p.id] || { name: p.name, sku: p.sku || '', price: String(p.price), stock: String(p.stock), weight: p.weight != null ? String(p.weight) : '', categoryId: p.categoryId || null };
               return (
                 <tr key={p.id}>
                   <td className="px-4 py-2">
@@ -124,6 +202,13 @@ const AdminProducts: React.FC = () => {
                       <span>{p.name}</span>
                     )}
                   </td>
+                  <td className="px-4 py-2">
+                    {isEditing ? (
+                      <input className="border rounded px-2 py-1 w-full" value={ev.sku} onChange={(e) => setEditValues((prev) => ({ ...prev, [p.id]: { ...ev, sku: e.target.value } }))} />
+                    ) : (
+                      <span>{p.sku || '—'}</span>
+                    )}
+                  </td>
                   <td className="px-4 py-2">
                     {isEditing ? (
                       <input className="border rounded px-2 py-1 w-full" value={ev.price} onChange={(e) => setEditValues((prev) => ({ ...prev, [p.id]: { ...ev, price: e.target.value } }))} />
@@ -138,6 +223,25 @@ const AdminProducts: React.FC = () => {
                       <span>{p.stock}</span>
                     )}
                   </td>
+                  <td className="px-4 py-2">
+                    {isEditing ? (
+                      <input className="border rounded px-2 py-1 w-full" value={ev.weight} onChange={(e) => setEditValues((prev) => ({ ...prev, [p.id]: { ...ev, weight: e.target.value } }))} />
+                    ) : (
+                      <span>{p.weight ?? '—'}</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-2">
+                    {isEditing ? (
+                      <CategorySelect
+                        categories={categories}
+                        value={ev.categoryId}
+                        onChange={(value) => setEditValues((prev) => ({ ...prev, [p.id]: { ...ev, categoryId: value } }))}
+                        className="border rounded px-2 py-1 w-full"
+                      />
+                    ) : (
+                      <span>{(p.categoryId && categoryNames.get(p.categoryId)) || '—'}</span>
+                    )}
+                  </td>
                   <td className="px-4 py-2 text-right space-x-2">
                     {isEditing ? (
                       <>
@@ -162,9 +266,9 @@ const AdminProducts: React.FC = () => {
                 </tr>
               );
             })}
-            {sortedProducts.length === 0 && (
+            {products.length === 0 && (
               <tr>
-                <td className="px-4 py-6 text-center text-gray-500" colSpan={4}>
+                <td className="px-4 py-6 text-center text-gray-500" colSpan={7}>
                   {loading ? 'Loading products…' : 'No products yet.'}
                 </td>
               </tr>
@@ -172,6 +276,46 @@ const AdminProducts: React.FC = () => {
           </tbody>
         </table>
       </div>
+
+      <Pagination page={page} totalPages={totalPages} onPageChange={setPage} disabled={loading} />
+
+      <section className="space-y-4">
+        <h2 className="text-xl font-semibold">Categories</h2>
+        <form onSubmit={onCreateCategory} className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+          <div className="flex flex-col">
+            <label className="text-sm text-gray-500">Name</label>
+            <input className="border rounded px-3 py-2" value={categoryName} onChange={(e) => setCategoryName(e.target.value)} placeholder="Category name" />
+          </div>
+          <div className="flex flex-col">
+            <label className="text-sm text-gray-500">Parent</label>
+            <CategorySelect categories={categories} value={categoryParentId} onChange={setCategoryParentId} emptyLabel="Top level" />
+          </div>
+          <div className="md:col-span-2">
+            <button type="submit" className="bg-blue-600 text-white rounded px-4 py-2 w-full md:w-auto">
+              Create Category
+            </button>
+          </div>
+        </form>
+        <ul className="divide-y divide-gray-200 border rounded bg-white">
+          {categories.map((c) => (
+            <li key={c.id} className="flex items-center justify-between px-4 py-2">
+              <div>
+                <span className="font-medium">{c.name}</span>
+                <span className="ml-2 text-sm text-gray-500">/{c.slug}</span>
+                {c.parentId && (
+                  <span className="ml-2 text-sm text-gray-500">in {categoryNames.get(c.parentId) || 'unknown'}</span>
+                )}
+              </div>
+              <button className="bg-red-600 text-white rounded px-3 py-1" onClick={() => removeCategory(c.id)}>
+                Delete
+              </button>
+            </li>
+          ))}
+          {categories.length === 0 && (
+            <li className="px-4 py-6 text-center text-gray-500">No categories yet.</li>
+          )}
+        </ul>
+      </section>
     </div>
   );
 };
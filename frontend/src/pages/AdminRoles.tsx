@@ -0,0 +1,161 @@
+import React, { useEffect, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { RootState, AppDispatch } from '../store';
+import {
+  fetchRoles,
+  fetchPermissions,
+  createRole,
+  updateRole,
+  deleteRole,
+} from '../store/slices/roleSlice';
+import { Permission, Role } from '../services/api';
+
+const ADMIN_ROLE = 'admin';
+
+const togglePermission = (permissions: Permission[], permission: Permission) =>
+  permissions.includes(permission)
+    ? permissions.filter((p) => p !== permission)
+    : [...permissions, permission];
+
+const AdminRoles: React.FC = () => {
+  const dispatch = useDispatch<AppDispatch>();
+  const { roles, permissions, loading, saving } = useSelector((s: RootState) => s.roles);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [newPermissions, setNewPermissions] = useState<Permission[]>([]);
+  // Unsaved permission changes, keyed by role name
+  const [edits, setEdits] = useState<Record<string, Permission[]>>({});
+
+  useEffect(() => {
+    dispatch(fetchRoles());
+    dispatch(fetchPermissions());
+  }, [dispatch]);
+
+  const onCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    const result = await dispatch(createRole({
+      name: name.trim().toLowerCase(),
+      description: description.trim() || null,
+      permissions: newPermissions,
+    }));
+    if (!createRole.fulfilled.match(result)) return;
+    setName('');
+    setDescription('');
+    setNewPermissions([]);
+  };
+
+  const editedPermissions = (role: Role) => edits[role.name] ?? role.permissions;
+
+  const save = async (role: Role) => {
+    const result = await dispatch(updateRole({ name: role.name, roleData: { permissions: editedPermissions(role) } }));
+    if (!updateRole.fulfilled.match(result)) return;
+    setEdits(({ [role.name]: _saved, ...rest }) => rest);
+  };
+
+  const remove = async (role: Role) => {
+    if (!window.confirm(`Delete the ${role.name} role? Roles still assigned to users cannot be deleted.`)) return;
+    await dispatch(deleteRole(role.name));
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <h1 className="text-2xl font-semibold">Roles</h1>
+      <p className="text-sm text-gray-500">
+        Users get a role&apos;s permissions the next time their access token is issued, at the latest after it expires.
+      </p>
+
+      <form onSubmit={onCreate} className="space-y-3 border rounded p-4 bg-white">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end">
+          <div className="flex flex-col">
+            <label className="text-sm text-gray-500">Name</label>
+            <input className="border rounded px-3 py-2" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. catalogue-editor" />
+          </div>
+          <div className="flex flex-col md:col-span-2">
+            <label className="text-sm text-gray-500">Description</label>
+            <input className="border rounded px-3 py-2" value={description} onChange={(e) => setDescription(e.target.value)} placeholder="Optional" />
+          </div>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+          {permissions.map((p) => (
+            <label key={p.name} className="flex items-start space-x-2 text-sm" title={p.description}>
+              <input
+                type="checkbox"
+                className="mt-1"
+                checked={newPermissions.includes(p.name)}
+                onChange={() => setNewPermissions((prev) => togglePermission(prev, p.name))}
+              />
+              <span className="font-mono">{p.name}</span>
+            </label>
+          ))}
+        </div>
+        <button type="submit" className="bg-blue-600 text-white rounded px-4 py-2 w-full md:w-auto" disabled={saving}>
+          {saving ? 'Saving...' : 'Create Role'}
+        </button>
+      </form>
+
+      <div className="overflow-x-auto border rounded">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Role</th>
+              {permissions.map((p) => (
+                <th key={p.name} className="px-2 py-2 text-center text-xs font-medium text-gray-500" title={p.description}>
+                  <span className="font-mono">{p.name}</span>
+                </th>
+              ))}
+              <th className="px-4 py-2"/>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 bg-white">
+            {roles.map((role) => {
+              // admin always holds every permission, so its row is read-only
+              const locked = role.name === ADMIN_ROLE;
+              const current = editedPermissions(role);
+              return (
+                <tr key={role.name}>
+                  <td className="px-4 py-2">
+                    <span className="font-medium">{role.name}</span>
+                    {role.builtIn && <span className="ml-2 text-xs text-gray-500">built-in</span>}
+                    {role.description && <p className="text-sm text-gray-500">{role.description}</p>}
+                  </td>
+                  {permissions.map((p) => (
+                    <td key={p.name} className="px-2 py-2 text-center">
+                      <input
+                        type="checkbox"
+                        checked={current.includes(p.name)}
+                        disabled={locked}
+                        onChange={() => setEdits((prev) => ({ ...prev, [role.name]: togglePermission(current, p.name) }))}
+                      />
+                    </td>
+                  ))}
+                  <td className="px-4 py-2 text-right space-x-2 whitespace-nowrap">
+                    {edits[role.name] && (
+                      <button className="bg-green-600 text-white rounded px-3 py-1" onClick={() => save(role)} disabled={saving}>
+                        Save
+                      </button>
+                    )}
+                    {!role.builtIn && (
+                      <button className="bg-red-600 text-white rounded px-3 py-1" onClick={() => remove(role)}>
+                        Delete
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+            {roles.length === 0 && (
+              <tr>
+                <td className="px-4 py-6 text-center text-gray-500" colSpan={permissions.length + 2}>
+                  {loading ? 'Loading roles…' : 'No roles yet.'}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default AdminRoles;
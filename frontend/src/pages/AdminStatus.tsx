@@ -0,0 +1,88 @@
+import React, { useEffect } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { RootState, AppDispatch } from '../store';
+import { fetchSystemStatus } from '../store/slices/systemStatusSlice';
+import { DependencyHealth } from '../services/api';
+
+const REFRESH_INTERVAL_MS = 30000;
+
+const StatusBadge: React.FC<{ health: DependencyHealth }> = ({ health }) => (
+  <span
+    className={`px-2 py-0.5 rounded text-xs font-medium ${
+      health.status === 'up' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+    }`}
+  >
+    {health.status === 'up' ? 'Up' : 'Down'}
+  </span>
+);
+
+const AdminStatus: React.FC = () => {
+  const dispatch = useDispatch<AppDispatch>();
+  const { status, loading } = useSelector((s: RootState) => s.systemStatus);
+
+  useEffect(() => {
+    dispatch(fetchSystemStatus());
+    const timer = setInterval(() => dispatch(fetchSystemStatus()), REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [dispatch]);
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-semibold">System Status</h1>
+        <button
+          className="bg-blue-600 text-white rounded px-4 py-2 disabled:opacity-50"
+          onClick={() => dispatch(fetchSystemStatus())}
+          disabled={loading}
+        >
+          {loading ? 'Checking...' : 'Refresh'}
+        </button>
+      </div>
+
+      {status && (
+        <div className={`border rounded p-4 ${status.ok ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'}`}>
+          <p className="font-medium">{status.ok ? 'All systems operational' : 'Some services are degraded'}</p>
+          <p className="text-sm text-gray-500">Checked {new Date(status.checkedAt).toLocaleString()}; refreshes every 30 seconds.</p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {status && Object.entries(status.services).map(([name, service]) => (
+          <div key={name} className="border rounded p-4 bg-white space-y-3">
+            <div className="flex items-center justify-between">
+              <span className="font-medium">{name}</span>
+              <div className="flex items-center space-x-2">
+                <span className="text-sm text-gray-500">{service.latencyMs} ms</span>
+                <StatusBadge health={service} />
+              </div>
+            </div>
+            {service.error && <p className="text-sm text-red-600">{service.error}</p>}
+            {service.dependencies && (
+              <ul className="divide-y divide-gray-100">
+                {Object.entries(service.dependencies).map(([dependency, health]) => (
+                  <li key={dependency} className="py-2 text-sm">
+                    <div className="flex items-center justify-between">
+                      <span className="font-mono">{dependency}</span>
+                      <div className="flex items-center space-x-2">
+                        <span className="text-gray-500">{health.latencyMs} ms</span>
+                        <StatusBadge health={health} />
+                      </div>
+                    </div>
+                    {health.error && <p className="text-red-600">{health.error}</p>}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ))}
+        {!status && (
+          <p className="text-center text-gray-500 md:col-span-2 py-6">
+            {loading ? 'Checking services…' : 'Status unavailable.'}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AdminStatus;
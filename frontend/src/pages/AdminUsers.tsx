@@ -0,0 +1,205 @@
+import React, { useEffect, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { RootState, AppDispatch } from '../store';
+import {
+  fetchUsers,
+  updateUserRole,
+  setUserDisabled,
+  unlockUser,
+  resetUserTwoFactor,
+  deleteUser,
+} from '../store/slices/userAdminSlice';
+import { fetchRoles } from '../store/slices/roleSlice';
+import { UserQuery } from '../services/api';
+import Pagination from '../components/UI/Pagination';
+import { hasPermission } from '../utils/permissions';
+
+const ADMIN_PAGE_SIZE = 50;
+
+type StatusFilter = '' | 'active' | 'disabled';
+
+const AdminUsers: React.FC = () => {
+  const dispatch = useDispatch<AppDispatch>();
+  const { users, loading, updatingUserId, total, totalPages } = useSelector((s: RootState) => s.userAdmin);
+  const { roles } = useSelector((s: RootState) => s.roles);
+  const { user: currentUser } = useSelector((s: RootState) => s.auth);
+  const canWrite = hasPermission(currentUser, 'users:write');
+  const [page, setPage] = useState(1);
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [role, setRole] = useState('');
+  const [status, setStatus] = useState<StatusFilter>('');
+
+  useEffect(() => {
+    dispatch(fetchRoles());
+  }, [dispatch]);
+
+  useEffect(() => {
+    const query: UserQuery = { page, limit: ADMIN_PAGE_SIZE };
+    if (search) query.q = search;
+    if (role) query.role = role;
+    if (status) query.disabled = status === 'disabled';
+    dispatch(fetchUsers(query));
+  }, [dispatch, page, search, role, status]);
+
+  const onSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPage(1);
+    setSearch(searchInput.trim());
+  };
+
+  const changeRole = (id: string, nextRole: string) => {
+    dispatch(updateUserRole({ id, role: nextRole }));
+  };
+
+  const toggleDisabled = (id: string, disabled: boolean) => {
+    if (disabled && !window.confirm('Disable this user? All their sessions are revoked and they cannot log in again until re-enabled.')) return;
+    dispatch(setUserDisabled({ id, disabled }));
+  };
+
+  const resetTwoFactor = (id: string, username: string) => {
+    if (!window.confirm(`Reset two-factor authentication for ${username}? Their sessions are revoked; if their role requires it they set it up again at their next login.`)) return;
+    dispatch(resetUserTwoFactor(id));
+  };
+
+  const remove = async (id: string, username: string) => {
+    if (!window.confirm(`Delete ${username}? Their saved addresses are deleted too; their orders are kept.`)) return;
+    await dispatch(deleteUser(id));
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <h1 className="text-2xl font-semibold">Admin Users</h1>
+
+      <form onSubmit={onSearch} className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+        <div className="flex flex-col md:col-span-2">
+          <label className="text-sm text-gray-500">Username</label>
+          <input className="border rounded px-3 py-2" value={searchInput} onChange={(e) => setSearchInput(e.target.value)} placeholder="Search by username" />
+        </div>
+        <div className="flex flex-col">
+          <label className="text-sm text-gray-500">Role</label>
+          <select className="border rounded px-3 py-2" value={role} onChange={(e) => { setPage(1); setRole(e.target.value); }}>
+            <option value="">All roles</option>
+            {roles.map((r) => (
+              <option key={r.name} value={r.name}>{r.name}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex flex-col">
+          <label className="text-sm text-gray-500">Status</label>
+          <select className="border rounded px-3 py-2" value={status} onChange={(e) => { setPage(1); setStatus(e.target.value as StatusFilter); }}>
+            <option value="">All</option>
+            <option value="active">Active</option>
+            <option value="disabled">Disabled</option>
+          </select>
+        </div>
+        <div className="md:col-span-4">
+          <button type="submit" className="bg-blue-600 text-white rounded px-4 py-2 w-full md:w-auto" disabled={loading}>
+            Search
+          </button>
+          <span className="ml-3 text-sm text-gray-500">{total} user{total !== 1 ? 's' : ''}</span>
+        </div>
+      </form>
+
+      <div className="overflow-x-auto border rounded">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Username</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Role</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Joined</th>
+              <th className="px-4 py-2"/>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 bg-white">
+            {users.map((u) => {
+              // The server refuses changes to your own account, so don't offer them
+              const isSelf = u.id === currentUser?.id;
+              const busy = updatingUserId === u.id;
+              const locked = !!u.lockedUntil && new Date(u.lockedUntil) > new Date();
+              return (
+                <tr key={u.id}>
+                  <td className="px-4 py-2">
+                    <span>{u.username}</span>
+                    {isSelf && <span className="ml-2 text-xs text-gray-500">(you)</span>}
+                  </td>
+                  <td className="px-4 py-2">
+                    <select
+                      className="border rounded px-2 py-1"
+                      value={u.role}
+                      onChange={(e) => changeRole(u.id, e.target.value)}
+                      disabled={!canWrite || isSelf || busy}
+                    >
+                      {/* Keep the current role selectable even before roles have loaded */}
+                      {!roles.some((r) => r.name === u.role) && <option value={u.role}>{u.role}</option>}
+                      {roles.map((r) => (
+                        <option key={r.name} value={r.name}>{r.name}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-4 py-2 space-x-1">
+                    {u.disabled ? (
+                      <span className="px-2 py-1 text-xs rounded-full bg-red-100 text-red-800">Disabled</span>
+                    ) : (
+                      <span className="px-2 py-1 text-xs rounded-full bg-green-100 text-green-800">Active</span>
+                    )}
+                    {locked && (
+                      <span
+                        className="px-2 py-1 text-xs rounded-full bg-yellow-100 text-yellow-800"
+                        title={`Failed logins; locked until ${new Date(u.lockedUntil as string).toLocaleString()}`}
+                      >
+                        Locked
+                      </span>
+                    )}
+                    {u.twoFactorEnabled && (
+                      <span className="px-2 py-1 text-xs rounded-full bg-blue-100 text-blue-800">2FA</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-2">{new Date(u.createdAt).toLocaleDateString()}</td>
+                  <td className="px-4 py-2 text-right space-x-2">
+                    {canWrite && locked && (
+                      <button className="bg-yellow-600 text-white rounded px-3 py-1" onClick={() => dispatch(unlockUser(u.id))} disabled={busy}>
+                        Unlock
+                      </button>
+                    )}
+                    {canWrite && !isSelf && (
+                      <>
+                        {u.twoFactorEnabled && (
+                          <button className="bg-blue-600 text-white rounded px-3 py-1" onClick={() => resetTwoFactor(u.id, u.username)} disabled={busy}>
+                            Reset 2FA
+                          </button>
+                        )}
+                        <button
+                          className="bg-gray-700 text-white rounded px-3 py-1"
+                          onClick={() => toggleDisabled(u.id, !u.disabled)}
+                          disabled={busy}
+                        >
+                          {u.disabled ? 'Enable' : 'Disable'}
+                        </button>
+                        <button className="bg-red-600 text-white rounded px-3 py-1" onClick={() => remove(u.id, u.username)} disabled={busy}>
+                          Delete
+                        </button>
+                      </>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+            {users.length === 0 && (
+              <tr>
+                <td className="px-4 py-6 text-center text-gray-500" colSpan={5}>
+                  {loading ? 'Loading users…' : 'No users found.'}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <Pagination page={page} totalPages={totalPages} onPageChange={setPage} disabled={loading} />
+    </div>
+  );
+};
+
+export default AdminUsers;
@@ -1,22 +1,78 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { useDispatch, useSelector } from 'react-redux';
+import { useNavigate } from 'react-router-dom';
 import { AppDispatch, RootState } from '../store';
 import { 
   removeFromCart, 
   updateCartItemQuantity, 
   clearCart,
   createOrder,
+  fetchQuote,
   selectCartTotal 
 } from '../store/slices/orderSlice';
+import { fetchAddresses, createAddress } from '../store/slices/addressSlice';
 import { ShoppingCartIcon, TrashIcon } from '@heroicons/react/24/outline';
 import LoadingSpinner from '../components/UI/LoadingSpinner';
 import toast from 'react-hot-toast';
 import { formatINR } from '../utils/currency';
+import { formatAddress, toShippingAddress } from '../utils/address';
+import AddressForm from '../components/Addresses/AddressForm';
+import { AddressInput } from '../services/api';
 
 const Cart: React.FC = () => {
   const dispatch = useDispatch<AppDispatch>();
-  const { cart, orderLoading } = useSelector((state: RootState) => state.orders);
+  const navigate = useNavigate();
+  const { cart, orderLoading, couponCode, quote, quoteLoading } = useSelector((state: RootState) => state.orders);
   const cartTotal = useSelector(selectCartTotal);
+  const { addresses, loading: addressesLoading, saving: addressSaving } = useSelector((state: RootState) => state.addresses);
+  const [couponInput, setCouponInput] = useState('');
+  const [selectedAddressId, setSelectedAddressId] = useState<string | null>(null);
+  const [showAddressForm, setShowAddressForm] = useState(false);
+  const selectedAddress = addresses.find(address => address.id === selectedAddressId);
+
+  // Re-price whenever the lines change; the applied coupon is read inside the thunk
+  const cartKey = cart.map(item => `${item.productId}:${item.qty}`).join(',');
+
+  useEffect(() => {
+    if (cartKey) {
+      dispatch(fetchQuote());
+    }
+  }, [dispatch, cartKey]);
+
+  useEffect(() => {
+    dispatch(fetchAddresses());
+  }, [dispatch]);
+
+  // Preselect the default address, and pick again if the selected one goes away
+  useEffect(() => {
+    if (!selectedAddress && addresses.length > 0) {
+      setSelectedAddressId((addresses.find(address => address.isDefault) || addresses[0]).id);
+    }
+  }, [addresses, selectedAddress]);
+
+  const handleAddAddress = async (values: AddressInput) => {
+    try {
+      const address = await dispatch(createAddress(values)).unwrap();
+      setSelectedAddressId(address.id);
+      setShowAddressForm(false);
+    } catch (error) {
+      // Error is handled by the thunk
+    }
+  };
+
+  const handleApplyCoupon = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const code = couponInput.trim();
+    if (!code) return;
+
+    try {
+      const result = await dispatch(fetchQuote(code)).unwrap();
+      setCouponInput('');
+      toast.success(`Coupon applied, you save ${formatINR(result.quote.discount)}`);
+    } catch (error) {
+      // Error is handled by the thunk
+    }
+  };
 
   const handleQuantityChange = (productId: string, newQuantity: number) => {
     if (newQuantity <= 0) {
@@ -26,14 +82,22 @@ const Cart: React.FC = () => {
     }
   };
 
-  const handleRemoveItem = (productId: string) => {
-    dispatch(removeFromCart(productId));
-    toast.success('Item removed from cart');
+  const handleRemoveItem = async (productId: string) => {
+    try {
+      await dispatch(removeFromCart(productId)).unwrap();
+      toast.success('Item removed from cart');
+    } catch (error) {
+      // Error is handled by the thunk
+    }
   };
 
-  const handleClearCart = () => {
-    dispatch(clearCart());
-    toast.success('Cart cleared');
+  const handleClearCart = async () => {
+    try {
+      await dispatch(clearCart()).unwrap();
+      toast.success('Cart cleared');
+    } catch (error) {
+      // Error is handled by the thunk
+    }
   };
 
   const handleCheckout = async () => {
@@ -41,6 +105,10 @@ const Cart: React.FC = () => {
       toast.error('Your cart is empty');
       return;
     }
+    if (!selectedAddress) {
+      toast.error('Please choose a delivery address');
+      return;
+    }
 
     try {
       const orderData = {
@@ -48,10 +116,12 @@ const Cart: React.FC = () => {
           productId: item.productId,
           qty: item.qty,
         })),
+        ...(couponCode && { couponCode }),
+        shippingAddress: toShippingAddress(selectedAddress),
       };
 
-      await dispatch(createOrder(orderData)).unwrap();
-      toast.success('Order placed successfully!');
+      const order = await dispatch(createOrder(orderData)).unwrap();
+      navigate(`/orders/${order.id}/pay`);
     } catch (error) {
       // Error is handled by the thunk
     }
@@ -142,13 +212,123 @@ const Cart: React.FC = () => {
         </div>
       </div>
 
+      {/* Delivery Address */}
+      <div className="bg-white rounded-lg shadow p-6 space-y-4">
+        <h2 className="text-lg font-medium text-gray-900">Delivery Address</h2>
+
+        {addressesLoading && addresses.length === 0 ? (
+          <LoadingSpinner size="sm" />
+        ) : (
+          <>
+            {addresses.length > 0 && (
+              <div className="space-y-2">
+                {addresses.map((address) => (
+                  <label
+                    key={address.id}
+                    className={`flex items-start space-x-3 p-3 border rounded-md cursor-pointer ${
+                      address.id === selectedAddressId ? 'border-primary-500 bg-primary-50' : 'border-gray-200'
+                    }`}
+                  >
+                    <input
+                      type="radio"
+                      name="shippingAddress"
+                      className="mt-1"
+                      checked={address.id === selectedAddressId}
+                      onChange={() => setSelectedAddressId(address.id)}
+                    />
+                    <div className="text-sm">
+                      <p className="font-medium text-gray-900">
+                        {address.fullName}
+                        {address.isDefault && <span className="ml-2 text-xs text-gray-500">Default</span>}
+                      </p>
+                      <p className="text-gray-600">{formatAddress(address)}</p>
+                      <p className="text-gray-500">Phone: {address.phone}</p>
+                    </div>
+                  </label>
+                ))}
+              </div>
+            )}
+
+            {showAddressForm || addresses.length === 0 ? (
+              <AddressForm
+                saving={addressSaving}
+                submitLabel="Save and Deliver Here"
+                onSubmit={handleAddAddress}
+                onCancel={addresses.length > 0 ? () => setShowAddressForm(false) : undefined}
+              />
+            ) : (
+              <button
+                onClick={() => setShowAddressForm(true)}
+                className="text-sm font-medium text-primary-600 hover:text-primary-500"
+              >
+                + Add a new address
+              </button>
+            )}
+          </>
+        )}
+      </div>
+
       {/* Cart Summary */}
       <div className="bg-white rounded-lg shadow p-6">
         <div className="space-y-4">
-          <div className="flex justify-between text-lg font-medium">
-            <span>Total</span>
-            <span>{formatINR(cartTotal)}</span>
-          </div>
+          {quote ? (
+            <>
+              <div className="flex justify-between text-sm text-gray-600">
+                <span>Subtotal</span>
+                <span>{formatINR(quote.subtotal)}</span>
+              </div>
+              {couponCode && (
+                <div className="flex justify-between text-sm text-green-700">
+                  <span>
+                    Coupon <span className="font-medium">{couponCode}</span>
+                    <button
+                      onClick={() => dispatch(fetchQuote(null))}
+                      className="ml-2 text-xs text-red-600 hover:text-red-500"
+                    >
+                      Remove
+                    </button>
+                  </span>
+                  <span>-{formatINR(quote.discount)}</span>
+                </div>
+              )}
+              <div className="flex justify-between text-sm text-gray-600">
+                <span>GST</span>
+                <span>{formatINR(quote.tax)}</span>
+              </div>
+              <div className="flex justify-between text-sm text-gray-600">
+                <span>Shipping</span>
+                <span>{quote.shipping > 0 ? formatINR(quote.shipping) : 'Free'}</span>
+              </div>
+              <div className="flex justify-between text-lg font-medium">
+                <span>Total</span>
+                <span>{formatINR(quote.total)}</span>
+              </div>
+            </>
+          ) : (
+            <div className="flex justify-between text-lg font-medium">
+              <span>Subtotal</span>
+              <span>{formatINR(cartTotal)}</span>
+            </div>
+          )}
+
+          {!couponCode && (
+            <form onSubmit={handleApplyCoupon} className="flex space-x-2">
+              <input
+                type="text"
+                value={couponInput}
+                onChange={(e) => setCouponInput(e.target.value.toUpperCase())}
+                placeholder="Coupon code"
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+              />
+              <button
+                type="submit"
+                disabled={quoteLoading || !couponInput.trim()}
+                className="px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {quoteLoading ? <LoadingSpinner size="sm" /> : 'Apply'}
+              </button>
+            </form>
+          )}
           
           <div className="text-sm text-gray-500">
             {cart.length} item{cart.length !== 1 ? 's' : ''} in your cart
@@ -156,13 +336,13 @@ const Cart: React.FC = () => {
 
           <button
             onClick={handleCheckout}
-            disabled={orderLoading}
+            disabled={orderLoading || quoteLoading || !selectedAddress}
             className="w-full flex items-center justify-center px-6 py-3 border border-transparent text-base font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed"
           >
             {orderLoading ? (
               <LoadingSpinner size="sm" />
             ) : (
-              'Proceed to Checkout'
+              'Place Order and Pay'
             )}
           </button>
         </div>
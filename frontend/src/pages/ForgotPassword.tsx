@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { apiService } from '../services/api';
+import AuthCard from '../components/Auth/AuthCard';
+import LoadingSpinner from '../components/UI/LoadingSpinner';
+
+const ForgotPassword: React.FC = () => {
+  const [email, setEmail] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [sent, setSent] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+
+    setLoading(true);
+    try {
+      await apiService.forgotPassword(email.trim());
+      setSent(true);
+    } catch (err) {
+      // Error toast is shown by the API client
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <AuthCard title="Forgot your password?" subtitle="We'll email you a link to choose a new one">
+      {sent ? (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-4 text-sm text-green-800">
+          If an account uses {email.trim()}, a reset link is on its way. It expires in an hour.
+        </div>
+      ) : (
+        <form className="space-y-6" onSubmit={handleSubmit}>
+          <div>
+            <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
+              Email
+            </label>
+            <input
+              id="email"
+              name="email"
+              type="email"
+              required
+              className="input-field"
+              placeholder="The email on your account"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+            />
+          </div>
+
+          <button
+            type="submit"
+            disabled={loading}
+            className="w-full btn-primary py-3 text-base font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {loading ? (
+              <div className="flex items-center justify-center">
+                <LoadingSpinner size="sm" />
+                <span className="ml-2">Sending...</span>
+              </div>
+            ) : (
+              'Send reset link'
+            )}
+          </button>
+        </form>
+      )}
+
+      <div className="mt-6 text-center">
+        <p className="text-sm text-gray-600">
+          Remembered it?{' '}
+          <Link to="/login" className="font-semibold text-primary-600 hover:text-primary-500 transition-colors">
+            Sign in here
+          </Link>
+        </p>
+      </div>
+    </AuthCard>
+  );
+};
+
+export default ForgotPassword;
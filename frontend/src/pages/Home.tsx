@@ -15,11 +15,11 @@ import {
 const Home: React.FC = () => {
   const dispatch = useDispatch<AppDispatch>();
   const { user } = useSelector((state: RootState) => state.auth);
-  const { products, loading: productsLoading } = useSelector((state: RootState) => state.products);
+  const { products, total: totalProducts, loading: productsLoading } = useSelector((state: RootState) => state.products);
   const { orders, loading: ordersLoading } = useSelector((state: RootState) => state.orders);
 
   useEffect(() => {
-    dispatch(fetchProducts());
+    dispatch(fetchProducts({ limit: 4, sort: '-createdAt' }));
     dispatch(fetchOrders());
   }, [dispatch]);
 
@@ -56,7 +56,7 @@ const Home: React.FC = () => {
             </div>
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-500">Total Products</p>
-              <p className="text-2xl font-semibold text-gray-900">{products.length}</p>
+              <p className="text-2xl font-semibold text-gray-900">{totalProducts}</p>
             </div>
           </div>
         </div>
@@ -2,6 +2,11 @@ import React, { useState, useEffect } from 'react';
 import { Link, useNavigate, useLocation } from 'react-router-dom';
 import { useAuth } from '../hooks/useAuth';
 import LoadingSpinner from '../components/UI/LoadingSpinner';
+import TwoFactorLogin from '../components/Auth/TwoFactorLogin';
+import RecoveryCodes from '../components/Auth/RecoveryCodes';
+
+const formatWait = (seconds: number) =>
+  seconds >= 60 ? `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}` : `${seconds}s`;
 
 const Login: React.FC = () => {
   const [formData, setFormData] = useState({
@@ -10,17 +15,40 @@ const Login: React.FC = () => {
   });
   const [showPassword, setShowPassword] = useState(false);
 
-  const { login, loading, error, isAuthenticated } = useAuth();
+  const {
+    login,
+    loading,
+    error,
+    loginRetryAt,
+    isAuthenticated,
+    twoFactorChallenge,
+    recoveryCodes,
+    dismissRecoveryCodes,
+  } = useAuth();
+  const [now, setNow] = useState(Date.now());
+  const waitSeconds = loginRetryAt ? Math.max(Math.ceil((loginRetryAt - now) / 1000), 0) : 0;
   const navigate = useNavigate();
   const location = useLocation();
 
   const from = location.state?.from?.pathname || '/';
 
+  // Wait until freshly issued recovery codes have been acknowledged
   useEffect(() => {
-    if (isAuthenticated) {
+    if (isAuthenticated && !recoveryCodes) {
       navigate(from, { replace: true });
     }
-  }, [isAuthenticated, navigate, from]);
+  }, [isAuthenticated, recoveryCodes, navigate, from]);
+
+  // Tick while a lockout counts down
+  useEffect(() => {
+    if (!loginRetryAt) return;
+    setNow(Date.now());
+    const timer = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= loginRetryAt) clearInterval(timer);
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [loginRetryAt]);
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setFormData({
@@ -31,7 +59,7 @@ const Login: React.FC = () => {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!formData.username || !formData.password) return;
+    if (!formData.username || !formData.password || waitSeconds > 0) return;
 
     try {
       await login(formData);
@@ -55,98 +83,118 @@ const Login: React.FC = () => {
               Welcome back
             </h2>
             <p className="text-gray-600">
-              Sign in to your MicroStore account
+              {recoveryCodes
+                ? 'Two-factor authentication is on'
+                : twoFactorChallenge
+                  ? 'One more step to sign in'
+                  : 'Sign in to your MicroStore account'}
             </p>
           </div>
-          
-          <form className="space-y-6" onSubmit={handleSubmit}>
-            <div className="space-y-4">
-              <div>
-                <label htmlFor="username" className="block text-sm font-medium text-gray-700 mb-2">
-                  Username
-                </label>
-                <input
-                  id="username"
-                  name="username"
-                  type="text"
-                  required
-                  className="input-field"
-                  placeholder="Enter your username"
-                  value={formData.username}
-                  onChange={handleChange}
-                />
-              </div>
-              
-              <div>
-                <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
-                  Password
-                </label>
-                <div className="relative">
-                  <input
-                    id="password"
-                    name="password"
-                    type={showPassword ? 'text' : 'password'}
-                    required
-                    className="input-field pr-12"
-                    placeholder="Enter your password"
-                    value={formData.password}
-                    onChange={handleChange}
-                  />
-                  <button
-                    type="button"
-                    className="absolute inset-y-0 right-0 pr-3 flex items-center"
-                    onClick={() => setShowPassword(!showPassword)}
-                  >
-                    <span className="text-sm text-gray-500 hover:text-gray-700 transition-colors">
-                      {showPassword ? 'Hide' : 'Show'}
-                    </span>
-                  </button>
-                </div>
-              </div>
-            </div>
 
-            {error && (
-              <div className="bg-red-50 border border-red-200 rounded-lg p-4">
-                <div className="flex">
-                  <div className="flex-shrink-0">
-                    <svg className="h-5 w-5 text-red-400" viewBox="0 0 20 20" fill="currentColor">
-                      <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
-                    </svg>
+          {recoveryCodes ? (
+            <RecoveryCodes codes={recoveryCodes} onDone={dismissRecoveryCodes} />
+          ) : twoFactorChallenge ? (
+            <TwoFactorLogin />
+          ) : (
+            <>
+              <form className="space-y-6" onSubmit={handleSubmit}>
+                <div className="space-y-4">
+                  <div>
+                    <label htmlFor="username" className="block text-sm font-medium text-gray-700 mb-2">
+                      Username
+                    </label>
+                    <input
+                      id="username"
+                      name="username"
+                      type="text"
+                      required
+                      className="input-field"
+                      placeholder="Enter your username"
+                      value={formData.username}
+                      onChange={handleChange}
+                    />
                   </div>
-                  <div className="ml-3">
-                    <p className="text-sm text-red-800">{error}</p>
+              
+                  <div>
+                    <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
+                      Password
+                    </label>
+                    <div className="relative">
+                      <input
+                        id="password"
+                        name="password"
+                        type={showPassword ? 'text' : 'password'}
+                        required
+                        className="input-field pr-12"
+                        placeholder="Enter your password"
+                        value={formData.password}
+                        onChange={handleChange}
+                      />
+                      <button
+                        type="button"
+                        className="absolute inset-y-0 right-0 pr-3 flex items-center"
+                        onClick={() => setShowPassword(!showPassword)}
+                      >
+                        <span className="text-sm text-gray-500 hover:text-gray-700 transition-colors">
+                          {showPassword ? 'Hide' : 'Show'}
+                        </span>
+                      </button>
+                    </div>
+                    <div className="mt-2 text-right">
+                      <Link to="/forgot-password" className="text-sm text-primary-600 hover:text-primary-500 transition-colors">
+                        Forgot your password?
+                      </Link>
+                    </div>
                   </div>
                 </div>
-              </div>
-            )}
 
-            <button
-              type="submit"
-              disabled={loading}
-              className="w-full btn-primary py-3 text-base font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              {loading ? (
-                <div className="flex items-center justify-center">
-                  <LoadingSpinner size="sm" />
-                  <span className="ml-2">Signing in...</span>
-                </div>
-              ) : (
-                'Sign in'
-              )}
-            </button>
-          </form>
+                {error && (
+                  <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+                    <div className="flex">
+                      <div className="flex-shrink-0">
+                        <svg className="h-5 w-5 text-red-400" viewBox="0 0 20 20" fill="currentColor">
+                          <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
+                        </svg>
+                      </div>
+                      <div className="ml-3">
+                        <p className="text-sm text-red-800">{error}</p>
+                        {waitSeconds > 0 && (
+                          <p className="text-sm text-red-800 mt-1">Try again in {formatWait(waitSeconds)}.</p>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                )}
+
+                <button
+                  type="submit"
+                  disabled={loading || waitSeconds > 0}
+                  className="w-full btn-primary py-3 text-base font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {loading ? (
+                    <div className="flex items-center justify-center">
+                      <LoadingSpinner size="sm" />
+                      <span className="ml-2">Signing in...</span>
+                    </div>
+                  ) : (
+                    'Sign in'
+                  )}
+                </button>
+              </form>
           
-          <div className="mt-6 text-center">
-            <p className="text-sm text-gray-600">
-              Don't have an account?{' '}
-              <Link
-                to="/register"
-                className="font-semibold text-primary-600 hover:text-primary-500 transition-colors"
-              >
-                Create one here
-              </Link>
-            </p>
-          </div>
+              <div className="mt-6 text-center">
+                <p className="text-sm text-gray-600">
+                  Don't have an account?{' '}
+                  <Link
+                    to="/register"
+                    className="font-semibold text-primary-600 hover:text-primary-500 transition-colors"
+                  >
+                    Create one here
+                  </Link>
+                </p>
+              </div>
+            </>
+          )}
         </div>
       </div>
     </div>
@@ -1,18 +1,58 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useRef } from 'react';
 import { useDispatch, useSelector } from 'react-redux';
+import { Link } from 'react-router-dom';
 import { AppDispatch, RootState } from '../store';
-import { fetchOrders } from '../store/slices/orderSlice';
+import { fetchOrders, cancelOrder } from '../store/slices/orderSlice';
+import { fetchProductsByIds } from '../store/slices/productSlice';
 import LoadingSpinner from '../components/UI/LoadingSpinner';
+import OrderStatusBadge from '../components/Orders/OrderStatusBadge';
 import { ClipboardDocumentListIcon } from '@heroicons/react/24/outline';
+import { CUSTOMER_CANCELLABLE } from '../utils/orderStatus';
+import { formatINR } from '../utils/currency';
+import { formatAddress } from '../utils/address';
 
 const Orders: React.FC = () => {
   const dispatch = useDispatch<AppDispatch>();
-  const { orders, loading } = useSelector((state: RootState) => state.orders);
+  const { orders, loading, updatingOrderId } = useSelector((state: RootState) => state.orders);
+  const { productsById, missingProductIds } = useSelector((state: RootState) => state.products);
 
   useEffect(() => {
     dispatch(fetchOrders());
   }, [dispatch]);
 
+  // Ids whose lookup is still out, so orders changing meanwhile don't ask again
+  const requestedProductIds = useRef<string[]>([]);
+
+  // Orders only keep product ids, so names and current stock are looked up in one go
+  useEffect(() => {
+    const ids = orders.flatMap((order) => order.items.map((item) => item.productId));
+    const unknown = ids.filter((id, i) => (
+      ids.indexOf(id) === i
+      && !productsById[id]
+      && !missingProductIds.includes(id)
+      && !requestedProductIds.current.includes(id)
+    ));
+    if (unknown.length === 0) return;
+    requestedProductIds.current = requestedProductIds.current.concat(unknown);
+    dispatch(fetchProductsByIds(unknown)).finally(() => {
+      requestedProductIds.current = requestedProductIds.current.filter((id) => !unknown.includes(id));
+    });
+  }, [dispatch, orders, productsById, missingProductIds]);
+
+  const availability = (productId: string) => {
+    if (missingProductIds.includes(productId)) return { label: 'No longer available', className: 'text-gray-500' };
+    const product = productsById[productId];
+    if (!product) return null;
+    return product.stock > 0
+      ? { label: 'In stock', className: 'text-green-700' }
+      : { label: 'Out of stock', className: 'text-red-600' };
+  };
+
+  const handleCancel = (id: string) => {
+    if (!window.confirm('Cancel this order? Reserved stock will be released.')) return;
+    dispatch(cancelOrder(id));
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -40,16 +80,19 @@ const Orders: React.FC = () => {
                 {/* Order Header */}
                 <div className="flex items-center justify-between mb-4">
                   <div>
-                    <h3 className="text-lg font-medium text-gray-900">
-                      Order #{order.id.slice(-8)}
-                    </h3>
+                    <div className="flex items-center space-x-3">
+                      <h3 className="text-lg font-medium text-gray-900">
+                        Order #{order.id.slice(-8)}
+                      </h3>
+                      <OrderStatusBadge status={order.status} />
+                    </div>
                     <p className="text-sm text-gray-500">
                       Placed on {new Date(order.createdAt).toLocaleDateString()}
                     </p>
                   </div>
                   <div className="text-right">
                     <p className="text-lg font-semibold text-gray-900">
-                      ${Number(order.total).toFixed(2)}
+                      {formatINR(order.total)}
                     </p>
                     <p className="text-sm text-gray-500">
                       {order.items.length} item{order.items.length !== 1 ? 's' : ''}
@@ -61,21 +104,69 @@ const Orders: React.FC = () => {
                 <div className="border-t border-gray-200 pt-4">
                   <h4 className="text-sm font-medium text-gray-900 mb-3">Items</h4>
                   <div className="space-y-2">
-                    {order.items.map((item, index) => (
-                      <div key={index} className="flex items-center justify-between text-sm">
-                        <div className="flex-1">
-                          <p className="text-gray-900">Product ID: {item.productId}</p>
-                          <p className="text-gray-500">
-                            Quantity: {item.qty} × ${Number(item.priceAtPurchase).toFixed(2)}
-                          </p>
-                        </div>
-                        <div className="text-right">
-                          <p className="text-gray-900">
-                            ${(item.qty * Number(item.priceAtPurchase)).toFixed(2)}
-                          </p>
+                    {order.items.map((item, index) => {
+                      const product = productsById[item.productId];
+                      const stock = availability(item.productId);
+                      return (
+                        <div key={index} className="flex items-center justify-between text-sm">
+                          <div className="flex-1">
+                            {product ? (
+                              <Link to={`/products/${product.id}`} className="text-gray-900 hover:text-blue-600">
+                                {product.name}
+                              </Link>
+                            ) : (
+                              <p className="text-gray-900">Product #{item.productId.slice(-8)}</p>
+                            )}
+                            <p className="text-gray-500">
+                              Quantity: {item.qty} × {formatINR(item.priceAtPurchase)}
+                              {stock && <span className={`ml-2 ${stock.className}`}>· {stock.label}</span>}
+                            </p>
+                          </div>
+                          <div className="text-right">
+                            <p className="text-gray-900">
+                              {formatINR(item.qty * Number(item.priceAtPurchase))}
+                            </p>
+                            {Number(item.discount) > 0 && (
+                              <p className="text-green-700">
+                                -{formatINR(item.discount ?? 0)}
+                              </p>
+                            )}
+                          </div>
                         </div>
-                      </div>
-                    ))}
+                      );
+                    })}
+                  </div>
+                </div>
+
+                {/* Shipping Address */}
+                {order.shippingAddress && (
+                  <div className="border-t border-gray-200 pt-4 mt-4 text-sm">
+                    <h4 className="font-medium text-gray-900 mb-1">Ship to</h4>
+                    <p className="text-gray-900">{order.shippingAddress.fullName}</p>
+                    <p className="text-gray-600">{formatAddress(order.shippingAddress)}</p>
+                    <p className="text-gray-500">Phone: {order.shippingAddress.phone}</p>
+                  </div>
+                )}
+
+                {/* Price Breakdown */}
+                <div className="border-t border-gray-200 pt-4 mt-4 space-y-1 text-sm">
+                  <div className="flex justify-between text-gray-600">
+                    <span>Subtotal</span>
+                    <span>{formatINR(order.subtotal ?? order.total)}</span>
+                  </div>
+                  {Number(order.discount) > 0 && (
+                    <div className="flex justify-between text-green-700">
+                      <span>Discount{order.couponCode ? ` (${order.couponCode})` : ''}</span>
+                      <span>-{formatINR(order.discount)}</span>
+                    </div>
+                  )}
+                  <div className="flex justify-between text-gray-600">
+                    <span>GST</span>
+                    <span>{formatINR(order.tax ?? 0)}</span>
+                  </div>
+                  <div className="flex justify-between text-gray-600">
+                    <span>Shipping</span>
+                    <span>{Number(order.shipping) > 0 ? formatINR(order.shipping) : 'Free'}</span>
                   </div>
                 </div>
 
@@ -85,8 +176,27 @@ const Orders: React.FC = () => {
                     <div className="text-sm text-gray-500">
                       Last updated: {new Date(order.updatedAt).toLocaleDateString()}
                     </div>
-                    <div className="text-sm font-medium text-gray-900">
-                      Total: ${Number(order.total).toFixed(2)}
+                    <div className="flex items-center space-x-4">
+                      {order.status === 'pending' && (
+                        <Link
+                          to={`/orders/${order.id}/pay`}
+                          className="text-sm font-medium text-primary-600 hover:text-primary-500"
+                        >
+                          Pay Now
+                        </Link>
+                      )}
+                      {CUSTOMER_CANCELLABLE.includes(order.status) && (
+                        <button
+                          onClick={() => handleCancel(order.id)}
+                          disabled={updatingOrderId === order.id}
+                          className="text-sm text-red-600 hover:text-red-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          {updatingOrderId === order.id ? 'Updating…' : 'Cancel Order'}
+                        </button>
+                      )}
+                      <div className="text-sm font-medium text-gray-900">
+                        Total: {formatINR(order.total)}
+                      </div>
                     </div>
                   </div>
                 </div>
@@ -0,0 +1,183 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { useDispatch, useSelector } from 'react-redux';
+import { AppDispatch, RootState } from '../store';
+import { startPayment, confirmPayment, fetchPaymentIntent, resetPayment } from '../store/slices/paymentSlice';
+import { CheckCircleIcon, CreditCardIcon, XCircleIcon } from '@heroicons/react/24/outline';
+import LoadingSpinner from '../components/UI/LoadingSpinner';
+import toast from 'react-hot-toast';
+import { formatINR } from '../utils/currency';
+
+const POLL_INTERVAL_MS = 1500;
+
+// Cards the order-service mock provider understands; any other number is rejected
+const TEST_CARDS = [
+  { number: '4242 4242 4242 4242', outcome: 'succeeds' },
+  { number: '4000 0000 0000 0002', outcome: 'is declined' },
+  { number: '4000 0000 0000 9995', outcome: 'fails for insufficient funds' },
+];
+
+const formatFailureReason = (reason: string | null) =>
+  reason ? reason.charAt(0).toUpperCase() + reason.slice(1).replace(/_/g, ' ') : 'Payment failed';
+
+const Payment: React.FC = () => {
+  const { id: orderId } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const dispatch = useDispatch<AppDispatch>();
+  const { intent, loading, confirming, error } = useSelector((state: RootState) => state.payments);
+  const [cardNumber, setCardNumber] = useState('');
+
+  useEffect(() => {
+    if (orderId) dispatch(startPayment(orderId));
+    return () => {
+      dispatch(resetPayment());
+    };
+  }, [dispatch, orderId]);
+
+  // The provider reports back to order-service, so poll until the intent settles;
+  // a failed poll stops polling rather than repeating its error toast
+  const intentId = intent?.id;
+  const processing = intent?.status === 'processing';
+  useEffect(() => {
+    if (!intentId || !processing) return;
+    const timer = setInterval(async () => {
+      const result = await dispatch(fetchPaymentIntent(intentId));
+      if (fetchPaymentIntent.rejected.match(result)) clearInterval(timer);
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [dispatch, intentId, processing]);
+
+  useEffect(() => {
+    if (intent?.status === 'succeeded') {
+      toast.success('Payment received');
+      navigate('/orders');
+    }
+  }, [intent?.status, navigate]);
+
+  const handlePay = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!intent || !cardNumber.trim()) return;
+
+    try {
+      await dispatch(confirmPayment({ id: intent.id, cardNumber: cardNumber.replace(/\s/g, '') })).unwrap();
+    } catch (error) {
+      // Error is handled by the thunk
+    }
+  };
+
+  if (loading || (!intent && !error)) {
+    return (
+      <div className="flex justify-center py-12">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (!intent) {
+    return (
+      <div className="text-center py-12">
+        <XCircleIcon className="mx-auto h-16 w-16 text-red-400" />
+        <h3 className="mt-4 text-lg font-medium text-gray-900">This order cannot be paid</h3>
+        <p className="mt-2 text-sm text-gray-500">{error}</p>
+        <Link to="/orders" className="mt-6 inline-block text-sm font-medium text-primary-600 hover:text-primary-500">
+          Back to orders
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-lg mx-auto space-y-6">
+      <h1 className="text-2xl font-bold text-gray-900">Payment</h1>
+
+      <div className="bg-white rounded-lg shadow p-6 space-y-4">
+        <div className="flex justify-between text-sm text-gray-600">
+          <span>Order</span>
+          <span className="font-mono">#{intent.orderId.slice(-8)}</span>
+        </div>
+        <div className="flex justify-between text-lg font-medium">
+          <span>Amount due</span>
+          <span>{formatINR(intent.amount)}</span>
+        </div>
+
+        {intent.status === 'requires_payment' && (
+          <form onSubmit={handlePay} className="space-y-4">
+            <div>
+              <label htmlFor="cardNumber" className="block text-sm font-medium text-gray-700">
+                Card number
+              </label>
+              <div className="mt-1 relative">
+                <CreditCardIcon className="absolute left-3 top-2.5 h-5 w-5 text-gray-400" />
+                <input
+                  id="cardNumber"
+                  type="text"
+                  inputMode="numeric"
+                  autoComplete="off"
+                  value={cardNumber}
+                  onChange={(e) => setCardNumber(e.target.value)}
+                  placeholder="4242 4242 4242 4242"
+                  className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                />
+              </div>
+            </div>
+
+            <div className="rounded-md bg-gray-50 p-3 text-xs text-gray-600 space-y-1">
+              <p className="font-medium text-gray-700">Test payments: no money is charged.</p>
+              {TEST_CARDS.map((card) => (
+                <p key={card.number}>
+                  <button
+                    type="button"
+                    onClick={() => setCardNumber(card.number)}
+                    className="font-mono text-primary-600 hover:text-primary-500"
+                  >
+                    {card.number}
+                  </button>{' '}
+                  {card.outcome}
+                </p>
+              ))}
+            </div>
+
+            <button
+              type="submit"
+              disabled={confirming || !cardNumber.trim()}
+              className="w-full flex items-center justify-center px-6 py-3 border border-transparent text-base font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {confirming ? <LoadingSpinner size="sm" /> : `Pay ${formatINR(intent.amount)}`}
+            </button>
+          </form>
+        )}
+
+        {intent.status === 'processing' && (
+          <div className="flex items-center justify-center space-x-3 py-4 text-sm text-gray-600">
+            <LoadingSpinner size="sm" />
+            <span>Waiting for the payment provider to confirm…</span>
+          </div>
+        )}
+
+        {intent.status === 'succeeded' && (
+          <div className="flex items-center justify-center space-x-2 py-4 text-sm text-green-700">
+            <CheckCircleIcon className="h-5 w-5" />
+            <span>Payment received</span>
+          </div>
+        )}
+
+        {intent.status === 'failed' && (
+          <div className="text-center py-4 space-y-2">
+            <div className="flex items-center justify-center space-x-2 text-sm text-red-600">
+              <XCircleIcon className="h-5 w-5" />
+              <span>{formatFailureReason(intent.failureReason)}</span>
+            </div>
+            <p className="text-sm text-gray-500">
+              The order has been closed and its items returned to stock.
+            </p>
+            <Link to="/orders" className="inline-block text-sm font-medium text-primary-600 hover:text-primary-500">
+              Back to orders
+            </Link>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Payment;
@@ -1,26 +1,37 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useDispatch, useSelector } from 'react-redux';
 import { AppDispatch, RootState } from '../store';
-import { fetchProduct, clearCurrentProduct } from '../store/slices/productSlice';
+import {
+  fetchProduct,
+  clearCurrentProduct,
+  uploadProductImages,
+  deleteProductImage,
+} from '../store/slices/productSlice';
 import { addToCart } from '../store/slices/orderSlice';
 import LoadingSpinner from '../components/UI/LoadingSpinner';
+import ProductGallery from '../components/Products/ProductGallery';
 import { 
   ArrowLeftIcon,
   ShoppingCartIcon,
-  ExclamationTriangleIcon
+  ExclamationTriangleIcon,
+  PhotoIcon
 } from '@heroicons/react/24/outline';
 import toast from 'react-hot-toast';
 import { formatINR } from '../utils/currency';
+import { hasPermission } from '../utils/permissions';
 
 const ProductDetails: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const dispatch = useDispatch<AppDispatch>();
-  const { currentProduct, loading, error } = useSelector(
+  const { currentProduct, loading, error, imageUploading } = useSelector(
     (state: RootState) => state.products
   );
+  const { user } = useSelector((state: RootState) => state.auth);
+  const canEditProduct = hasPermission(user, 'products:write');
   const [quantity, setQuantity] = useState(1);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     if (id) {
@@ -32,7 +43,7 @@ const ProductDetails: React.FC = () => {
     };
   }, [id, dispatch]);
 
-  const handleAddToCart = () => {
+  const handleAddToCart = async () => {
     if (!currentProduct) return;
 
     if (currentProduct.stock <= 0) {
@@ -45,15 +56,18 @@ const ProductDetails: React.FC = () => {
       return;
     }
 
-    dispatch(addToCart({
-      productId: currentProduct.id,
-      name: currentProduct.name,
-      price: currentProduct.price,
-      qty: quantity,
-      stock: currentProduct.stock,
-    }));
-
-    toast.success(`${currentProduct.name} added to cart!`);
+    try {
+      await dispatch(addToCart({
+        productId: currentProduct.id,
+        name: currentProduct.name,
+        price: currentProduct.price,
+        qty: quantity,
+        stock: currentProduct.stock,
+      })).unwrap();
+      toast.success(`${currentProduct.name} added to cart!`);
+    } catch (error) {
+      // Error is handled by the thunk
+    }
   };
 
   const handleQuantityChange = (newQuantity: number) => {
@@ -62,6 +76,18 @@ const ProductDetails: React.FC = () => {
     }
   };
 
+  const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (!currentProduct || files.length === 0) return;
+    await dispatch(uploadProductImages({ id: currentProduct.id, files }));
+  };
+
+  const handleImageRemove = (imageId: string) => {
+    if (!currentProduct) return;
+    dispatch(deleteProductImage({ id: currentProduct.id, imageId }));
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -105,12 +131,33 @@ const ProductDetails: React.FC = () => {
       {/* Product Details */}
       <div className="bg-white rounded-lg shadow overflow-hidden">
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 p-8">
-          {/* Product Image Placeholder */}
-          <div className="aspect-square bg-gray-100 rounded-lg flex items-center justify-center">
-            <div className="text-center">
-              <ShoppingCartIcon className="mx-auto h-24 w-24 text-gray-400" />
-              <p className="mt-2 text-sm text-gray-500">Product Image</p>
-            </div>
+          {/* Product Images */}
+          <div className="space-y-4">
+            <ProductGallery
+              images={currentProduct.images || []}
+              alt={currentProduct.name}
+              onRemove={canEditProduct ? handleImageRemove : undefined}
+            />
+            {canEditProduct && (
+              <>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept="image/jpeg,image/png,image/webp"
+                  multiple
+                  className="hidden"
+                  onChange={handleImageUpload}
+                />
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={imageUploading}
+                  className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <PhotoIcon className="h-4 w-4 mr-2" />
+                  {imageUploading ? 'Uploading…' : 'Upload Images'}
+                </button>
+              </>
+            )}
           </div>
 
           {/* Product Info */}
@@ -122,6 +169,10 @@ const ProductDetails: React.FC = () => {
               </p>
             </div>
 
+            {currentProduct.description && (
+              <p className="text-gray-700 whitespace-pre-line">{currentProduct.description}</p>
+            )}
+
             {/* Stock Status */}
             <div className="flex items-center">
               {currentProduct.stock > 0 ? (
@@ -185,6 +236,12 @@ const ProductDetails: React.FC = () => {
                   <dt className="text-sm font-medium text-gray-500">Product ID</dt>
                   <dd className="mt-1 text-sm text-gray-900">{currentProduct.id}</dd>
                 </div>
+                {currentProduct.sku && (
+                  <div>
+                    <dt className="text-sm font-medium text-gray-500">SKU</dt>
+                    <dd className="mt-1 text-sm text-gray-900">{currentProduct.sku}</dd>
+                  </div>
+                )}
                 <div>
                   <dt className="text-sm font-medium text-gray-500">Price</dt>
                   <dd className="mt-1 text-sm text-gray-900">{formatINR(currentProduct.price)}</dd>
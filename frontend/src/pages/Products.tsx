@@ -1,9 +1,20 @@
 import React, { useEffect, useState } from 'react';
 import { useDispatch, useSelector } from 'react-redux';
 import { AppDispatch, RootState } from '../store';
-import { fetchProducts, setSearchTerm, setSortBy, setSortOrder } from '../store/slices/productSlice';
+import {
+  fetchProducts,
+  setSearchTerm,
+  setSortBy,
+  setSortOrder,
+  setFilters,
+  setPage,
+  selectProductQuery,
+} from '../store/slices/productSlice';
+import { fetchCategories } from '../store/slices/categorySlice';
 import ProductCard from '../components/Products/ProductCard';
+import CategorySidebar from '../components/Products/CategorySidebar';
 import LoadingSpinner from '../components/UI/LoadingSpinner';
+import Pagination from '../components/UI/Pagination';
 import { 
   MagnifyingGlassIcon,
   FunnelIcon,
@@ -13,43 +24,60 @@ import {
 
 const Products: React.FC = () => {
   const dispatch = useDispatch<AppDispatch>();
-  const { products, loading, searchTerm, sortBy, sortOrder } = useSelector(
+  const { products, loading, searchTerm, sortBy, sortOrder, filters, page, limit, total, totalPages } = useSelector(
     (state: RootState) => state.products
   );
+  const { categories } = useSelector((state: RootState) => state.categories);
+  const query = useSelector(selectProductQuery);
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
   const [showFilters, setShowFilters] = useState(false);
+  const [searchInput, setSearchInput] = useState(searchTerm);
 
   useEffect(() => {
-    dispatch(fetchProducts());
+    dispatch(fetchCategories());
   }, [dispatch]);
 
-  // Filter and sort products
-  const filteredAndSortedProducts = React.useMemo(() => {
-    let filtered = products.filter(product =>
-      product.name.toLowerCase().includes(searchTerm.toLowerCase())
-    );
+  useEffect(() => {
+    dispatch(fetchProducts(query));
+  }, [dispatch, query]);
 
-    filtered.sort((a, b) => {
-      let aValue: any = a[sortBy];
-      let bValue: any = b[sortBy];
+  // Debounce typing so every keystroke doesn't hit the API
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      if (searchInput !== searchTerm) dispatch(setSearchTerm(searchInput));
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchInput, searchTerm, dispatch]);
 
-      if (sortBy === 'price') {
-        aValue = Number(aValue);
-        bValue = Number(bValue);
-      }
+  const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setSearchInput(e.target.value);
+  };
 
-      if (sortOrder === 'asc') {
-        return aValue > bValue ? 1 : -1;
-      } else {
-        return aValue < bValue ? 1 : -1;
-      }
-    });
+  const clearSearch = () => {
+    setSearchInput('');
+    dispatch(setSearchTerm(''));
+  };
 
-    return filtered;
-  }, [products, searchTerm, sortBy, sortOrder]);
+  const handlePriceFilterChange = (key: 'minPrice' | 'maxPrice', raw: string) => {
+    const value = raw === '' ? undefined : Number(raw);
+    if (value !== undefined && (Number.isNaN(value) || value < 0)) return;
+    dispatch(setFilters({ ...filters, [key]: value }));
+  };
 
-  const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    dispatch(setSearchTerm(e.target.value));
+  const handleInStockChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    dispatch(setFilters({ ...filters, inStock: e.target.checked ? true : undefined }));
+  };
+
+  const handleCategorySelect = (category: string | undefined) => {
+    dispatch(setFilters({ ...filters, category }));
+  };
+
+  const hasActiveFilters = !!searchTerm || Object.values(filters).some((v) => v !== undefined);
+
+  const clearAll = () => {
+    setSearchInput('');
+    dispatch(setSearchTerm(''));
+    dispatch(setFilters({}));
   };
 
   const handleSortChange = (sortBy: 'name' | 'price' | 'createdAt') => {
@@ -60,14 +88,6 @@ const Products: React.FC = () => {
     dispatch(setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc'));
   };
 
-  if (loading) {
-    return (
-      <div className="flex items-center justify-center h-64">
-        <LoadingSpinner size="lg" />
-      </div>
-    );
-  }
-
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -97,100 +117,160 @@ const Products: React.FC = () => {
         </div>
       </div>
 
-      {/* Search and Filters */}
-      <div className="bg-white rounded-lg shadow p-6">
-        <div className="flex flex-col sm:flex-row gap-4">
-          {/* Search */}
-          <div className="flex-1">
-            <div className="relative">
-              <MagnifyingGlassIcon className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
-              <input
-                type="text"
-                placeholder="Search products..."
-                value={searchTerm}
-                onChange={handleSearchChange}
-                className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
-              />
-            </div>
-          </div>
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        <CategorySidebar
+          categories={categories}
+          selected={filters.category}
+          onSelect={handleCategorySelect}
+        />
 
-          {/* Sort */}
-          <div className="flex items-center space-x-2">
-            <button
-              onClick={() => setShowFilters(!showFilters)}
-              className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
-            >
-              <FunnelIcon className="h-4 w-4 mr-2" />
-              Sort
-            </button>
-          </div>
-        </div>
+        <div className="lg:col-span-3 space-y-6">
+          {/* Search and Filters */}
+          <div className="bg-white rounded-lg shadow p-6">
+            <div className="flex flex-col sm:flex-row gap-4">
+              {/* Search */}
+              <div className="flex-1">
+                <div className="relative">
+                  <MagnifyingGlassIcon className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
+                  <input
+                    type="text"
+                    placeholder="Search products..."
+                    value={searchInput}
+                    onChange={handleSearchChange}
+                    className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+                  />
+                </div>
+              </div>
 
-        {/* Sort Options */}
-        {showFilters && (
-          <div className="mt-4 pt-4 border-t border-gray-200">
-            <div className="flex flex-wrap gap-2">
-              <span className="text-sm font-medium text-gray-700">Sort by:</span>
-              {(['name', 'price', 'createdAt'] as const).map((sort) => (
+              {/* Sort */}
+              <div className="flex items-center space-x-2">
                 <button
-                  key={sort}
-                  onClick={() => handleSortChange(sort)}
-                  className={`px-3 py-1 text-sm rounded-full ${
-                    sortBy === sort
-                      ? 'bg-primary-100 text-primary-800'
-                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-                  }`}
+                  onClick={() => setShowFilters(!showFilters)}
+                  className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
                 >
-                  {sort === 'createdAt' ? 'Date' : sort.charAt(0).toUpperCase() + sort.slice(1)}
+                  <FunnelIcon className="h-4 w-4 mr-2" />
+                  Sort &amp; Filter
                 </button>
-              ))}
-              <button
-                onClick={toggleSortOrder}
-                className="px-3 py-1 text-sm rounded-full bg-gray-100 text-gray-700 hover:bg-gray-200"
-              >
-                {sortOrder === 'asc' ? '↑' : '↓'}
-              </button>
+              </div>
             </div>
-          </div>
-        )}
-      </div>
 
-      {/* Products Grid/List */}
-      <div className="bg-white rounded-lg shadow">
-        {filteredAndSortedProducts.length > 0 ? (
-          <div className={`p-6 ${
-            viewMode === 'grid'
-              ? 'grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6'
-              : 'space-y-4'
-          }`}>
-            {filteredAndSortedProducts.map((product) => (
-              <ProductCard key={product.id} product={product} />
-            ))}
+            {/* Sort Options */}
+            {showFilters && (
+              <div className="mt-4 pt-4 border-t border-gray-200">
+                <div className="flex flex-wrap gap-2">
+                  <span className="text-sm font-medium text-gray-700">Sort by:</span>
+                  {(['name', 'price', 'createdAt'] as const).map((sort) => (
+                    <button
+                      key={sort}
+                      onClick={() => handleSortChange(sort)}
+                      className={`px-3 py-1 text-sm rounded-full ${
+                        sortBy === sort
+                          ? 'bg-primary-100 text-primary-800'
+                          : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                      }`}
+                    >
+                      {sort === 'createdAt' ? 'Date' : sort.charAt(0).toUpperCase() + sort.slice(1)}
+                    </button>
+                  ))}
+                  <button
+                    onClick={toggleSortOrder}
+                    className="px-3 py-1 text-sm rounded-full bg-gray-100 text-gray-700 hover:bg-gray-200"
+                  >
+                    {sortOrder === 'asc' ? '↑' : '↓'}
+                  </button>
+                </div>
+                <div className="mt-4 flex flex-wrap items-center gap-4">
+                  <span className="text-sm font-medium text-gray-700">Price:</span>
+                  <input
+                    type="number"
+                    min={0}
+                    placeholder="Min"
+                    value={filters.minPrice ?? ''}
+                    onChange={(e) => handlePriceFilterChange('minPrice', e.target.value)}
+                    className="w-28 px-3 py-1 text-sm border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+                  />
+                  <span className="text-gray-400">–</span>
+                  <input
+                    type="number"
+                    min={0}
+                    placeholder="Max"
+                    value={filters.maxPrice ?? ''}
+                    onChange={(e) => handlePriceFilterChange('maxPrice', e.target.value)}
+                    className="w-28 px-3 py-1 text-sm border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+                  />
+                  <label className="inline-flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={filters.inStock === true}
+                      onChange={handleInStockChange}
+                      className="mr-2 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                    />
+                    In stock only
+                  </label>
+                </div>
+              </div>
+            )}
           </div>
-        ) : (
-          <div className="text-center py-12">
-            <MagnifyingGlassIcon className="mx-auto h-12 w-12 text-gray-400" />
-            <h3 className="mt-2 text-sm font-medium text-gray-900">No products found</h3>
-            <p className="mt-1 text-sm text-gray-500">
-              {searchTerm
-                ? 'Try adjusting your search terms.'
-                : 'No products are available at the moment.'}
-            </p>
-            {searchTerm && (
-              <button
-                onClick={() => dispatch(setSearchTerm(''))}
-                className="mt-4 text-primary-600 hover:text-primary-500 text-sm font-medium"
-              >
-                Clear search
-              </button>
+
+          {/* Products Grid/List */}
+          <div className="bg-white rounded-lg shadow">
+            {loading ? (
+              <div className="flex items-center justify-center h-64">
+                <LoadingSpinner size="lg" />
+              </div>
+            ) : products.length > 0 ? (
+              <div className={`p-6 ${
+                viewMode === 'grid'
+                  ? 'grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-6'
+                  : 'space-y-4'
+              }`}>
+                {products.map((product) => (
+                  <ProductCard key={product.id} product={product} />
+                ))}
+              </div>
+            ) : (
+              <div className="text-center py-12">
+                <MagnifyingGlassIcon className="mx-auto h-12 w-12 text-gray-400" />
+                <h3 className="mt-2 text-sm font-medium text-gray-900">No products found</h3>
+                <p className="mt-1 text-sm text-gray-500">
+                  {hasActiveFilters
+                    ? 'Try adjusting your search terms or filters.'
+                    : 'No products are available at the moment.'}
+                </p>
+                {searchTerm && (
+                  <button
+                    onClick={clearSearch}
+                    className="mt-4 text-primary-600 hover:text-primary-500 text-sm font-medium"
+                  >
+                    Clear search
+                  </button>
+                )}
+                {!searchTerm && hasActiveFilters && (
+                  <button
+                    onClick={clearAll}
+                    className="mt-4 text-primary-600 hover:text-primary-500 text-sm font-medium"
+                  >
+                    Clear filters
+                  </button>
+                )}
+              </div>
             )}
           </div>
-        )}
-      </div>
 
-      {/* Results count */}
-      <div className="text-sm text-gray-500 text-center">
-        Showing {filteredAndSortedProducts.length} of {products.length} products
+          <Pagination
+            page={page}
+            totalPages={totalPages}
+            onPageChange={(p) => dispatch(setPage(p))}
+            disabled={loading}
+          />
+
+          {/* Results count */}
+          <div className="text-sm text-gray-500 text-center">
+            {total > 0
+              ? `Showing ${(page - 1) * limit + 1}–${(page - 1) * limit + products.length} of ${total} products`
+              : 'Showing 0 products'}
+          </div>
+        </div>
       </div>
     </div>
   );
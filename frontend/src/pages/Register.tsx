@@ -6,6 +6,7 @@ import LoadingSpinner from '../components/UI/LoadingSpinner';
 const Register: React.FC = () => {
   const [formData, setFormData] = useState({
     username: '',
+    email: '',
     password: '',
     confirmPassword: '',
   });
@@ -41,6 +42,10 @@ const Register: React.FC = () => {
       errors.push('Username must be at least 3 characters long');
     }
     
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(formData.email.trim())) {
+      errors.push('Please enter a valid email address');
+    }
+    
     if (formData.password.length < 6) {
       errors.push('Password must be at least 6 characters long');
     }
@@ -63,16 +68,17 @@ const Register: React.FC = () => {
     try {
       const result = await register({
         username: formData.username,
+        email: formData.email.trim(),
         password: formData.password,
       });
       
       // Check if registration was successful
       if (result.type === 'auth/register/fulfilled') {
         setRegistrationSuccess(true);
-        // Redirect to login page after a short delay
+        // Redirect to login page after a short delay, long enough to read about the verification email
         setTimeout(() => {
           navigate('/login', { replace: true });
-        }, 1500);
+        }, 3000);
       }
     } catch (err) {
       // Error is handled by the hook
@@ -116,6 +122,22 @@ const Register: React.FC = () => {
                 />
               </div>
               
+              <div>
+                <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
+                  Email
+                </label>
+                <input
+                  id="email"
+                  name="email"
+                  type="email"
+                  required
+                  className="input-field"
+                  placeholder="you@example.com"
+                  value={formData.email}
+                  onChange={handleChange}
+                />
+              </div>
+              
               <div>
                 <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
                   Password
@@ -181,7 +203,7 @@ const Register: React.FC = () => {
                   </div>
                   <div className="ml-3">
                     <div className="text-sm text-green-800">
-                      Registration successful! Redirecting to login page...
+                      Registration successful! Check your email for a link to verify your address. Redirecting to login page...
                     </div>
                   </div>
                 </div>
@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import toast from 'react-hot-toast';
+import { apiService } from '../services/api';
+import AuthCard from '../components/Auth/AuthCard';
+import LoadingSpinner from '../components/UI/LoadingSpinner';
+
+const ResetPassword: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') || '';
+  const navigate = useNavigate();
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [validationError, setValidationError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // Same rules as registration
+    if (password.length < 6) {
+      setValidationError('Password must be at least 6 characters long');
+      return;
+    }
+    if (password !== confirmPassword) {
+      setValidationError('Passwords do not match');
+      return;
+    }
+    setValidationError(null);
+
+    setLoading(true);
+    try {
+      await apiService.resetPassword(token, password);
+      toast.success('Password changed. Please sign in.');
+      navigate('/login', { replace: true });
+    } catch (err) {
+      // Error toast is shown by the API client
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!token) {
+    return (
+      <AuthCard title="Reset your password">
+        <p className="text-sm text-gray-600 text-center">
+          This link is incomplete.{' '}
+          <Link to="/forgot-password" className="font-semibold text-primary-600 hover:text-primary-500">
+            Request a new one
+          </Link>
+        </p>
+      </AuthCard>
+    );
+  }
+
+  return (
+    <AuthCard title="Reset your password" subtitle="You'll be signed out on all your devices">
+      <form className="space-y-6" onSubmit={handleSubmit}>
+        <div className="space-y-4">
+          <div>
+            <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
+              New Password
+            </label>
+            <input
+              id="password"
+              name="password"
+              type="password"
+              required
+              className="input-field"
+              placeholder="Choose a new password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+          </div>
+          <div>
+            <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700 mb-2">
+              Confirm Password
+            </label>
+            <input
+              id="confirmPassword"
+              name="confirmPassword"
+              type="password"
+              required
+              className="input-field"
+              placeholder="Confirm your new password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+            />
+          </div>
+        </div>
+
+        {validationError && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-800">
+            {validationError}
+          </div>
+        )}
+
+        <button
+          type="submit"
+          disabled={loading}
+          className="w-full btn-primary py-3 text-base font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {loading ? (
+            <div className="flex items-center justify-center">
+              <LoadingSpinner size="sm" />
+              <span className="ml-2">Saving...</span>
+            </div>
+          ) : (
+            'Set new password'
+          )}
+        </button>
+      </form>
+
+      <div className="mt-6 text-center">
+        <p className="text-sm text-gray-600">
+          Link expired?{' '}
+          <Link to="/forgot-password" className="font-semibold text-primary-600 hover:text-primary-500 transition-colors">
+            Request a new one
+          </Link>
+        </p>
+      </div>
+    </AuthCard>
+  );
+};
+
+export default ResetPassword;
@@ -0,0 +1,171 @@
+import React, { useEffect, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { RootState, AppDispatch } from '../store';
+import {
+  fetchTwoFactorStatus,
+  startTwoFactorSetup,
+  confirmTwoFactorSetup,
+  cancelTwoFactorSetup,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+  clearRecoveryCodes,
+} from '../store/slices/twoFactorSlice';
+import TwoFactorSetupForm from '../components/Auth/TwoFactorSetupForm';
+import RecoveryCodes from '../components/Auth/RecoveryCodes';
+import LoadingSpinner from '../components/UI/LoadingSpinner';
+
+const Security: React.FC = () => {
+  const dispatch = useDispatch<AppDispatch>();
+  const { status, setup, recoveryCodes, loading, saving, error } = useSelector((s: RootState) => s.twoFactor);
+  const [password, setPassword] = useState('');
+  const [disableCode, setDisableCode] = useState('');
+  const [regenerateCode, setRegenerateCode] = useState('');
+
+  useEffect(() => {
+    dispatch(fetchTwoFactorStatus());
+    return () => {
+      dispatch(cancelTwoFactorSetup());
+      dispatch(clearRecoveryCodes());
+    };
+  }, [dispatch]);
+
+  const onDisable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    // Either an authenticator code or a recovery code proves the second factor
+    const code = disableCode.trim();
+    const factor = /^\d{6}$/.test(code) ? { code } : { recoveryCode: code };
+    const result = await dispatch(disableTwoFactor({ password, factor }));
+    if (!disableTwoFactor.fulfilled.match(result)) return;
+    setPassword('');
+    setDisableCode('');
+  };
+
+  const onRegenerate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = await dispatch(regenerateRecoveryCodes(regenerateCode.trim()));
+    if (regenerateRecoveryCodes.fulfilled.match(result)) setRegenerateCode('');
+  };
+
+  if (loading && !status) {
+    return (
+      <div className="flex justify-center py-12">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      <h1 className="text-2xl font-bold text-gray-900">Security</h1>
+
+      <div className="bg-white rounded-lg shadow p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-900">Two-factor authentication</h2>
+          {status && (
+            <span className={`px-2 py-0.5 text-xs rounded-full ${status.enabled ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-700'}`}>
+              {status.enabled ? 'On' : 'Off'}
+            </span>
+          )}
+        </div>
+        <p className="text-sm text-gray-500">
+          With two-factor authentication on, signing in also asks for a code from an authenticator app on your phone.
+          {status?.required && ' Your role requires it, so it cannot be turned off.'}
+        </p>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-800">{error}</div>
+        )}
+
+        {recoveryCodes ? (
+          <RecoveryCodes codes={recoveryCodes} onDone={() => dispatch(clearRecoveryCodes())} />
+        ) : setup ? (
+          <div className="max-w-sm space-y-4">
+            <TwoFactorSetupForm
+              setup={setup}
+              submitting={saving}
+              onSubmit={(code) => dispatch(confirmTwoFactorSetup(code))}
+            />
+            <button
+              type="button"
+              onClick={() => dispatch(cancelTwoFactorSetup())}
+              className="w-full text-sm text-gray-600 hover:text-gray-800"
+            >
+              Cancel
+            </button>
+          </div>
+        ) : status?.enabled ? (
+          <div className="space-y-6">
+            <form onSubmit={onRegenerate} className="space-y-2">
+              <h3 className="text-sm font-semibold text-gray-900">Recovery codes</h3>
+              <p className="text-sm text-gray-500">
+                {status.recoveryCodesRemaining} unused recovery code{status.recoveryCodesRemaining !== 1 ? 's' : ''} left.
+                Issuing new ones replaces them all.
+              </p>
+              <div className="flex space-x-2">
+                <input
+                  className="input-field max-w-[10rem] font-mono"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  placeholder="123456"
+                  maxLength={6}
+                  value={regenerateCode}
+                  onChange={(e) => setRegenerateCode(e.target.value.replace(/\D/g, ''))}
+                />
+                <button
+                  type="submit"
+                  disabled={saving || regenerateCode.length !== 6}
+                  className="px-4 py-2 text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 disabled:opacity-50"
+                >
+                  Issue new codes
+                </button>
+              </div>
+            </form>
+
+            {!status.required && (
+              <form onSubmit={onDisable} className="space-y-2 border-t pt-6">
+                <h3 className="text-sm font-semibold text-gray-900">Turn off two-factor authentication</h3>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                  <input
+                    type="password"
+                    className="input-field"
+                    autoComplete="current-password"
+                    placeholder="Password"
+                    required
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                  />
+                  <input
+                    className="input-field font-mono"
+                    autoComplete="one-time-code"
+                    placeholder="Code or recovery code"
+                    required
+                    value={disableCode}
+                    onChange={(e) => setDisableCode(e.target.value)}
+                  />
+                </div>
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="px-4 py-2 text-sm font-medium rounded-md text-white bg-red-600 hover:bg-red-700 disabled:opacity-50"
+                >
+                  Turn off
+                </button>
+              </form>
+            )}
+          </div>
+        ) : (
+          <button
+            type="button"
+            onClick={() => dispatch(startTwoFactorSetup())}
+            disabled={saving}
+            className="px-4 py-2 text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 disabled:opacity-50"
+          >
+            Set up two-factor authentication
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Security;
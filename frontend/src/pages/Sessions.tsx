@@ -0,0 +1,106 @@
+import React, { useEffect } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { RootState, AppDispatch } from '../store';
+import { fetchSessions, revokeSession, revokeOtherSessions } from '../store/slices/sessionSlice';
+import { ComputerDesktopIcon, DevicePhoneMobileIcon } from '@heroicons/react/24/outline';
+import LoadingSpinner from '../components/UI/LoadingSpinner';
+
+// A rough device label from the user agent; good enough to tell sessions apart
+const describeDevice = (userAgent: string | null) => {
+  if (!userAgent) return 'Unknown device';
+  const browser = ['Edg', 'OPR', 'Firefox', 'Chrome', 'Safari'].find((name) => userAgent.includes(`${name}/`));
+  const os = ['Windows', 'Android', 'iPhone', 'iPad', 'Mac OS X', 'Linux'].find((name) => userAgent.includes(name));
+  const browserName = browser === 'Edg' ? 'Edge' : browser === 'OPR' ? 'Opera' : browser;
+  if (!browserName && !os) return userAgent.slice(0, 60);
+  return [browserName || 'Browser', os === 'Mac OS X' ? 'macOS' : os].filter(Boolean).join(' on ');
+};
+
+const isMobile = (userAgent: string | null) => !!userAgent && /Mobile|Android|iPhone|iPad/.test(userAgent);
+
+const Sessions: React.FC = () => {
+  const dispatch = useDispatch<AppDispatch>();
+  const { sessions, loading, revokingSessionId, revokingOthers } = useSelector((s: RootState) => s.sessions);
+  const hasOthers = sessions.some((s) => !s.current);
+
+  useEffect(() => {
+    dispatch(fetchSessions());
+  }, [dispatch]);
+
+  const signOut = (id: string) => {
+    if (!window.confirm('Sign out this device? It will have to log in again.')) return;
+    dispatch(revokeSession(id));
+  };
+
+  const signOutOthers = () => {
+    if (!window.confirm('Sign out every other device?')) return;
+    dispatch(revokeOtherSessions());
+  };
+
+  if (loading && sessions.length === 0) {
+    return (
+      <div className="flex justify-center py-12">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold text-gray-900">Active sessions</h1>
+        {hasOthers && (
+          <button
+            onClick={signOutOthers}
+            disabled={revokingOthers}
+            className="px-4 py-2 text-sm font-medium rounded-md text-white bg-red-600 hover:bg-red-700 disabled:opacity-50"
+          >
+            Sign out all other sessions
+          </button>
+        )}
+      </div>
+      <p className="text-sm text-gray-500">
+        Every device you log in from has its own session. A device you sign out here cannot renew its login,
+        so it is logged out once its current access token expires (15 minutes by default).
+      </p>
+
+      <div className="bg-white rounded-lg shadow divide-y divide-gray-200">
+        {sessions.map((session) => {
+          const Icon = isMobile(session.userAgent) ? DevicePhoneMobileIcon : ComputerDesktopIcon;
+          return (
+            <div key={session.id} className="flex items-center justify-between p-4">
+              <div className="flex items-center space-x-3">
+                <Icon className="h-8 w-8 text-gray-400" />
+                <div>
+                  <p className="text-sm font-medium text-gray-900" title={session.userAgent || undefined}>
+                    {describeDevice(session.userAgent)}
+                    {session.current && (
+                      <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-green-100 text-green-800">This device</span>
+                    )}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {session.ip || 'Unknown address'} · Last active {new Date(session.lastUsedAt).toLocaleString()}
+                  </p>
+                  <p className="text-xs text-gray-500">Signed in {new Date(session.createdAt).toLocaleString()}</p>
+                </div>
+              </div>
+              {!session.current && (
+                <button
+                  onClick={() => signOut(session.id)}
+                  disabled={revokingSessionId === session.id}
+                  className="text-sm font-medium text-red-600 hover:text-red-500 disabled:opacity-50"
+                >
+                  Sign out
+                </button>
+              )}
+            </div>
+          );
+        })}
+        {sessions.length === 0 && (
+          <p className="p-6 text-center text-sm text-gray-500">No active sessions.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Sessions;
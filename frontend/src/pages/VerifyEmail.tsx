@@ -0,0 +1,63 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { useDispatch, useSelector } from 'react-redux';
+import { AppDispatch, RootState } from '../store';
+import { loadUser } from '../store/slices/authSlice';
+import { apiService } from '../services/api';
+import AuthCard from '../components/Auth/AuthCard';
+import LoadingSpinner from '../components/UI/LoadingSpinner';
+
+type VerifyState = 'verifying' | 'verified' | 'failed';
+
+const VerifyEmail: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') || '';
+  const dispatch = useDispatch<AppDispatch>();
+  const { isAuthenticated } = useSelector((state: RootState) => state.auth);
+  const [state, setState] = useState<VerifyState>(token ? 'verifying' : 'failed');
+  const [email, setEmail] = useState<string | null>(null);
+  // Tokens are single use, so don't post it twice when effects run twice in development
+  const submitted = useRef(false);
+
+  useEffect(() => {
+    if (!token || submitted.current) return;
+    submitted.current = true;
+    apiService.verifyEmail(token)
+      .then((result) => {
+        setEmail(result.email);
+        setState('verified');
+        // Refresh the signed-in user so the "verify your email" banner goes away
+        if (isAuthenticated) dispatch(loadUser());
+      })
+      .catch(() => setState('failed'));
+  }, [dispatch, token, isAuthenticated]);
+
+  return (
+    <AuthCard title="Verify your email">
+      {state === 'verifying' && (
+        <div className="flex justify-center">
+          <LoadingSpinner size="lg" />
+        </div>
+      )}
+      {state === 'verified' && (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-4 text-sm text-green-800">
+          {email} is verified. Thanks!
+        </div>
+      )}
+      {state === 'failed' && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-800">
+          This verification link is invalid, expired or has already been used.
+          {isAuthenticated && ' You can send yourself a new one from the banner at the top of the store.'}
+        </div>
+      )}
+
+      <div className="mt-6 text-center">
+        <Link to={isAuthenticated ? '/' : '/login'} className="text-sm font-semibold text-primary-600 hover:text-primary-500 transition-colors">
+          {isAuthenticated ? 'Continue shopping' : 'Sign in'}
+        </Link>
+      </div>
+    </AuthCard>
+  );
+};
+
+export default VerifyEmail;
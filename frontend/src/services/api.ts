@@ -26,6 +26,34 @@ const clearTokens = () => {
   localStorage.removeItem('user');
 };
 
+// Refresh tokens are single use: the server rotates them on every refresh and
+// treats a second use as theft, signing the session out. So concurrent 401s
+// share one refresh, and a 409 means another tab already rotated the token
+// and stored the new pair.
+let refreshInFlight: Promise<string> | null = null;
+const refreshAccessToken = (): Promise<string> => {
+  if (!refreshInFlight) {
+    refreshInFlight = (async () => {
+      const refreshToken = getRefreshToken();
+      if (!refreshToken) throw new Error('no refresh');
+      try {
+        const { data } = await axios.post(`${API_BASE_URL}/api/users/refresh-token`, { refreshToken });
+        setTokens(data.accessToken, data.refreshToken);
+        return data.accessToken as string;
+      } catch (e) {
+        const accessToken = getAccessToken();
+        if (axios.isAxiosError(e) && e.response?.status === 409 && getRefreshToken() !== refreshToken && accessToken) {
+          return accessToken;
+        }
+        throw e;
+      }
+    })().finally(() => {
+      refreshInFlight = null;
+    });
+  }
+  return refreshInFlight;
+};
+
 // Request interceptor to add auth token
 api.interceptors.request.use(
   (config) => {
@@ -40,6 +68,36 @@ api.interceptors.request.use(
   }
 );
 
+// The gateway's answer when a caller exceeds its request quota
+const isRateLimited = (error: any) =>
+  error.response?.status === 429 && error.response.data?.code === 'rate_limited';
+
+const showRateLimited = (error: any) => {
+  const retryAfter = Number(error.response.data.retryAfter || error.response.headers?.['retry-after']) || null;
+  // One toast however many requests were turned away
+  toast.error(
+    retryAfter
+      ? `Too many requests. Please wait ${retryAfter} second${retryAfter !== 1 ? 's' : ''} and try again.`
+      : 'Too many requests. Please wait a moment and try again.',
+    { id: 'rate-limited' }
+  );
+};
+
+// A service behind the gateway can't answer right now (timed out, failing or
+// its circuit is open); retrying after retryAfter seconds may work
+const isServiceUnavailable = (error: any) =>
+  error.response?.status === 503 && error.response.data?.code === 'service_unavailable';
+
+const showServiceUnavailable = (error: any) => {
+  const retryAfter = Number(error.response.data.retryAfter || error.response.headers?.['retry-after']) || null;
+  toast.error(
+    retryAfter
+      ? `This is temporarily unavailable. Please try again in ${retryAfter} second${retryAfter !== 1 ? 's' : ''}.`
+      : 'This is temporarily unavailable. Please try again shortly.',
+    { id: 'service-unavailable' }
+  );
+};
+
 // Response interceptor for error handling and retries
 api.interceptors.response.use(
   (response: AxiosResponse) => {
@@ -48,17 +106,19 @@ api.interceptors.response.use(
   async (error) => {
     const originalRequest = error.config;
 
-    // Handle 401 with refresh flow
-    if (error.response?.status === 401 && !originalRequest._retry) {
+    // Handle 401 with refresh flow; during login a 401 just means a wrong password or code
+    if (error.response?.status === 401 && !originalRequest._retry && !originalRequest.url?.startsWith('/api/users/login')) {
       originalRequest._retry = true;
       try {
-        const refreshToken = getRefreshToken();
-        if (!refreshToken) throw new Error('no refresh');
-        const { data } = await axios.post(`${API_BASE_URL}/api/users/refresh-token`, { refreshToken });
-        setTokens(data.accessToken, data.refreshToken);
-        originalRequest.headers.Authorization = `Bearer ${data.accessToken}`;
+        const accessToken = await refreshAccessToken();
+        originalRequest.headers.Authorization = `Bearer ${accessToken}`;
         return api(originalRequest);
       } catch (e) {
+        // Being throttled says nothing about the session, so stay signed in
+        if (isRateLimited(e)) {
+          showRateLimited(e);
+          return Promise.reject(e);
+        }
         clearTokens();
         window.location.href = '/login';
         toast.error('Session expired. Please login again.');
@@ -78,6 +138,16 @@ api.interceptors.response.use(
       }
     }
 
+    if (isRateLimited(error)) {
+      showRateLimited(error);
+      return Promise.reject(error);
+    }
+
+    if (isServiceUnavailable(error)) {
+      showServiceUnavailable(error);
+      return Promise.reject(error);
+    }
+
     // Show user-friendly error messages
     const errorMessage = error.response?.data?.error || error.message || 'An error occurred';
     toast.error(errorMessage);
@@ -86,34 +156,239 @@ api.interceptors.response.use(
   }
 );
 
+// crypto.randomUUID only exists in secure contexts, so plain-http hosts get random hex instead
+const newIdempotencyKey = () =>
+  typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : Array.from(crypto.getRandomValues(new Uint8Array(16)), b => b.toString(16).padStart(2, '0')).join('');
+
+export const productImageUrl = (path: string) => `${API_BASE_URL}/api/products/uploads/${path}`;
+
 // API Service Types
+// Mirrors PERMISSIONS in user-service
+export type Permission =
+  | 'products:write'
+  | 'orders:manage'
+  | 'pricing:manage'
+  | 'users:read'
+  | 'users:write'
+  | 'roles:manage'
+  | 'system:read';
+
 export interface User {
   id: string;
   username: string;
-  role: 'user' | 'admin';
+  // Name of a role; 'admin' and 'user' always exist, others are configured
+  role: string;
+  // Null for accounts created before emails were collected
+  email?: string | null;
+  emailVerifiedAt?: string | null;
+  createdAt: string;
+  // Only on login and /me
+  permissions?: Permission[];
+  // Only on the admin user endpoints
+  disabled?: boolean;
+  // Set while failed logins have the account locked
+  lockedUntil?: string | null;
+  // On login, /me and the admin user endpoints
+  twoFactorEnabled?: boolean;
+  updatedAt?: string;
+}
+
+export interface Role {
+  name: string;
+  description: string | null;
+  permissions: Permission[];
+  builtIn: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PermissionInfo {
+  name: Permission;
+  description: string;
+}
+
+export interface RoleInput {
+  name: string;
+  description?: string | null;
+  permissions: Permission[];
+}
+
+export interface UserQuery {
+  page?: number;
+  limit?: number;
+  // Username search
+  q?: string;
+  role?: string;
+  disabled?: boolean;
+}
+
+export interface OrderQuery {
+  page?: number;
+  limit?: number;
+  status?: OrderStatus;
+  userId?: string;
+}
+
+export interface ShippingAddress {
+  fullName: string;
+  phone: string;
+  line1: string;
+  line2?: string | null;
+  city: string;
+  state: string;
+  pincode: string;
+}
+
+export interface Address extends ShippingAddress {
+  id: string;
+  userId: string;
+  isDefault: boolean;
   createdAt: string;
+  updatedAt: string;
+}
+
+export interface AddressInput extends ShippingAddress {
+  isDefault?: boolean;
+}
+
+// One signed-in device. current marks the session making the request.
+export interface Session {
+  id: string;
+  userAgent: string | null;
+  ip: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  current: boolean;
+}
+
+export interface ProductImage {
+  id: string;
+  // Paths relative to the product-service uploads root; see productImageUrl
+  path: string;
+  thumbnailPath: string;
+  contentType: string;
+  size: number;
+  width?: number;
+  height?: number;
 }
 
 export interface Product {
   id: string;
   name: string;
+  description?: string | null;
+  sku?: string | null;
   price: number;
   stock: number;
+  categoryId?: string | null;
+  weight?: number | null;
+  images?: ProductImage[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Products looked up by id; missing lists ids with no product (e.g. deleted)
+export interface ProductBatch {
+  data: Product[];
+  missing: string[];
+}
+
+export interface Category {
+  id: string;
+  name: string;
+  slug: string;
+  parentId: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface CategoryInput {
+  name: string;
+  slug?: string;
+  parentId?: string | null;
+}
+
+export type ProductSortField = 'name' | 'price' | 'stock' | 'createdAt';
+
+export interface ProductQuery {
+  page?: number;
+  limit?: number;
+  q?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  inStock?: boolean;
+  // Category id or slug; includes products of its subcategories
+  category?: string;
+  // Field name, prefixed with '-' for descending order
+  sort?: ProductSortField | `-${ProductSortField}`;
+}
+
+export interface Paginated<T> {
+  data: T[];
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+  links: {
+    self: string;
+    next: string | null;
+    prev: string | null;
+  };
+}
+
+export interface CartItem {
+  productId: string;
+  name: string;
+  price: number;
+  qty: number;
+  stock: number;
+}
+
+export interface Cart {
+  items: CartItem[];
+  updatedAt?: string;
+}
+
 export interface OrderItem {
   productId: string;
   qty: number;
   priceAtPurchase: number;
+  discount?: number;
+  taxRate?: number;
+  tax?: number;
 }
 
+export type OrderStatus = 'pending' | 'paid' | 'failed' | 'shipped' | 'delivered' | 'cancelled' | 'refunded';
+
 export interface Order {
   id: string;
   userId: string;
   items: OrderItem[];
+  subtotal: number | null;
+  discount: number;
+  tax: number;
+  shipping: number;
+  couponCode: string | null;
   total: number;
+  shippingAddress: ShippingAddress | null;
+  status: OrderStatus;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type PaymentStatus = 'requires_payment' | 'processing' | 'succeeded' | 'failed';
+
+export interface PaymentIntent {
+  id: string;
+  orderId: string;
+  userId: string;
+  provider: string;
+  amount: number;
+  currency: string;
+  status: PaymentStatus;
+  failureReason: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -125,13 +400,59 @@ export interface LoginRequest {
 
 export interface RegisterRequest {
   username: string;
+  email: string;
   password: string;
 }
 
+// Why a login was refused, from the code in the error response
+export type LoginErrorCode =
+  | 'invalid_credentials'
+  | 'invalid_two_factor_code'
+  | 'invalid_challenge'
+  | 'account_locked'
+  | 'too_many_attempts'
+  | 'account_disabled'
+  // From the gateway's rate limiter rather than user-service
+  | 'rate_limited';
+
 export interface LoginResponse {
   accessToken: string;
   refreshToken: string;
   user: User;
+  // Only when two-factor enrolment completes a login; shown once
+  recoveryCodes?: string[];
+}
+
+// The password was right but a second factor is owed; finish with the challengeToken
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  // The user's role requires two-factor and they haven't set it up yet
+  enrollmentRequired: boolean;
+  challengeToken: string;
+}
+
+export type LoginResult = LoginResponse | TwoFactorChallenge;
+
+export const isTwoFactorChallenge = (result: LoginResult): result is TwoFactorChallenge =>
+  'twoFactorRequired' in result;
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  // data: URL of a QR code for otpauthUrl
+  qrCode: string;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+// An authenticator code or, when the authenticator is lost, a recovery code
+export interface SecondFactor {
+  code?: string;
+  recoveryCode?: string;
 }
 
 export interface CreateOrderRequest {
@@ -139,16 +460,80 @@ export interface CreateOrderRequest {
     productId: string;
     qty: number;
   }>;
+  couponCode?: string;
+  shippingAddress: ShippingAddress;
+}
+
+export type OrderQuoteRequest = Omit<CreateOrderRequest, 'shippingAddress'>;
+
+export interface OrderQuoteLine {
+  productId: string;
+  name: string;
+  qty: number;
+  unitPrice: number;
+  lineTotal: number;
+  discount: number;
+  taxRate: number;
+  tax: number;
+}
+
+export interface OrderQuote {
+  lines: OrderQuoteLine[];
+  subtotal: number;
+  discount: number;
+  tax: number;
+  shipping: number;
+  total: number;
+  coupon: {
+    code: string;
+    type: 'percentage' | 'fixed';
+    value: number;
+  } | null;
+}
+
+export type HealthStatus = 'up' | 'down';
+
+export interface DependencyHealth {
+  status: HealthStatus;
+  latencyMs: number;
+  error?: string;
+}
+
+// A service's readiness, with the dependencies it checked
+export interface ServiceHealth extends DependencyHealth {
+  dependencies?: Record<string, DependencyHealth>;
+}
+
+export interface SystemStatus {
+  ok: boolean;
+  checkedAt: string;
+  // Keyed by service name; the gateway first
+  services: Record<string, ServiceHealth>;
 }
 
 // API Service Class
 class ApiService {
   // Auth endpoints
-  async login(credentials: LoginRequest): Promise<LoginResponse> {
+  async login(credentials: LoginRequest): Promise<LoginResult> {
     const response = await api.post('/api/users/login', credentials);
     return response.data;
   }
 
+  async verifyTwoFactorLogin(challengeToken: string, factor: SecondFactor): Promise<LoginResponse> {
+    const response = await api.post('/api/users/login/2fa', { challengeToken, ...factor });
+    return response.data;
+  }
+
+  async setupTwoFactorLogin(challengeToken: string): Promise<TwoFactorSetup> {
+    const response = await api.post('/api/users/login/2fa/setup', { challengeToken });
+    return response.data;
+  }
+
+  async enableTwoFactorLogin(challengeToken: string, code: string): Promise<LoginResponse> {
+    const response = await api.post('/api/users/login/2fa/enable', { challengeToken, code });
+    return response.data;
+  }
+
   async register(userData: RegisterRequest): Promise<User> {
     const response = await api.post('/api/users/register', userData);
     return response.data;
@@ -159,9 +544,9 @@ class ApiService {
     return response.data;
   }
 
-  async refreshToken(): Promise<{ accessToken: string; refreshToken: string }> {
-    const response = await api.post('/api/users/refresh-token', { refreshToken: getRefreshToken() });
-    return response.data;
+  async refreshToken(): Promise<{ accessToken: string; refreshToken: string | null }> {
+    const accessToken = await refreshAccessToken();
+    return { accessToken, refreshToken: getRefreshToken() };
   }
 
   async logout(): Promise<void> {
@@ -169,9 +554,92 @@ class ApiService {
     clearTokens();
   }
 
+  // Two-factor settings endpoints
+  async getTwoFactorStatus(): Promise<TwoFactorStatus> {
+    const response = await api.get('/api/users/me/2fa');
+    return response.data;
+  }
+
+  async setupTwoFactor(): Promise<TwoFactorSetup> {
+    const response = await api.post('/api/users/me/2fa/setup');
+    return response.data;
+  }
+
+  async enableTwoFactor(code: string): Promise<{ recoveryCodes: string[] }> {
+    const response = await api.post('/api/users/me/2fa/enable', { code });
+    return response.data;
+  }
+
+  async disableTwoFactor(password: string, factor: SecondFactor): Promise<void> {
+    await api.post('/api/users/me/2fa/disable', { password, ...factor });
+  }
+
+  async regenerateRecoveryCodes(code: string): Promise<{ recoveryCodes: string[] }> {
+    const response = await api.post('/api/users/me/2fa/recovery-codes', { code });
+    return response.data;
+  }
+
+  // Email verification and password reset endpoints
+  async verifyEmail(token: string): Promise<{ email: string }> {
+    const response = await api.post('/api/users/verify-email', { token });
+    return response.data;
+  }
+
+  async resendVerificationEmail(): Promise<void> {
+    await api.post('/api/users/verify-email/resend');
+  }
+
+  async forgotPassword(email: string): Promise<void> {
+    await api.post('/api/users/forgot-password', { email });
+  }
+
+  async resetPassword(token: string, password: string): Promise<void> {
+    await api.post('/api/users/reset-password', { token, password });
+  }
+
+  // Address book endpoints
+  async getAddresses(): Promise<Address[]> {
+    const response = await api.get('/api/users/me/addresses');
+    return response.data;
+  }
+
+  async createAddress(address: AddressInput): Promise<Address> {
+    const response = await api.post('/api/users/me/addresses', address);
+    return response.data;
+  }
+
+  async updateAddress(id: string, address: Partial<AddressInput>): Promise<Address> {
+    const response = await api.put(`/api/users/me/addresses/${id}`, address);
+    return response.data;
+  }
+
+  async setDefaultAddress(id: string): Promise<Address> {
+    const response = await api.post(`/api/users/me/addresses/${id}/default`);
+    return response.data;
+  }
+
+  async deleteAddress(id: string): Promise<void> {
+    await api.delete(`/api/users/me/addresses/${id}`);
+  }
+
+  // Session endpoints
+  async getSessions(): Promise<Session[]> {
+    const response = await api.get('/api/users/me/sessions');
+    return response.data;
+  }
+
+  async revokeSession(id: string): Promise<void> {
+    await api.delete(`/api/users/me/sessions/${id}`);
+  }
+
+  async revokeOtherSessions(): Promise<{ revoked: number }> {
+    const response = await api.delete('/api/users/me/sessions');
+    return response.data;
+  }
+
   // Product endpoints
-  async getProducts(): Promise<Product[]> {
-    const response = await api.get('/api/products');
+  async getProducts(query: ProductQuery = {}): Promise<Paginated<Product>> {
+    const response = await api.get('/api/products', { params: query });
     return response.data;
   }
 
@@ -180,6 +648,12 @@ class ApiService {
     return response.data;
   }
 
+  // At most 100 ids per call
+  async getProductsByIds(ids: string[]): Promise<ProductBatch> {
+    const response = await api.post('/api/products/batch', { ids });
+    return response.data;
+  }
+
   async createProduct(product: Omit<Product, 'id' | 'createdAt' | 'updatedAt'>): Promise<Product> {
     const response = await api.post('/api/products', product);
     return response.data;
@@ -194,9 +668,84 @@ class ApiService {
     await api.delete(`/api/products/${id}`);
   }
 
+  async uploadProductImages(id: string, files: File[]): Promise<Product> {
+    const formData = new FormData();
+    files.forEach((file) => formData.append('images', file));
+    const response = await api.post(`/api/products/${id}/images`, formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+      timeout: 60000,
+    });
+    return response.data;
+  }
+
+  async deleteProductImage(id: string, imageId: string): Promise<Product> {
+    const response = await api.delete(`/api/products/${id}/images/${imageId}`);
+    return response.data;
+  }
+
+  // Category endpoints
+  async getCategories(): Promise<Category[]> {
+    const response = await api.get('/api/products/categories');
+    return response.data;
+  }
+
+  async createCategory(category: CategoryInput): Promise<Category> {
+    const response = await api.post('/api/products/categories', category);
+    return response.data;
+  }
+
+  async updateCategory(id: string, category: Partial<CategoryInput>): Promise<Category> {
+    const response = await api.put(`/api/products/categories/${id}`, category);
+    return response.data;
+  }
+
+  async deleteCategory(id: string): Promise<void> {
+    await api.delete(`/api/products/categories/${id}`);
+  }
+
+  // Cart endpoints
+  async getCart(): Promise<Cart> {
+    const response = await api.get('/api/cart');
+    return response.data;
+  }
+
+  async addCartItem(productId: string, qty: number): Promise<Cart> {
+    const response = await api.post('/api/cart/items', { productId, qty });
+    return response.data;
+  }
+
+  async updateCartItem(productId: string, qty: number): Promise<Cart> {
+    const response = await api.put(`/api/cart/items/${productId}`, { qty });
+    return response.data;
+  }
+
+  async removeCartItem(productId: string): Promise<Cart> {
+    const response = await api.delete(`/api/cart/items/${productId}`);
+    return response.data;
+  }
+
+  async clearCart(): Promise<Cart> {
+    const response = await api.delete('/api/cart');
+    return response.data;
+  }
+
+  async mergeCart(items: Array<{ productId: string; qty: number }>): Promise<Cart> {
+    const response = await api.post('/api/cart/merge', { items });
+    return response.data;
+  }
+
   // Order endpoints
-  async createOrder(orderData: CreateOrderRequest): Promise<Order> {
-    const response = await api.post('/api/orders', orderData);
+  // One key per checkout attempt: the network retry above resends the same
+  // request config, so order-service replays the first order instead of placing another
+  async createOrder(orderData: CreateOrderRequest, idempotencyKey = newIdempotencyKey()): Promise<Order> {
+    const response = await api.post('/api/orders', orderData, {
+      headers: { 'Idempotency-Key': idempotencyKey },
+    });
+    return response.data;
+  }
+
+  async quoteOrder(orderData: OrderQuoteRequest): Promise<OrderQuote> {
+    const response = await api.post('/api/orders/quote', orderData);
     return response.data;
   }
 
@@ -205,9 +754,103 @@ class ApiService {
     return response.data;
   }
 
-  // Health check
-  async healthCheck(): Promise<{ ok: boolean; service: string }> {
-    const response = await api.get('/health');
+  async cancelOrder(id: string): Promise<Order> {
+    const response = await api.post(`/api/orders/${id}/cancel`);
+    return response.data;
+  }
+
+  // Admin order endpoints
+  async getAllOrders(query: OrderQuery = {}): Promise<Paginated<Order>> {
+    const response = await api.get('/api/orders/admin', { params: query });
+    return response.data;
+  }
+
+  async updateOrderStatus(id: string, status: OrderStatus): Promise<Order> {
+    const response = await api.patch(`/api/orders/${id}/status`, { status });
+    return response.data;
+  }
+
+  // Admin user endpoints
+  async getUsers(query: UserQuery = {}): Promise<Paginated<User>> {
+    const response = await api.get('/api/users', { params: query });
+    return response.data;
+  }
+
+  async updateUserRole(id: string, role: string): Promise<User> {
+    const response = await api.patch(`/api/users/${id}/role`, { role });
+    return response.data;
+  }
+
+  async setUserDisabled(id: string, disabled: boolean): Promise<User> {
+    const response = await api.post(`/api/users/${id}/${disabled ? 'disable' : 'enable'}`);
+    return response.data;
+  }
+
+  async unlockUser(id: string): Promise<User> {
+    const response = await api.post(`/api/users/${id}/unlock`);
+    return response.data;
+  }
+
+  async resetUserTwoFactor(id: string): Promise<User> {
+    const response = await api.post(`/api/users/${id}/2fa/reset`);
+    return response.data;
+  }
+
+  async deleteUser(id: string): Promise<void> {
+    await api.delete(`/api/users/${id}`);
+  }
+
+  // Role endpoints
+  async getRoles(): Promise<Role[]> {
+    const response = await api.get('/api/users/roles');
+    return response.data;
+  }
+
+  async getPermissions(): Promise<PermissionInfo[]> {
+    const response = await api.get('/api/users/roles/permissions');
+    return response.data;
+  }
+
+  async createRole(roleData: RoleInput): Promise<Role> {
+    const response = await api.post('/api/users/roles', roleData);
+    return response.data;
+  }
+
+  async updateRole(name: string, roleData: Partial<Omit<RoleInput, 'name'>>): Promise<Role> {
+    const response = await api.put(`/api/users/roles/${name}`, roleData);
+    return response.data;
+  }
+
+  async deleteRole(name: string): Promise<void> {
+    await api.delete(`/api/users/roles/${name}`);
+  }
+
+  // Payment endpoints
+  async createPaymentIntent(orderId: string): Promise<PaymentIntent> {
+    const response = await api.post('/api/orders/payments', { orderId });
+    return response.data;
+  }
+
+  async getPaymentIntent(id: string): Promise<PaymentIntent> {
+    const response = await api.get(`/api/orders/payments/${id}`);
+    return response.data;
+  }
+
+  async confirmPayment(id: string, cardNumber: string): Promise<PaymentIntent> {
+    const response = await api.post(`/api/orders/payments/${id}/confirm`, { cardNumber });
+    return response.data;
+  }
+
+  // Health check; only says the gateway is up
+  async healthCheck(): Promise<{ ok: boolean; service: string; uptimeSeconds: number }> {
+    const response = await api.get('/health/live');
+    return response.data;
+  }
+
+  // Every service's readiness. 503 just means something is down and still
+  // carries the report, so it isn't treated as an error.
+  async getSystemStatus(): Promise<SystemStatus> {
+    const response = await api.get('/health/all', { validateStatus: (status) => status === 200 || status === 503 });
     return response.data;
   }
 }
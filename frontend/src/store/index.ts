@@ -1,14 +1,32 @@
 import { configureStore } from '@reduxjs/toolkit';
 import authSlice from './slices/authSlice';
 import productSlice from './slices/productSlice';
+import categorySlice from './slices/categorySlice';
 import orderSlice from './slices/orderSlice';
+import addressSlice from './slices/addressSlice';
+import paymentSlice from './slices/paymentSlice';
+import userAdminSlice from './slices/userAdminSlice';
+import orderAdminSlice from './slices/orderAdminSlice';
+import roleSlice from './slices/roleSlice';
+import sessionSlice from './slices/sessionSlice';
+import twoFactorSlice from './slices/twoFactorSlice';
+import systemStatusSlice from './slices/systemStatusSlice';
 import uiSlice from './slices/uiSlice';
 
 export const store = configureStore({
   reducer: {
     auth: authSlice,
     products: productSlice,
+    categories: categorySlice,
     orders: orderSlice,
+    addresses: addressSlice,
+    payments: paymentSlice,
+    userAdmin: userAdminSlice,
+    orderAdmin: orderAdminSlice,
+    roles: roleSlice,
+    sessions: sessionSlice,
+    twoFactor: twoFactorSlice,
+    systemStatus: systemStatusSlice,
     ui: uiSlice,
   },
   middleware: (getDefaultMiddleware) =>
@@ -0,0 +1,140 @@
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import { apiService, Address, AddressInput } from '../../services/api';
+import toast from 'react-hot-toast';
+
+interface AddressState {
+  addresses: Address[];
+  loading: boolean;
+  saving: boolean;
+  error: string | null;
+}
+
+const initialState: AddressState = {
+  addresses: [],
+  loading: false,
+  saving: false,
+  error: null,
+};
+
+// Async thunks
+export const fetchAddresses = createAsyncThunk(
+  'addresses/fetchAddresses',
+  async (_, { rejectWithValue }) => {
+    try {
+      return await apiService.getAddresses();
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.error || 'Failed to fetch addresses');
+    }
+  }
+);
+
+// Changing the default flips other addresses on the server, so write thunks refetch the list
+export const createAddress = createAsyncThunk(
+  'addresses/createAddress',
+  async (addressData: AddressInput, { dispatch, rejectWithValue }) => {
+    try {
+      const address = await apiService.createAddress(addressData);
+      toast.success('Address saved');
+      await dispatch(fetchAddresses());
+      return address;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.error || 'Failed to save address');
+    }
+  }
+);
+
+export const updateAddress = createAsyncThunk(
+  'addresses/updateAddress',
+  async ({ id, addressData }: { id: string; addressData: Partial<AddressInput> }, { dispatch, rejectWithValue }) => {
+    try {
+      const address = await apiService.updateAddress(id, addressData);
+      toast.success('Address updated');
+      await dispatch(fetchAddresses());
+      return address;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.error || 'Failed to update address');
+    }
+  }
+);
+
+export const setDefaultAddress = createAsyncThunk(
+  'addresses/setDefaultAddress',
+  async (id: string, { dispatch, rejectWithValue }) => {
+    try {
+      const address = await apiService.setDefaultAddress(id);
+      await dispatch(fetchAddresses());
+      return address;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.error || 'Failed to set default address');
+    }
+  }
+);
+
+export const deleteAddress = createAsyncThunk(
+  'addresses/deleteAddress',
+  async (id: string, { dispatch, rejectWithValue }) => {
+    try {
+      await apiService.deleteAddress(id);
+      toast.success('Address deleted');
+      await dispatch(fetchAddresses());
+      return id;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.error || 'Failed to delete address');
+    }
+  }
+);
+
+const addressSlice = createSlice({
+  name: 'addresses',
+  initialState,
+  reducers: {},
+  extraReducers: (builder) => {
+    builder
+      // Fetch Addresses
+      .addCase(fetchAddresses.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(fetchAddresses.fulfilled, (state, action) => {
+        state.loading = false;
+        state.addresses = action.payload;
+      })
+      .addCase(fetchAddresses.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.payload as string;
+      })
+      // Create Address
+      .addCase(createAddress.pending, (state) => {
+        state.saving = true;
+        state.error = null;
+      })
+      .addCase(createAddress.fulfilled, (state) => {
+        state.saving = false;
+      })
+      .addCase(createAddress.rejected, (state, action) => {
+        state.saving = false;
+        state.error = action.payload as string;
+      })
+      // Update Address
+      .addCase(updateAddress.pending, (state) => {
+        state.saving = true;
+        state.error = null;
+      })
+      .addCase(updateAddress.fulfilled, (state) => {
+        state.saving = false;
+      })
+      .addCase(updateAddress.rejected, (state, action) => {
+        state.saving = false;
+        state.error = action.payload as string;
+      })
+      // Set Default / Delete Address
+      .addCase(setDefaultAddress.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(deleteAddress.rejected, (state, action) => {
+        state.error = action.payload as string;
+      });
+  },
+});
+
+export default addressSlice.reducer;
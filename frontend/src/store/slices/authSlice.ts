@@ -1,5 +1,17 @@
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
-import { apiService, User, LoginRequest, RegisterRequest, LoginResponse } from '../../services/api';
+import {
+  apiService,
+  isTwoFactorChallenge,
+  User,
+  LoginRequest,
+  RegisterRequest,
+  LoginResponse,
+  LoginErrorCode,
+  SecondFactor,
+  TwoFactorChallenge,
+  TwoFactorSetup,
+} from '../../services/api';
+import { mergeGuestCart, resetCart } from './orderSlice';
 import toast from 'react-hot-toast';
 
 interface AuthState {
@@ -9,8 +21,32 @@ interface AuthState {
   isAuthenticated: boolean;
   loading: boolean;
   error: string | null;
+  // When a locked-out login may be tried again (ms since epoch)
+  loginRetryAt: number | null;
+  // Set between a correct password and the second factor
+  twoFactorChallenge: TwoFactorChallenge | null;
+  // Enrolment during login, for roles that require two-factor
+  twoFactorSetup: TwoFactorSetup | null;
+  // Shown once after enrolling during login, until acknowledged
+  recoveryCodes: string[] | null;
 }
 
+interface LoginError {
+  message: string;
+  code: LoginErrorCode | null;
+  retryAt: number | null;
+}
+
+const LOGIN_ERROR_MESSAGES: Record<LoginErrorCode, string> = {
+  invalid_credentials: 'Invalid username or password.',
+  invalid_two_factor_code: 'That code is not valid. Enter the current code from your authenticator app.',
+  invalid_challenge: 'Your sign-in took too long. Please enter your password again.',
+  account_locked: 'Too many failed attempts. This account is temporarily locked.',
+  too_many_attempts: 'Too many failed attempts from your network.',
+  account_disabled: 'This account has been disabled.',
+  rate_limited: 'Too many sign-in attempts from your network.',
+};
+
 const initialState: AuthState = {
   user: null,
   accessToken: localStorage.getItem('accessToken'),
@@ -18,22 +54,92 @@ const initialState: AuthState = {
   isAuthenticated: !!localStorage.getItem('accessToken'),
   loading: false,
   error: null,
+  loginRetryAt: null,
+  twoFactorChallenge: null,
+  twoFactorSetup: null,
+  recoveryCodes: null,
+};
+
+const toLoginError = (error: any, fallback: string): LoginError => {
+  const data = error.response?.data;
+  return {
+    message: LOGIN_ERROR_MESSAGES[data?.code as LoginErrorCode] || data?.error || fallback,
+    code: data?.code ?? null,
+    retryAt: data?.retryAfter ? Date.now() + data.retryAfter * 1000 : null,
+  };
+};
+
+// Keeps the tokens of a completed login
+const storeLogin = (response: LoginResponse) => {
+  localStorage.setItem('accessToken', response.accessToken);
+  localStorage.setItem('refreshToken', response.refreshToken);
+  localStorage.setItem('user', JSON.stringify(response.user));
+  return {
+    accessToken: response.accessToken,
+    refreshToken: response.refreshToken,
+    user: response.user,
+    recoveryCodes: response.recoveryCodes ?? null,
+  };
 };
 
+type StoredLogin = ReturnType<typeof storeLogin>;
+
+const challengeToken = (getState: () => unknown) =>
+  (getState() as { auth: AuthState }).auth.twoFactorChallenge?.challengeToken ?? '';
+
 // Async thunks
 export const loginUser = createAsyncThunk(
   'auth/login',
-  async (credentials: LoginRequest, { rejectWithValue }) => {
+  async (credentials: LoginRequest, { dispatch, rejectWithValue }) => {
     try {
-      const response: LoginResponse = await apiService.login(credentials);
-      localStorage.setItem('accessToken', response.accessToken);
-      localStorage.setItem('refreshToken', response.refreshToken);
-      localStorage.setItem('user', JSON.stringify(response.user));
+      const response = await apiService.login(credentials);
+      if (isTwoFactorChallenge(response)) return { challenge: response };
+
+      const login = storeLogin(response);
+      await dispatch(mergeGuestCart());
+      toast.success('Login successful!');
+      return { login };
+    } catch (error: any) {
+      return rejectWithValue(toLoginError(error, 'Login failed'));
+    }
+  }
+);
 
+export const verifyTwoFactorLogin = createAsyncThunk(
+  'auth/verifyTwoFactorLogin',
+  async (factor: SecondFactor, { dispatch, getState, rejectWithValue }) => {
+    try {
+      const login = storeLogin(await apiService.verifyTwoFactorLogin(challengeToken(getState), factor));
+      await dispatch(mergeGuestCart());
       toast.success('Login successful!');
-      return { accessToken: response.accessToken, refreshToken: response.refreshToken, user: response.user };
+      return login;
+    } catch (error: any) {
+      return rejectWithValue(toLoginError(error, 'Verification failed'));
+    }
+  }
+);
+
+export const startTwoFactorEnrollment = createAsyncThunk(
+  'auth/startTwoFactorEnrollment',
+  async (_, { getState, rejectWithValue }) => {
+    try {
+      return await apiService.setupTwoFactorLogin(challengeToken(getState));
     } catch (error: any) {
-      return rejectWithValue(error.response?.data?.error || 'Login failed');
+      return rejectWithValue(toLoginError(error, 'Failed to start two-factor setup'));
+    }
+  }
+);
+
+export const completeTwoFactorEnrollment = createAsyncThunk(
+  'auth/completeTwoFactorEnrollment',
+  async (code: string, { dispatch, getState, rejectWithValue }) => {
+    try {
+      const login = storeLogin(await apiService.enableTwoFactorLogin(challengeToken(getState), code));
+      await dispatch(mergeGuestCart());
+      toast.success('Two-factor authentication enabled');
+      return login;
+    } catch (error: any) {
+      return rejectWithValue(toLoginError(error, 'Failed to enable two-factor authentication'));
     }
   }
 );
@@ -65,13 +171,37 @@ export const loadUser = createAsyncThunk(
 
 export const logoutUser = createAsyncThunk(
   'auth/logout',
-  async () => {
+  async (_, { dispatch }) => {
     await apiService.logout();
     localStorage.removeItem('user');
+    dispatch(resetCart());
     toast.success('Logged out successfully');
   }
 );
 
+const applyLogin = (state: AuthState, login: StoredLogin) => {
+  state.loading = false;
+  state.accessToken = login.accessToken;
+  state.refreshToken = login.refreshToken;
+  state.user = login.user;
+  state.isAuthenticated = true;
+  state.error = null;
+  state.twoFactorChallenge = null;
+  state.twoFactorSetup = null;
+  state.recoveryCodes = login.recoveryCodes;
+};
+
+// A lockout or an expired challenge sends the user back to the password step
+const rejectLogin = (state: AuthState, loginError: LoginError) => {
+  state.loading = false;
+  state.error = loginError.message;
+  state.loginRetryAt = loginError.retryAt;
+  if (loginError.code && ['invalid_challenge', 'account_locked', 'account_disabled'].includes(loginError.code)) {
+    state.twoFactorChallenge = null;
+    state.twoFactorSetup = null;
+  }
+};
+
 const authSlice = createSlice({
   name: 'auth',
   initialState,
@@ -85,6 +215,14 @@ const authSlice = createSlice({
       state.user = action.payload.user;
       state.isAuthenticated = true;
     },
+    cancelTwoFactorLogin: (state) => {
+      state.twoFactorChallenge = null;
+      state.twoFactorSetup = null;
+      state.error = null;
+    },
+    acknowledgeRecoveryCodes: (state) => {
+      state.recoveryCodes = null;
+    },
   },
   extraReducers: (builder) => {
     builder
@@ -92,18 +230,51 @@ const authSlice = createSlice({
       .addCase(loginUser.pending, (state) => {
         state.loading = true;
         state.error = null;
+        state.loginRetryAt = null;
       })
       .addCase(loginUser.fulfilled, (state, action) => {
+        const { challenge, login } = action.payload;
+        if (login) {
+          applyLogin(state, login);
+          return;
+        }
         state.loading = false;
-        state.accessToken = action.payload.accessToken;
-        state.refreshToken = action.payload.refreshToken;
-        state.user = action.payload.user;
-        state.isAuthenticated = true;
-        state.error = null;
+        state.twoFactorChallenge = challenge ?? null;
       })
       .addCase(loginUser.rejected, (state, action) => {
+        rejectLogin(state, action.payload as LoginError);
+      })
+      // Two-factor step
+      .addCase(verifyTwoFactorLogin.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(verifyTwoFactorLogin.fulfilled, (state, action) => {
+        applyLogin(state, action.payload);
+      })
+      .addCase(verifyTwoFactorLogin.rejected, (state, action) => {
+        rejectLogin(state, action.payload as LoginError);
+      })
+      .addCase(startTwoFactorEnrollment.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(startTwoFactorEnrollment.fulfilled, (state, action) => {
         state.loading = false;
-        state.error = action.payload as string;
+        state.twoFactorSetup = action.payload;
+      })
+      .addCase(startTwoFactorEnrollment.rejected, (state, action) => {
+        rejectLogin(state, action.payload as LoginError);
+      })
+      .addCase(completeTwoFactorEnrollment.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(completeTwoFactorEnrollment.fulfilled, (state, action) => {
+        applyLogin(state, action.payload);
+      })
+      .addCase(completeTwoFactorEnrollment.rejected, (state, action) => {
+        rejectLogin(state, action.payload as LoginError);
       })
       // Register
       .addCase(registerUser.pending, (state) => {
@@ -145,5 +316,5 @@ const authSlice = createSlice({
   },
 });
 
-export const { clearError, setCredentials } = authSlice.actions;
+export const { clearError, setCredentials, cancelTwoFactorLogin, acknowledgeRecoveryCodes } = authSlice.actions;
 export default authSlice.reducer;
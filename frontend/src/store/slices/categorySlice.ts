@@ -0,0 +1,120 @@
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import { apiService, Category, CategoryInput } from '../../services/api';
+import toast from 'react-hot-toast';
+
+interface CategoryState {
+  categories: Category[];
+  loading: boolean;
+  error: string | null;
+}
+
+const initialState: CategoryState = {
+  categories: [],
+  loading: false,
+  error: null,
+};
+
+// Async thunks
+export const fetchCategories = createAsyncThunk(
+  'categories/fetchCategories',
+  async (_, { rejectWithValue }) => {
+    try {
+      return await apiService.getCategories();
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.error || 'Failed to fetch categories');
+    }
+  }
+);
+
+export const createCategory = createAsyncThunk(
+  'categories/createCategory',
+  async (categoryData: CategoryInput, { rejectWithValue }) => {
+    try {
+      const category = await apiService.createCategory(categoryData);
+      toast.success('Category created successfully!');
+      return category;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.error || 'Failed to create category');
+    }
+  }
+);
+
+export const updateCategory = createAsyncThunk(
+  'categories/updateCategory',
+  async ({ id, categoryData }: { id: string; categoryData: Partial<CategoryInput> }, { rejectWithValue }) => {
+    try {
+      const category = await apiService.updateCategory(id, categoryData);
+      toast.success('Category updated successfully!');
+      return category;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.error || 'Failed to update category');
+    }
+  }
+);
+
+export const deleteCategory = createAsyncThunk(
+  'categories/deleteCategory',
+  async (id: string, { dispatch, rejectWithValue }) => {
+    try {
+      await apiService.deleteCategory(id);
+      toast.success('Category deleted successfully!');
+      // Subcategories were moved up a level on the server
+      dispatch(fetchCategories());
+      return id;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.error || 'Failed to delete category');
+    }
+  }
+);
+
+const sortByName = (categories: Category[]) => categories.sort((a, b) => a.name.localeCompare(b.name));
+
+const categorySlice = createSlice({
+  name: 'categories',
+  initialState,
+  reducers: {},
+  extraReducers: (builder) => {
+    builder
+      // Fetch Categories
+      .addCase(fetchCategories.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(fetchCategories.fulfilled, (state, action) => {
+        state.loading = false;
+        state.categories = action.payload;
+      })
+      .addCase(fetchCategories.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.payload as string;
+      })
+      // Create Category
+      .addCase(createCategory.fulfilled, (state, action) => {
+        state.categories.push(action.payload);
+        sortByName(state.categories);
+      })
+      .addCase(createCategory.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      // Update Category
+      .addCase(updateCategory.fulfilled, (state, action) => {
+        const index = state.categories.findIndex(c => c.id === action.payload.id);
+        if (index !== -1) {
+          state.categories[index] = action.payload;
+        }
+        sortByName(state.categories);
+      })
+      .addCase(updateCategory.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      // Delete Category
+      .addCase(deleteCategory.fulfilled, (state, action) => {
+        state.categories = state.categories.filter(c => c.id !== action.payload);
+      })
+      .addCase(deleteCategory.rejected, (state, action) => {
+        state.error = action.payload as string;
+      });
+  },
+});
+
+export default categorySlice.reducer;
@@ -0,0 +1,92 @@
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import { apiService, Order, OrderQuery, OrderStatus } from '../../services/api';
+import toast from 'react-hot-toast';
+
+interface OrderAdminState {
+  orders: Order[];
+  loading: boolean;
+  updatingOrderId: string | null;
+  error: string | null;
+  page: number;
+  total: number;
+  totalPages: number;
+}
+
+const initialState: OrderAdminState = {
+  orders: [],
+  loading: false,
+  updatingOrderId: null,
+  error: null,
+  page: 1,
+  total: 0,
+  totalPages: 0,
+};
+
+// Async thunks
+export const fetchAllOrders = createAsyncThunk(
+  'orderAdmin/fetchAllOrders',
+  async (query: OrderQuery = {}, { rejectWithValue }) => {
+    try {
+      return await apiService.getAllOrders(query);
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.error || 'Failed to fetch orders');
+    }
+  }
+);
+
+export const updateOrderStatus = createAsyncThunk(
+  'orderAdmin/updateOrderStatus',
+  async ({ id, status }: { id: string; status: OrderStatus }, { rejectWithValue }) => {
+    try {
+      const order = await apiService.updateOrderStatus(id, status);
+      toast.success(`Order marked as ${status}`);
+      return order;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.error || 'Failed to update order status');
+    }
+  }
+);
+
+const replaceOrder = (state: OrderAdminState, order: Order) => {
+  const index = state.orders.findIndex(o => o.id === order.id);
+  if (index !== -1) state.orders[index] = order;
+};
+
+const orderAdminSlice = createSlice({
+  name: 'orderAdmin',
+  initialState,
+  reducers: {},
+  extraReducers: (builder) => {
+    builder
+      // Fetch Orders
+      .addCase(fetchAllOrders.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(fetchAllOrders.fulfilled, (state, action) => {
+        state.loading = false;
+        state.orders = action.payload.data;
+        state.page = action.payload.page;
+        state.total = action.payload.total;
+        state.totalPages = action.payload.totalPages;
+      })
+      .addCase(fetchAllOrders.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.payload as string;
+      })
+      // Update Order Status
+      .addCase(updateOrderStatus.pending, (state, action) => {
+        state.updatingOrderId = action.meta.arg.id;
+      })
+      .addCase(updateOrderStatus.fulfilled, (state, action) => {
+        state.updatingOrderId = null;
+        replaceOrder(state, action.payload);
+      })
+      .addCase(updateOrderStatus.rejected, (state, action) => {
+        state.updatingOrderId = null;
+        state.error = action.payload as string;
+      });
+  },
+});
+
+export default orderAdminSlice.reducer;
@@ -1,32 +1,173 @@
-import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
-import { apiService, Order, CreateOrderRequest } from '../../services/api';
+import { createSlice, createAsyncThunk, isAnyOf } from '@reduxjs/toolkit';
+import { apiService, Cart, CartItem, Order, OrderQuote, CreateOrderRequest } from '../../services/api';
 import toast from 'react-hot-toast';
 
-interface CartItem {
-  productId: string;
-  name: string;
-  price: number;
-  qty: number;
-  stock: number;
-}
-
 interface OrderState {
   orders: Order[];
   cart: CartItem[];
   loading: boolean;
   error: string | null;
   orderLoading: boolean;
+  updatingOrderId: string | null;
+  couponCode: string | null;
+  quote: OrderQuote | null;
+  quoteLoading: boolean;
 }
 
+// Signed-out visitors keep their cart in localStorage until it is merged on login
+const GUEST_CART_KEY = 'guestCart';
+
+const loadGuestCart = (): CartItem[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(GUEST_CART_KEY) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveGuestCart = (cart: CartItem[]) => {
+  localStorage.setItem(GUEST_CART_KEY, JSON.stringify(cart));
+};
+
 const initialState: OrderState = {
   orders: [],
-  cart: [],
+  cart: loadGuestCart(),
   loading: false,
   error: null,
   orderLoading: false,
+  updatingOrderId: null,
+  couponCode: null,
+  quote: null,
+  quoteLoading: false,
+};
+
+type CartThunkState = { auth: { isAuthenticated: boolean }; orders: OrderState };
+
+class GuestCartError extends Error {}
+
+// Signed-in carts live on the server; guest carts are edited locally and persisted
+const changeCart = async (
+  getState: () => unknown,
+  remote: () => Promise<Cart>,
+  local: (cart: CartItem[]) => CartItem[]
+): Promise<CartItem[]> => {
+  const { auth, orders } = getState() as CartThunkState;
+  if (auth.isAuthenticated) {
+    const cart = await remote();
+    return cart.items;
+  }
+  const cart = local(orders.cart);
+  saveGuestCart(cart);
+  return cart;
+};
+
+const cartErrorMessage = (error: any) => {
+  if (error instanceof GuestCartError) {
+    toast.error(error.message);
+    return error.message;
+  }
+  return error.response?.data?.error || 'Failed to update cart';
 };
 
 // Async thunks
+export const fetchCart = createAsyncThunk(
+  'orders/fetchCart',
+  async (_, { rejectWithValue }) => {
+    try {
+      const cart = await apiService.getCart();
+      return cart.items;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.error || 'Failed to fetch cart');
+    }
+  }
+);
+
+// Runs right after login, before the auth state flips, so it always talks to the server
+export const mergeGuestCart = createAsyncThunk(
+  'orders/mergeGuestCart',
+  async (_, { getState, rejectWithValue }) => {
+    try {
+      const guestItems = (getState() as CartThunkState).orders.cart;
+      const cart = guestItems.length > 0
+        ? await apiService.mergeCart(guestItems.map(({ productId, qty }) => ({ productId, qty })))
+        : await apiService.getCart();
+      localStorage.removeItem(GUEST_CART_KEY);
+      return cart.items;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.error || 'Failed to merge cart');
+    }
+  }
+);
+
+export const addToCart = createAsyncThunk(
+  'orders/addToCart',
+  async (item: CartItem, { getState, rejectWithValue }) => {
+    try {
+      return await changeCart(
+        getState,
+        () => apiService.addCartItem(item.productId, item.qty),
+        (cart) => {
+          const existingItem = cart.find(cartItem => cartItem.productId === item.productId);
+          const qty = (existingItem?.qty || 0) + item.qty;
+          if (qty > item.stock) throw new GuestCartError('Not enough stock available');
+          return existingItem
+            ? cart.map(cartItem => (cartItem.productId === item.productId ? { ...cartItem, qty } : cartItem))
+            : [...cart, item];
+        }
+      );
+    } catch (error: any) {
+      return rejectWithValue(cartErrorMessage(error));
+    }
+  }
+);
+
+export const updateCartItemQuantity = createAsyncThunk(
+  'orders/updateCartItemQuantity',
+  async ({ productId, qty }: { productId: string; qty: number }, { getState, rejectWithValue }) => {
+    try {
+      return await changeCart(
+        getState,
+        () => apiService.updateCartItem(productId, qty),
+        (cart) => {
+          if (qty <= 0) return cart.filter(cartItem => cartItem.productId !== productId);
+          const item = cart.find(cartItem => cartItem.productId === productId);
+          if (item && qty > item.stock) throw new GuestCartError('Not enough stock available');
+          return cart.map(cartItem => (cartItem.productId === productId ? { ...cartItem, qty } : cartItem));
+        }
+      );
+    } catch (error: any) {
+      return rejectWithValue(cartErrorMessage(error));
+    }
+  }
+);
+
+export const removeFromCart = createAsyncThunk(
+  'orders/removeFromCart',
+  async (productId: string, { getState, rejectWithValue }) => {
+    try {
+      return await changeCart(
+        getState,
+        () => apiService.removeCartItem(productId),
+        (cart) => cart.filter(cartItem => cartItem.productId !== productId)
+      );
+    } catch (error: any) {
+      return rejectWithValue(cartErrorMessage(error));
+    }
+  }
+);
+
+export const clearCart = createAsyncThunk(
+  'orders/clearCart',
+  async (_, { getState, rejectWithValue }) => {
+    try {
+      return await changeCart(getState, () => apiService.clearCart(), () => []);
+    } catch (error: any) {
+      return rejectWithValue(cartErrorMessage(error));
+    }
+  }
+);
+
 export const fetchOrders = createAsyncThunk(
   'orders/fetchOrders',
   async (_, { rejectWithValue }) => {
@@ -52,39 +193,62 @@ export const createOrder = createAsyncThunk(
   }
 );
 
+// Prices the cart server-side (discount, tax, shipping) for the checkout summary.
+// Pass a code to apply a coupon, null to remove it, or nothing to re-price with
+// the current one; a re-price drops a coupon the changed cart no longer qualifies for.
+export const fetchQuote = createAsyncThunk(
+  'orders/fetchQuote',
+  async (couponCode: string | null | undefined, { getState, rejectWithValue }) => {
+    const { cart, couponCode: appliedCode } = (getState() as CartThunkState).orders;
+    const items = cart.map(({ productId, qty }) => ({ productId, qty }));
+    const code = couponCode === undefined ? appliedCode : couponCode;
+    const keepCoupon = couponCode !== undefined;
+    try {
+      const quote = await apiService.quoteOrder({ items, ...(code && { couponCode: code }) });
+      return { quote, couponCode: code };
+    } catch (error: any) {
+      if (keepCoupon || !code || !(error.response?.status < 500)) {
+        return rejectWithValue(error.response?.data?.error || 'Failed to price cart');
+      }
+    }
+    try {
+      const quote = await apiService.quoteOrder({ items });
+      return { quote, couponCode: null };
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.error || 'Failed to price cart');
+    }
+  }
+);
+
+export const cancelOrder = createAsyncThunk(
+  'orders/cancelOrder',
+  async (id: string, { rejectWithValue }) => {
+    try {
+      const order = await apiService.cancelOrder(id);
+      toast.success('Order cancelled');
+      return order;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.error || 'Failed to cancel order');
+    }
+  }
+);
+
+const replaceOrder = (state: OrderState, order: Order) => {
+  const index = state.orders.findIndex(o => o.id === order.id);
+  if (index !== -1) {
+    state.orders[index] = order;
+  }
+};
+
 const orderSlice = createSlice({
   name: 'orders',
   initialState,
   reducers: {
-    addToCart: (state, action: PayloadAction<CartItem>) => {
-      const existingItem = state.cart.find(item => item.productId === action.payload.productId);
-      if (existingItem) {
-        if (existingItem.qty + action.payload.qty <= action.payload.stock) {
-          existingItem.qty += action.payload.qty;
-        } else {
-          toast.error('Not enough stock available');
-        }
-      } else {
-        state.cart.push(action.payload);
-      }
-    },
-    removeFromCart: (state, action: PayloadAction<string>) => {
-      state.cart = state.cart.filter(item => item.productId !== action.payload);
-    },
-    updateCartItemQuantity: (state, action: PayloadAction<{ productId: string; qty: number }>) => {
-      const item = state.cart.find(item => item.productId === action.payload.productId);
-      if (item) {
-        if (action.payload.qty <= 0) {
-          state.cart = state.cart.filter(cartItem => cartItem.productId !== action.payload.productId);
-        } else if (action.payload.qty <= item.stock) {
-          item.qty = action.payload.qty;
-        } else {
-          toast.error('Not enough stock available');
-        }
-      }
-    },
-    clearCart: (state) => {
+    // Drops the signed-out user's cart from memory; the server copy is kept
+    resetCart: (state) => {
       state.cart = [];
+      state.couponCode = null;
+      state.quote = null;
     },
     clearError: (state) => {
       state.error = null;
@@ -114,21 +278,56 @@ const orderSlice = createSlice({
         state.orderLoading = false;
         state.orders.unshift(action.payload);
         state.cart = []; // Clear cart after successful order
+        state.couponCode = null;
+        state.quote = null;
       })
       .addCase(createOrder.rejected, (state, action) => {
         state.orderLoading = false;
         state.error = action.payload as string;
-      });
+      })
+      // Fetch Quote
+      .addCase(fetchQuote.pending, (state) => {
+        state.quoteLoading = true;
+      })
+      .addCase(fetchQuote.fulfilled, (state, action) => {
+        state.quoteLoading = false;
+        state.couponCode = action.payload.couponCode;
+        state.quote = action.payload.quote;
+      })
+      .addCase(fetchQuote.rejected, (state) => {
+        state.quoteLoading = false;
+      })
+      // Cancel Order
+      .addCase(cancelOrder.pending, (state, action) => {
+        state.updatingOrderId = action.meta.arg;
+        state.error = null;
+      })
+      .addCase(cancelOrder.fulfilled, (state, action) => {
+        state.updatingOrderId = null;
+        replaceOrder(state, action.payload);
+      })
+      .addCase(cancelOrder.rejected, (state, action) => {
+        state.updatingOrderId = null;
+        state.error = action.payload as string;
+      })
+      // Cart
+      .addMatcher(
+        isAnyOf(
+          fetchCart.fulfilled,
+          mergeGuestCart.fulfilled,
+          addToCart.fulfilled,
+          updateCartItemQuantity.fulfilled,
+          removeFromCart.fulfilled,
+          clearCart.fulfilled
+        ),
+        (state, action) => {
+          state.cart = action.payload;
+        }
+      );
   },
 });
 
-export const { 
-  addToCart, 
-  removeFromCart, 
-  updateCartItemQuantity, 
-  clearCart, 
-  clearError 
-} = orderSlice.actions;
+export const { resetCart, clearError } = orderSlice.actions;
 
 // Selectors
 export const selectCartTotal = (state: { orders: OrderState }) => {
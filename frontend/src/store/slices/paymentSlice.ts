@@ -0,0 +1,100 @@
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import { apiService, PaymentIntent } from '../../services/api';
+
+interface PaymentState {
+  intent: PaymentIntent | null;
+  loading: boolean;
+  confirming: boolean;
+  error: string | null;
+}
+
+const initialState: PaymentState = {
+  intent: null,
+  loading: false,
+  confirming: false,
+  error: null,
+};
+
+// Async thunks
+// Returns the order's unfinished intent if it has one, so revisiting the page is safe
+export const startPayment = createAsyncThunk(
+  'payments/startPayment',
+  async (orderId: string, { rejectWithValue }) => {
+    try {
+      return await apiService.createPaymentIntent(orderId);
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.error || 'Failed to start payment');
+    }
+  }
+);
+
+export const confirmPayment = createAsyncThunk(
+  'payments/confirmPayment',
+  async ({ id, cardNumber }: { id: string; cardNumber: string }, { rejectWithValue }) => {
+    try {
+      return await apiService.confirmPayment(id, cardNumber);
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.error || 'Payment failed');
+    }
+  }
+);
+
+// Polled while the provider is processing; the result arrives at order-service by webhook
+export const fetchPaymentIntent = createAsyncThunk(
+  'payments/fetchPaymentIntent',
+  async (id: string, { rejectWithValue }) => {
+    try {
+      return await apiService.getPaymentIntent(id);
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.error || 'Failed to fetch payment status');
+    }
+  }
+);
+
+const paymentSlice = createSlice({
+  name: 'payments',
+  initialState,
+  reducers: {
+    resetPayment: () => initialState,
+  },
+  extraReducers: (builder) => {
+    builder
+      // Start Payment
+      .addCase(startPayment.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+        state.intent = null;
+      })
+      .addCase(startPayment.fulfilled, (state, action) => {
+        state.loading = false;
+        state.intent = action.payload;
+      })
+      .addCase(startPayment.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.payload as string;
+      })
+      // Confirm Payment
+      .addCase(confirmPayment.pending, (state) => {
+        state.confirming = true;
+        state.error = null;
+      })
+      .addCase(confirmPayment.fulfilled, (state, action) => {
+        state.confirming = false;
+        state.intent = action.payload;
+      })
+      .addCase(confirmPayment.rejected, (state, action) => {
+        state.confirming = false;
+        state.error = action.payload as string;
+      })
+      // Fetch Payment Intent
+      .addCase(fetchPaymentIntent.fulfilled, (state, action) => {
+        state.intent = action.payload;
+      })
+      .addCase(fetchPaymentIntent.rejected, (state, action) => {
+        state.error = action.payload as string;
+      });
+  },
+});
+
+export const { resetPayment } = paymentSlice.actions;
+export default paymentSlice.reducer;
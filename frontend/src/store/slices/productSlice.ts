@@ -1,34 +1,58 @@
-import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
-import { apiService, Product } from '../../services/api';
+import { createSlice, createAsyncThunk, createSelector, PayloadAction } from '@reduxjs/toolkit';
+import { apiService, Product, ProductQuery } from '../../services/api';
 import toast from 'react-hot-toast';
 
+interface ProductFilters {
+  minPrice?: number;
+  maxPrice?: number;
+  inStock?: boolean;
+  category?: string;
+}
+
 interface ProductState {
   products: Product[];
   currentProduct: Product | null;
+  // Products looked up by id for other pages (e.g. order history), and the ids
+  // that turned out to have no product
+  productsById: Record<string, Product>;
+  missingProductIds: string[];
   loading: boolean;
   error: string | null;
   searchTerm: string;
   sortBy: 'name' | 'price' | 'createdAt';
   sortOrder: 'asc' | 'desc';
+  filters: ProductFilters;
+  imageUploading: boolean;
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
 }
 
 const initialState: ProductState = {
   products: [],
   currentProduct: null,
+  productsById: {},
+  missingProductIds: [],
   loading: false,
   error: null,
   searchTerm: '',
   sortBy: 'name',
   sortOrder: 'asc',
+  filters: {},
+  imageUploading: false,
+  page: 1,
+  limit: 12,
+  total: 0,
+  totalPages: 0,
 };
 
 // Async thunks
 export const fetchProducts = createAsyncThunk(
   'products/fetchProducts',
-  async (_, { rejectWithValue }) => {
+  async (query: ProductQuery = {}, { rejectWithValue }) => {
     try {
-      const products = await apiService.getProducts();
-      return products;
+      return await apiService.getProducts(query);
     } catch (error: any) {
       return rejectWithValue(error.response?.data?.error || 'Failed to fetch products');
     }
@@ -47,6 +71,26 @@ export const fetchProduct = createAsyncThunk(
   }
 );
 
+// The batch endpoint takes this many ids per request
+const PRODUCT_BATCH_SIZE = 100;
+
+export const fetchProductsByIds = createAsyncThunk(
+  'products/fetchProductsByIds',
+  async (ids: string[], { rejectWithValue }) => {
+    try {
+      const chunks = [];
+      for (let i = 0; i < ids.length; i += PRODUCT_BATCH_SIZE) chunks.push(ids.slice(i, i + PRODUCT_BATCH_SIZE));
+      const batches = await Promise.all(chunks.map((chunk) => apiService.getProductsByIds(chunk)));
+      return {
+        products: batches.flatMap((batch) => batch.data),
+        missing: batches.flatMap((batch) => batch.missing),
+      };
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.error || 'Failed to fetch products');
+    }
+  }
+);
+
 export const createProduct = createAsyncThunk(
   'products/createProduct',
   async (productData: Omit<Product, 'id' | 'createdAt' | 'updatedAt'>, { rejectWithValue }) => {
@@ -86,18 +130,65 @@ export const deleteProduct = createAsyncThunk(
   }
 );
 
+export const uploadProductImages = createAsyncThunk(
+  'products/uploadProductImages',
+  async ({ id, files }: { id: string; files: File[] }, { rejectWithValue }) => {
+    try {
+      const product = await apiService.uploadProductImages(id, files);
+      toast.success(`Uploaded ${files.length} image${files.length !== 1 ? 's' : ''}`);
+      return product;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.error || 'Failed to upload images');
+    }
+  }
+);
+
+export const deleteProductImage = createAsyncThunk(
+  'products/deleteProductImage',
+  async ({ id, imageId }: { id: string; imageId: string }, { rejectWithValue }) => {
+    try {
+      const product = await apiService.deleteProductImage(id, imageId);
+      toast.success('Image removed');
+      return product;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.error || 'Failed to remove image');
+    }
+  }
+);
+
+const replaceProduct = (state: ProductState, product: Product) => {
+  const index = state.products.findIndex(p => p.id === product.id);
+  if (index !== -1) {
+    state.products[index] = product;
+  }
+  if (state.currentProduct?.id === product.id) {
+    state.currentProduct = product;
+  }
+};
+
 const productSlice = createSlice({
   name: 'products',
   initialState,
   reducers: {
+    // Changing what is listed starts again from the first page
     setSearchTerm: (state, action: PayloadAction<string>) => {
       state.searchTerm = action.payload;
+      state.page = 1;
     },
     setSortBy: (state, action: PayloadAction<'name' | 'price' | 'createdAt'>) => {
       state.sortBy = action.payload;
+      state.page = 1;
     },
     setSortOrder: (state, action: PayloadAction<'asc' | 'desc'>) => {
       state.sortOrder = action.payload;
+      state.page = 1;
+    },
+    setFilters: (state, action: PayloadAction<ProductFilters>) => {
+      state.filters = action.payload;
+      state.page = 1;
+    },
+    setPage: (state, action: PayloadAction<number>) => {
+      state.page = action.payload;
     },
     clearCurrentProduct: (state) => {
       state.currentProduct = null;
@@ -115,7 +206,9 @@ const productSlice = createSlice({
       })
       .addCase(fetchProducts.fulfilled, (state, action) => {
         state.loading = false;
-        state.products = action.payload;
+        state.products = action.payload.data;
+        state.total = action.payload.total;
+        state.totalPages = action.payload.totalPages;
       })
       .addCase(fetchProducts.rejected, (state, action) => {
         state.loading = false;
@@ -134,6 +227,12 @@ const productSlice = createSlice({
         state.loading = false;
         state.error = action.payload as string;
       })
+      // Fetch Products By Ids; runs beside other pages' loading, so leaves loading alone
+      .addCase(fetchProductsByIds.fulfilled, (state, action) => {
+        for (const product of action.payload.products) state.productsById[product.id] = product;
+        const known = state.missingProductIds;
+        state.missingProductIds = known.concat(action.payload.missing.filter((id) => !known.includes(id)));
+      })
       // Create Product
       .addCase(createProduct.pending, (state) => {
         state.loading = true;
@@ -142,6 +241,7 @@ const productSlice = createSlice({
       .addCase(createProduct.fulfilled, (state, action) => {
         state.loading = false;
         state.products.push(action.payload);
+        state.total += 1;
       })
       .addCase(createProduct.rejected, (state, action) => {
         state.loading = false;
@@ -154,13 +254,7 @@ const productSlice = createSlice({
       })
       .addCase(updateProduct.fulfilled, (state, action) => {
         state.loading = false;
-        const index = state.products.findIndex(p => p.id === action.payload.id);
-        if (index !== -1) {
-          state.products[index] = action.payload;
-        }
-        if (state.currentProduct?.id === action.payload.id) {
-          state.currentProduct = action.payload;
-        }
+        replaceProduct(state, action.payload);
       })
       .addCase(updateProduct.rejected, (state, action) => {
         state.loading = false;
@@ -174,6 +268,7 @@ const productSlice = createSlice({
       .addCase(deleteProduct.fulfilled, (state, action) => {
         state.loading = false;
         state.products = state.products.filter(p => p.id !== action.payload);
+        state.total = Math.max(state.total - 1, 0);
         if (state.currentProduct?.id === action.payload) {
           state.currentProduct = null;
         }
@@ -181,9 +276,57 @@ const productSlice = createSlice({
       .addCase(deleteProduct.rejected, (state, action) => {
         state.loading = false;
         state.error = action.payload as string;
+      })
+      // Product Images
+      .addCase(uploadProductImages.pending, (state) => {
+        state.imageUploading = true;
+      })
+      .addCase(uploadProductImages.fulfilled, (state, action) => {
+        state.imageUploading = false;
+        replaceProduct(state, action.payload);
+      })
+      .addCase(uploadProductImages.rejected, (state, action) => {
+        state.imageUploading = false;
+        state.error = action.payload as string;
+      })
+      .addCase(deleteProductImage.fulfilled, (state, action) => {
+        replaceProduct(state, action.payload);
+      })
+      .addCase(deleteProductImage.rejected, (state, action) => {
+        state.error = action.payload as string;
       });
   },
 });
 
-export const { setSearchTerm, setSortBy, setSortOrder, clearCurrentProduct, clearError } = productSlice.actions;
+export const {
+  setSearchTerm,
+  setSortBy,
+  setSortOrder,
+  setFilters,
+  setPage,
+  clearCurrentProduct,
+  clearError,
+} = productSlice.actions;
+
+// Server-side list query for the current search, sort, filters and page
+type ProductRootState = { products: ProductState };
+
+export const selectProductQuery = createSelector(
+  [
+    (state: ProductRootState) => state.products.searchTerm,
+    (state: ProductRootState) => state.products.sortBy,
+    (state: ProductRootState) => state.products.sortOrder,
+    (state: ProductRootState) => state.products.filters,
+    (state: ProductRootState) => state.products.page,
+    (state: ProductRootState) => state.products.limit,
+  ],
+  (searchTerm, sortBy, sortOrder, filters, page, limit): ProductQuery => ({
+    page,
+    limit,
+    q: searchTerm.trim() || undefined,
+    sort: sortOrder === 'desc' ? `-${sortBy}` : sortBy,
+    ...filters,
+  })
+);
+
 export default productSlice.reducer;
@@ -0,0 +1,143 @@
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import { apiService, PermissionInfo, Role, RoleInput } from '../../services/api';
+import toast from 'react-hot-toast';
+
+interface RoleState {
+  roles: Role[];
+  permissions: PermissionInfo[];
+  loading: boolean;
+  saving: boolean;
+  error: string | null;
+}
+
+const initialState: RoleState = {
+  roles: [],
+  permissions: [],
+  loading: false,
+  saving: false,
+  error: null,
+};
+
+// Async thunks
+export const fetchRoles = createAsyncThunk(
+  'roles/fetchRoles',
+  async (_, { rejectWithValue }) => {
+    try {
+      return await apiService.getRoles();
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.error || 'Failed to fetch roles');
+    }
+  }
+);
+
+export const fetchPermissions = createAsyncThunk(
+  'roles/fetchPermissions',
+  async (_, { rejectWithValue }) => {
+    try {
+      return await apiService.getPermissions();
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.error || 'Failed to fetch permissions');
+    }
+  }
+);
+
+export const createRole = createAsyncThunk(
+  'roles/createRole',
+  async (roleData: RoleInput, { rejectWithValue }) => {
+    try {
+      const role = await apiService.createRole(roleData);
+      toast.success(`Role ${role.name} created`);
+      return role;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.error || 'Failed to create role');
+    }
+  }
+);
+
+export const updateRole = createAsyncThunk(
+  'roles/updateRole',
+  async ({ name, roleData }: { name: string; roleData: Partial<Omit<RoleInput, 'name'>> }, { rejectWithValue }) => {
+    try {
+      const role = await apiService.updateRole(name, roleData);
+      toast.success(`Role ${role.name} saved`);
+      return role;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.error || 'Failed to save role');
+    }
+  }
+);
+
+export const deleteRole = createAsyncThunk(
+  'roles/deleteRole',
+  async (name: string, { rejectWithValue }) => {
+    try {
+      await apiService.deleteRole(name);
+      toast.success(`Role ${name} deleted`);
+      return name;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.error || 'Failed to delete role');
+    }
+  }
+);
+
+const roleSlice = createSlice({
+  name: 'roles',
+  initialState,
+  reducers: {},
+  extraReducers: (builder) => {
+    builder
+      // Fetch Roles
+      .addCase(fetchRoles.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(fetchRoles.fulfilled, (state, action) => {
+        state.loading = false;
+        state.roles = action.payload;
+      })
+      .addCase(fetchRoles.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.payload as string;
+      })
+      // Fetch Permissions
+      .addCase(fetchPermissions.fulfilled, (state, action) => {
+        state.permissions = action.payload;
+      })
+      // Create Role
+      .addCase(createRole.pending, (state) => {
+        state.saving = true;
+        state.error = null;
+      })
+      .addCase(createRole.fulfilled, (state, action) => {
+        state.saving = false;
+        state.roles.push(action.payload);
+      })
+      .addCase(createRole.rejected, (state, action) => {
+        state.saving = false;
+        state.error = action.payload as string;
+      })
+      // Update Role
+      .addCase(updateRole.pending, (state) => {
+        state.saving = true;
+        state.error = null;
+      })
+      .addCase(updateRole.fulfilled, (state, action) => {
+        state.saving = false;
+        const index = state.roles.findIndex(r => r.name === action.payload.name);
+        if (index !== -1) state.roles[index] = action.payload;
+      })
+      .addCase(updateRole.rejected, (state, action) => {
+        state.saving = false;
+        state.error = action.payload as string;
+      })
+      // Delete Role
+      .addCase(deleteRole.fulfilled, (state, action) => {
+        state.roles = state.roles.filter(r => r.name !== action.payload);
+      })
+      .addCase(deleteRole.rejected, (state, action) => {
+        state.error = action.payload as string;
+      });
+  },
+});
+
+export default roleSlice.reducer;
@@ -0,0 +1,105 @@
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import { apiService, Session } from '../../services/api';
+import toast from 'react-hot-toast';
+
+interface SessionState {
+  sessions: Session[];
+  loading: boolean;
+  revokingSessionId: string | null;
+  revokingOthers: boolean;
+  error: string | null;
+}
+
+const initialState: SessionState = {
+  sessions: [],
+  loading: false,
+  revokingSessionId: null,
+  revokingOthers: false,
+  error: null,
+};
+
+// Async thunks
+export const fetchSessions = createAsyncThunk(
+  'sessions/fetchSessions',
+  async (_, { rejectWithValue }) => {
+    try {
+      return await apiService.getSessions();
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.error || 'Failed to fetch sessions');
+    }
+  }
+);
+
+export const revokeSession = createAsyncThunk(
+  'sessions/revokeSession',
+  async (id: string, { rejectWithValue }) => {
+    try {
+      await apiService.revokeSession(id);
+      toast.success('Device signed out');
+      return id;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.error || 'Failed to sign out device');
+    }
+  }
+);
+
+export const revokeOtherSessions = createAsyncThunk(
+  'sessions/revokeOtherSessions',
+  async (_, { rejectWithValue }) => {
+    try {
+      const { revoked } = await apiService.revokeOtherSessions();
+      toast.success(`Signed out ${revoked} other session${revoked !== 1 ? 's' : ''}`);
+      return revoked;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.error || 'Failed to sign out other sessions');
+    }
+  }
+);
+
+const sessionSlice = createSlice({
+  name: 'sessions',
+  initialState,
+  reducers: {},
+  extraReducers: (builder) => {
+    builder
+      // Fetch Sessions
+      .addCase(fetchSessions.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(fetchSessions.fulfilled, (state, action) => {
+        state.loading = false;
+        state.sessions = action.payload;
+      })
+      .addCase(fetchSessions.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.payload as string;
+      })
+      // Revoke Session
+      .addCase(revokeSession.pending, (state, action) => {
+        state.revokingSessionId = action.meta.arg;
+      })
+      .addCase(revokeSession.fulfilled, (state, action) => {
+        state.revokingSessionId = null;
+        state.sessions = state.sessions.filter(s => s.id !== action.payload);
+      })
+      .addCase(revokeSession.rejected, (state, action) => {
+        state.revokingSessionId = null;
+        state.error = action.payload as string;
+      })
+      // Revoke Other Sessions
+      .addCase(revokeOtherSessions.pending, (state) => {
+        state.revokingOthers = true;
+      })
+      .addCase(revokeOtherSessions.fulfilled, (state) => {
+        state.revokingOthers = false;
+        state.sessions = state.sessions.filter(s => s.current);
+      })
+      .addCase(revokeOtherSessions.rejected, (state, action) => {
+        state.revokingOthers = false;
+        state.error = action.payload as string;
+      });
+  },
+});
+
+export default sessionSlice.reducer;
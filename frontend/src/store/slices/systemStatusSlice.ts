@@ -0,0 +1,49 @@
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import { apiService, SystemStatus } from '../../services/api';
+
+interface SystemStatusState {
+  status: SystemStatus | null;
+  loading: boolean;
+  error: string | null;
+}
+
+const initialState: SystemStatusState = {
+  status: null,
+  loading: false,
+  error: null,
+};
+
+// Async thunks
+export const fetchSystemStatus = createAsyncThunk(
+  'systemStatus/fetchSystemStatus',
+  async (_, { rejectWithValue }) => {
+    try {
+      return await apiService.getSystemStatus();
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.error || 'Failed to fetch system status');
+    }
+  }
+);
+
+const systemStatusSlice = createSlice({
+  name: 'systemStatus',
+  initialState,
+  reducers: {},
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchSystemStatus.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(fetchSystemStatus.fulfilled, (state, action) => {
+        state.loading = false;
+        state.status = action.payload;
+      })
+      .addCase(fetchSystemStatus.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.payload as string;
+      });
+  },
+});
+
+export default systemStatusSlice.reducer;
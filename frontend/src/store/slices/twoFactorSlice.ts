@@ -0,0 +1,180 @@
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import { apiService, SecondFactor, TwoFactorSetup, TwoFactorStatus } from '../../services/api';
+import toast from 'react-hot-toast';
+
+interface TwoFactorState {
+  status: TwoFactorStatus | null;
+  // A pending secret, waiting for a code to confirm it
+  setup: TwoFactorSetup | null;
+  // Freshly issued recovery codes; shown once, then cleared
+  recoveryCodes: string[] | null;
+  loading: boolean;
+  saving: boolean;
+  error: string | null;
+}
+
+const initialState: TwoFactorState = {
+  status: null,
+  setup: null,
+  recoveryCodes: null,
+  loading: false,
+  saving: false,
+  error: null,
+};
+
+// Async thunks
+export const fetchTwoFactorStatus = createAsyncThunk(
+  'twoFactor/fetchStatus',
+  async (_, { rejectWithValue }) => {
+    try {
+      return await apiService.getTwoFactorStatus();
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.error || 'Failed to fetch two-factor status');
+    }
+  }
+);
+
+export const startTwoFactorSetup = createAsyncThunk(
+  'twoFactor/startSetup',
+  async (_, { rejectWithValue }) => {
+    try {
+      return await apiService.setupTwoFactor();
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.error || 'Failed to start two-factor setup');
+    }
+  }
+);
+
+export const confirmTwoFactorSetup = createAsyncThunk(
+  'twoFactor/confirmSetup',
+  async (code: string, { rejectWithValue }) => {
+    try {
+      const { recoveryCodes } = await apiService.enableTwoFactor(code);
+      toast.success('Two-factor authentication turned on');
+      return recoveryCodes;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.error || 'Failed to turn on two-factor authentication');
+    }
+  }
+);
+
+export const disableTwoFactor = createAsyncThunk(
+  'twoFactor/disable',
+  async ({ password, factor }: { password: string; factor: SecondFactor }, { rejectWithValue }) => {
+    try {
+      await apiService.disableTwoFactor(password, factor);
+      toast.success('Two-factor authentication turned off');
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.error || 'Failed to turn off two-factor authentication');
+    }
+  }
+);
+
+export const regenerateRecoveryCodes = createAsyncThunk(
+  'twoFactor/regenerateRecoveryCodes',
+  async (code: string, { rejectWithValue }) => {
+    try {
+      const { recoveryCodes } = await apiService.regenerateRecoveryCodes(code);
+      toast.success('New recovery codes issued');
+      return recoveryCodes;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.error || 'Failed to issue recovery codes');
+    }
+  }
+);
+
+const twoFactorSlice = createSlice({
+  name: 'twoFactor',
+  initialState,
+  reducers: {
+    cancelTwoFactorSetup: (state) => {
+      state.setup = null;
+      state.error = null;
+    },
+    clearRecoveryCodes: (state) => {
+      state.recoveryCodes = null;
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      // Fetch Status
+      .addCase(fetchTwoFactorStatus.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(fetchTwoFactorStatus.fulfilled, (state, action) => {
+        state.loading = false;
+        state.status = action.payload;
+      })
+      .addCase(fetchTwoFactorStatus.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.payload as string;
+      })
+      // Start Setup
+      .addCase(startTwoFactorSetup.pending, (state) => {
+        state.saving = true;
+        state.error = null;
+      })
+      .addCase(startTwoFactorSetup.fulfilled, (state, action) => {
+        state.saving = false;
+        state.setup = action.payload;
+      })
+      .addCase(startTwoFactorSetup.rejected, (state, action) => {
+        state.saving = false;
+        state.error = action.payload as string;
+      })
+      // Confirm Setup
+      .addCase(confirmTwoFactorSetup.pending, (state) => {
+        state.saving = true;
+        state.error = null;
+      })
+      .addCase(confirmTwoFactorSetup.fulfilled, (state, action) => {
+        state.saving = false;
+        state.setup = null;
+        state.recoveryCodes = action.payload;
+        state.status = {
+          enabled: true,
+          required: state.status?.required ?? false,
+          recoveryCodesRemaining: action.payload.length,
+        };
+      })
+      .addCase(confirmTwoFactorSetup.rejected, (state, action) => {
+        state.saving = false;
+        state.error = action.payload as string;
+      })
+      // Disable
+      .addCase(disableTwoFactor.pending, (state) => {
+        state.saving = true;
+        state.error = null;
+      })
+      .addCase(disableTwoFactor.fulfilled, (state) => {
+        state.saving = false;
+        state.status = {
+          enabled: false,
+          required: state.status?.required ?? false,
+          recoveryCodesRemaining: 0,
+        };
+      })
+      .addCase(disableTwoFactor.rejected, (state, action) => {
+        state.saving = false;
+        state.error = action.payload as string;
+      })
+      // Regenerate Recovery Codes
+      .addCase(regenerateRecoveryCodes.pending, (state) => {
+        state.saving = true;
+        state.error = null;
+      })
+      .addCase(regenerateRecoveryCodes.fulfilled, (state, action) => {
+        state.saving = false;
+        state.recoveryCodes = action.payload;
+        if (state.status) state.status.recoveryCodesRemaining = action.payload.length;
+      })
+      .addCase(regenerateRecoveryCodes.rejected, (state, action) => {
+        state.saving = false;
+        state.error = action.payload as string;
+      });
+  },
+});
+
+export const { cancelTwoFactorSetup, clearRecoveryCodes } = twoFactorSlice.actions;
+export default twoFactorSlice.reducer;
@@ -0,0 +1,190 @@
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import { apiService, User, UserQuery } from '../../services/api';
+import toast from 'react-hot-toast';
+
+interface UserAdminState {
+  users: User[];
+  loading: boolean;
+  updatingUserId: string | null;
+  error: string | null;
+  page: number;
+  total: number;
+  totalPages: number;
+}
+
+const initialState: UserAdminState = {
+  users: [],
+  loading: false,
+  updatingUserId: null,
+  error: null,
+  page: 1,
+  total: 0,
+  totalPages: 0,
+};
+
+// Async thunks
+export const fetchUsers = createAsyncThunk(
+  'userAdmin/fetchUsers',
+  async (query: UserQuery = {}, { rejectWithValue }) => {
+    try {
+      return await apiService.getUsers(query);
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.error || 'Failed to fetch users');
+    }
+  }
+);
+
+export const updateUserRole = createAsyncThunk(
+  'userAdmin/updateUserRole',
+  async ({ id, role }: { id: string; role: string }, { rejectWithValue }) => {
+    try {
+      const user = await apiService.updateUserRole(id, role);
+      toast.success(`${user.username} now has the ${role} role`);
+      return user;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.error || 'Failed to change role');
+    }
+  }
+);
+
+export const setUserDisabled = createAsyncThunk(
+  'userAdmin/setUserDisabled',
+  async ({ id, disabled }: { id: string; disabled: boolean }, { rejectWithValue }) => {
+    try {
+      const user = await apiService.setUserDisabled(id, disabled);
+      toast.success(`${user.username} ${disabled ? 'disabled' : 'enabled'}`);
+      return user;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.error || `Failed to ${disabled ? 'disable' : 'enable'} user`);
+    }
+  }
+);
+
+export const unlockUser = createAsyncThunk(
+  'userAdmin/unlockUser',
+  async (id: string, { rejectWithValue }) => {
+    try {
+      const user = await apiService.unlockUser(id);
+      toast.success(`${user.username} unlocked`);
+      return user;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.error || 'Failed to unlock user');
+    }
+  }
+);
+
+export const resetUserTwoFactor = createAsyncThunk(
+  'userAdmin/resetUserTwoFactor',
+  async (id: string, { rejectWithValue }) => {
+    try {
+      const user = await apiService.resetUserTwoFactor(id);
+      toast.success(`Two-factor authentication reset for ${user.username}`);
+      return user;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.error || 'Failed to reset two-factor authentication');
+    }
+  }
+);
+
+export const deleteUser = createAsyncThunk(
+  'userAdmin/deleteUser',
+  async (id: string, { rejectWithValue }) => {
+    try {
+      await apiService.deleteUser(id);
+      toast.success('User deleted');
+      return id;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.error || 'Failed to delete user');
+    }
+  }
+);
+
+const replaceUser = (state: UserAdminState, user: User) => {
+  const index = state.users.findIndex(u => u.id === user.id);
+  if (index !== -1) state.users[index] = user;
+};
+
+const userAdminSlice = createSlice({
+  name: 'userAdmin',
+  initialState,
+  reducers: {},
+  extraReducers: (builder) => {
+    builder
+      // Fetch Users
+      .addCase(fetchUsers.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(fetchUsers.fulfilled, (state, action) => {
+        state.loading = false;
+        state.users = action.payload.data;
+        state.page = action.payload.page;
+        state.total = action.payload.total;
+        state.totalPages = action.payload.totalPages;
+      })
+      .addCase(fetchUsers.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.payload as string;
+      })
+      // Update Role / Enable or Disable / Unlock / Reset 2FA
+      .addCase(updateUserRole.pending, (state, action) => {
+        state.updatingUserId = action.meta.arg.id;
+      })
+      .addCase(updateUserRole.fulfilled, (state, action) => {
+        state.updatingUserId = null;
+        replaceUser(state, action.payload);
+      })
+      .addCase(updateUserRole.rejected, (state, action) => {
+        state.updatingUserId = null;
+        state.error = action.payload as string;
+      })
+      .addCase(setUserDisabled.pending, (state, action) => {
+        state.updatingUserId = action.meta.arg.id;
+      })
+      .addCase(setUserDisabled.fulfilled, (state, action) => {
+        state.updatingUserId = null;
+        replaceUser(state, action.payload);
+      })
+      .addCase(setUserDisabled.rejected, (state, action) => {
+        state.updatingUserId = null;
+        state.error = action.payload as string;
+      })
+      .addCase(unlockUser.pending, (state, action) => {
+        state.updatingUserId = action.meta.arg;
+      })
+      .addCase(unlockUser.fulfilled, (state, action) => {
+        state.updatingUserId = null;
+        replaceUser(state, action.payload);
+      })
+      .addCase(unlockUser.rejected, (state, action) => {
+        state.updatingUserId = null;
+        state.error = action.payload as string;
+      })
+      .addCase(resetUserTwoFactor.pending, (state, action) => {
+        state.updatingUserId = action.meta.arg;
+      })
+      .addCase(resetUserTwoFactor.fulfilled, (state, action) => {
+        state.updatingUserId = null;
+        replaceUser(state, action.payload);
+      })
+      .addCase(resetUserTwoFactor.rejected, (state, action) => {
+        state.updatingUserId = null;
+        state.error = action.payload as string;
+      })
+      // Delete User
+      .addCase(deleteUser.pending, (state, action) => {
+        state.updatingUserId = action.meta.arg;
+      })
+      .addCase(deleteUser.fulfilled, (state, action) => {
+        state.updatingUserId = null;
+        state.users = state.users.filter(u => u.id !== action.payload);
+        state.total = Math.max(state.total - 1, 0);
+      })
+      .addCase(deleteUser.rejected, (state, action) => {
+        state.updatingUserId = null;
+        state.error = action.payload as string;
+      });
+  },
+});
+
+export default userAdminSlice.reducer;
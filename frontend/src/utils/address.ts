@@ -0,0 +1,32 @@
+import { Address, ShippingAddress } from '../services/api';
+
+export const INDIAN_STATES = [
+  'Andaman and Nicobar Islands', 'Andhra Pradesh', 'Arunachal Pradesh', 'Assam', 'Bihar', 'Chandigarh',
+  'Chhattisgarh', 'Dadra and Nagar Haveli and Daman and Diu', 'Delhi', 'Goa', 'Gujarat', 'Haryana',
+  'Himachal Pradesh', 'Jammu and Kashmir', 'Jharkhand', 'Karnataka', 'Kerala', 'Ladakh', 'Lakshadweep',
+  'Madhya Pradesh', 'Maharashtra', 'Manipur', 'Meghalaya', 'Mizoram', 'Nagaland', 'Odisha', 'Puducherry',
+  'Punjab', 'Rajasthan', 'Sikkim', 'Tamil Nadu', 'Telangana', 'Tripura', 'Uttar Pradesh', 'Uttarakhand',
+  'West Bengal',
+];
+
+// Same rules as user-service: six digits, not starting with 0
+export const isValidPincode = (pincode: string) => /^[1-9][0-9]{5}$/.test(pincode.replace(/\s/g, ''));
+
+// Ten-digit Indian mobile number, optionally written with +91 or 0
+export const isValidPhone = (phone: string) => /^(?:\+?91|0)?[6-9][0-9]{9}$/.test(phone.replace(/[\s-]/g, ''));
+
+export const formatAddress = (address: ShippingAddress) =>
+  [address.line1, address.line2, address.city, `${address.state} ${address.pincode}`]
+    .filter(Boolean)
+    .join(', ');
+
+// The copy of a saved address that goes on an order
+export const toShippingAddress = ({ fullName, phone, line1, line2, city, state, pincode }: Address): ShippingAddress => ({
+  fullName,
+  phone,
+  line1,
+  line2,
+  city,
+  state,
+  pincode,
+});
@@ -0,0 +1,29 @@
+import { Category } from '../services/api';
+
+export interface CategoryNode extends Category {
+  children: CategoryNode[];
+}
+
+export function buildCategoryTree(categories: Category[]): CategoryNode[] {
+  const nodes = new Map<string, CategoryNode>();
+  categories.forEach((c) => nodes.set(c.id, { ...c, children: [] }));
+
+  const roots: CategoryNode[] = [];
+  nodes.forEach((node) => {
+    const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+  return roots;
+}
+
+// Depth-first list for indented <select> options
+export function flattenCategoryTree(nodes: CategoryNode[], depth = 0): Array<{ category: Category; depth: number }> {
+  return nodes.flatMap((node) => [
+    { category: node, depth },
+    ...flattenCategoryTree(node.children, depth + 1),
+  ]);
+}
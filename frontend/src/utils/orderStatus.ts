@@ -0,0 +1,28 @@
+import { OrderStatus } from '../services/api';
+
+// Mirrors ORDER_TRANSITIONS in order-service
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['paid', 'failed', 'cancelled'],
+  paid: ['shipped', 'cancelled', 'refunded'],
+  failed: [],
+  shipped: ['delivered'],
+  delivered: ['refunded'],
+  cancelled: [],
+  refunded: [],
+};
+
+export const CUSTOMER_CANCELLABLE: OrderStatus[] = ['pending'];
+
+export const ORDER_STATUS_STYLES: Record<OrderStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  paid: 'bg-blue-100 text-blue-800',
+  failed: 'bg-red-100 text-red-800',
+  shipped: 'bg-indigo-100 text-indigo-800',
+  delivered: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-800',
+  refunded: 'bg-purple-100 text-purple-800',
+};
+
+export function formatOrderStatus(status: OrderStatus): string {
+  return status.charAt(0).toUpperCase() + status.slice(1);
+}
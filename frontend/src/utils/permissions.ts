@@ -0,0 +1,5 @@
+import { Permission, User } from '../services/api';
+
+// Only hides what the user cannot use; the services enforce the same permissions
+export const hasPermission = (user: User | null | undefined, permission: Permission) =>
+  !!user?.permissions?.includes(permission);
@@ -0,0 +1,104 @@
+import jwt from 'jsonwebtoken';
+import jwksClient from 'jwks-rsa';
+import { PUBLIC, accessFor } from './routePolicies.js';
+import { logger } from '@microstore/observability';
+
+// user-service publishes the public keys its access tokens are signed with.
+// Read lazily so JWKS_URL / USERS_URL from .env are honoured.
+const jwksUrl = () =>
+  process.env.JWKS_URL || `${process.env.USERS_URL || 'http://localhost:3001'}/.well-known/jwks.json`;
+
+let keyClient = null;
+
+// Keys are cached by kid. A kid we haven't seen (user-service just rotated)
+// fetches the set again, at most a few times a minute.
+function signingKeys() {
+  if (!keyClient) {
+    keyClient = jwksClient({
+      jwksUri: jwksUrl(),
+      cache: true,
+      cacheMaxAge: 10 * 60 * 1000,
+      rateLimit: true,
+      jwksRequestsPerMinute: 10
+    });
+  }
+  return keyClient;
+}
+
+export class TokenError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+// Returns the token's claims; throws a TokenError with 401 for a bad token
+// and 503 when the keys can't be fetched
+export async function verifyAccessToken(token) {
+  const kid = jwt.decode(token, { complete: true })?.header.kid;
+  if (!kid) throw new TokenError(401, 'invalid token');
+  let key;
+  try {
+    key = (await signingKeys().getSigningKey(kid)).getPublicKey();
+  } catch (e) {
+    if (e.name === 'SigningKeyNotFoundError') throw new TokenError(401, 'invalid token');
+    logger.error('Fetching signing keys failed', { error: e.message });
+    throw new TokenError(503, 'authentication unavailable');
+  }
+  try {
+    return jwt.verify(token, key, { algorithms: ['RS256'] });
+  } catch {
+    throw new TokenError(401, 'invalid token');
+  }
+}
+
+const gatewayApiKey = () => process.env.GATEWAY_API_KEY || 'gateway_key';
+
+// Headers that carry the verified caller to the services. A client could send
+// them too, so they are stripped from every request before anything else.
+const IDENTITY_HEADERS = ['x-user-id', 'x-user-role', 'x-user-permissions', 'x-session-id', 'x-client-ip', 'x-gateway-key'];
+
+// Verifies the bearer token once for every service and enforces ROUTE_POLICIES.
+// On public routes a bad token is ignored rather than failing the request, so
+// a stale token can't get in the way of logging in or refreshing.
+export async function authenticate(req, res, next) {
+  for (const header of IDENTITY_HEADERS) delete req.headers[header];
+
+  const access = accessFor(req.method, req.path);
+  const [scheme, token] = (req.headers.authorization || '').split(' ');
+  const hasToken = scheme?.toLowerCase() === 'bearer' && !!token;
+  if (!hasToken) {
+    if (access === PUBLIC) return next();
+    return res.status(401).json({ error: 'missing token' });
+  }
+
+  try {
+    req.user = await verifyAccessToken(token);
+  } catch (e) {
+    if (access === PUBLIC && e.status === 401) return next();
+    return res.status(e.status || 401).json({ error: e.message });
+  }
+  next();
+}
+
+// For the gateway's own admin endpoints; the services check theirs themselves
+export function requirePermission(permission) {
+  return (req, res, next) => {
+    if (!req.user?.permissions?.includes(permission)) return res.status(403).json({ error: 'forbidden' });
+    next();
+  };
+}
+
+// Called from each proxy's onProxyReq. Services trust these headers only
+// alongside the gateway key, so they can skip verifying the token again.
+// X-Client-Ip is the caller's address as the gateway saw it (req.ip, so
+// TRUST_PROXY applies); X-Forwarded-For can start with anything the client sent.
+export function forwardIdentity(proxyReq, req) {
+  proxyReq.setHeader('X-Gateway-Key', gatewayApiKey());
+  if (req.ip) proxyReq.setHeader('X-Client-Ip', req.ip);
+  if (!req.user) return;
+  proxyReq.setHeader('X-User-Id', req.user.sub);
+  proxyReq.setHeader('X-User-Role', req.user.role || '');
+  proxyReq.setHeader('X-User-Permissions', (req.user.permissions || []).join(','));
+  if (req.user.sid) proxyReq.setHeader('X-Session-Id', req.user.sid);
+}
@@ -0,0 +1,116 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import { authenticate, forwardIdentity } from './auth.js';
+
+// Access tokens are signed the way user-service signs them, and the test
+// server publishes the public key where auth.js looks for it
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const other = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const KID = 'test-key';
+
+const sign = (claims, { key = privateKey, kid = KID } = {}) =>
+  jwt.sign(claims, key, { algorithm: 'RS256', keyid: kid, expiresIn: '5m' });
+
+const SPOOFED = {
+  'X-User-Id': 'admin-1',
+  'X-User-Role': 'admin',
+  'X-User-Permissions': 'users:write,roles:manage',
+  'X-Session-Id': 'session-1',
+  'X-Client-Ip': '10.0.0.1',
+  'X-Gateway-Key': 'gateway_key'
+};
+
+describe('authenticate', () => {
+  let server;
+  let baseUrl;
+
+  before(async () => {
+    const app = express();
+    app.get('/.well-known/jwks.json', (_, res) => {
+      res.json({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid: KID, use: 'sig', alg: 'RS256' }] });
+    });
+    app.use(authenticate);
+    // Answers with what a proxied service would be told
+    app.all('*', (req, res) => {
+      const identityHeaders = Object.keys(SPOOFED).map((h) => h.toLowerCase()).filter((h) => h in req.headers);
+      res.json({ user: req.user || null, identityHeaders });
+    });
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${server.address().port}`;
+    process.env.JWKS_URL = `${baseUrl}/.well-known/jwks.json`;
+  });
+
+  after(() => server.close());
+
+  async function call(method, path, headers = {}) {
+    const response = await fetch(`${baseUrl}${path}`, { method, headers });
+    return { status: response.status, body: await response.json() };
+  }
+
+  it('strips identity headers a client sends on a public route', async () => {
+    const { status, body } = await call('GET', '/api/products', SPOOFED);
+    assert.equal(status, 200);
+    assert.equal(body.user, null);
+    assert.deepEqual(body.identityHeaders, []);
+  });
+
+  it('strips identity headers a client sends with a valid token, keeping the token\'s caller', async () => {
+    const token = sign({ sub: 'user-1', role: 'user', permissions: [] });
+    const { status, body } = await call('GET', '/api/orders', { ...SPOOFED, Authorization: `Bearer ${token}` });
+    assert.equal(status, 200);
+    assert.equal(body.user.sub, 'user-1');
+    assert.equal(body.user.role, 'user');
+    assert.deepEqual(body.identityHeaders, []);
+  });
+
+  it('answers 401 on a protected route without a bearer token, whatever headers come with it', async () => {
+    assert.equal((await call('GET', '/api/orders')).status, 401);
+    assert.equal((await call('GET', '/api/orders', SPOOFED)).status, 401);
+    assert.equal((await call('GET', '/api/orders', { Authorization: 'Basic dXNlcjpwYXNz' })).status, 401);
+  });
+
+  it('answers 401 on a protected route for a bad token', async () => {
+    const forged = sign({ sub: 'admin-1', role: 'admin' }, { key: other.privateKey });
+    assert.equal((await call('GET', '/api/orders', { Authorization: `Bearer ${forged}` })).status, 401);
+    const unknownKey = sign({ sub: 'admin-1' }, { kid: 'unknown' });
+    assert.equal((await call('GET', '/api/orders', { Authorization: `Bearer ${unknownKey}` })).status, 401);
+    assert.equal((await call('GET', '/api/orders', { Authorization: 'Bearer not-a-jwt' })).status, 401);
+  });
+
+  it('treats a bad token on a public route as an anonymous caller', async () => {
+    const forged = sign({ sub: 'admin-1', role: 'admin' }, { key: other.privateKey });
+    const { status, body } = await call('POST', '/api/users/login', { Authorization: `Bearer ${forged}` });
+    assert.equal(status, 200);
+    assert.equal(body.user, null);
+  });
+});
+
+describe('forwardIdentity', () => {
+  function proxyRequest() {
+    const headers = {};
+    return { headers, setHeader: (name, value) => { headers[name] = value; } };
+  }
+
+  it('sends the gateway key and the verified caller', () => {
+    const proxyReq = proxyRequest();
+    forwardIdentity(proxyReq, { ip: '203.0.113.7', user: { sub: 'user-1', role: 'user', permissions: ['a', 'b'], sid: 's1' } });
+    assert.deepEqual(proxyReq.headers, {
+      'X-Gateway-Key': 'gateway_key',
+      'X-Client-Ip': '203.0.113.7',
+      'X-User-Id': 'user-1',
+      'X-User-Role': 'user',
+      'X-User-Permissions': 'a,b',
+      'X-Session-Id': 's1'
+    });
+  });
+
+  it('sends no caller for an anonymous request', () => {
+    const proxyReq = proxyRequest();
+    forwardIdentity(proxyReq, { ip: '203.0.113.7' });
+    assert.deepEqual(proxyReq.headers, { 'X-Gateway-Key': 'gateway_key', 'X-Client-Ip': '203.0.113.7' });
+  });
+});
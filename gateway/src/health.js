@@ -0,0 +1,56 @@
+import { serviceName } from '@microstore/observability';
+
+// Read lazily so HEALTH_CHECK_TIMEOUT_MS from .env (loaded after imports run) is honoured
+const checkTimeoutMs = () => Number(process.env.HEALTH_CHECK_TIMEOUT_MS || 2000);
+
+// Fetches one upstream's health endpoint. Its own report comes back as is, with
+// the time it took; one that can't be reached or answers garbage is down.
+async function probe(url) {
+  const started = Date.now();
+  try {
+    const response = await fetch(url, { signal: AbortSignal.timeout(checkTimeoutMs()) });
+    const body = await response.json().catch(() => null);
+    return {
+      status: response.ok && body?.ok ? 'up' : 'down',
+      latencyMs: Date.now() - started,
+      ...(body?.dependencies ? { dependencies: body.dependencies } : {}),
+      ...(response.ok ? {} : { error: body?.error || `status ${response.status}` })
+    };
+  } catch (e) {
+    const error = e.name === 'TimeoutError' ? `timed out after ${checkTimeoutMs()}ms` : e.message;
+    return { status: 'down', latencyMs: Date.now() - started, error };
+  }
+}
+
+// upstreams maps a service's name to its base URL
+async function probeAll(upstreams, path) {
+  const names = Object.keys(upstreams);
+  const results = await Promise.all(names.map((name) => probe(`${upstreams[name]}${path}`)));
+  const services = Object.fromEntries(names.map((name, i) => [name, results[i]]));
+  return { ok: results.every((result) => result.status === 'up'), services };
+}
+
+export function live(_, res) {
+  res.json({ ok: true, service: serviceName(), uptimeSeconds: Math.round(process.uptime()) });
+}
+
+// The gateway can route once every upstream is alive; whether they are ready
+// is for /health/all
+export function ready(upstreams) {
+  return async (_, res) => {
+    const { ok, services } = await probeAll(upstreams, '/health/live');
+    res.status(ok ? 200 : 503).json({ ok, service: serviceName(), dependencies: services });
+  };
+}
+
+// Every upstream's readiness with its dependencies, for the admin status page
+export function healthAll(upstreams) {
+  return async (_, res) => {
+    const { ok, services } = await probeAll(upstreams, '/health/ready');
+    res.status(ok ? 200 : 503).json({
+      ok,
+      checkedAt: new Date().toISOString(),
+      services: { [serviceName()]: { status: 'up', latencyMs: 0 }, ...services }
+    });
+  };
+}
@@ -1,5 +1,4 @@
 import express from 'express';
-import morgan from 'morgan';
 import cors from 'cors';
 import { createProxyMiddleware } from 'http-proxy-middleware';
 import swaggerUi from 'swagger-ui-express';
@@ -7,6 +6,13 @@ import YAML from 'yamljs';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import dotenv from 'dotenv';
+import { authenticate, forwardIdentity, requirePermission } from './auth.js';
+import { rateLimit } from './rateLimit/index.js';
+import { tracing, forwardTrace, logger, requestMetrics, metricsHandler, setServiceName } from '@microstore/observability';
+import { gatewayRouteLabel } from './metrics.js';
+import { live, ready, healthAll } from './health.js';
+
+setServiceName('gateway');
 
 // Load environment variables
 dotenv.config();
@@ -18,9 +24,18 @@ const PORT = process.env.PORT || 8080;
 const USERS_URL = process.env.USERS_URL || 'http://localhost:3001';
 const PRODUCTS_URL = process.env.PRODUCTS_URL || 'http://localhost:3002';
 const ORDERS_URL = process.env.ORDERS_URL || 'http://localhost:3003';
+const UPSTREAMS = { 'user-service': USERS_URL, 'product-service': PRODUCTS_URL, 'order-service': ORDERS_URL };
 
 const app = express();
 
+// Behind a load balancer, TRUST_PROXY (a hop count or addresses, as Express
+// takes them) makes req.ip the client rather than the balancer, so rate
+// limits apply per client
+if (process.env.TRUST_PROXY) {
+  const hops = Number(process.env.TRUST_PROXY);
+  app.set('trust proxy', Number.isInteger(hops) ? hops : process.env.TRUST_PROXY);
+}
+
 // CORS configuration - More permissive for development
 const corsOptions = {
   origin: true, // Allow all origins in development
@@ -33,9 +48,23 @@ const corsOptions = {
     'Accept',
     'Origin',
     'Access-Control-Request-Method',
-    'Access-Control-Request-Headers'
+    'Access-Control-Request-Headers',
+    'Idempotency-Key',
+    'traceparent',
+    'X-Request-Id'
+  ],
+  exposedHeaders: [
+    'Content-Length',
+    'X-Foo',
+    'X-Bar',
+    'Idempotent-Replayed',
+    'RateLimit-Limit',
+    'RateLimit-Remaining',
+    'RateLimit-Reset',
+    'RateLimit-Policy',
+    'Retry-After',
+    'X-Request-Id'
   ],
-  exposedHeaders: ['Content-Length', 'X-Foo', 'X-Bar'],
   optionsSuccessStatus: 200,
   preflightContinue: false
 };
@@ -47,13 +76,14 @@ app.use((req, res, next) => {
   res.header('Access-Control-Allow-Origin', req.headers.origin || '*');
   res.header('Access-Control-Allow-Credentials', 'true');
   res.header('Access-Control-Allow-Methods', 'GET,POST,PUT,DELETE,OPTIONS,PATCH');
-  res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Requested-With, Accept, Origin, Access-Control-Request-Method, Access-Control-Request-Headers');
+  res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Requested-With, Accept, Origin, Access-Control-Request-Method, Access-Control-Request-Headers, traceparent, X-Request-Id');
   if (req.method === 'OPTIONS') {
     return res.sendStatus(200);
   }
   next();
 });
-app.use(morgan('dev'));
+app.use(tracing);
+app.use(requestMetrics(gatewayRouteLabel));
 
 // Load Swagger specification
 const swaggerDocument = YAML.load(path.join(__dirname, '../swagger.yaml'));
@@ -77,15 +107,37 @@ app.get('/swagger.yaml', (req, res) => {
   res.sendFile(path.join(__dirname, '../swagger.yaml'));
 });
 
-app.get('/health', (_, res) => res.json({ ok: true, service: 'gateway' }));
+app.get('/health', live);
+app.get('/health/live', live);
+app.get('/health/ready', ready(UPSTREAMS));
+app.get('/metrics', metricsHandler);
+// Services' own /metrics and readiness reports are for Prometheus and
+// orchestrators to call directly, not for the public
+const INTERNAL_PATHS = ['/metrics', '/health/ready'];
+app.all(
+  ['/api/users', '/api/products', '/api/orders'].flatMap((prefix) => INTERNAL_PATHS.map((internal) => `${prefix}${internal}`)),
+  (_, res) => res.status(404).json({ error: 'not found' })
+);
+
+// Tokens are verified here once; see routePolicies.js for what is public
+app.use(authenticate);
+// After authenticate, so signed-in callers are limited by user rather than address
+app.use(rateLimit);
+
+app.get('/health/all', requirePermission('system:read'), healthAll(UPSTREAMS));
 
 app.use('/api/users', createProxyMiddleware({ 
   target: USERS_URL, 
   changeOrigin: true, 
   pathRewrite: {'^/api/users':''},
+  xfwd: true,
   onProxyReq: (proxyReq, req, res) => {
     // Add CORS headers to proxy requests
     proxyReq.setHeader('Origin', USERS_URL);
+    forwardIdentity(proxyReq, req);
+    forwardTrace(proxyReq);
+    // Lets user-service build pagination links against the public path
+    proxyReq.setHeader('X-Forwarded-Prefix', '/api/users');
   },
   onProxyRes: (proxyRes, req, res) => {
     // Ensure CORS headers are passed through
@@ -108,6 +160,10 @@ app.use('/api/products', createProxyMiddleware({
   pathRewrite: {'^/api/products':''},
   onProxyReq: (proxyReq, req, res) => {
     proxyReq.setHeader('Origin', PRODUCTS_URL);
+    forwardIdentity(proxyReq, req);
+    forwardTrace(proxyReq);
+    // Lets product-service build pagination links against the public path
+    proxyReq.setHeader('X-Forwarded-Prefix', '/api/products');
   },
   onProxyRes: (proxyRes, req, res) => {
     proxyRes.headers['Access-Control-Allow-Origin'] = req.headers.origin || '*';
@@ -129,6 +185,10 @@ app.use('/api/orders', createProxyMiddleware({
   pathRewrite: {'^/api/orders':''},
   onProxyReq: (proxyReq, req, res) => {
     proxyReq.setHeader('Origin', ORDERS_URL);
+    forwardIdentity(proxyReq, req);
+    forwardTrace(proxyReq);
+    // Lets order-service build pagination links against the public path
+    proxyReq.setHeader('X-Forwarded-Prefix', '/api/orders');
   },
   onProxyRes: (proxyRes, req, res) => {
     proxyRes.headers['Access-Control-Allow-Origin'] = req.headers.origin || '*';
@@ -144,4 +204,27 @@ app.use('/api/orders', createProxyMiddleware({
   }
 }));
 
-app.listen(PORT, () => console.log(`Gateway listening on ${PORT}`));
\ No newline at end of file
+app.use('/api/cart', createProxyMiddleware({ 
+  target: ORDERS_URL, 
+  changeOrigin: true, 
+  pathRewrite: {'^/api/cart':'/cart'},
+  onProxyReq: (proxyReq, req, res) => {
+    proxyReq.setHeader('Origin', ORDERS_URL);
+    forwardIdentity(proxyReq, req);
+    forwardTrace(proxyReq);
+  },
+  onProxyRes: (proxyRes, req, res) => {
+    proxyRes.headers['Access-Control-Allow-Origin'] = req.headers.origin || '*';
+    proxyRes.headers['Access-Control-Allow-Credentials'] = 'true';
+  },
+  onError: (err, req, res) => {
+    res.writeHead(502, {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': req.headers.origin || '*',
+      'Access-Control-Allow-Credentials': 'true'
+    });
+    res.end(JSON.stringify({ error: 'proxy_error', service: 'cart', details: err.code || err.message }));
+  }
+}));
+
+app.listen(PORT, () => logger.info(`Gateway listening on ${PORT}`));
\ No newline at end of file
@@ -0,0 +1,62 @@
+import memoryStore from './memoryStore.js';
+import redisStore from './redisStore.js';
+import { rateLimitPolicies, policyFor } from './policies.js';
+import { logger } from '@microstore/observability';
+
+// A rate limit store implements:
+//   name
+//   take(key, { capacity, refillPerMs })  -> { allowed, tokens } after refilling
+//                                            the bucket and taking one token if it can
+const stores = {
+  [memoryStore.name]: memoryStore,
+  [redisStore.name]: redisStore
+};
+
+// Read lazily so RATE_LIMIT_STORE from .env (loaded after imports run) is honoured
+export function getRateLimitStore() {
+  const name = process.env.RATE_LIMIT_STORE || 'memory';
+  const store = stores[name];
+  if (!store) throw new Error(`unknown rate limit store ${name}`);
+  return store;
+}
+
+let policies;
+
+function callerKey(req, policy) {
+  if (policy.by !== 'ip' && req.user?.sub) return `user:${req.user.sub}`;
+  return `ip:${req.ip}`;
+}
+
+// Runs after authenticate, so req.user is the verified caller if there is one.
+// Answers with the RateLimit-* headers from the IETF draft, and a 429 with
+// Retry-After once the bucket is empty.
+export async function rateLimit(req, res, next) {
+  if (process.env.RATE_LIMIT_DISABLED === 'true') return next();
+  if (!policies) policies = rateLimitPolicies();
+  const policy = policyFor(policies, req.method, req.path);
+  if (!policy) return next();
+
+  const { capacity, periodSeconds } = policy;
+  const refillPerMs = capacity / (periodSeconds * 1000);
+  let result;
+  try {
+    result = await getRateLimitStore().take(`${policy.name}:${callerKey(req, policy)}`, { capacity, refillPerMs });
+  } catch (e) {
+    // An unreachable store shouldn't take the whole API down with it
+    logger.error('Rate limit check failed', { error: e.message });
+    return next();
+  }
+
+  const { allowed, tokens } = result;
+  res.set({
+    'RateLimit-Limit': String(capacity),
+    'RateLimit-Remaining': String(Math.floor(tokens)),
+    'RateLimit-Reset': String(Math.ceil((capacity - tokens) / refillPerMs / 1000)),
+    'RateLimit-Policy': `${capacity};w=${periodSeconds}`
+  });
+  if (allowed) return next();
+
+  const retryAfter = Math.max(Math.ceil((1 - tokens) / refillPerMs / 1000), 1);
+  res.set('Retry-After', String(retryAfter));
+  res.status(429).json({ error: 'too many requests', code: 'rate_limited', retryAfter });
+}
@@ -0,0 +1,34 @@
+// Buckets in this process's memory: fine for one gateway, but each instance
+// counts separately when there are several. See redisStore.js.
+const buckets = new Map();
+
+// Buckets that would have refilled completely are the same as no bucket
+const SWEEP_INTERVAL_MS = 60 * 1000;
+let sweeper = null;
+
+function startSweeper() {
+  if (sweeper) return;
+  sweeper = setInterval(() => {
+    const now = Date.now();
+    for (const [key, bucket] of buckets) {
+      if (now >= bucket.fullAt) buckets.delete(key);
+    }
+  }, SWEEP_INTERVAL_MS);
+  // Don't keep the process alive just for this
+  sweeper.unref();
+}
+
+export default {
+  name: 'memory',
+
+  async take(key, { capacity, refillPerMs }) {
+    startSweeper();
+    const now = Date.now();
+    const bucket = buckets.get(key);
+    let tokens = bucket ? Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) * refillPerMs) : capacity;
+    const allowed = tokens >= 1;
+    if (allowed) tokens -= 1;
+    buckets.set(key, { tokens, updatedAt: now, fullAt: now + (capacity - tokens) / refillPerMs });
+    return { allowed, tokens };
+  }
+};
@@ -0,0 +1,44 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import memoryStore from './memoryStore.js';
+
+// 5 requests per second
+const limits = { capacity: 5, refillPerMs: 5 / 1000 };
+
+async function takeMany(key, count) {
+  const results = [];
+  for (let i = 0; i < count; i++) results.push(await memoryStore.take(key, limits));
+  return results;
+}
+
+describe('memory rate limit store', () => {
+  beforeEach(() => mock.timers.enable({ apis: ['Date'], now: 1_000_000 }));
+  afterEach(() => mock.timers.reset());
+
+  it('lets a burst spend the whole bucket, then refuses', async () => {
+    const results = await takeMany('burst', 6);
+    assert.deepEqual(results.map((r) => r.allowed), [true, true, true, true, true, false]);
+    assert.equal(results[4].tokens, 0);
+  });
+
+  it('refills at the configured rate', async () => {
+    await takeMany('refill', 5);
+    mock.timers.tick(100);
+    assert.equal((await memoryStore.take('refill', limits)).allowed, false, 'half a token is not enough');
+    mock.timers.tick(100);
+    assert.equal((await memoryStore.take('refill', limits)).allowed, true);
+  });
+
+  it('never holds more than capacity however long it waits', async () => {
+    await memoryStore.take('cap', limits);
+    mock.timers.tick(60_000);
+    const { tokens } = await memoryStore.take('cap', limits);
+    assert.equal(tokens, limits.capacity - 1);
+  });
+
+  it('keeps a bucket per key', async () => {
+    await takeMany('alice', 5);
+    assert.equal((await memoryStore.take('alice', limits)).allowed, false);
+    assert.equal((await memoryStore.take('bob', limits)).allowed, true);
+  });
+});
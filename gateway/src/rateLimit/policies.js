@@ -0,0 +1,42 @@
+// Token buckets per route. Each caller gets its own bucket per policy holding
+// up to `capacity` requests, refilled at `capacity` per `periodSeconds`, so a
+// burst can spend the whole bucket and then has to wait for the refill. The
+// first policy whose method and path match applies; a path ending in /* also
+// covers everything below it.
+//
+// Callers are told apart by user id when they send a valid token and by
+// address otherwise. `by: 'ip'` always uses the address, for routes where the
+// caller isn't known yet.
+export const DEFAULT_RATE_LIMIT_POLICIES = [
+  // Password guessing; user-service also locks the account, see loginThrottle.js
+  { name: 'login', method: 'POST', path: '/api/users/login/*', capacity: 10, periodSeconds: 60, by: 'ip' },
+  { name: 'register', method: 'POST', path: '/api/users/register', capacity: 5, periodSeconds: 600, by: 'ip' },
+  // Each of these sends an email
+  { name: 'password-reset', method: 'POST', path: '/api/users/forgot-password', capacity: 5, periodSeconds: 600, by: 'ip' },
+  { name: 'verification-email', method: 'POST', path: '/api/users/verify-email/resend', capacity: 5, periodSeconds: 600 },
+  { name: 'checkout', method: 'POST', path: '/api/orders', capacity: 20, periodSeconds: 60 },
+  { name: 'api', method: '*', path: '/api/*', capacity: 300, periodSeconds: 60 }
+];
+
+// RATE_LIMIT_POLICIES may replace the table with a JSON array of the same shape
+export function rateLimitPolicies() {
+  if (!process.env.RATE_LIMIT_POLICIES) return DEFAULT_RATE_LIMIT_POLICIES;
+  const policies = JSON.parse(process.env.RATE_LIMIT_POLICIES);
+  if (!Array.isArray(policies)) throw new Error('RATE_LIMIT_POLICIES must be a JSON array');
+  return policies;
+}
+
+function pathMatches(pattern, path) {
+  if (!pattern.endsWith('/*')) return path === pattern;
+  const prefix = pattern.slice(0, -2);
+  return path === prefix || path.startsWith(`${prefix}/`);
+}
+
+// The gateway's own pages (health, API docs) aren't limited
+export function policyFor(policies, method, path) {
+  const effectiveMethod = method === 'HEAD' ? 'GET' : method;
+  const normalized = path.length > 1 ? path.replace(/\/+$/, '') : path;
+  return policies.find((p) =>
+    (p.method === '*' || p.method === effectiveMethod) && pathMatches(p.path, normalized)
+  ) || null;
+}
@@ -0,0 +1,28 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_RATE_LIMIT_POLICIES, policyFor } from './policies.js';
+
+const nameFor = (method, path) => policyFor(DEFAULT_RATE_LIMIT_POLICIES, method, path)?.name || null;
+
+describe('policyFor', () => {
+  it('picks the first policy that matches', () => {
+    assert.equal(nameFor('POST', '/api/users/login'), 'login');
+    assert.equal(nameFor('POST', '/api/users/login/2fa'), 'login');
+    assert.equal(nameFor('POST', '/api/orders'), 'checkout');
+    assert.equal(nameFor('GET', '/api/orders'), 'api');
+  });
+
+  it('matches /* patterns on whole path segments only', () => {
+    assert.equal(nameFor('POST', '/api/users/loginx'), 'api');
+  });
+
+  it('ignores a trailing slash and treats HEAD as GET', () => {
+    assert.equal(nameFor('POST', '/api/orders/'), 'checkout');
+    assert.equal(nameFor('HEAD', '/api/products'), 'api');
+  });
+
+  it('leaves the gateway\'s own pages alone', () => {
+    assert.equal(nameFor('GET', '/health'), null);
+    assert.equal(nameFor('GET', '/api-docs'), null);
+  });
+});
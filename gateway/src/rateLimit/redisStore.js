@@ -0,0 +1,50 @@
+import Redis from 'ioredis';
+import { logger } from '@microstore/observability';
+
+// Shared buckets for running several gateways, in Redis or anything that
+// speaks its protocol and runs Lua scripts (Valkey, KeyDB, Dragonfly).
+// The script refills and takes in one step, timed by the server's clock, so
+// gateways with drifting clocks still agree.
+const TAKE_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local refill_per_ms = tonumber(ARGV[2])
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local bucket = redis.call('HMGET', KEYS[1], 'tokens', 'updatedAt')
+local tokens = tonumber(bucket[1]) or capacity
+local updated_at = tonumber(bucket[2]) or now
+tokens = math.min(capacity, tokens + math.max(now - updated_at, 0) * refill_per_ms)
+local allowed = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  allowed = 1
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updatedAt', now)
+redis.call('PEXPIRE', KEYS[1], math.ceil((capacity - tokens) / refill_per_ms) + 1000)
+return { allowed, tostring(tokens) }
+`;
+
+let client;
+
+// Created on first use so REDIS_URL from .env (loaded after imports run) is honoured.
+// Commands fail fast instead of queueing while Redis is unreachable.
+function getClient() {
+  if (!client) {
+    client = new Redis(process.env.REDIS_URL || 'redis://localhost:6379', {
+      enableOfflineQueue: false,
+      maxRetriesPerRequest: 1
+    });
+    client.on('error', (error) => logger.error('Rate limit store error', { error: error.message }));
+    client.defineCommand('takeToken', { numberOfKeys: 1, lua: TAKE_SCRIPT });
+  }
+  return client;
+}
+
+export default {
+  name: 'redis',
+
+  async take(key, { capacity, refillPerMs }) {
+    const [allowed, tokens] = await getClient().takeToken(`ratelimit:${key}`, capacity, refillPerMs);
+    return { allowed: allowed === 1, tokens: Number(tokens) };
+  }
+};
@@ -0,0 +1,45 @@
+// Who may call what through the gateway. The first entry whose method and path
+// match decides; a path ending in /* also covers everything below it. Anything
+// under /api that no entry names needs a signed-in user, and the services still
+// check permissions themselves.
+export const PUBLIC = 'public';
+export const AUTHENTICATED = 'authenticated';
+
+export const ROUTE_POLICIES = [
+  { method: 'POST', path: '/api/users/register', access: PUBLIC },
+  { method: 'POST', path: '/api/users/login', access: PUBLIC },
+  { method: 'POST', path: '/api/users/login/2fa', access: PUBLIC },
+  { method: 'POST', path: '/api/users/login/2fa/setup', access: PUBLIC },
+  { method: 'POST', path: '/api/users/login/2fa/enable', access: PUBLIC },
+  { method: 'POST', path: '/api/users/refresh-token', access: PUBLIC },
+  { method: 'POST', path: '/api/users/forgot-password', access: PUBLIC },
+  { method: 'POST', path: '/api/users/reset-password', access: PUBLIC },
+  { method: 'POST', path: '/api/users/verify-email', access: PUBLIC },
+  { method: 'GET', path: '/api/users/.well-known/jwks.json', access: PUBLIC },
+  // The catalogue, categories and product images
+  { method: 'GET', path: '/api/products/*', access: PUBLIC },
+  // A read, though a POST so the ids fit in the body
+  { method: 'POST', path: '/api/products/batch', access: PUBLIC },
+  // Authenticated by the provider's signature instead
+  { method: 'POST', path: '/api/orders/payments/webhook', access: PUBLIC },
+  // Upstream status for admins; the rest of the gateway's own pages are public
+  { method: 'GET', path: '/health/all', access: AUTHENTICATED },
+  { method: '*', path: '/api/*', access: AUTHENTICATED }
+];
+
+function pathMatches(pattern, path) {
+  if (!pattern.endsWith('/*')) return path === pattern;
+  const prefix = pattern.slice(0, -2);
+  return path === prefix || path.startsWith(`${prefix}/`);
+}
+
+// The gateway's own pages (health, API docs) fall through to public
+export function accessFor(method, path) {
+  // HEAD is answered like GET
+  const effectiveMethod = method === 'HEAD' ? 'GET' : method;
+  const normalized = path.length > 1 ? path.replace(/\/+$/, '') : path;
+  const policy = ROUTE_POLICIES.find((p) =>
+    (p.method === '*' || p.method === effectiveMethod) && pathMatches(p.path, normalized)
+  );
+  return policy ? policy.access : PUBLIC;
+}
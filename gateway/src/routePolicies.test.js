@@ -0,0 +1,46 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PUBLIC, AUTHENTICATED, accessFor } from './routePolicies.js';
+
+describe('accessFor', () => {
+  it('lets anyone log in, register and refresh', () => {
+    assert.equal(accessFor('POST', '/api/users/login'), PUBLIC);
+    assert.equal(accessFor('POST', '/api/users/register'), PUBLIC);
+    assert.equal(accessFor('POST', '/api/users/refresh-token'), PUBLIC);
+  });
+
+  it('matches exact paths exactly', () => {
+    assert.equal(accessFor('POST', '/api/users/login/anything'), AUTHENTICATED);
+    assert.equal(accessFor('GET', '/api/users/login'), AUTHENTICATED);
+  });
+
+  it('lets anyone browse the catalogue but not change it', () => {
+    assert.equal(accessFor('GET', '/api/products'), PUBLIC);
+    assert.equal(accessFor('GET', '/api/products/42/images/1'), PUBLIC);
+    assert.equal(accessFor('POST', '/api/products'), AUTHENTICATED);
+    assert.equal(accessFor('DELETE', '/api/products/42'), AUTHENTICATED);
+  });
+
+  it('matches /* patterns on whole path segments only', () => {
+    assert.equal(accessFor('GET', '/api/productsx'), AUTHENTICATED);
+  });
+
+  it('ignores a trailing slash and treats HEAD as GET', () => {
+    assert.equal(accessFor('POST', '/api/users/login/'), PUBLIC);
+    assert.equal(accessFor('HEAD', '/api/products'), PUBLIC);
+    assert.equal(accessFor('HEAD', '/api/orders'), AUTHENTICATED);
+  });
+
+  it('needs a signed-in user for anything under /api it does not name', () => {
+    assert.equal(accessFor('GET', '/api/orders'), AUTHENTICATED);
+    assert.equal(accessFor('GET', '/api/users/me'), AUTHENTICATED);
+    assert.equal(accessFor('GET', '/api/something-new'), AUTHENTICATED);
+  });
+
+  it('leaves the webhook to its signature and the gateway\'s own pages public', () => {
+    assert.equal(accessFor('POST', '/api/orders/payments/webhook'), PUBLIC);
+    assert.equal(accessFor('GET', '/health'), PUBLIC);
+    assert.equal(accessFor('GET', '/api-docs'), PUBLIC);
+    assert.equal(accessFor('GET', '/health/all'), AUTHENTICATED);
+  });
+});
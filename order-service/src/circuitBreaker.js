@@ -0,0 +1,57 @@
+export const CLOSED = 'closed';
+export const OPEN = 'open';
+export const HALF_OPEN = 'half_open';
+
+// Stops calling a service that keeps failing, so callers fail fast instead of
+// each waiting out a timeout.
+//   closed:    calls go through; failureThreshold failures in a row open it
+//   open:      calls are refused until resetMs has passed
+//   half_open: one probe call goes through; success closes it, failure opens it again
+export class CircuitBreaker {
+  constructor(name, { failureThreshold, resetMs, onStateChange = () => {} }) {
+    this.name = name;
+    this.failureThreshold = failureThreshold;
+    this.resetMs = resetMs;
+    this.onStateChange = onStateChange;
+    this.state = CLOSED;
+    this.failures = 0;
+    this.openedAt = 0;
+    this.probing = false;
+  }
+
+  // Returns 0 when a call may go now, else the ms until one might. While a
+  // half-open probe is out, everyone else waits for its answer.
+  acquire() {
+    if (this.state === OPEN) {
+      const remaining = this.openedAt + this.resetMs - Date.now();
+      if (remaining > 0) return remaining;
+      this.transition(HALF_OPEN);
+    }
+    if (this.state === HALF_OPEN) {
+      if (this.probing) return this.resetMs;
+      this.probing = true;
+    }
+    return 0;
+  }
+
+  success() {
+    this.failures = 0;
+    this.probing = false;
+    if (this.state !== CLOSED) this.transition(CLOSED);
+  }
+
+  failure() {
+    this.failures += 1;
+    this.probing = false;
+    if (this.state === HALF_OPEN || this.failures >= this.failureThreshold) {
+      this.openedAt = Date.now();
+      if (this.state !== OPEN) this.transition(OPEN);
+    }
+  }
+
+  transition(state) {
+    const from = this.state;
+    this.state = state;
+    this.onStateChange(this, from);
+  }
+}
@@ -0,0 +1,71 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { CircuitBreaker, CLOSED, OPEN, HALF_OPEN } from './circuitBreaker.js';
+
+describe('CircuitBreaker', () => {
+  let breaker;
+  let changes;
+
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['Date'] });
+    changes = [];
+    breaker = new CircuitBreaker('product-service', {
+      failureThreshold: 3,
+      resetMs: 1000,
+      onStateChange: ({ state }, from) => changes.push(`${from}->${state}`)
+    });
+  });
+
+  afterEach(() => mock.timers.reset());
+
+  it('opens after failureThreshold failures in a row', () => {
+    breaker.failure();
+    breaker.failure();
+    assert.equal(breaker.state, CLOSED);
+    breaker.failure();
+    assert.equal(breaker.state, OPEN);
+    assert.deepEqual(changes, ['closed->open']);
+  });
+
+  it('starts counting again after a success', () => {
+    breaker.failure();
+    breaker.failure();
+    breaker.success();
+    breaker.failure();
+    breaker.failure();
+    assert.equal(breaker.state, CLOSED);
+  });
+
+  it('refuses calls while open and says how long to wait', () => {
+    for (let i = 0; i < 3; i++) breaker.failure();
+    mock.timers.tick(400);
+    assert.equal(breaker.acquire(), 600);
+  });
+
+  it('lets one probe through once resetMs has passed', () => {
+    for (let i = 0; i < 3; i++) breaker.failure();
+    mock.timers.tick(1000);
+    assert.equal(breaker.acquire(), 0);
+    assert.equal(breaker.state, HALF_OPEN);
+    assert.equal(breaker.acquire(), 1000, 'a second caller waits for the probe');
+  });
+
+  it('closes when the probe succeeds', () => {
+    for (let i = 0; i < 3; i++) breaker.failure();
+    mock.timers.tick(1000);
+    breaker.acquire();
+    breaker.success();
+    assert.equal(breaker.state, CLOSED);
+    assert.equal(breaker.acquire(), 0);
+  });
+
+  it('opens again for another period when the probe fails', () => {
+    for (let i = 0; i < 3; i++) breaker.failure();
+    mock.timers.tick(1000);
+    breaker.acquire();
+    breaker.failure();
+    assert.equal(breaker.state, OPEN);
+    assert.equal(breaker.acquire(), 1000);
+    assert.deepEqual(changes, ['closed->open', 'open->half_open', 'half_open->open']);
+  });
+});
@@ -1,17 +1,54 @@
 import express from 'express';
-import morgan from 'morgan';
 import cors from 'cors';
 import dotenv from 'dotenv';
 import axios from 'axios';
-import jwt from 'jsonwebtoken';
 import { DataSource } from "typeorm";
 import "reflect-metadata";
 import Order from './models/Order.js';
+import Cart from './models/Cart.js';
+import IdempotencyKey from './models/IdempotencyKey.js';
+import Coupon from './models/Coupon.js';
+import CouponRedemption from './models/CouponRedemption.js';
+import TaxRate from './models/TaxRate.js';
+import ShippingRule from './models/ShippingRule.js';
+import PaymentIntent from './models/PaymentIntent.js';
+import cartRoutes from './routes/cart.js';
+import couponRoutes, { quoteWithCoupon, redeemCoupon, revokeRedemption } from './routes/coupons.js';
+import taxRateRoutes from './routes/taxRates.js';
+import shippingRuleRoutes from './routes/shippingRules.js';
+import paymentRoutes from './routes/payments.js';
+import { auth, requirePermission } from '@microstore/service-auth';
+import { idempotent, deleteExpiredIdempotencyKeys } from './middleware/idempotency.js';
+import { getProducts, productServiceUrl, createReservation, commitReservation, releaseReservation } from './productClient.js';
+import { ServiceUnavailableError, sendServiceUnavailable } from './internalClient.js';
+import { CouponError } from './pricing.js';
+import { normalizeShippingAddress } from './shippingAddress.js';
+import { ORDER_STATUSES, CUSTOMER_CANCELLABLE, OrderStatusError, canTransition, transitionOrder, cancelUnpaidOrders } from './orderStatus.js';
+import {
+  tracing,
+  instrumentAxios,
+  logger,
+  healthRoutes,
+  databaseCheck,
+  serviceCheck,
+  requestMetrics,
+  registerDataSourceMetrics,
+  metricsHandler,
+  setServiceName
+} from '@microstore/observability';
+import { ordersCreated, orderRevenue } from './metrics.js';
 
+setServiceName('order-service');
 dotenv.config();
 const PORT = process.env.PORT || 3003;
-const ACCESS_TOKEN_SECRET = process.env.ACCESS_TOKEN_SECRET || 'access_secret';
-const PRODUCT_SERVICE_URL = process.env.PRODUCT_SERVICE_URL || 'http://localhost:3002';
+const PRODUCT_SERVICE_URL = productServiceUrl();
+const IDEMPOTENCY_SWEEP_INTERVAL_MS = Number(process.env.IDEMPOTENCY_SWEEP_INTERVAL_MS || 3600000);
+const PENDING_ORDER_SWEEP_INTERVAL_MS = Number(process.env.PENDING_ORDER_SWEEP_INTERVAL_MS || 300000);
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+// Every axios call, here and in internalClient.js, carries the request's trace
+instrumentAxios(axios);
 
 // Database configuration
 const AppDataSource = new DataSource({
@@ -23,10 +60,11 @@ const AppDataSource = new DataSource({
   database: process.env.DB_NAME || "microstore_orders",
   synchronize: true,
   logging: false,
-  entities: [Order],
+  entities: [Order, Cart, IdempotencyKey, Coupon, CouponRedemption, TaxRate, ShippingRule, PaymentIntent],
   subscribers: [],
   migrations: [],
 });
+registerDataSourceMetrics(AppDataSource);
 
 const app = express();
 
@@ -34,67 +72,202 @@ const app = express();
 const corsOptions = {
   origin: ['http://localhost:3000', 'http://127.0.0.1:3000', 'http://localhost:8080'],
   credentials: true,
-  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
+  methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'Idempotency-Key'],
+  exposedHeaders: ['Idempotent-Replayed'],
   optionsSuccessStatus: 200
 };
 
 app.use(cors(corsOptions));
-app.use(express.json());
-app.use(morgan('dev'));
+// Keep the raw bytes too: payment webhook signatures are computed over them
+app.use(express.json({ verify: (req, _res, buf) => { req.rawBody = buf; } }));
+app.use(tracing);
+app.use(requestMetrics());
 
 // Initialize database connection
 AppDataSource.initialize()
   .then(() => {
-    console.log("Order PostgreSQL connected");
+    logger.info("Order PostgreSQL connected");
+
+    // Forget idempotency keys once their replay window has passed
+    setInterval(() => {
+      deleteExpiredIdempotencyKeys(AppDataSource)
+        .then((count) => { if (count) logger.info(`Deleted ${count} expired idempotency key(s)`); })
+        .catch((error) => logger.error("Idempotency key sweep failed", { error: error.message }));
+    }, IDEMPOTENCY_SWEEP_INTERVAL_MS);
+
+    // Give the stock of orders nobody paid for back to product-service
+    setInterval(() => {
+      cancelUnpaidOrders(AppDataSource)
+        .then((count) => { if (count) logger.info(`Cancelled ${count} unpaid order(s)`); })
+        .catch((error) => logger.error("Unpaid order sweep failed", { error: error.message }));
+    }, PENDING_ORDER_SWEEP_INTERVAL_MS);
   })
   .catch((error) => {
-    console.error("Database error", error);
+    logger.error("Database error", { error: error.message });
     process.exit(1);
   });
 
-app.get('/health', (_, res) => res.json({ ok: true, service: 'order-service' }));
+app.use(healthRoutes({
+  database: databaseCheck(AppDataSource),
+  'product-service': serviceCheck(axios, PRODUCT_SERVICE_URL)
+}));
+app.get('/metrics', metricsHandler);
+
+// Make AppDataSource available to routes
+app.use((req, res, next) => {
+  req.AppDataSource = AppDataSource;
+  next();
+});
+
+app.use('/cart', cartRoutes);
+app.use('/coupons', couponRoutes);
+app.use('/tax-rates', taxRateRoutes);
+app.use('/shipping-rules', shippingRuleRoutes);
+app.use('/payments', paymentRoutes);
 
-function auth(req, res, next) {
-  const h = req.headers.authorization || '';
-  const [, token] = h.split(' ');
-  if (!token) return res.status(401).json({ error: 'missing token' });
+async function tryReleaseReservation(reservationId) {
   try {
-    req.user = jwt.verify(token, ACCESS_TOKEN_SECRET);
-    next();
-  } catch {
-    res.status(401).json({ error: 'invalid token' });
+    await releaseReservation(reservationId);
+  } catch (e) {
+    // The product-service sweeper returns the stock once the reservation expires
+    logger.error(`Failed to release reservation ${reservationId}`, { error: e.message });
   }
 }
 
-app.post('/', auth, async (req, res) => {
+// product-service looks up at most this many products at once
+const MAX_ORDER_PRODUCTS = 100;
+
+function validateItems(items) {
+  if (!Array.isArray(items) || items.length === 0) return 'items array required';
+  if (items.some((it) => typeof it?.productId !== 'string' || !it.productId || !Number.isInteger(it.qty) || it.qty <= 0)) {
+    return 'each item needs a productId and a positive integer qty';
+  }
+  if (new Set(items.map((it) => it.productId)).size > MAX_ORDER_PRODUCTS) {
+    return `at most ${MAX_ORDER_PRODUCTS} different products per order`;
+  }
+  return null;
+}
+
+// Current price, category and weight of every line, for pricing, coupon scope,
+// tax and shipping, in one call. Resolves to { lines }, or { missingProductId }
+// when a product doesn't exist.
+async function loadOrderLines(items) {
+  const { data: products, missing } = await getProducts(items.map((it) => it.productId));
+  if (missing.length) return { missingProductId: missing[0] };
+
+  const byId = new Map(products.map((product) => [product.id, product]));
+  const lines = items.map((it) => {
+    const product = byId.get(it.productId);
+    return {
+      productId: it.productId,
+      name: product.name,
+      categoryId: product.categoryId || null,
+      categoryAncestorIds: product.categoryAncestorIds || [],
+      qty: it.qty,
+      unitPrice: product.price,
+      weight: product.weight || 0
+    };
+  });
+  return { lines };
+}
+
+async function loadCharges(manager) {
+  const [taxRates, shippingRules] = await Promise.all([
+    manager.find(TaxRate),
+    manager.find(ShippingRule, { where: { active: true } })
+  ]);
+  return { taxRates, shippingRules };
+}
+
+// Preview of what POST / would charge: coupon discount, tax and shipping
+app.post('/quote', auth, async (req, res) => {
   try {
-    const { items } = req.body;
-    if (!Array.isArray(items) || items.length === 0) {
-      return res.status(400).json({ error: 'items array required' });
-    }
-    
-    const pricedItems = [];
-    for (const it of items) {
-      const { data: product } = await axios.get(`${PRODUCT_SERVICE_URL}/${it.productId}`);
-      pricedItems.push({
-        productId: it.productId,
-        qty: it.qty,
-        priceAtPurchase: product.price
-      });
-    }
-    
-    const total = pricedItems.reduce((sum, it) => sum + it.qty * it.priceAtPurchase, 0);
-    const orderRepository = AppDataSource.getRepository(Order);
-    const order = orderRepository.create({ 
-      userId: req.user.sub, 
-      items: pricedItems, 
-      total 
+    const itemsError = validateItems(req.body.items);
+    if (itemsError) return res.status(400).json({ error: itemsError });
+
+    const { lines, missingProductId } = await loadOrderLines(req.body.items);
+    if (missingProductId) return res.status(400).json({ error: 'invalid product id', productId: missingProductId });
+    const charges = await loadCharges(AppDataSource.manager);
+    const { coupon, ...quote } = await quoteWithCoupon(AppDataSource.manager, req.user.sub, lines, req.body.couponCode, { charges });
+    res.json({
+      ...quote,
+      coupon: coupon && { code: coupon.code, type: coupon.type, value: Number(coupon.value) }
     });
-    const savedOrder = await orderRepository.save(order);
+  } catch (e) {
+    if (e instanceof CouponError) return res.status(e.status).json({ error: e.message });
+    if (e instanceof ServiceUnavailableError) return sendServiceUnavailable(res, e);
+    res.status(500).json({ error: e.message });
+  }
+});
+
+app.post('/', auth, idempotent, async (req, res) => {
+  let reservation;
+  let savedOrder;
+  try {
+    const { items, couponCode } = req.body;
+    const itemsError = validateItems(items);
+    if (itemsError) return res.status(400).json({ error: itemsError });
+    const { address: shippingAddress, error: addressError } = normalizeShippingAddress(req.body.shippingAddress);
+    if (addressError) return res.status(400).json({ error: addressError });
+
+    const { lines, missingProductId } = await loadOrderLines(items);
+    if (missingProductId) return res.status(400).json({ error: 'invalid product id', productId: missingProductId });
+
+    // Hold the stock for every line before the order exists, all or nothing
+    reservation = await createReservation(
+      lines.map(({ productId, qty }) => ({ productId, qty })),
+      req.user.sub
+    );
+
+    // The coupon row stays locked until the order is saved, so its limits hold under concurrency
+    savedOrder = await AppDataSource.transaction(async (manager) => {
+      const charges = await loadCharges(manager);
+      const { coupon, ...quote } = await quoteWithCoupon(manager, req.user.sub, lines, couponCode, { lock: true, charges });
+      const order = await manager.save(Order, manager.create(Order, {
+        userId: req.user.sub,
+        items: quote.lines.map((line) => ({
+          productId: line.productId,
+          qty: line.qty,
+          priceAtPurchase: line.unitPrice,
+          discount: line.discount,
+          taxRate: line.taxRate,
+          tax: line.tax
+        })),
+        subtotal: quote.subtotal,
+        discount: quote.discount,
+        tax: quote.tax,
+        shipping: quote.shipping,
+        couponCode: coupon?.code || null,
+        total: quote.total,
+        shippingAddress,
+        reservationId: reservation.id
+      }));
+      if (coupon) await redeemCoupon(manager, coupon, req.user.sub, order.id);
+      return order;
+    });
+
+    await commitReservation(reservation.id);
+    ordersCreated.inc();
+    orderRevenue.inc(Number(savedOrder.total));
+
+    // The order now owns these items; a stale cart is not worth failing the order over
+    await AppDataSource.getRepository(Cart).update({ userId: req.user.sub }, { items: [] })
+      .catch((e) => logger.error('Failed to clear cart', { error: e.message }));
     res.status(201).json(savedOrder);
   } catch (e) {
-    if (e.response?.status === 404) return res.status(400).json({ error: 'invalid product id' });
+    if (savedOrder) {
+      await AppDataSource.transaction(async (manager) => {
+        await revokeRedemption(manager, savedOrder.id);
+        await manager.remove(Order, savedOrder);
+      }).catch(() => {});
+    }
+    if (reservation) await tryReleaseReservation(reservation.id);
+
+    if (e instanceof CouponError) return res.status(e.status).json({ error: e.message });
+    if (e instanceof ServiceUnavailableError) return sendServiceUnavailable(res, e);
+    if (e.response?.status === 404) return res.status(400).json({ error: 'invalid product id', productId: e.response.data?.productId });
+    if (e.response?.status === 409) return res.status(409).json({ error: e.response.data?.error || 'insufficient stock', productId: e.response.data?.productId });
     res.status(500).json({ error: e.message });
   }
 });
@@ -112,4 +285,115 @@ app.get('/', auth, async (req, res) => {
   }
 });
 
-app.listen(PORT, () => console.log(`Order service on ${PORT}`));
+function parseOrderListQuery(query) {
+  const page = query.page === undefined ? 1 : Number(query.page);
+  if (!Number.isInteger(page) || page < 1) return { error: 'page must be a positive integer' };
+
+  const limit = query.limit === undefined ? DEFAULT_PAGE_SIZE : Number(query.limit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return { error: `limit must be an integer between 1 and ${MAX_PAGE_SIZE}` };
+  }
+
+  const status = typeof query.status === 'string' && query.status ? query.status : undefined;
+  if (status && !ORDER_STATUSES.includes(status)) {
+    return { error: `status must be one of ${ORDER_STATUSES.join(', ')}` };
+  }
+
+  return {
+    page,
+    limit,
+    status,
+    userId: typeof query.userId === 'string' && query.userId ? query.userId : undefined
+  };
+}
+
+function buildPageLinks(req, options, totalPages) {
+  // The gateway tells us the public path (e.g. /api/orders/admin) it strips before proxying
+  const basePath = req.headers['x-forwarded-prefix'] ? `${req.headers['x-forwarded-prefix']}${req.path}` : req.path;
+  const link = (page) => {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(req.query)) {
+      if (key !== 'page' && value !== undefined && value !== '') params.set(key, value);
+    }
+    params.set('page', page);
+    params.set('limit', options.limit);
+    return `${basePath}?${params.toString()}`;
+  };
+  return {
+    self: link(options.page),
+    next: options.page < totalPages ? link(options.page + 1) : null,
+    prev: options.page > 1 ? link(Math.min(options.page - 1, Math.max(totalPages, 1))) : null
+  };
+}
+
+// Every customer's orders, newest first, for whoever runs fulfilment
+app.get('/admin', auth, requirePermission('orders:manage'), async (req, res) => {
+  try {
+    const options = parseOrderListQuery(req.query);
+    if (options.error) return res.status(400).json({ error: options.error });
+
+    const where = {};
+    if (options.status) where.status = options.status;
+    if (options.userId) where.userId = options.userId;
+
+    const [orders, total] = await AppDataSource.getRepository(Order).findAndCount({
+      where,
+      order: { createdAt: 'DESC', id: 'ASC' },
+      skip: (options.page - 1) * options.limit,
+      take: options.limit
+    });
+
+    const totalPages = Math.ceil(total / options.limit);
+    res.json({
+      data: orders,
+      page: options.page,
+      limit: options.limit,
+      total,
+      totalPages,
+      links: buildPageLinks(req, options, totalPages)
+    });
+  } catch (e) {
+    res.status(500).json({ error: e.message });
+  }
+});
+
+app.patch('/:id/status', auth, requirePermission('orders:manage'), async (req, res) => {
+  try {
+    const { status } = req.body;
+    if (!ORDER_STATUSES.includes(status)) {
+      return res.status(400).json({ error: `status must be one of ${ORDER_STATUSES.join(', ')}` });
+    }
+
+    const orderRepository = AppDataSource.getRepository(Order);
+    const order = await orderRepository.findOne({ where: { id: req.params.id } });
+    if (!order) return res.status(404).json({ error: 'not found' });
+    if (!canTransition(order.status, status)) {
+      return res.status(409).json({ error: `cannot move order from ${order.status} to ${status}` });
+    }
+
+    res.json(await transitionOrder(AppDataSource, order, status));
+  } catch (e) {
+    if (e instanceof OrderStatusError) return res.status(e.status).json({ error: e.message });
+    if (e instanceof ServiceUnavailableError) return sendServiceUnavailable(res, e);
+    res.status(400).json({ error: e.message });
+  }
+});
+
+app.post('/:id/cancel', auth, async (req, res) => {
+  try {
+    const orderRepository = AppDataSource.getRepository(Order);
+    const order = await orderRepository.findOne({ where: { id: req.params.id, userId: req.user.sub } });
+    if (!order) return res.status(404).json({ error: 'not found' });
+    if (!CUSTOMER_CANCELLABLE.includes(order.status)) {
+      return res.status(409).json({ error: `order is ${order.status} and can no longer be cancelled` });
+    }
+
+    res.json(await transitionOrder(AppDataSource, order, 'cancelled'));
+  } catch (e) {
+    if (e instanceof OrderStatusError) return res.status(e.status).json({ error: e.message });
+    if (e instanceof ServiceUnavailableError) return sendServiceUnavailable(res, e);
+    res.status(400).json({ error: e.message });
+  }
+});
+
+app.listen(PORT, () => logger.info(`Order service on ${PORT}`));
@@ -0,0 +1,100 @@
+import axios from 'axios';
+import { CircuitBreaker, CLOSED, OPEN } from './circuitBreaker.js';
+import { circuitBreakerState } from './metrics.js';
+import { logger } from '@microstore/observability';
+
+// Thrown instead of the axios error when a service can't answer: it timed out
+// or failed on every attempt, or its circuit is open. Routes pass it on to the
+// client with sendServiceUnavailable().
+export class ServiceUnavailableError extends Error {
+  constructor(service, retryAfter) {
+    super(`${service} unavailable`);
+    this.status = 503;
+    this.service = service;
+    this.retryAfter = retryAfter;
+  }
+}
+
+// The 503 contract: { error, code: 'service_unavailable', service, retryAfter }
+// plus Retry-After, in seconds
+export function sendServiceUnavailable(res, error) {
+  res.set('Retry-After', String(error.retryAfter));
+  res.status(503).json({ error: error.message, code: 'service_unavailable', service: error.service, retryAfter: error.retryAfter });
+}
+
+// No answer, or an answer saying the service itself is broken. 4xx answers
+// mean it is working fine and are the caller's to handle.
+function isFailure(error) {
+  return !error.response || error.response.status >= 500;
+}
+
+// The request never left, so even a call that isn't idempotent can be retried
+function neverSent(error) {
+  return ['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN'].includes(error.code);
+}
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Calls to another service with a timeout per attempt, bounded retries with
+// full-jitter backoff, and a circuit breaker. Settings are read lazily from
+// <prefix>_TIMEOUT_MS, _RETRIES, _RETRY_DELAY_MS, _CIRCUIT_THRESHOLD and
+// _CIRCUIT_RESET_MS so values from .env (loaded after imports run) are honoured.
+export function createInternalClient(service, { baseUrl, settingsPrefix }) {
+  const setting = (name, fallback) => Number(process.env[`${settingsPrefix}_${name}`] || fallback);
+  let breaker;
+
+  function getBreaker() {
+    if (!breaker) {
+      breaker = new CircuitBreaker(service, {
+        failureThreshold: setting('CIRCUIT_THRESHOLD', 5),
+        resetMs: setting('CIRCUIT_RESET_MS', 30000),
+        onStateChange: ({ state }, from) => {
+          circuitBreakerState.set({ target: service }, state === CLOSED ? 0 : state === OPEN ? 2 : 1);
+          const log = state === CLOSED ? logger.info : logger.warn;
+          log(`Circuit for ${service} ${state}`, { from });
+        }
+      });
+    }
+    return breaker;
+  }
+
+  // Waits a random time up to base * 2^attempt, so callers retrying together spread out
+  function backoffMs(attempt) {
+    return Math.random() * Math.min(setting('RETRY_DELAY_MS', 100) * 2 ** attempt, 2000);
+  }
+
+  // Answers with the axios response, throws the axios error for a 4xx and a
+  // ServiceUnavailableError otherwise. Only idempotent calls are retried once
+  // they may have reached the service; GETs are idempotent unless told otherwise.
+  // The breaker counts calls, not attempts: a call that fails after all its
+  // retries is one failure.
+  async function request(config, { idempotent = (config.method || 'get') === 'get' } = {}) {
+    const circuit = getBreaker();
+    const retries = setting('RETRIES', 2);
+    const waitMs = circuit.acquire();
+    if (waitMs) throw new ServiceUnavailableError(service, Math.ceil(waitMs / 1000));
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await axios.request({ ...config, baseURL: baseUrl(), timeout: setting('TIMEOUT_MS', 3000) });
+        circuit.success();
+        return response;
+      } catch (error) {
+        if (!isFailure(error)) {
+          circuit.success();
+          throw error;
+        }
+        logger.warn(`Call to ${service} failed`, { attempt: attempt + 1, url: config.url, error: error.message });
+        // Other calls may have opened the circuit meanwhile; stop retrying then
+        if (attempt >= retries || !(idempotent || neverSent(error)) || circuit.state === OPEN) {
+          circuit.failure();
+          const retryAfterMs = circuit.state === CLOSED ? 1000 : circuit.resetMs;
+          throw new ServiceUnavailableError(service, Math.ceil(retryAfterMs / 1000));
+        }
+        await sleep(backoffMs(attempt));
+      }
+    }
+  }
+
+  return { request };
+}
@@ -0,0 +1,65 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { createInternalClient, ServiceUnavailableError } from './internalClient.js';
+
+// Answers every attempt with the next of responses: a status code, or 'down'
+// for a connection that never got an answer
+function scripted(responses) {
+  const calls = [];
+  const adapter = async (config) => {
+    calls.push(config.url);
+    const next = responses.length > 1 ? responses.shift() : responses[0];
+    if (next === 'down') throw Object.assign(new Error('socket hang up'), { code: 'ECONNRESET', config });
+    const response = { status: next, statusText: '', headers: {}, config, data: {} };
+    if (next >= 400) throw Object.assign(new Error(`status ${next}`), { config, response });
+    return response;
+  };
+  return { adapter, calls };
+}
+
+describe('createInternalClient', () => {
+  let client;
+
+  beforeEach(() => {
+    Object.assign(process.env, {
+      TEST_CLIENT_RETRIES: '2',
+      TEST_CLIENT_RETRY_DELAY_MS: '1',
+      TEST_CLIENT_CIRCUIT_THRESHOLD: '2',
+      TEST_CLIENT_CIRCUIT_RESET_MS: '60000'
+    });
+    client = createInternalClient('test-service', { baseUrl: () => 'http://test.invalid', settingsPrefix: 'TEST_CLIENT' });
+  });
+
+  it('retries an idempotent call until it succeeds', async () => {
+    const { adapter, calls } = scripted(['down', 503, 200]);
+    const response = await client.request({ url: '/products/1', adapter });
+    assert.equal(response.status, 200);
+    assert.equal(calls.length, 3);
+  });
+
+  it('does not retry a call that is not idempotent once it may have arrived', async () => {
+    const { adapter, calls } = scripted(['down']);
+    await assert.rejects(
+      client.request({ method: 'post', url: '/reservations', adapter }, { idempotent: false }),
+      ServiceUnavailableError
+    );
+    assert.equal(calls.length, 1);
+  });
+
+  it('passes a 4xx answer on without retrying', async () => {
+    const { adapter, calls } = scripted([404]);
+    await assert.rejects(client.request({ url: '/products/1', adapter }), (e) => e.response?.status === 404);
+    assert.equal(calls.length, 1);
+  });
+
+  it('counts a call that fails after all its retries as one failure', async () => {
+    const { adapter, calls } = scripted(['down']);
+    await assert.rejects(client.request({ url: '/products/1', adapter }), ServiceUnavailableError);
+    assert.equal(calls.length, 3);
+
+    // One more failed call reaches the threshold of two; after that calls fail at once
+    await assert.rejects(client.request({ url: '/products/1', adapter }), ServiceUnavailableError);
+    await assert.rejects(client.request({ url: '/products/1', adapter }), (e) => e instanceof ServiceUnavailableError && e.retryAfter === 60);
+    assert.equal(calls.length, 6);
+  });
+});
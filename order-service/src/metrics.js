@@ -0,0 +1,21 @@
+import { client } from '@microstore/observability';
+
+// order-service's own metrics; request, process and database pool metrics come
+// from @microstore/observability
+
+export const ordersCreated = new client.Counter({
+  name: 'orders_created_total',
+  help: 'Orders placed'
+});
+
+export const orderRevenue = new client.Counter({
+  name: 'order_revenue_total',
+  help: 'Sum of the totals of orders placed, in rupees'
+});
+
+// Set by internalClient.js when a circuit changes state
+export const circuitBreakerState = new client.Gauge({
+  name: 'circuit_breaker_state',
+  help: 'Circuit breaker for calls to another service: 0 closed, 1 half-open, 2 open',
+  labelNames: ['target']
+});
@@ -0,0 +1,101 @@
+import crypto from 'crypto';
+import { LessThan } from 'typeorm';
+import IdempotencyKey from '../models/IdempotencyKey.js';
+import { logger } from '@microstore/observability';
+
+const UNIQUE_VIOLATION = '23505';
+const MAX_KEY_LENGTH = 255;
+
+const keyTtlMs = () => Number(process.env.IDEMPOTENCY_KEY_TTL_SECONDS || 86400) * 1000;
+// Longer than any request takes, so only a request that is gone loses its claim
+const leaseMs = () => Number(process.env.IDEMPOTENCY_LEASE_SECONDS || 60) * 1000;
+
+function hashRequest(req) {
+  return crypto.createHash('sha256')
+    .update(`${req.method} ${req.baseUrl}${req.path} ${JSON.stringify(req.body ?? {})}`)
+    .digest('hex');
+}
+
+// Inserts the key for this request. Returns null once it is ours, or the
+// record another request already holds. Expired records are taken over, and so
+// are claims for the same request whose lease ran out.
+async function claimKey(repository, record) {
+  for (let attempt = 0; attempt < 2; attempt++) {
+    try {
+      await repository.insert(record);
+      return null;
+    } catch (e) {
+      if (e.driverError?.code !== UNIQUE_VIOLATION) throw e;
+    }
+    const now = new Date();
+    const existing = await repository.findOne({ where: { userId: record.userId, key: record.key } });
+    if (!existing) continue;
+    if (existing.expiresAt <= now) {
+      await repository.delete({ id: existing.id, expiresAt: LessThan(now) });
+      continue;
+    }
+    if (existing.status === 'processing' && existing.requestHash === record.requestHash && existing.lockedUntil < now) {
+      const taken = await repository.update(
+        { id: existing.id, status: 'processing', lockedUntil: LessThan(now) },
+        { lockedUntil: record.lockedUntil, expiresAt: record.expiresAt }
+      );
+      if (taken.affected) return null;
+      continue;
+    }
+    return existing;
+  }
+  throw new Error('could not claim idempotency key');
+}
+
+export async function deleteExpiredIdempotencyKeys(dataSource) {
+  const result = await dataSource.getRepository(IdempotencyKey).delete({ expiresAt: LessThan(new Date()) });
+  return result.affected || 0;
+}
+
+// Replays the stored response when a client retries with the same
+// Idempotency-Key. Only successful responses are kept; after a failure the key
+// is freed so the same request can be tried again. Must run after auth.
+export function idempotent(req, res, next) {
+  const key = req.get('Idempotency-Key');
+  if (key === undefined) return next();
+  if (!key.trim() || key.length > MAX_KEY_LENGTH) {
+    return res.status(400).json({ error: `Idempotency-Key must be 1 to ${MAX_KEY_LENGTH} characters` });
+  }
+
+  const repository = req.AppDataSource.getRepository(IdempotencyKey);
+  const lockedUntil = new Date(Date.now() + leaseMs());
+  // Our lease identifies our claim, so a request whose claim was taken over
+  // can no longer record or free it
+  const where = { userId: req.user.sub, key, lockedUntil };
+  const requestHash = hashRequest(req);
+
+  claimKey(repository, { userId: req.user.sub, key, requestHash, status: 'processing', lockedUntil, expiresAt: new Date(Date.now() + keyTtlMs()) })
+    .then((existing) => {
+      if (existing) {
+        if (existing.requestHash !== requestHash) {
+          return res.status(422).json({ error: 'idempotency key was already used for a different request' });
+        }
+        if (existing.status !== 'completed') {
+          return res.status(409).json({ error: 'a request with this idempotency key is still in progress' });
+        }
+        res.set('Idempotent-Replayed', 'true');
+        return res.status(existing.responseStatus).json(existing.responseBody);
+      }
+
+      // Record the outcome before it reaches the client, so a retry that
+      // arrives straight after sees it
+      const json = res.json.bind(res);
+      res.json = (body) => {
+        const succeeded = res.statusCode >= 200 && res.statusCode < 300;
+        const stored = succeeded
+          ? repository.update(where, { status: 'completed', responseStatus: res.statusCode, responseBody: body })
+          : repository.delete(where);
+        stored
+          .catch((e) => logger.error(`Failed to store idempotency key ${key}`, { error: e.message }))
+          .finally(() => json(body));
+        return res;
+      };
+      next();
+    })
+    .catch((e) => res.status(500).json({ error: e.message }));
+}
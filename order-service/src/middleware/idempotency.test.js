@@ -0,0 +1,173 @@
+import { describe, it, before, after, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import express from 'express';
+import { FindOperator } from 'typeorm';
+import { idempotent } from './idempotency.js';
+
+// Enough of a TypeORM repository for idempotency.js, kept in memory, with the
+// unique (userId, key) index. LessThan() is the only operator it uses.
+function valueMatches(actual, expected) {
+  if (expected instanceof FindOperator && expected.type === 'lessThan') return actual < expected.value;
+  if (expected instanceof Date) return actual instanceof Date && actual.getTime() === expected.getTime();
+  return actual === expected;
+}
+
+function fakeDataSource() {
+  const rows = [];
+  let nextId = 1;
+  const matching = (where) => rows.filter((row) => Object.entries(where).every(([field, value]) => valueMatches(row[field], value)));
+  const repository = {
+    insert: async (record) => {
+      if (rows.some((row) => row.userId === record.userId && row.key === record.key)) {
+        throw Object.assign(new Error('duplicate key'), { driverError: { code: '23505' } });
+      }
+      rows.push({ id: nextId++, ...record });
+    },
+    findOne: async ({ where }) => {
+      const [row] = matching(where);
+      return row ? { ...row } : null;
+    },
+    update: async (where, values) => {
+      const matched = matching(where);
+      for (const row of matched) Object.assign(row, values);
+      return { affected: matched.length };
+    },
+    delete: async (where) => {
+      const matched = matching(where);
+      for (const row of matched) rows.splice(rows.indexOf(row), 1);
+      return { affected: matched.length };
+    }
+  };
+  return { rows, getRepository: () => repository };
+}
+
+describe('idempotent', () => {
+  let server;
+  let baseUrl;
+  let dataSource;
+  // Each request to the handler takes the next of these; a function answers
+  // with whatever it returns, once it resolves
+  let responses;
+  let handled;
+
+  before(async () => {
+    const app = express();
+    app.use(express.json());
+    app.use((req, _, next) => {
+      req.AppDataSource = dataSource;
+      req.user = { sub: 'user-1' };
+      next();
+    });
+    app.post('/orders', idempotent, async (req, res) => {
+      handled += 1;
+      const next = responses.shift();
+      const { status, body } = typeof next === 'function' ? await next() : next;
+      res.status(status).json(body);
+    });
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${server.address().port}/orders`;
+  });
+
+  after(() => server.close());
+
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['Date'], now: new Date('2025-06-01T10:00:00Z') });
+    dataSource = fakeDataSource();
+    responses = [];
+    handled = 0;
+  });
+
+  afterEach(() => mock.timers.reset());
+
+  async function call(key, body = { items: [{ productId: 'apple', qty: 1 }] }) {
+    const response = await fetch(baseUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(key !== undefined && { 'Idempotency-Key': key }) },
+      body: JSON.stringify(body)
+    });
+    return { status: response.status, replayed: response.headers.get('idempotent-replayed'), body: await response.json() };
+  }
+
+  // A response the test lets through when it is ready
+  function held(response) {
+    let release;
+    const gate = new Promise((resolve) => { release = () => resolve(response); });
+    return { next: () => gate, release };
+  }
+
+  it('replays the stored response to a retry instead of running the request again', async () => {
+    responses.push({ status: 201, body: { id: 'order-1' } });
+    const first = await call('key-1');
+    const retry = await call('key-1');
+    assert.equal(handled, 1);
+    assert.deepEqual([first.status, first.body, first.replayed], [201, { id: 'order-1' }, null]);
+    assert.deepEqual([retry.status, retry.body, retry.replayed], [201, { id: 'order-1' }, 'true']);
+  });
+
+  it('answers 422 when the key comes back with a different request', async () => {
+    responses.push({ status: 201, body: { id: 'order-1' } });
+    await call('key-1');
+    const { status } = await call('key-1', { items: [{ productId: 'pear', qty: 1 }] });
+    assert.equal(status, 422);
+    assert.equal(handled, 1);
+  });
+
+  it('answers 409 to a retry while the first request is still running', async () => {
+    const slow = held({ status: 201, body: { id: 'order-1' } });
+    responses.push(slow.next);
+    const first = call('key-1');
+    while (dataSource.rows.length === 0 || handled === 0) await new Promise((resolve) => setImmediate(resolve));
+
+    assert.equal((await call('key-1')).status, 409);
+    slow.release();
+    assert.equal((await first).status, 201);
+    assert.equal(handled, 1);
+  });
+
+  it('frees the key when the response is not a success, so the request can be tried again', async () => {
+    responses.push({ status: 503, body: { error: 'product-service unavailable' } }, { status: 201, body: { id: 'order-1' } });
+    assert.equal((await call('key-1')).status, 503);
+    assert.equal(dataSource.rows.length, 0);
+
+    const retry = await call('key-1');
+    assert.deepEqual([retry.status, retry.replayed], [201, null]);
+    assert.equal(handled, 2);
+  });
+
+  it('lets a retry take over a claim whose lease ran out, and keeps the old request from recording over it', async () => {
+    const stuck = held({ status: 201, body: { id: 'order-stuck' } });
+    responses.push(stuck.next, { status: 201, body: { id: 'order-1' } });
+    const first = call('key-1');
+    while (handled === 0) await new Promise((resolve) => setImmediate(resolve));
+
+    mock.timers.tick(59_000);
+    assert.equal((await call('key-1')).status, 409, 'still within the lease');
+
+    mock.timers.tick(2_000);
+    const takeover = await call('key-1');
+    assert.deepEqual([takeover.status, takeover.body], [201, { id: 'order-1' }]);
+
+    stuck.release();
+    await first;
+    const replay = await call('key-1');
+    assert.deepEqual([replay.body, replay.replayed], [{ id: 'order-1' }, 'true']);
+    assert.equal(handled, 2);
+  });
+
+  it('takes over a key whose replay window has passed', async () => {
+    responses.push({ status: 201, body: { id: 'order-1' } }, { status: 201, body: { id: 'order-2' } });
+    await call('key-1');
+    mock.timers.tick(86_401_000);
+    const again = await call('key-1');
+    assert.deepEqual([again.body, again.replayed], [{ id: 'order-2' }, null]);
+  });
+
+  it('passes requests without a key straight through and refuses an empty or overlong one', async () => {
+    responses.push({ status: 201, body: { id: 'order-1' } });
+    assert.equal((await call(undefined)).status, 201);
+    assert.equal(dataSource.rows.length, 0);
+    assert.equal((await call(' ')).status, 400);
+    assert.equal((await call('k'.repeat(256))).status, 400);
+  });
+});
@@ -0,0 +1,30 @@
+import { EntitySchema } from "typeorm";
+
+export default new EntitySchema({
+  name: "Cart",
+  tableName: "carts",
+  columns: {
+    id: {
+      primary: true,
+      type: "uuid",
+      generated: "uuid"
+    },
+    userId: {
+      type: "varchar",
+      unique: true,
+      nullable: false
+    },
+    items: {
+      type: "json",
+      nullable: false
+    },
+    createdAt: {
+      type: "timestamp",
+      createDate: true
+    },
+    updatedAt: {
+      type: "timestamp",
+      updateDate: true
+    }
+  }
+});
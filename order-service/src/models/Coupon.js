@@ -0,0 +1,74 @@
+import { EntitySchema } from "typeorm";
+
+export default new EntitySchema({
+  name: "Coupon",
+  tableName: "coupons",
+  columns: {
+    id: {
+      primary: true,
+      type: "uuid",
+      generated: "uuid"
+    },
+    code: {
+      type: "varchar",
+      unique: true,
+      nullable: false
+    },
+    type: {
+      type: "varchar",
+      nullable: false
+    },
+    value: {
+      type: "decimal",
+      precision: 10,
+      scale: 2,
+      nullable: false
+    },
+    minCartValue: {
+      type: "decimal",
+      precision: 10,
+      scale: 2,
+      nullable: true
+    },
+    expiresAt: {
+      type: "timestamp",
+      nullable: true
+    },
+    usageLimit: {
+      type: "int",
+      nullable: true
+    },
+    perUserLimit: {
+      type: "int",
+      nullable: true
+    },
+    usedCount: {
+      type: "int",
+      nullable: false,
+      default: 0
+    },
+    productIds: {
+      type: "json",
+      nullable: false,
+      default: () => "'[]'"
+    },
+    categoryIds: {
+      type: "json",
+      nullable: false,
+      default: () => "'[]'"
+    },
+    active: {
+      type: "boolean",
+      nullable: false,
+      default: true
+    },
+    createdAt: {
+      type: "timestamp",
+      createDate: true
+    },
+    updatedAt: {
+      type: "timestamp",
+      updateDate: true
+    }
+  }
+});
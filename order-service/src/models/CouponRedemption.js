@@ -0,0 +1,30 @@
+import { EntitySchema } from "typeorm";
+
+export default new EntitySchema({
+  name: "CouponRedemption",
+  tableName: "coupon_redemptions",
+  columns: {
+    id: {
+      primary: true,
+      type: "uuid",
+      generated: "uuid"
+    },
+    couponId: {
+      type: "uuid",
+      nullable: false
+    },
+    userId: {
+      type: "varchar",
+      nullable: false
+    },
+    orderId: {
+      type: "uuid",
+      unique: true,
+      nullable: false
+    },
+    createdAt: {
+      type: "timestamp",
+      createDate: true
+    }
+  }
+});
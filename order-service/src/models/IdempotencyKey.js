@@ -0,0 +1,57 @@
+import { EntitySchema } from "typeorm";
+
+export default new EntitySchema({
+  name: "IdempotencyKey",
+  tableName: "idempotency_keys",
+  uniques: [
+    { name: "UQ_idempotency_keys_user_key", columns: ["userId", "key"] }
+  ],
+  columns: {
+    id: {
+      primary: true,
+      type: "uuid",
+      generated: "uuid"
+    },
+    userId: {
+      type: "varchar",
+      nullable: false
+    },
+    key: {
+      type: "varchar",
+      length: 255,
+      nullable: false
+    },
+    requestHash: {
+      type: "varchar",
+      length: 64,
+      nullable: false
+    },
+    status: {
+      type: "varchar",
+      nullable: false,
+      default: "processing"
+    },
+    // While processing: the claim lapses after this, so a request that died
+    // part way doesn't hold the key for the whole TTL
+    lockedUntil: {
+      type: "timestamp",
+      nullable: true
+    },
+    responseStatus: {
+      type: "int",
+      nullable: true
+    },
+    responseBody: {
+      type: "json",
+      nullable: true
+    },
+    expiresAt: {
+      type: "timestamp",
+      nullable: false
+    },
+    createdAt: {
+      type: "timestamp",
+      createDate: true
+    }
+  }
+});
@@ -17,12 +17,56 @@ export default new EntitySchema({
       type: "json",
       nullable: false
     },
+    subtotal: {
+      type: "decimal",
+      precision: 10,
+      scale: 2,
+      nullable: true
+    },
+    discount: {
+      type: "decimal",
+      precision: 10,
+      scale: 2,
+      nullable: false,
+      default: 0
+    },
+    tax: {
+      type: "decimal",
+      precision: 10,
+      scale: 2,
+      nullable: false,
+      default: 0
+    },
+    shipping: {
+      type: "decimal",
+      precision: 10,
+      scale: 2,
+      nullable: false,
+      default: 0
+    },
+    couponCode: {
+      type: "varchar",
+      nullable: true
+    },
     total: {
       type: "decimal",
       precision: 10,
       scale: 2,
       nullable: false
     },
+    status: {
+      type: "varchar",
+      nullable: false,
+      default: "pending"
+    },
+    shippingAddress: {
+      type: "json",
+      nullable: true
+    },
+    reservationId: {
+      type: "varchar",
+      nullable: true
+    },
     createdAt: {
       type: "timestamp",
       createDate: true
@@ -0,0 +1,65 @@
+import { EntitySchema } from "typeorm";
+
+export default new EntitySchema({
+  name: "PaymentIntent",
+  tableName: "payment_intents",
+  uniques: [
+    { name: "UQ_payment_intents_provider_ref", columns: ["provider", "providerRef"] }
+  ],
+  indices: [
+    { name: "IDX_payment_intents_order", columns: ["orderId"] }
+  ],
+  columns: {
+    id: {
+      primary: true,
+      type: "uuid",
+      generated: "uuid"
+    },
+    orderId: {
+      type: "uuid",
+      nullable: false
+    },
+    userId: {
+      type: "varchar",
+      nullable: false
+    },
+    provider: {
+      type: "varchar",
+      nullable: false
+    },
+    providerRef: {
+      type: "varchar",
+      nullable: true
+    },
+    amount: {
+      type: "decimal",
+      precision: 10,
+      scale: 2,
+      nullable: false
+    },
+    currency: {
+      type: "varchar",
+      length: 3,
+      nullable: false,
+      default: "INR"
+    },
+    // requires_payment, processing, succeeded or failed
+    status: {
+      type: "varchar",
+      nullable: false,
+      default: "requires_payment"
+    },
+    failureReason: {
+      type: "varchar",
+      nullable: true
+    },
+    createdAt: {
+      type: "timestamp",
+      createDate: true
+    },
+    updatedAt: {
+      type: "timestamp",
+      updateDate: true
+    }
+  }
+});
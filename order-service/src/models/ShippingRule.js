@@ -0,0 +1,52 @@
+import { EntitySchema } from "typeorm";
+
+export default new EntitySchema({
+  name: "ShippingRule",
+  tableName: "shipping_rules",
+  columns: {
+    id: {
+      primary: true,
+      type: "uuid",
+      generated: "uuid"
+    },
+    name: {
+      type: "varchar",
+      nullable: false
+    },
+    type: {
+      type: "varchar",
+      nullable: false
+    },
+    amount: {
+      type: "decimal",
+      precision: 10,
+      scale: 2,
+      nullable: false
+    },
+    threshold: {
+      type: "decimal",
+      precision: 10,
+      scale: 2,
+      nullable: true
+    },
+    perKg: {
+      type: "decimal",
+      precision: 10,
+      scale: 2,
+      nullable: true
+    },
+    active: {
+      type: "boolean",
+      nullable: false,
+      default: true
+    },
+    createdAt: {
+      type: "timestamp",
+      createDate: true
+    },
+    updatedAt: {
+      type: "timestamp",
+      updateDate: true
+    }
+  }
+});
@@ -0,0 +1,36 @@
+import { EntitySchema } from "typeorm";
+
+export default new EntitySchema({
+  name: "TaxRate",
+  tableName: "tax_rates",
+  columns: {
+    id: {
+      primary: true,
+      type: "uuid",
+      generated: "uuid"
+    },
+    name: {
+      type: "varchar",
+      nullable: false
+    },
+    categoryId: {
+      type: "uuid",
+      unique: true,
+      nullable: true
+    },
+    rate: {
+      type: "decimal",
+      precision: 5,
+      scale: 2,
+      nullable: false
+    },
+    createdAt: {
+      type: "timestamp",
+      createDate: true
+    },
+    updatedAt: {
+      type: "timestamp",
+      updateDate: true
+    }
+  }
+});
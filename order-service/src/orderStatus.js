@@ -0,0 +1,102 @@
+import Order from './models/Order.js';
+import PaymentIntent from './models/PaymentIntent.js';
+import { restockReservation } from './productClient.js';
+import { ServiceUnavailableError } from './internalClient.js';
+import { revokeRedemption } from './routes/coupons.js';
+import { logger } from '@microstore/observability';
+
+export const ORDER_STATUSES = ['pending', 'paid', 'failed', 'shipped', 'delivered', 'cancelled', 'refunded'];
+
+// Allowed next statuses for each status; failed, cancelled and refunded are final
+export const ORDER_TRANSITIONS = {
+  pending: ['paid', 'failed', 'cancelled'],
+  paid: ['shipped', 'cancelled', 'refunded'],
+  failed: [],
+  shipped: ['delivered'],
+  delivered: ['refunded'],
+  cancelled: [],
+  refunded: []
+};
+
+// Customers may only cancel orders they haven't paid for; a paid order needs a
+// refund, which staff issue by moving it to refunded
+export const CUSTOMER_CANCELLABLE = ['pending'];
+
+export function canTransition(from, to) {
+  return (ORDER_TRANSITIONS[from] || []).includes(to);
+}
+
+const CLOSING_STATUSES = ['failed', 'cancelled', 'refunded'];
+
+// Stock goes back on the shelf only if the goods were never shipped
+export function restocksOnTransition(from, to) {
+  return CLOSING_STATUSES.includes(to) && ['pending', 'paid'].includes(from);
+}
+
+export class OrderStatusError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+// Moves an order to nextStatus, guarding against concurrent updates, and gives
+// its stock back to product-service when the goods were never shipped. An order
+// that fails, is cancelled or is refunded gives its coupon use back too.
+export async function transitionOrder(dataSource, order, nextStatus) {
+  const orderRepository = dataSource.getRepository(Order);
+  const from = order.status;
+  const result = await orderRepository.createQueryBuilder()
+    .update(Order)
+    .set({ status: nextStatus })
+    .where('id = :id AND status = :from', { id: order.id, from })
+    .execute();
+  if (!result.affected) throw new OrderStatusError(409, 'order status changed, reload and try again');
+
+  if (restocksOnTransition(from, nextStatus) && order.reservationId) {
+    try {
+      await restockReservation(order.reservationId);
+    } catch (e) {
+      await orderRepository.update({ id: order.id }, { status: from });
+      if (e instanceof ServiceUnavailableError) throw e;
+      throw new OrderStatusError(502, 'failed to restore stock, order status unchanged');
+    }
+  }
+
+  if (CLOSING_STATUSES.includes(nextStatus)) {
+    await dataSource.transaction((manager) => revokeRedemption(manager, order.id));
+  }
+
+  return orderRepository.findOne({ where: { id: order.id } });
+}
+
+// Read lazily so PENDING_ORDER_TTL_MINUTES from .env is honoured
+const pendingOrderTtlMs = () => Number(process.env.PENDING_ORDER_TTL_MINUTES || 60) * 60 * 1000;
+
+// A pending order keeps its stock committed until it is paid or cancelled, so
+// one left unpaid for PENDING_ORDER_TTL_MINUTES is cancelled to put the stock
+// back on sale. Orders with a payment in flight are left for its webhook to
+// settle. Returns how many were cancelled; the rest are tried on the next sweep.
+export async function cancelUnpaidOrders(dataSource) {
+  const stale = await dataSource.getRepository(Order).createQueryBuilder('o')
+    .where('o.status = :status', { status: 'pending' })
+    .andWhere('o.createdAt < :cutoff', { cutoff: new Date(Date.now() - pendingOrderTtlMs()) })
+    .andWhere((qb) => `NOT EXISTS ${qb.subQuery()
+      .select('1')
+      .from(PaymentIntent, 'p')
+      .where('p.orderId = o.id')
+      .andWhere('p.status = :processing', { processing: 'processing' })
+      .getQuery()}`)
+    .getMany();
+
+  let cancelled = 0;
+  for (const order of stale) {
+    try {
+      await transitionOrder(dataSource, order, 'cancelled');
+      cancelled += 1;
+    } catch (e) {
+      logger.error(`Failed to cancel unpaid order ${order.id}`, { error: e.message });
+    }
+  }
+  return cancelled;
+}
@@ -0,0 +1,22 @@
+import mockProvider from './mockProvider.js';
+
+export { PaymentError } from './paymentError.js';
+
+// A payment provider implements:
+//   name
+//   createPayment(intent)                 -> { providerRef }
+//   confirmPayment(intent, details)       -> starts the charge; the result arrives by webhook
+//   parseWebhook(rawBody, headers)        -> { providerRef, status, failureReason }, status 'succeeded' or 'failed'
+// createPayment and confirmPayment throw PaymentError for bad input;
+// parseWebhook throws it for a payload it cannot authenticate.
+const providers = {
+  [mockProvider.name]: mockProvider
+};
+
+// Read lazily so PAYMENT_PROVIDER from .env (loaded after imports run) is honoured
+export function getPaymentProvider() {
+  const name = process.env.PAYMENT_PROVIDER || 'mock';
+  const provider = providers[name];
+  if (!provider) throw new Error(`unknown payment provider ${name}`);
+  return provider;
+}
@@ -0,0 +1,57 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import { PaymentError } from './paymentError.js';
+import { signPayload, verifySignature } from './signature.js';
+import { logger } from '@microstore/observability';
+
+// Local stand-in for a card processor. The test card number decides the
+// outcome, which is delivered a moment later through a signed webhook, the
+// same way a real provider confirms payments asynchronously.
+export const MOCK_TEST_CARDS = {
+  '4242424242424242': { status: 'succeeded' },
+  '4000000000000002': { status: 'failed', failureReason: 'card_declined' },
+  '4000000000009995': { status: 'failed', failureReason: 'insufficient_funds' }
+};
+
+export const SIGNATURE_HEADER = 'x-payment-signature';
+
+const webhookUrl = () => process.env.MOCK_PAYMENT_WEBHOOK_URL || `http://localhost:${process.env.PORT || 3003}/payments/webhook`;
+const webhookDelayMs = () => Number(process.env.MOCK_PAYMENT_DELAY_MS || 1500);
+
+async function sendWebhook(event) {
+  const body = JSON.stringify(event);
+  try {
+    await axios.post(webhookUrl(), body, {
+      headers: { 'Content-Type': 'application/json', [SIGNATURE_HEADER]: signPayload(body) }
+    });
+  } catch (e) {
+    logger.error(`Mock payment webhook ${event.id} failed`, { error: e.response?.data?.error || e.message });
+  }
+}
+
+export default {
+  name: 'mock',
+
+  async createPayment() {
+    return { providerRef: `mock_pay_${crypto.randomUUID()}` };
+  },
+
+  async confirmPayment(intent, { cardNumber } = {}) {
+    const outcome = MOCK_TEST_CARDS[String(cardNumber || '').replace(/\s/g, '')];
+    if (!outcome) throw new PaymentError(400, `unknown test card, use one of ${Object.keys(MOCK_TEST_CARDS).join(', ')}`);
+
+    setTimeout(() => sendWebhook({
+      id: `mock_evt_${crypto.randomUUID()}`,
+      type: `payment.${outcome.status}`,
+      data: { providerRef: intent.providerRef, amount: Number(intent.amount), failureReason: outcome.failureReason || null }
+    }), webhookDelayMs());
+  },
+
+  parseWebhook(rawBody, headers) {
+    if (!verifySignature(rawBody, headers[SIGNATURE_HEADER])) throw new PaymentError(401, 'invalid signature');
+    const event = JSON.parse(rawBody.toString('utf8'));
+    const status = { 'payment.succeeded': 'succeeded', 'payment.failed': 'failed' }[event.type];
+    if (!status || !event.data?.providerRef) throw new PaymentError(400, 'unsupported event');
+    return { providerRef: event.data.providerRef, status, failureReason: event.data.failureReason || null };
+  }
+};
@@ -0,0 +1,34 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import mockProvider, { SIGNATURE_HEADER } from './mockProvider.js';
+import { PaymentError } from './paymentError.js';
+import { signPayload } from './signature.js';
+
+const event = (type, data) => JSON.stringify({ id: 'mock_evt_1', type, data });
+const signed = (body, header = signPayload(body)) => [Buffer.from(body), { [SIGNATURE_HEADER]: header }];
+
+describe('mock provider webhooks', () => {
+  it('reads a signed payment result', () => {
+    const body = event('payment.failed', { providerRef: 'mock_pay_1', failureReason: 'card_declined' });
+    assert.deepEqual(mockProvider.parseWebhook(...signed(body)), {
+      providerRef: 'mock_pay_1',
+      status: 'failed',
+      failureReason: 'card_declined'
+    });
+  });
+
+  it('answers 401 to a delivery without a valid signature', () => {
+    const body = event('payment.succeeded', { providerRef: 'mock_pay_1' });
+    const isUnauthorized = (e) => e instanceof PaymentError && e.status === 401;
+    assert.throws(() => mockProvider.parseWebhook(Buffer.from(body), {}), isUnauthorized);
+    assert.throws(() => mockProvider.parseWebhook(...signed(body, signPayload(body, 'wrong'))), isUnauthorized);
+    const tampered = signed(body);
+    tampered[0] = Buffer.from(body.replace('mock_pay_1', 'mock_pay_2'));
+    assert.throws(() => mockProvider.parseWebhook(...tampered), isUnauthorized);
+  });
+
+  it('answers 400 to an event it does not know', () => {
+    const body = event('payment.refunded', { providerRef: 'mock_pay_1' });
+    assert.throws(() => mockProvider.parseWebhook(...signed(body)), { status: 400 });
+  });
+});
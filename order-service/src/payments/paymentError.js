@@ -0,0 +1,7 @@
+// Carries the HTTP status the routes should answer with
+export class PaymentError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
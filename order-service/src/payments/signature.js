@@ -0,0 +1,27 @@
+import crypto from 'crypto';
+
+const TOLERANCE_SECONDS = 300;
+
+export const webhookSecret = () => process.env.PAYMENT_WEBHOOK_SECRET || 'payment_webhook_secret';
+
+function hmac(timestamp, body, secret) {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+// Header value of the form "t=<unix seconds>,v1=<hex HMAC-SHA256 of "t.body">"
+export function signPayload(body, secret = webhookSecret(), timestamp = Math.floor(Date.now() / 1000)) {
+  return `t=${timestamp},v1=${hmac(timestamp, body, secret)}`;
+}
+
+// True when header signs rawBody with secret and is recent enough not to be a replay
+export function verifySignature(rawBody, header, secret = webhookSecret(), now = Date.now()) {
+  if (!rawBody || typeof header !== 'string') return false;
+  const parts = Object.fromEntries(header.split(',').map((part) => part.trim().split('=')));
+  const timestamp = Number(parts.t);
+  if (!Number.isInteger(timestamp) || !parts.v1) return false;
+  if (Math.abs(now / 1000 - timestamp) > TOLERANCE_SECONDS) return false;
+
+  const expected = Buffer.from(hmac(timestamp, rawBody.toString('utf8'), secret));
+  const received = Buffer.from(parts.v1);
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+}
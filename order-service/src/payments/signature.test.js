@@ -0,0 +1,46 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { signPayload, verifySignature } from './signature.js';
+
+const SECRET = 'test_webhook_secret';
+const NOW = 1_750_000_000_000;
+const body = JSON.stringify({ id: 'evt_1', type: 'payment.succeeded', data: { providerRef: 'pay_1' } });
+const signedAt = (seconds) => signPayload(body, SECRET, Math.floor(NOW / 1000) + seconds);
+
+describe('verifySignature', () => {
+  it('accepts a body signed with the secret just now', () => {
+    assert.equal(verifySignature(Buffer.from(body), signedAt(0), SECRET, NOW), true);
+  });
+
+  it('refuses a body changed after signing', () => {
+    const tampered = body.replace('succeeded', 'failed');
+    assert.equal(verifySignature(Buffer.from(tampered), signedAt(0), SECRET, NOW), false);
+  });
+
+  it('refuses a signature made with another secret', () => {
+    const header = signPayload(body, 'another_secret', Math.floor(NOW / 1000));
+    assert.equal(verifySignature(Buffer.from(body), header, SECRET, NOW), false);
+  });
+
+  it('accepts a timestamp up to five minutes either side and refuses older or newer ones', () => {
+    assert.equal(verifySignature(Buffer.from(body), signedAt(-300), SECRET, NOW), true);
+    assert.equal(verifySignature(Buffer.from(body), signedAt(300), SECRET, NOW), true);
+    assert.equal(verifySignature(Buffer.from(body), signedAt(-301), SECRET, NOW), false);
+    assert.equal(verifySignature(Buffer.from(body), signedAt(301), SECRET, NOW), false);
+  });
+
+  it('refuses a replayed signature with its timestamp moved forward', () => {
+    const [, v1] = signedAt(-600).split(',');
+    const header = `t=${Math.floor(NOW / 1000)},${v1}`;
+    assert.equal(verifySignature(Buffer.from(body), header, SECRET, NOW), false);
+  });
+
+  it('refuses a missing or malformed header and an empty body', () => {
+    assert.equal(verifySignature(Buffer.from(body), undefined, SECRET, NOW), false);
+    assert.equal(verifySignature(Buffer.from(body), '', SECRET, NOW), false);
+    assert.equal(verifySignature(Buffer.from(body), 'v1=abc', SECRET, NOW), false);
+    assert.equal(verifySignature(Buffer.from(body), `t=${Math.floor(NOW / 1000)}`, SECRET, NOW), false);
+    assert.equal(verifySignature(Buffer.from(body), `t=${Math.floor(NOW / 1000)},v1=short`, SECRET, NOW), false);
+    assert.equal(verifySignature(undefined, signedAt(0), SECRET, NOW), false);
+  });
+});
@@ -0,0 +1,118 @@
+// Order pricing: coupons, tax and shipping. Amounts are worked in paise so
+// line discounts and taxes always add up to the order totals exactly.
+
+export const COUPON_TYPES = ['percentage', 'fixed'];
+export const SHIPPING_RULE_TYPES = ['flat', 'free_above', 'weight'];
+
+export class CouponError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const toPaise = (amount) => Math.round(Number(amount) * 100);
+const fromPaise = (paise) => paise / 100;
+
+export function normalizeCouponCode(code) {
+  return String(code).trim().toUpperCase();
+}
+
+// The line's category, then its parents nearest first
+function lineCategoryIds(line) {
+  return line.categoryId ? [line.categoryId, ...(line.categoryAncestorIds || [])] : [];
+}
+
+// A coupon with no products or categories applies to the whole cart. One
+// scoped to a category covers its subcategories too.
+function couponAppliesTo(coupon, line) {
+  const productIds = coupon.productIds || [];
+  const categoryIds = coupon.categoryIds || [];
+  if (productIds.length === 0 && categoryIds.length === 0) return true;
+  return productIds.includes(line.productId) || lineCategoryIds(line).some((id) => categoryIds.includes(id));
+}
+
+// Everything except the per-user limit, which needs the redemption history
+export function assertCouponUsable(coupon, subtotal, now = new Date()) {
+  if (!coupon || !coupon.active) throw new CouponError(404, 'coupon not found');
+  if (coupon.expiresAt && new Date(coupon.expiresAt) <= now) throw new CouponError(400, 'coupon has expired');
+  if (coupon.usageLimit !== null && coupon.usedCount >= coupon.usageLimit) {
+    throw new CouponError(409, 'coupon usage limit reached');
+  }
+  if (coupon.minCartValue !== null && toPaise(subtotal) < toPaise(coupon.minCartValue)) {
+    throw new CouponError(400, `cart total must be at least ${Number(coupon.minCartValue)} to use this coupon`);
+  }
+}
+
+// The nearest category with a rate of its own wins over the default (the rate
+// without a category)
+function taxRateFor(taxRates, line) {
+  const rate = lineCategoryIds(line).map((id) => taxRates.find((r) => r.categoryId === id)).find(Boolean)
+    || taxRates.find((r) => !r.categoryId);
+  return rate ? Number(rate.rate) : 0;
+}
+
+// Every active rule quotes a price and the cheapest one is charged, so a
+// free-above rule next to a flat rule gives "flat fee, free over X"
+function shippingFor(rules, goodsValue, weightGrams) {
+  if (rules.length === 0) return 0;
+  return Math.min(...rules.map((rule) => {
+    const amount = toPaise(rule.amount);
+    if (rule.type === 'free_above') return goodsValue >= toPaise(rule.threshold) ? 0 : amount;
+    if (rule.type === 'weight') return amount + Math.ceil(weightGrams / 1000) * toPaise(rule.perKg);
+    return amount;
+  }));
+}
+
+// lines: [{ productId, categoryId, categoryAncestorIds, qty, unitPrice, weight }],
+// weight in grams.
+// Tax is charged on each line after its discount; shipping on the discounted
+// goods value and total weight. Returns each line with its lineTotal, discount,
+// taxRate and tax, plus subtotal, discount, tax, shipping and total.
+export function priceOrder(lines, { coupon = null, taxRates = [], shippingRules = [] } = {}) {
+  const priced = lines.map((line) => ({ ...line, lineTotal: toPaise(line.unitPrice) * line.qty, discount: 0 }));
+  const subtotal = priced.reduce((sum, line) => sum + line.lineTotal, 0);
+
+  if (coupon) {
+    const eligible = priced.filter((line) => couponAppliesTo(coupon, line));
+    if (eligible.length === 0) throw new CouponError(400, 'coupon does not apply to any items in the cart');
+
+    const eligibleTotal = eligible.reduce((sum, line) => sum + line.lineTotal, 0);
+    const discount = coupon.type === 'percentage'
+      ? Math.round(eligibleTotal * Math.min(Number(coupon.value), 100) / 100)
+      : Math.min(toPaise(coupon.value), eligibleTotal);
+
+    // Spread the discount by line value; the last line takes the rounding
+    let remaining = discount;
+    eligible.forEach((line, i) => {
+      line.discount = i === eligible.length - 1 || eligibleTotal === 0
+        ? remaining
+        : Math.floor(discount * line.lineTotal / eligibleTotal);
+      remaining -= line.discount;
+    });
+  }
+
+  for (const line of priced) {
+    line.taxRate = taxRateFor(taxRates, line);
+    line.tax = Math.round((line.lineTotal - line.discount) * line.taxRate / 100);
+  }
+
+  const discount = priced.reduce((sum, line) => sum + line.discount, 0);
+  const tax = priced.reduce((sum, line) => sum + line.tax, 0);
+  const weight = priced.reduce((sum, line) => sum + (line.weight || 0) * line.qty, 0);
+  const shipping = shippingFor(shippingRules, subtotal - discount, weight);
+  return {
+    lines: priced.map((line) => ({
+      ...line,
+      unitPrice: Number(line.unitPrice),
+      lineTotal: fromPaise(line.lineTotal),
+      discount: fromPaise(line.discount),
+      tax: fromPaise(line.tax)
+    })),
+    subtotal: fromPaise(subtotal),
+    discount: fromPaise(discount),
+    tax: fromPaise(tax),
+    shipping: fromPaise(shipping),
+    total: fromPaise(subtotal - discount + tax + shipping)
+  };
+}
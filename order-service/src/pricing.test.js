@@ -0,0 +1,172 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CouponError, assertCouponUsable, normalizeCouponCode, priceOrder } from './pricing.js';
+
+const coupon = (fields) => ({
+  active: true,
+  type: 'percentage',
+  value: 10,
+  expiresAt: null,
+  usageLimit: null,
+  usedCount: 0,
+  minCartValue: null,
+  productIds: [],
+  categoryIds: [],
+  ...fields
+});
+
+describe('priceOrder', () => {
+  it('totals lines without coupon, tax or shipping', () => {
+    const result = priceOrder([
+      { productId: 'a', qty: 2, unitPrice: '19.99' },
+      { productId: 'b', qty: 1, unitPrice: 5 }
+    ]);
+    assert.equal(result.subtotal, 44.98);
+    assert.equal(result.total, 44.98);
+    assert.deepEqual(result.lines.map((line) => line.lineTotal), [39.98, 5]);
+  });
+
+  it('works in paise, so sums of awkward prices come out exact', () => {
+    const result = priceOrder([{ productId: 'a', qty: 3, unitPrice: 0.1 }]);
+    assert.equal(result.subtotal, 0.3);
+  });
+
+  it('spreads a percentage discount by line value and the line discounts add up', () => {
+    const result = priceOrder(
+      [
+        { productId: 'a', qty: 1, unitPrice: 33.33 },
+        { productId: 'b', qty: 1, unitPrice: 33.33 },
+        { productId: 'c', qty: 1, unitPrice: 33.34 }
+      ],
+      { coupon: coupon({ value: 15 }) }
+    );
+    assert.equal(result.discount, 15);
+    const lineDiscounts = result.lines.reduce((sum, line) => sum + Math.round(line.discount * 100), 0);
+    assert.equal(lineDiscounts, 1500);
+    assert.equal(result.total, 85);
+  });
+
+  it('caps a fixed discount at the value of the lines it applies to', () => {
+    const result = priceOrder(
+      [
+        { productId: 'a', qty: 1, unitPrice: 30 },
+        { productId: 'b', qty: 1, unitPrice: 100 }
+      ],
+      { coupon: coupon({ type: 'fixed', value: 50, productIds: ['a'] }) }
+    );
+    assert.equal(result.discount, 30);
+    assert.deepEqual(result.lines.map((line) => line.discount), [30, 0]);
+    assert.equal(result.total, 100);
+  });
+
+  it('applies a category coupon only to lines in that category', () => {
+    const result = priceOrder(
+      [
+        { productId: 'a', categoryId: 'books', qty: 1, unitPrice: 200 },
+        { productId: 'b', categoryId: 'toys', qty: 1, unitPrice: 100 }
+      ],
+      { coupon: coupon({ value: 50, categoryIds: ['books'] }) }
+    );
+    assert.equal(result.discount, 100);
+  });
+
+  it('refuses a coupon that applies to nothing in the cart', () => {
+    assert.throws(
+      () => priceOrder([{ productId: 'a', qty: 1, unitPrice: 10 }], { coupon: coupon({ productIds: ['z'] }) }),
+      (e) => e instanceof CouponError && e.status === 400
+    );
+  });
+
+  it('charges tax after the discount, with a category rate winning over the default', () => {
+    const result = priceOrder(
+      [
+        { productId: 'a', categoryId: 'books', qty: 1, unitPrice: 100 },
+        { productId: 'b', categoryId: 'toys', qty: 1, unitPrice: 100 }
+      ],
+      {
+        coupon: coupon({ value: 10 }),
+        taxRates: [{ categoryId: null, rate: 18 }, { categoryId: 'books', rate: 5 }]
+      }
+    );
+    assert.deepEqual(result.lines.map((line) => line.taxRate), [5, 18]);
+    assert.deepEqual(result.lines.map((line) => line.tax), [4.5, 16.2]);
+    assert.equal(result.tax, 20.7);
+    assert.equal(result.total, 200.7);
+  });
+
+  it('applies a category coupon to products in its subcategories', () => {
+    const result = priceOrder(
+      [
+        { productId: 'a', categoryId: 'novels', categoryAncestorIds: ['fiction', 'books'], qty: 1, unitPrice: 200 },
+        { productId: 'b', categoryId: 'books', categoryAncestorIds: [], qty: 1, unitPrice: 100 },
+        { productId: 'c', categoryId: 'kites', categoryAncestorIds: ['toys'], qty: 1, unitPrice: 100 }
+      ],
+      { coupon: coupon({ value: 10, categoryIds: ['books'] }) }
+    );
+    assert.deepEqual(result.lines.map((line) => line.discount), [20, 10, 0]);
+  });
+
+  it('does not apply a subcategory coupon to its parent category', () => {
+    assert.throws(
+      () => priceOrder(
+        [{ productId: 'b', categoryId: 'books', categoryAncestorIds: [], qty: 1, unitPrice: 100 }],
+        { coupon: coupon({ categoryIds: ['novels'] }) }
+      ),
+      (e) => e instanceof CouponError && e.status === 400
+    );
+  });
+
+  it('taxes a subcategory at its nearest parent\'s rate when it has none of its own', () => {
+    const taxRates = [{ categoryId: null, rate: 18 }, { categoryId: 'books', rate: 5 }, { categoryId: 'comics', rate: 12 }];
+    const result = priceOrder(
+      [
+        { productId: 'a', categoryId: 'novels', categoryAncestorIds: ['fiction', 'books'], qty: 1, unitPrice: 100 },
+        { productId: 'b', categoryId: 'manga', categoryAncestorIds: ['comics', 'books'], qty: 1, unitPrice: 100 },
+        { productId: 'c', categoryId: 'kites', categoryAncestorIds: ['toys'], qty: 1, unitPrice: 100 }
+      ],
+      { taxRates }
+    );
+    assert.deepEqual(result.lines.map((line) => line.taxRate), [5, 12, 18]);
+  });
+
+  it('charges the cheapest shipping rule, on the discounted goods value', () => {
+    const shippingRules = [
+      { type: 'flat', amount: 49 },
+      { type: 'free_above', amount: 49, threshold: 500 }
+    ];
+    const lines = [{ productId: 'a', qty: 1, unitPrice: 520 }];
+    assert.equal(priceOrder(lines, { shippingRules }).shipping, 0);
+    assert.equal(priceOrder(lines, { shippingRules, coupon: coupon({ value: 10 }) }).shipping, 49);
+  });
+
+  it('charges weight-based shipping per started kilogram', () => {
+    const result = priceOrder(
+      [{ productId: 'a', qty: 3, unitPrice: 10, weight: 400 }],
+      { shippingRules: [{ type: 'weight', amount: 20, perKg: 15 }] }
+    );
+    assert.equal(result.shipping, 50);
+  });
+});
+
+describe('assertCouponUsable', () => {
+  it('accepts an active coupon within its limits', () => {
+    assert.doesNotThrow(() => assertCouponUsable(coupon({ usageLimit: 5, usedCount: 4, minCartValue: 100 }), 100));
+  });
+
+  it('treats an inactive coupon as not found', () => {
+    assert.throws(() => assertCouponUsable(coupon({ active: false }), 100), { status: 404 });
+  });
+
+  it('refuses expired, used-up and below-minimum coupons', () => {
+    const now = new Date('2025-01-02T00:00:00Z');
+    assert.throws(() => assertCouponUsable(coupon({ expiresAt: '2025-01-01T00:00:00Z' }), 100, now), { status: 400 });
+    assert.throws(() => assertCouponUsable(coupon({ usageLimit: 1, usedCount: 1 }), 100), { status: 409 });
+    assert.throws(() => assertCouponUsable(coupon({ minCartValue: 100 }), 99.99), { status: 400 });
+  });
+});
+
+describe('normalizeCouponCode', () => {
+  it('trims and upper-cases', () => {
+    assert.equal(normalizeCouponCode('  save10 '), 'SAVE10');
+  });
+});
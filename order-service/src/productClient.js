@@ -0,0 +1,76 @@
+import { createInternalClient } from './internalClient.js';
+
+// Read lazily so a PRODUCT_SERVICE_URL from .env (loaded after imports run) is honoured
+export const productServiceUrl = () => process.env.PRODUCT_SERVICE_URL || 'http://localhost:3002';
+
+// Settings come from PRODUCT_SERVICE_TIMEOUT_MS, PRODUCT_SERVICE_RETRIES etc.;
+// see internalClient.js
+const productService = createInternalClient('product-service', {
+  baseUrl: productServiceUrl,
+  settingsPrefix: 'PRODUCT_SERVICE'
+});
+
+// Fetch a single product; axios errors (e.g. 404) propagate to the caller, and
+// a ServiceUnavailableError when product-service can't answer
+export async function getProduct(productId) {
+  const { data } = await productService.request({ method: 'get', url: `/${productId}` });
+  return data;
+}
+
+// product-service answers at most this many ids per batch call
+const BATCH_SIZE = 100;
+
+// Many products, a batch call per hundred ids; resolves to { data, missing }
+// where missing lists the ids product-service has no product for. A POST, but
+// only a read.
+export async function getProducts(ids) {
+  const result = { data: [], missing: [] };
+  for (let i = 0; i < ids.length; i += BATCH_SIZE) {
+    const { data } = await productService.request(
+      { method: 'post', url: '/batch', data: { ids: ids.slice(i, i + BATCH_SIZE) } },
+      { idempotent: true }
+    );
+    result.data.push(...data.data);
+    result.missing.push(...data.missing);
+  }
+  return result;
+}
+
+const serviceApiKey = () => process.env.SERVICE_API_KEY || 'service_key';
+
+// Only services may reserve, commit, release or restock stock, so these
+// authenticate with the service key rather than a user's token
+const serviceHeaders = () => ({ 'X-Service-Key': serviceApiKey() });
+
+// Holds the stock for every item, all or nothing, for userId. Not retried once
+// it may have reached product-service, since a second attempt could hold the stock twice.
+export async function createReservation(items, userId) {
+  const { data } = await productService.request(
+    { method: 'post', url: '/reservations', data: { items, userId }, headers: serviceHeaders() },
+    { idempotent: false }
+  );
+  return data;
+}
+
+// Committing or releasing a reservation twice leaves it the same, so these retry
+export async function commitReservation(reservationId) {
+  await productService.request(
+    { method: 'post', url: `/reservations/${reservationId}/commit`, headers: serviceHeaders() },
+    { idempotent: true }
+  );
+}
+
+export async function releaseReservation(reservationId) {
+  await productService.request(
+    { method: 'post', url: `/reservations/${reservationId}/release`, headers: serviceHeaders() },
+    { idempotent: true }
+  );
+}
+
+// Puts a committed reservation's stock back, e.g. when its order is cancelled
+export async function restockReservation(reservationId) {
+  await productService.request(
+    { method: 'post', url: `/reservations/${reservationId}/restock`, headers: serviceHeaders() },
+    { idempotent: true }
+  );
+}
@@ -0,0 +1,170 @@
+import { Router } from 'express';
+import Cart from '../models/Cart.js';
+import { auth } from '@microstore/service-auth';
+import { getProduct, getProducts } from '../productClient.js';
+import { ServiceUnavailableError, sendServiceUnavailable } from '../internalClient.js';
+
+const router = Router();
+
+router.use(auth);
+
+async function loadCart(req) {
+  const repository = req.AppDataSource.getRepository(Cart);
+  const cart = await repository.findOne({ where: { userId: req.user.sub } });
+  return cart || repository.create({ userId: req.user.sub, items: [] });
+}
+
+// Resolves a product, or null when product-service no longer has it
+async function findProduct(productId) {
+  try {
+    return await getProduct(productId);
+  } catch (e) {
+    if (e.response?.status === 404 || e.response?.status === 400) return null;
+    throw e;
+  }
+}
+
+// Resolves every product in one batch call, as a Map by id; ids product-service
+// reports missing are left out
+async function findProducts(productIds) {
+  if (!productIds.length) return new Map();
+  const { data } = await getProducts([...new Set(productIds)]);
+  return new Map(data.map((product) => [product.id, product]));
+}
+
+// The cart only stores ids and quantities; name, price and stock are read
+// fresh so the client never shows stale prices. Deleted products drop out.
+async function cartResponse(cart) {
+  const products = await findProducts(cart.items.map((it) => it.productId));
+  const lines = cart.items.filter((it) => products.has(it.productId)).map((it) => {
+    const product = products.get(it.productId);
+    return { productId: it.productId, name: product.name, price: product.price, stock: product.stock, qty: it.qty };
+  });
+  return { items: lines, updatedAt: cart.updatedAt };
+}
+
+function parseQty(value) {
+  const qty = Number(value);
+  return Number.isInteger(qty) ? qty : null;
+}
+
+router.get('/', async (req, res) => {
+  try {
+    res.json(await cartResponse(await loadCart(req)));
+  } catch (e) {
+    if (e instanceof ServiceUnavailableError) return sendServiceUnavailable(res, e);
+    res.status(500).json({ error: e.message });
+  }
+});
+
+router.post('/items', async (req, res) => {
+  try {
+    const { productId } = req.body;
+    const qty = req.body.qty === undefined ? 1 : parseQty(req.body.qty);
+    if (!productId) return res.status(400).json({ error: 'productId required' });
+    if (!qty || qty <= 0) return res.status(400).json({ error: 'qty must be a positive integer' });
+
+    const product = await findProduct(productId);
+    if (!product) return res.status(404).json({ error: 'product not found' });
+
+    const cart = await loadCart(req);
+    const existing = cart.items.find((it) => it.productId === productId);
+    const nextQty = (existing?.qty || 0) + qty;
+    if (nextQty > product.stock) {
+      return res.status(409).json({ error: 'not enough stock available', productId, stock: product.stock });
+    }
+
+    if (existing) existing.qty = nextQty;
+    else cart.items.push({ productId, qty });
+    const saved = await req.AppDataSource.getRepository(Cart).save(cart);
+    res.json(await cartResponse(saved));
+  } catch (e) {
+    if (e instanceof ServiceUnavailableError) return sendServiceUnavailable(res, e);
+    res.status(500).json({ error: e.message });
+  }
+});
+
+// A quantity of zero or less removes the line
+router.put('/items/:productId', async (req, res) => {
+  try {
+    const { productId } = req.params;
+    const qty = parseQty(req.body.qty);
+    if (qty === null) return res.status(400).json({ error: 'qty must be an integer' });
+
+    const cart = await loadCart(req);
+    const existing = cart.items.find((it) => it.productId === productId);
+    if (!existing) return res.status(404).json({ error: 'item not in cart' });
+
+    if (qty <= 0) {
+      cart.items = cart.items.filter((it) => it.productId !== productId);
+    } else {
+      const product = await findProduct(productId);
+      if (!product) return res.status(404).json({ error: 'product not found' });
+      if (qty > product.stock) {
+        return res.status(409).json({ error: 'not enough stock available', productId, stock: product.stock });
+      }
+      existing.qty = qty;
+    }
+
+    const saved = await req.AppDataSource.getRepository(Cart).save(cart);
+    res.json(await cartResponse(saved));
+  } catch (e) {
+    if (e instanceof ServiceUnavailableError) return sendServiceUnavailable(res, e);
+    res.status(500).json({ error: e.message });
+  }
+});
+
+router.delete('/items/:productId', async (req, res) => {
+  try {
+    const cart = await loadCart(req);
+    cart.items = cart.items.filter((it) => it.productId !== req.params.productId);
+    const saved = await req.AppDataSource.getRepository(Cart).save(cart);
+    res.json(await cartResponse(saved));
+  } catch (e) {
+    if (e instanceof ServiceUnavailableError) return sendServiceUnavailable(res, e);
+    res.status(500).json({ error: e.message });
+  }
+});
+
+router.delete('/', async (req, res) => {
+  try {
+    const cart = await loadCart(req);
+    cart.items = [];
+    const saved = await req.AppDataSource.getRepository(Cart).save(cart);
+    res.json(await cartResponse(saved));
+  } catch (e) {
+    if (e instanceof ServiceUnavailableError) return sendServiceUnavailable(res, e);
+    res.status(500).json({ error: e.message });
+  }
+});
+
+// Folds a guest cart into the account's cart after login. Quantities are
+// summed and capped at available stock; unknown products are skipped.
+router.post('/merge', async (req, res) => {
+  try {
+    const { items } = req.body;
+    if (!Array.isArray(items)) return res.status(400).json({ error: 'items array required' });
+
+    const wanted = items.filter((it) => typeof it?.productId === 'string' && parseQty(it.qty) > 0);
+    const products = await findProducts(wanted.map((it) => it.productId));
+    const cart = await loadCart(req);
+    for (const it of wanted) {
+      const qty = parseQty(it.qty);
+      const product = products.get(it.productId);
+      if (!product || product.stock <= 0) continue;
+
+      const existing = cart.items.find((line) => line.productId === it.productId);
+      const nextQty = Math.min((existing?.qty || 0) + qty, product.stock);
+      if (existing) existing.qty = nextQty;
+      else cart.items.push({ productId: it.productId, qty: nextQty });
+    }
+
+    const saved = await req.AppDataSource.getRepository(Cart).save(cart);
+    res.json(await cartResponse(saved));
+  } catch (e) {
+    if (e instanceof ServiceUnavailableError) return sendServiceUnavailable(res, e);
+    res.status(500).json({ error: e.message });
+  }
+});
+
+export default router;
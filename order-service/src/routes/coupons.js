@@ -0,0 +1,162 @@
+import { Router } from 'express';
+import Coupon from '../models/Coupon.js';
+import CouponRedemption from '../models/CouponRedemption.js';
+import { auth, requirePermission } from '@microstore/service-auth';
+import { COUPON_TYPES, CouponError, assertCouponUsable, normalizeCouponCode, priceOrder } from '../pricing.js';
+
+const router = Router();
+
+// Prices lines with the given coupon for userId; charges are the tax rates and
+// shipping rules passed on to priceOrder. Pass lock when the result will be
+// redeemed, so concurrent orders cannot both take the last use.
+export async function quoteWithCoupon(manager, userId, lines, couponCode, { lock = false, charges = {} } = {}) {
+  if (!couponCode) return { ...priceOrder(lines, charges), coupon: null };
+
+  const coupon = await manager.findOne(Coupon, {
+    where: { code: normalizeCouponCode(couponCode) },
+    ...(lock && { lock: { mode: 'pessimistic_write' } })
+  });
+  assertCouponUsable(coupon, priceOrder(lines).subtotal);
+  if (coupon.perUserLimit !== null) {
+    const used = await manager.count(CouponRedemption, { where: { couponId: coupon.id, userId } });
+    if (used >= coupon.perUserLimit) throw new CouponError(409, 'you have already used this coupon the maximum number of times');
+  }
+  return { ...priceOrder(lines, { ...charges, coupon }), coupon };
+}
+
+export async function redeemCoupon(manager, coupon, userId, orderId) {
+  await manager.increment(Coupon, { id: coupon.id }, 'usedCount', 1);
+  await manager.insert(CouponRedemption, { couponId: coupon.id, userId, orderId });
+}
+
+// Undoes redeemCoupon for an order that could not be completed
+export async function revokeRedemption(manager, orderId) {
+  const redemption = await manager.findOne(CouponRedemption, { where: { orderId } });
+  if (!redemption) return;
+  await manager.decrement(Coupon, { id: redemption.couponId }, 'usedCount', 1);
+  await manager.remove(CouponRedemption, redemption);
+}
+
+const optionalNumber = (value) => (value === null || value === '' ? null : Number(value));
+
+// Validates the writable coupon fields present in body. Returns { values } or { error }.
+function parseCouponInput(body, { partial = false } = {}) {
+  const values = {};
+  const has = (field) => body[field] !== undefined;
+
+  if (has('code') || !partial) {
+    const code = body.code ? normalizeCouponCode(body.code) : '';
+    if (!/^[A-Z0-9_-]{3,32}$/.test(code)) return { error: 'code must be 3-32 letters, numbers, dashes or underscores' };
+    values.code = code;
+  }
+  if (has('type') || !partial) {
+    if (!COUPON_TYPES.includes(body.type)) return { error: `type must be one of ${COUPON_TYPES.join(', ')}` };
+    values.type = body.type;
+  }
+  if (has('value') || !partial) {
+    const value = Number(body.value);
+    if (!Number.isFinite(value) || value <= 0) return { error: 'value must be a positive number' };
+    values.value = value;
+  }
+  if (has('minCartValue')) {
+    const min = optionalNumber(body.minCartValue);
+    if (min !== null && (!Number.isFinite(min) || min < 0)) return { error: 'minCartValue must be zero or more' };
+    values.minCartValue = min;
+  }
+  if (has('expiresAt')) {
+    const expiresAt = body.expiresAt ? new Date(body.expiresAt) : null;
+    if (expiresAt && Number.isNaN(expiresAt.getTime())) return { error: 'expiresAt must be a date' };
+    values.expiresAt = expiresAt;
+  }
+  for (const field of ['usageLimit', 'perUserLimit']) {
+    if (!has(field)) continue;
+    const limit = optionalNumber(body[field]);
+    if (limit !== null && (!Number.isInteger(limit) || limit <= 0)) return { error: `${field} must be a positive integer` };
+    values[field] = limit;
+  }
+  for (const field of ['productIds', 'categoryIds']) {
+    if (!has(field)) continue;
+    if (!Array.isArray(body[field]) || body[field].some((id) => typeof id !== 'string')) {
+      return { error: `${field} must be an array of ids` };
+    }
+    values[field] = body[field];
+  }
+  if (has('active')) values.active = Boolean(body.active);
+  return { values };
+}
+
+function validatePercentage(coupon) {
+  return coupon.type === 'percentage' && Number(coupon.value) > 100 ? 'percentage coupons cannot exceed 100' : null;
+}
+
+router.use(auth, requirePermission('pricing:manage'));
+
+router.get('/', async (req, res) => {
+  try {
+    const coupons = await req.AppDataSource.getRepository(Coupon).find({ order: { createdAt: 'DESC' } });
+    res.json(coupons);
+  } catch (e) {
+    res.status(500).json({ error: e.message });
+  }
+});
+
+router.get('/:id', async (req, res) => {
+  try {
+    const coupon = await req.AppDataSource.getRepository(Coupon).findOne({ where: { id: req.params.id } });
+    if (!coupon) return res.status(404).json({ error: 'not found' });
+    res.json(coupon);
+  } catch (e) {
+    res.status(400).json({ error: e.message });
+  }
+});
+
+router.post('/', async (req, res) => {
+  try {
+    const { values, error } = parseCouponInput(req.body);
+    if (error) return res.status(400).json({ error });
+    const percentageError = validatePercentage(values);
+    if (percentageError) return res.status(400).json({ error: percentageError });
+
+    const repository = req.AppDataSource.getRepository(Coupon);
+    if (await repository.findOne({ where: { code: values.code } })) return res.status(409).json({ error: 'code taken' });
+
+    res.status(201).json(await repository.save(repository.create(values)));
+  } catch (e) {
+    res.status(400).json({ error: e.message });
+  }
+});
+
+router.put('/:id', async (req, res) => {
+  try {
+    const repository = req.AppDataSource.getRepository(Coupon);
+    const coupon = await repository.findOne({ where: { id: req.params.id } });
+    if (!coupon) return res.status(404).json({ error: 'not found' });
+
+    const { values, error } = parseCouponInput(req.body, { partial: true });
+    if (error) return res.status(400).json({ error });
+    if (values.code && values.code !== coupon.code && await repository.findOne({ where: { code: values.code } })) {
+      return res.status(409).json({ error: 'code taken' });
+    }
+
+    repository.merge(coupon, values);
+    const percentageError = validatePercentage(coupon);
+    if (percentageError) return res.status(400).json({ error: percentageError });
+
+    res.json(await repository.save(coupon));
+  } catch (e) {
+    res.status(400).json({ error: e.message });
+  }
+});
+
+// Past orders keep their couponCode and discount
+router.delete('/:id', async (req, res) => {
+  try {
+    const result = await req.AppDataSource.getRepository(Coupon).delete({ id: req.params.id });
+    if (!result.affected) return res.status(404).json({ error: 'not found' });
+    res.json({ deleted: true });
+  } catch (e) {
+    res.status(400).json({ error: e.message });
+  }
+});
+
+export default router;
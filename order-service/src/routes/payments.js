@@ -0,0 +1,134 @@
+import { Router } from 'express';
+import { In } from 'typeorm';
+import Order from '../models/Order.js';
+import PaymentIntent from '../models/PaymentIntent.js';
+import { auth } from '@microstore/service-auth';
+import { getPaymentProvider, PaymentError } from '../payments/index.js';
+import { OrderStatusError, transitionOrder } from '../orderStatus.js';
+import { logger } from '@microstore/observability';
+import { ServiceUnavailableError, sendServiceUnavailable } from '../internalClient.js';
+
+const router = Router();
+
+const OPEN_STATUSES = ['requires_payment', 'processing'];
+const ORDER_STATUS_FOR_PAYMENT = { succeeded: 'paid', failed: 'failed' };
+
+// Called by the provider, so it authenticates by signature instead of a user token.
+// Deliveries may repeat; an intent that already has its result is left alone.
+// The order moves first and the intent is marked after, so a delivery that
+// fails part way (say product-service can't restock) is done again in full on
+// the provider's retry instead of finding nothing left to do.
+router.post('/webhook', async (req, res) => {
+  try {
+    const provider = getPaymentProvider();
+    const event = provider.parseWebhook(req.rawBody, req.headers);
+
+    const intentRepository = req.AppDataSource.getRepository(PaymentIntent);
+    const intent = await intentRepository.findOne({ where: { provider: provider.name, providerRef: event.providerRef } });
+    if (!intent) return res.status(404).json({ error: 'payment not found' });
+    if (!OPEN_STATUSES.includes(intent.status)) return res.json({ received: true });
+
+    const nextStatus = ORDER_STATUS_FOR_PAYMENT[event.status];
+    const order = await req.AppDataSource.getRepository(Order).findOne({ where: { id: intent.orderId } });
+    if (order?.status === 'pending') {
+      await transitionOrder(req.AppDataSource, order, nextStatus);
+    } else if (event.status === 'succeeded' && order?.status !== nextStatus) {
+      // Already paid means an earlier delivery moved the order but never got to mark the intent
+      logger.warn(`Payment ${intent.id} succeeded for order ${intent.orderId} which is ${order?.status || 'gone'}; refund it manually`);
+    }
+
+    await intentRepository.createQueryBuilder()
+      .update(PaymentIntent)
+      .set({ status: event.status, failureReason: event.failureReason })
+      .where('id = :id AND status IN (:...open)', { id: intent.id, open: OPEN_STATUSES })
+      .execute();
+    res.json({ received: true });
+  } catch (e) {
+    if (e instanceof PaymentError || e instanceof OrderStatusError) return res.status(e.status).json({ error: e.message });
+    if (e instanceof ServiceUnavailableError) return sendServiceUnavailable(res, e);
+    if (e instanceof SyntaxError) return res.status(400).json({ error: 'invalid payload' });
+    res.status(500).json({ error: e.message });
+  }
+});
+
+router.use(auth);
+
+function findOwnIntent(req) {
+  return req.AppDataSource.getRepository(PaymentIntent).findOne({ where: { id: req.params.id, userId: req.user.sub } });
+}
+
+// Starts paying for a pending order. An unfinished intent for the same order is
+// returned instead of opening a second one, so reloading the payment page is safe.
+router.post('/', async (req, res) => {
+  try {
+    const { orderId } = req.body;
+    if (!orderId) return res.status(400).json({ error: 'orderId required' });
+
+    const order = await req.AppDataSource.getRepository(Order).findOne({ where: { id: orderId, userId: req.user.sub } });
+    if (!order) return res.status(404).json({ error: 'order not found' });
+    if (order.status !== 'pending') return res.status(409).json({ error: `order is ${order.status} and cannot be paid` });
+
+    const intentRepository = req.AppDataSource.getRepository(PaymentIntent);
+    const open = await intentRepository.findOne({
+      where: { orderId: order.id, status: In(OPEN_STATUSES) },
+      order: { createdAt: 'DESC' }
+    });
+    if (open) return res.json(open);
+
+    const provider = getPaymentProvider();
+    const intent = intentRepository.create({
+      orderId: order.id,
+      userId: req.user.sub,
+      provider: provider.name,
+      amount: order.total
+    });
+    const { providerRef } = await provider.createPayment(intent);
+    intent.providerRef = providerRef;
+    res.status(201).json(await intentRepository.save(intent));
+  } catch (e) {
+    if (e instanceof PaymentError) return res.status(e.status).json({ error: e.message });
+    res.status(400).json({ error: e.message });
+  }
+});
+
+router.get('/:id', async (req, res) => {
+  try {
+    const intent = await findOwnIntent(req);
+    if (!intent) return res.status(404).json({ error: 'not found' });
+    res.json(intent);
+  } catch (e) {
+    res.status(400).json({ error: e.message });
+  }
+});
+
+// Hands the payment details to the provider; the outcome arrives by webhook,
+// so clients poll GET /:id until the status is succeeded or failed
+router.post('/:id/confirm', async (req, res) => {
+  try {
+    const intent = await findOwnIntent(req);
+    if (!intent) return res.status(404).json({ error: 'not found' });
+    if (intent.status !== 'requires_payment') {
+      return res.status(409).json({ error: `payment is already ${intent.status.replace('_', ' ')}` });
+    }
+    const order = await req.AppDataSource.getRepository(Order).findOne({ where: { id: intent.orderId } });
+    if (order?.status !== 'pending') return res.status(409).json({ error: `order is ${order?.status || 'gone'} and cannot be paid` });
+
+    // Claim the intent first so a double-submitted form cannot charge twice
+    const intentRepository = req.AppDataSource.getRepository(PaymentIntent);
+    const claimed = await intentRepository.update({ id: intent.id, status: 'requires_payment' }, { status: 'processing' });
+    if (!claimed.affected) return res.status(409).json({ error: 'payment is already processing' });
+
+    try {
+      await getPaymentProvider().confirmPayment(intent, req.body);
+    } catch (e) {
+      await intentRepository.update({ id: intent.id, status: 'processing' }, { status: 'requires_payment' });
+      throw e;
+    }
+    res.json(await intentRepository.findOne({ where: { id: intent.id } }));
+  } catch (e) {
+    if (e instanceof PaymentError) return res.status(e.status).json({ error: e.message });
+    res.status(400).json({ error: e.message });
+  }
+});
+
+export default router;
@@ -0,0 +1,99 @@
+import { Router } from 'express';
+import ShippingRule from '../models/ShippingRule.js';
+import { auth, requirePermission } from '@microstore/service-auth';
+import { SHIPPING_RULE_TYPES } from '../pricing.js';
+
+const router = Router();
+
+const isAmount = (value) => Number.isFinite(value) && value >= 0;
+
+// `amount` is the flat fee, the fee below the free-shipping threshold, or the
+// base fee of a weight rule. Returns { values } or { error }.
+function parseShippingRuleInput(body, { partial = false } = {}) {
+  const values = {};
+  if (body.name !== undefined || !partial) {
+    if (!body.name || !String(body.name).trim()) return { error: 'name required' };
+    values.name = String(body.name).trim();
+  }
+  if (body.type !== undefined || !partial) {
+    if (!SHIPPING_RULE_TYPES.includes(body.type)) return { error: `type must be one of ${SHIPPING_RULE_TYPES.join(', ')}` };
+    values.type = body.type;
+  }
+  if (body.amount !== undefined || !partial) {
+    const amount = Number(body.amount);
+    if (!isAmount(amount)) return { error: 'amount must be zero or more' };
+    values.amount = amount;
+  }
+  for (const field of ['threshold', 'perKg']) {
+    if (body[field] === undefined) continue;
+    const value = body[field] === null || body[field] === '' ? null : Number(body[field]);
+    if (value !== null && !isAmount(value)) return { error: `${field} must be zero or more` };
+    values[field] = value;
+  }
+  if (body.active !== undefined) values.active = Boolean(body.active);
+  return { values };
+}
+
+function validateRule(rule) {
+  if (rule.type === 'free_above' && (rule.threshold === null || rule.threshold === undefined)) {
+    return 'free_above rules need a threshold';
+  }
+  if (rule.type === 'weight' && (rule.perKg === null || rule.perKg === undefined)) {
+    return 'weight rules need a perKg rate';
+  }
+  return null;
+}
+
+router.use(auth, requirePermission('pricing:manage'));
+
+router.get('/', async (req, res) => {
+  try {
+    res.json(await req.AppDataSource.getRepository(ShippingRule).find({ order: { createdAt: 'ASC' } }));
+  } catch (e) {
+    res.status(500).json({ error: e.message });
+  }
+});
+
+router.post('/', async (req, res) => {
+  try {
+    const { values, error } = parseShippingRuleInput(req.body);
+    if (error) return res.status(400).json({ error });
+    const ruleError = validateRule(values);
+    if (ruleError) return res.status(400).json({ error: ruleError });
+
+    const repository = req.AppDataSource.getRepository(ShippingRule);
+    res.status(201).json(await repository.save(repository.create(values)));
+  } catch (e) {
+    res.status(400).json({ error: e.message });
+  }
+});
+
+router.put('/:id', async (req, res) => {
+  try {
+    const repository = req.AppDataSource.getRepository(ShippingRule);
+    const rule = await repository.findOne({ where: { id: req.params.id } });
+    if (!rule) return res.status(404).json({ error: 'not found' });
+
+    const { values, error } = parseShippingRuleInput(req.body, { partial: true });
+    if (error) return res.status(400).json({ error });
+    repository.merge(rule, values);
+    const ruleError = validateRule(rule);
+    if (ruleError) return res.status(400).json({ error: ruleError });
+
+    res.json(await repository.save(rule));
+  } catch (e) {
+    res.status(400).json({ error: e.message });
+  }
+});
+
+router.delete('/:id', async (req, res) => {
+  try {
+    const result = await req.AppDataSource.getRepository(ShippingRule).delete({ id: req.params.id });
+    if (!result.affected) return res.status(404).json({ error: 'not found' });
+    res.json({ deleted: true });
+  } catch (e) {
+    res.status(400).json({ error: e.message });
+  }
+});
+
+export default router;
@@ -0,0 +1,85 @@
+import { Router } from 'express';
+import { IsNull } from 'typeorm';
+import TaxRate from '../models/TaxRate.js';
+import { auth, requirePermission } from '@microstore/service-auth';
+
+const router = Router();
+
+// A rate without a category is the default for products in categories that have none
+function parseTaxRateInput(body, { partial = false } = {}) {
+  const values = {};
+  if (body.name !== undefined || !partial) {
+    if (!body.name || !String(body.name).trim()) return { error: 'name required' };
+    values.name = String(body.name).trim();
+  }
+  if (body.rate !== undefined || !partial) {
+    const rate = Number(body.rate);
+    if (!Number.isFinite(rate) || rate < 0 || rate > 100) return { error: 'rate must be a percentage between 0 and 100' };
+    values.rate = rate;
+  }
+  if (body.categoryId !== undefined) values.categoryId = body.categoryId || null;
+  return { values };
+}
+
+function findRateForCategory(repository, categoryId) {
+  return repository.findOne({ where: { categoryId: categoryId ?? IsNull() } });
+}
+
+router.use(auth, requirePermission('pricing:manage'));
+
+router.get('/', async (req, res) => {
+  try {
+    res.json(await req.AppDataSource.getRepository(TaxRate).find({ order: { name: 'ASC' } }));
+  } catch (e) {
+    res.status(500).json({ error: e.message });
+  }
+});
+
+router.post('/', async (req, res) => {
+  try {
+    const { values, error } = parseTaxRateInput(req.body);
+    if (error) return res.status(400).json({ error });
+
+    const repository = req.AppDataSource.getRepository(TaxRate);
+    if (await findRateForCategory(repository, values.categoryId)) {
+      return res.status(409).json({ error: 'a tax rate already exists for this category' });
+    }
+    res.status(201).json(await repository.save(repository.create(values)));
+  } catch (e) {
+    res.status(400).json({ error: e.message });
+  }
+});
+
+router.put('/:id', async (req, res) => {
+  try {
+    const repository = req.AppDataSource.getRepository(TaxRate);
+    const taxRate = await repository.findOne({ where: { id: req.params.id } });
+    if (!taxRate) return res.status(404).json({ error: 'not found' });
+
+    const { values, error } = parseTaxRateInput(req.body, { partial: true });
+    if (error) return res.status(400).json({ error });
+    if (values.categoryId !== undefined) {
+      const existing = await findRateForCategory(repository, values.categoryId);
+      if (existing && existing.id !== taxRate.id) {
+        return res.status(409).json({ error: 'a tax rate already exists for this category' });
+      }
+    }
+
+    repository.merge(taxRate, values);
+    res.json(await repository.save(taxRate));
+  } catch (e) {
+    res.status(400).json({ error: e.message });
+  }
+});
+
+router.delete('/:id', async (req, res) => {
+  try {
+    const result = await req.AppDataSource.getRepository(TaxRate).delete({ id: req.params.id });
+    if (!result.affected) return res.status(404).json({ error: 'not found' });
+    res.json({ deleted: true });
+  } catch (e) {
+    res.status(400).json({ error: e.message });
+  }
+});
+
+export default router;
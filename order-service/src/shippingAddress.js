@@ -0,0 +1,37 @@
+// Orders keep a copy of the delivery address as it was at checkout, so later
+// edits in the user's address book do not change where past orders went.
+// Mirrors the address rules in user-service.
+
+const PINCODE_PATTERN = /^[1-9][0-9]{5}$/;
+const PHONE_PATTERN = /^[6-9][0-9]{9}$/;
+const TEXT_FIELDS = { fullName: 100, line1: 200, line2: 200, city: 100, state: 100 };
+const REQUIRED_FIELDS = ['fullName', 'phone', 'line1', 'city', 'state', 'pincode'];
+
+// Returns { address } or { error }
+export function normalizeShippingAddress(input) {
+  if (!input || typeof input !== 'object') return { error: 'shippingAddress required' };
+  for (const field of REQUIRED_FIELDS) {
+    if (input[field] === undefined || input[field] === null || !String(input[field]).trim()) {
+      return { error: `shippingAddress.${field} required` };
+    }
+  }
+
+  const address = {};
+  for (const [field, limit] of Object.entries(TEXT_FIELDS)) {
+    const value = input[field] === undefined || input[field] === null ? '' : String(input[field]).trim();
+    if (value.length > limit) return { error: `shippingAddress.${field} must be at most ${limit} characters` };
+    address[field] = value || null;
+  }
+
+  let phone = String(input.phone).replace(/\D/g, '');
+  if (phone.length === 12 && phone.startsWith('91')) phone = phone.slice(2);
+  if (phone.length === 11 && phone.startsWith('0')) phone = phone.slice(1);
+  if (!PHONE_PATTERN.test(phone)) return { error: 'shippingAddress.phone must be a 10-digit Indian mobile number' };
+  address.phone = phone;
+
+  const pincode = String(input.pincode).replace(/\s/g, '');
+  if (!PINCODE_PATTERN.test(pincode)) return { error: 'shippingAddress.pincode must be a 6-digit Indian PIN code' };
+  address.pincode = pincode;
+
+  return { address };
+}
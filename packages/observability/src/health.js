@@ -0,0 +1,67 @@
+import { Router } from 'express';
+import { serviceName } from './logger.js';
+
+// Liveness says the process is up and answering; readiness says it can do its
+// job, by running every dependency check. Each check reports its latency and
+// counts as down once it takes longer than HEALTH_CHECK_TIMEOUT_MS.
+const checkTimeoutMs = () => Number(process.env.HEALTH_CHECK_TIMEOUT_MS || 2000);
+
+function withTimeout(promise, ms) {
+  let timer;
+  const timeout = new Promise((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`timed out after ${ms}ms`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+async function runCheck(check) {
+  const started = Date.now();
+  try {
+    await withTimeout(check(), checkTimeoutMs());
+    return { status: 'up', latencyMs: Date.now() - started };
+  } catch (e) {
+    return { status: 'down', latencyMs: Date.now() - started, error: e.message };
+  }
+}
+
+// checks maps a dependency's name to an async function that throws when it is down
+export async function readiness(checks) {
+  const names = Object.keys(checks);
+  const results = await Promise.all(names.map((name) => runCheck(checks[name])));
+  const dependencies = Object.fromEntries(names.map((name, i) => [name, results[i]]));
+  return {
+    ok: results.every((result) => result.status === 'up'),
+    service: serviceName(),
+    dependencies
+  };
+}
+
+export function databaseCheck(dataSource) {
+  return async () => {
+    if (!dataSource.isInitialized) throw new Error('not connected');
+    await dataSource.query('SELECT 1');
+  };
+}
+
+// Another service counts as up while it is alive. Its readiness is its own
+// business: order-service still serves orders when product-service has lost
+// its database, and the gateway reports both anyway. http is an axios instance.
+export function serviceCheck(http, baseUrl) {
+  return async () => {
+    await http.get(`${baseUrl}/health/live`, { timeout: checkTimeoutMs() });
+  };
+}
+
+// GET /health (kept for existing callers) and /health/live answer while the
+// process runs; /health/ready answers 503 when any dependency is down
+export function healthRoutes(checks) {
+  const router = Router();
+  const live = (_, res) => res.json({ ok: true, service: serviceName(), uptimeSeconds: Math.round(process.uptime()) });
+  router.get('/health', live);
+  router.get('/health/live', live);
+  router.get('/health/ready', async (_, res) => {
+    const report = await readiness(checks);
+    res.status(report.ok ? 200 : 503).json(report);
+  });
+  return router;
+}
@@ -0,0 +1,7 @@
+// Logging, tracing, metrics and health checks shared by the gateway and every
+// service, so they all log, trace and report health the same way
+export { logger, serviceName, setServiceName } from './logger.js';
+export { currentContext } from './tracing/context.js';
+export { tracing, forwardTrace, instrumentAxios, startSpan, endSpan, traceparent } from './tracing/index.js';
+export { client, requestMetrics, registerDataSourceMetrics, metricsHandler } from './metrics.js';
+export { healthRoutes, readiness, databaseCheck, serviceCheck } from './health.js';
@@ -0,0 +1,35 @@
+import { currentContext } from './tracing/context.js';
+
+let defaultServiceName = 'service';
+
+// Each service names itself once at startup; SERVICE_NAME overrides it
+export function setServiceName(name) {
+  defaultServiceName = name;
+}
+
+export const serviceName = () => process.env.SERVICE_NAME || defaultServiceName;
+
+// One JSON object per line, tagged with the trace of the request it belongs
+// to, so lines from every service can be joined up by traceId
+function write(level, msg, fields = {}) {
+  const context = currentContext();
+  const line = {
+    time: new Date().toISOString(),
+    level,
+    service: serviceName(),
+    msg,
+    ...(context && {
+      traceId: context.span.traceId,
+      spanId: context.span.spanId,
+      requestId: context.requestId
+    }),
+    ...fields
+  };
+  (level === 'error' ? process.stderr : process.stdout).write(`${JSON.stringify(line)}\n`);
+}
+
+export const logger = {
+  info: (msg, fields) => write('info', msg, fields),
+  warn: (msg, fields) => write('warn', msg, fields),
+  error: (msg, fields) => write('error', msg, fields)
+};
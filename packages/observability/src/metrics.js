@@ -0,0 +1,70 @@
+import client from 'prom-client';
+import { serviceName } from './logger.js';
+
+// Prometheus metrics, scraped from GET /metrics. Process metrics (CPU, memory,
+// event loop lag) come from prom-client's defaults.
+const register = client.register;
+client.collectDefaultMetrics({ register });
+
+// Services define their own counters with this client, so they land in the same registry
+export { client };
+
+const httpRequests = new client.Counter({
+  name: 'http_requests_total',
+  help: 'Requests handled, by route pattern and status',
+  labelNames: ['method', 'route', 'status']
+});
+
+const httpRequestDuration = new client.Histogram({
+  name: 'http_request_duration_seconds',
+  help: 'Time to answer a request, by route pattern and status',
+  labelNames: ['method', 'route', 'status'],
+  buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+});
+
+// Route patterns rather than URLs keep ids out of the labels; anything that
+// matched no route is counted together
+function routePattern(req) {
+  if (req.route) return `${req.baseUrl}${req.route.path}`;
+  return req.baseUrl || 'unmatched';
+}
+
+// Counts and times every request. routeLabel(req) names the route; the gateway
+// passes its own, since most of its requests are proxied rather than routed.
+export function requestMetrics(routeLabel = routePattern) {
+  return (req, res, next) => {
+    const stopTimer = httpRequestDuration.startTimer();
+    res.on('finish', () => {
+      const labels = { method: req.method, route: routeLabel(req), status: String(res.statusCode) };
+      httpRequests.inc(labels);
+      stopTimer(labels);
+    });
+    next();
+  };
+}
+
+// Connections in the pg pool behind the TypeORM data source, read at scrape time
+export function registerDataSourceMetrics(dataSource) {
+  new client.Gauge({
+    name: 'db_pool_connections',
+    help: 'Database pool connections, by state (total, idle, waiting requests)',
+    labelNames: ['state'],
+    collect() {
+      const pool = dataSource.isInitialized ? dataSource.driver.master : null;
+      if (!pool) return;
+      this.set({ state: 'total' }, pool.totalCount);
+      this.set({ state: 'idle' }, pool.idleCount);
+      this.set({ state: 'waiting' }, pool.waitingCount);
+    }
+  });
+}
+
+export async function metricsHandler(_, res) {
+  try {
+    register.setDefaultLabels({ service: serviceName() });
+    res.set('Content-Type', register.contentType);
+    res.end(await register.metrics());
+  } catch (e) {
+    res.status(500).json({ error: e.message });
+  }
+}
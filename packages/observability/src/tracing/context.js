@@ -0,0 +1,13 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+// The span (and request id) of whatever the current request is doing. Set by
+// the tracing middleware and carried through every await and callback after it.
+const storage = new AsyncLocalStorage();
+
+export function runInContext(context, fn) {
+  return storage.run(context, fn);
+}
+
+export function currentContext() {
+  return storage.getStore() || null;
+}
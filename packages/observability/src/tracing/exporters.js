@@ -0,0 +1,111 @@
+import fs from 'fs';
+import path from 'path';
+import { logger, serviceName } from '../logger.js';
+
+const SPAN_KINDS = { INTERNAL: 1, SERVER: 2, CLIENT: 3 };
+const STATUS_CODES = { UNSET: 0, OK: 1, ERROR: 2 };
+const MAX_QUEUE = 2048;
+
+function toAttribute(key, value) {
+  if (typeof value === 'number' && Number.isInteger(value)) return { key, value: { intValue: String(value) } };
+  if (typeof value === 'number') return { key, value: { doubleValue: value } };
+  if (typeof value === 'boolean') return { key, value: { boolValue: value } };
+  return { key, value: { stringValue: String(value) } };
+}
+
+// A batch of finished spans as an OTLP/JSON ExportTraceServiceRequest, the
+// format collectors take on /v1/traces and their file receivers read
+function toOtlp(spans) {
+  return {
+    resourceSpans: [{
+      resource: { attributes: [toAttribute('service.name', serviceName())] },
+      scopeSpans: [{
+        scope: { name: 'microstore-tracing' },
+        spans: spans.map((span) => ({
+          traceId: span.traceId,
+          spanId: span.spanId,
+          ...(span.parentSpanId && { parentSpanId: span.parentSpanId }),
+          name: span.name,
+          kind: SPAN_KINDS[span.kind],
+          startTimeUnixNano: String(span.startTimeUnixNano),
+          endTimeUnixNano: String(span.endTimeUnixNano),
+          attributes: Object.entries(span.attributes)
+            .filter(([, value]) => value !== undefined && value !== null)
+            .map(([key, value]) => toAttribute(key, value)),
+          status: { code: STATUS_CODES[span.status] }
+        }))
+      }]
+    }]
+  };
+}
+
+// Appends one ExportTraceServiceRequest per line to TRACE_FILE
+const fileExporter = {
+  name: 'file',
+
+  async export(spans) {
+    const file = process.env.TRACE_FILE || `traces/${serviceName()}.jsonl`;
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    await fs.promises.appendFile(file, `${JSON.stringify(toOtlp(spans))}\n`);
+  }
+};
+
+// Sends to an OpenTelemetry collector's OTLP/HTTP receiver. Uses fetch rather
+// than axios so exporting is never itself traced.
+const otlpExporter = {
+  name: 'otlp',
+
+  async export(spans) {
+    const endpoint = process.env.OTEL_EXPORTER_OTLP_ENDPOINT || 'http://localhost:4318';
+    const response = await fetch(`${endpoint.replace(/\/+$/, '')}/v1/traces`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(toOtlp(spans))
+    });
+    if (!response.ok) throw new Error(`collector answered ${response.status}`);
+  }
+};
+
+// A span exporter implements:
+//   name
+//   export(spans)    -> resolves once the batch is written or sent
+const exporters = {
+  [fileExporter.name]: fileExporter,
+  [otlpExporter.name]: otlpExporter
+};
+
+// Read lazily so TRACE_EXPORTER from .env (loaded after imports run) is
+// honoured. 'none', the default, keeps trace ids in the logs but drops spans.
+export function getSpanExporter() {
+  const name = process.env.TRACE_EXPORTER || 'none';
+  if (name === 'none') return null;
+  const exporter = exporters[name];
+  if (!exporter) throw new Error(`unknown trace exporter ${name}`);
+  return exporter;
+}
+
+let queue = [];
+let flushTimer = null;
+
+async function flush() {
+  const exporter = getSpanExporter();
+  const batch = queue;
+  queue = [];
+  if (!exporter || batch.length === 0) return;
+  try {
+    await exporter.export(batch);
+  } catch (e) {
+    logger.warn('Exporting spans failed', { exporter: exporter.name, spans: batch.length, error: e.message });
+  }
+}
+
+// Spans are sent in batches every TRACE_EXPORT_INTERVAL_MS; past MAX_QUEUE
+// waiting spans, new ones are dropped rather than held in memory
+export function exportSpan(span) {
+  if (!getSpanExporter() || queue.length >= MAX_QUEUE) return;
+  queue.push(span);
+  if (!flushTimer) {
+    flushTimer = setInterval(flush, Number(process.env.TRACE_EXPORT_INTERVAL_MS || 5000));
+    flushTimer.unref();
+  }
+}
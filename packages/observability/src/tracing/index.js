@@ -0,0 +1,123 @@
+import crypto from 'crypto';
+import { runInContext, currentContext } from './context.js';
+import { exportSpan } from './exporters.js';
+import { logger } from '../logger.js';
+
+// W3C Trace Context: version-traceId-parentSpanId-flags
+const TRACEPARENT = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+// Request ids from callers are echoed into logs and headers, so keep them tame
+const REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+function parseTraceparent(header) {
+  const match = TRACEPARENT.exec(String(header || '').trim().toLowerCase());
+  if (!match) return null;
+  const [, version, traceId, parentSpanId, flags] = match;
+  if (version === 'ff' || /^0+$/.test(traceId) || /^0+$/.test(parentSpanId)) return null;
+  return { traceId, parentSpanId, flags };
+}
+
+export function traceparent(span) {
+  return `00-${span.traceId}-${span.spanId}-${span.flags}`;
+}
+
+// Starts a span under parent, or a new trace without one
+export function startSpan(name, kind, { parent, attributes = {} } = {}) {
+  return {
+    traceId: parent?.traceId || crypto.randomBytes(16).toString('hex'),
+    spanId: crypto.randomBytes(8).toString('hex'),
+    parentSpanId: parent?.spanId || null,
+    flags: parent?.flags || '01',
+    name,
+    kind,
+    attributes,
+    status: 'UNSET',
+    startTimeUnixNano: BigInt(Date.now()) * 1000000n,
+    startHrTime: process.hrtime.bigint()
+  };
+}
+
+// Ends the span and queues it for export when the trace is sampled; returns the duration in ms
+export function endSpan(span, { attributes = {}, error = false } = {}) {
+  const elapsed = process.hrtime.bigint() - span.startHrTime;
+  span.endTimeUnixNano = span.startTimeUnixNano + elapsed;
+  span.attributes = { ...span.attributes, ...attributes };
+  span.status = error ? 'ERROR' : 'OK';
+  if (parseInt(span.flags, 16) & 1) exportSpan(span);
+  return Number(elapsed) / 1e6;
+}
+
+// Continues the caller's trace (or starts one) for each request, runs the rest
+// of the request inside it and writes the access log line when it finishes.
+// Replaces morgan, whose lines couldn't be tied to a trace.
+export function tracing(req, res, next) {
+  const incoming = parseTraceparent(req.headers.traceparent);
+  const span = startSpan(req.method, 'SERVER', {
+    parent: incoming && { traceId: incoming.traceId, spanId: incoming.parentSpanId, flags: incoming.flags },
+    attributes: { 'http.method': req.method, 'http.target': req.originalUrl }
+  });
+  const requestId = REQUEST_ID.test(req.headers['x-request-id'] || '') ? req.headers['x-request-id'] : span.traceId;
+  res.set('X-Request-Id', requestId);
+
+  res.on('finish', () => {
+    // Named by route pattern, not URL, so ids don't make every span unique
+    const route = req.route ? `${req.baseUrl}${req.route.path}` : req.baseUrl || null;
+    span.name = route ? `${req.method} ${route}` : req.method;
+    const durationMs = endSpan(span, {
+      attributes: { 'http.route': route, 'http.status_code': res.statusCode },
+      error: res.statusCode >= 500
+    });
+    runInContext({ span, requestId }, () => logger.info('request', {
+      method: req.method,
+      path: req.originalUrl,
+      status: res.statusCode,
+      durationMs: Math.round(durationMs * 10) / 10
+    }));
+  });
+
+  runInContext({ span, requestId }, next);
+}
+
+// Called from each proxy's onProxyReq so the service joins the gateway's
+// trace. Whatever the client sent in these headers is replaced.
+export function forwardTrace(proxyReq) {
+  const context = currentContext();
+  if (!context) return;
+  proxyReq.setHeader('traceparent', traceparent(context.span));
+  proxyReq.setHeader('X-Request-Id', context.requestId);
+}
+
+// Outgoing axios calls get a client span and carry it on in traceparent, with
+// the request id, so the service called joins the same trace
+export function instrumentAxios(instance) {
+  instance.interceptors.request.use((config) => {
+    const context = currentContext();
+    const url = new URL(config.url, config.baseURL || undefined);
+    const method = (config.method || 'get').toUpperCase();
+    const span = startSpan(`${method} ${url.host}`, 'CLIENT', {
+      parent: context?.span,
+      attributes: { 'http.method': method, 'http.url': `${url.origin}${url.pathname}`, 'peer.service': url.host }
+    });
+    config.headers.traceparent = traceparent(span);
+    if (context) config.headers['X-Request-Id'] = context.requestId;
+    config.tracingSpan = span;
+    return config;
+  });
+  instance.interceptors.response.use(
+    (response) => {
+      if (response.config.tracingSpan) {
+        endSpan(response.config.tracingSpan, { attributes: { 'http.status_code': response.status } });
+      }
+      return response;
+    },
+    (error) => {
+      const span = error.config?.tracingSpan;
+      if (span) {
+        endSpan(span, {
+          attributes: { 'http.status_code': error.response?.status, 'error.message': error.message },
+          error: true
+        });
+      }
+      return Promise.reject(error);
+    }
+  );
+}
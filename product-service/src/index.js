@@ -1,14 +1,30 @@
 import express from 'express';
-import morgan from 'morgan';
 import cors from 'cors';
 import dotenv from 'dotenv';
 import { DataSource } from "typeorm";
 import "reflect-metadata";
 import Product from './models/Product.js';
+import StockReservation from './models/StockReservation.js';
+import Category from './models/Category.js';
 import productRoutes from './routes/products.js';
+import categoryRoutes from './routes/categories.js';
+import reservationRoutes, { releaseExpiredReservations } from './routes/reservations.js';
+import { uploadDir } from './storage/images.js';
+import {
+  tracing,
+  logger,
+  healthRoutes,
+  databaseCheck,
+  requestMetrics,
+  registerDataSourceMetrics,
+  metricsHandler,
+  setServiceName
+} from '@microstore/observability';
 
+setServiceName('product-service');
 dotenv.config();
 const PORT = process.env.PORT || 3002;
+const RESERVATION_SWEEP_INTERVAL_MS = Number(process.env.RESERVATION_SWEEP_INTERVAL_MS || 60000);
 
 // Database configuration
 const AppDataSource = new DataSource({
@@ -20,10 +36,11 @@ const AppDataSource = new DataSource({
   database: process.env.DB_NAME || "microstore_products",
   synchronize: true,
   logging: false,
-  entities: [Product],
+  entities: [Product, StockReservation, Category],
   subscribers: [],
   migrations: [],
 });
+registerDataSourceMetrics(AppDataSource);
 
 const app = express();
 
@@ -38,15 +55,23 @@ const corsOptions = {
 
 app.use(cors(corsOptions));
 app.use(express.json());
-app.use(morgan('dev'));
+app.use(tracing);
+app.use(requestMetrics());
 
 // Initialize database connection
 AppDataSource.initialize()
   .then(() => {
-    console.log("Product PostgreSQL connected");
+    logger.info("Product PostgreSQL connected");
+
+    // Return stock held by reservations nobody committed or released in time
+    setInterval(() => {
+      releaseExpiredReservations(AppDataSource)
+        .then((count) => { if (count) logger.info(`Released ${count} expired stock reservation(s)`); })
+        .catch((error) => logger.error("Reservation sweep failed", { error: error.message }));
+    }, RESERVATION_SWEEP_INTERVAL_MS);
   })
   .catch((error) => {
-    console.error("Database error", error);
+    logger.error("Database error", { error: error.message });
     process.exit(1);
   });
 
@@ -56,6 +81,14 @@ app.use((req, res, next) => {
   next();
 });
 
+app.use(healthRoutes({ database: databaseCheck(AppDataSource) }));
+app.get('/metrics', metricsHandler);
+
+// Uploaded product images and thumbnails
+app.use('/uploads', express.static(uploadDir(), { maxAge: '7d', immutable: true }));
+
+app.use('/reservations', reservationRoutes);
+app.use('/categories', categoryRoutes);
 app.use('/', productRoutes);
 
-app.listen(PORT, () => console.log(`Product service on ${PORT}`));
+app.listen(PORT, () => logger.info(`Product service on ${PORT}`));
@@ -0,0 +1,48 @@
+import { EntitySchema } from "typeorm";
+
+export default new EntitySchema({
+  name: "Category",
+  tableName: "categories",
+  columns: {
+    id: {
+      primary: true,
+      type: "uuid",
+      generated: "uuid"
+    },
+    name: {
+      type: "varchar",
+      nullable: false
+    },
+    slug: {
+      type: "varchar",
+      unique: true,
+      nullable: false
+    },
+    parentId: {
+      type: "uuid",
+      nullable: true
+    },
+    createdAt: {
+      type: "timestamp",
+      createDate: true
+    },
+    updatedAt: {
+      type: "timestamp",
+      updateDate: true
+    }
+  },
+  relations: {
+    parent: {
+      type: "many-to-one",
+      target: "Category",
+      joinColumn: { name: "parentId" },
+      nullable: true,
+      onDelete: "SET NULL"
+    },
+    children: {
+      type: "one-to-many",
+      target: "Category",
+      inverseSide: "parent"
+    }
+  }
+});
@@ -13,6 +13,15 @@ export default new EntitySchema({
       type: "varchar",
       nullable: false
     },
+    description: {
+      type: "text",
+      nullable: true
+    },
+    sku: {
+      type: "varchar",
+      unique: true,
+      nullable: true
+    },
     price: {
       type: "decimal",
       precision: 10,
@@ -23,6 +32,19 @@ export default new EntitySchema({
       type: "int",
       nullable: false
     },
+    weight: {
+      type: "int",
+      nullable: true
+    },
+    categoryId: {
+      type: "uuid",
+      nullable: true
+    },
+    images: {
+      type: "json",
+      nullable: false,
+      default: () => "'[]'"
+    },
     createdAt: {
       type: "timestamp",
       createDate: true
@@ -31,5 +53,14 @@ export default new EntitySchema({
       type: "timestamp",
       updateDate: true
     }
+  },
+  relations: {
+    category: {
+      type: "many-to-one",
+      target: "Category",
+      joinColumn: { name: "categoryId" },
+      nullable: true,
+      onDelete: "SET NULL"
+    }
   }
 });
\ No newline at end of file
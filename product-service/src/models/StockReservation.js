@@ -0,0 +1,38 @@
+import { EntitySchema } from "typeorm";
+
+export default new EntitySchema({
+  name: "StockReservation",
+  tableName: "stock_reservations",
+  columns: {
+    id: {
+      primary: true,
+      type: "uuid",
+      generated: "uuid"
+    },
+    userId: {
+      type: "varchar",
+      nullable: false
+    },
+    items: {
+      type: "json",
+      nullable: false
+    },
+    status: {
+      type: "varchar",
+      nullable: false,
+      default: "reserved"
+    },
+    expiresAt: {
+      type: "timestamp",
+      nullable: false
+    },
+    createdAt: {
+      type: "timestamp",
+      createDate: true
+    },
+    updatedAt: {
+      type: "timestamp",
+      updateDate: true
+    }
+  }
+});
@@ -0,0 +1,155 @@
+import { Router } from 'express';
+import Category from '../models/Category.js';
+import { auth, requirePermission } from '@microstore/service-auth';
+
+const router = Router();
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function slugify(value) {
+  return String(value)
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+export function findCategory(repository, idOrSlug) {
+  const where = UUID_PATTERN.test(idOrSlug) ? { id: idOrSlug } : { slug: idOrSlug };
+  return repository.findOne({ where });
+}
+
+// Ids of a category and everything below it. Categories are a small table, so
+// walking the tree in memory is simpler than a recursive query.
+export async function categoryWithDescendantIds(repository, categoryId) {
+  const all = await repository.find({ select: ['id', 'parentId'] });
+  const childrenOf = new Map();
+  for (const c of all) {
+    if (!childrenOf.has(c.parentId)) childrenOf.set(c.parentId, []);
+    childrenOf.get(c.parentId).push(c.id);
+  }
+  const ids = [];
+  const queue = [categoryId];
+  while (queue.length) {
+    const id = queue.shift();
+    ids.push(id);
+    queue.push(...(childrenOf.get(id) || []));
+  }
+  return ids;
+}
+
+// Looks up the ancestors of a category, nearest first, from one read of the table
+export async function categoryAncestorLookup(repository) {
+  const all = await repository.find({ select: ['id', 'parentId'] });
+  const parentOf = new Map(all.map((c) => [c.id, c.parentId]));
+  return (categoryId) => {
+    const ids = [];
+    let id = parentOf.get(categoryId);
+    while (id && id !== categoryId && !ids.includes(id)) {
+      ids.push(id);
+      id = parentOf.get(id);
+    }
+    return ids;
+  };
+}
+
+async function validateParent(repository, parentId, categoryId) {
+  if (!parentId) return null;
+  const parent = await repository.findOne({ where: { id: parentId } });
+  if (!parent) return 'parent category not found';
+  if (categoryId) {
+    const subtree = await categoryWithDescendantIds(repository, categoryId);
+    if (subtree.includes(parentId)) return 'a category cannot be moved under itself or its descendants';
+  }
+  return null;
+}
+
+router.get('/', async (req, res) => {
+  try {
+    const categories = await req.AppDataSource.getRepository(Category).find({ order: { name: 'ASC' } });
+    res.json(categories);
+  } catch (e) {
+    res.status(500).json({ error: e.message });
+  }
+});
+
+router.get('/:idOrSlug', async (req, res) => {
+  try {
+    const repository = req.AppDataSource.getRepository(Category);
+    const category = await findCategory(repository, req.params.idOrSlug);
+    if (!category) return res.status(404).json({ error: 'not found' });
+    const children = await repository.find({ where: { parentId: category.id }, order: { name: 'ASC' } });
+    res.json({ ...category, children });
+  } catch (e) {
+    res.status(400).json({ error: e.message });
+  }
+});
+
+router.post('/', auth, requirePermission('products:write'), async (req, res) => {
+  try {
+    const { name, parentId = null } = req.body;
+    if (!name || !String(name).trim()) return res.status(400).json({ error: 'name required' });
+    const slug = slugify(req.body.slug || name);
+    if (!slug) return res.status(400).json({ error: 'slug must contain letters or numbers' });
+
+    const repository = req.AppDataSource.getRepository(Category);
+    const parentError = await validateParent(repository, parentId);
+    if (parentError) return res.status(400).json({ error: parentError });
+    if (await repository.findOne({ where: { slug } })) return res.status(409).json({ error: 'slug taken' });
+
+    const category = repository.create({ name: String(name).trim(), slug, parentId });
+    res.status(201).json(await repository.save(category));
+  } catch (e) {
+    res.status(400).json({ error: e.message });
+  }
+});
+
+router.put('/:id', auth, requirePermission('products:write'), async (req, res) => {
+  try {
+    const repository = req.AppDataSource.getRepository(Category);
+    const category = await repository.findOne({ where: { id: req.params.id } });
+    if (!category) return res.status(404).json({ error: 'not found' });
+
+    const { name, slug, parentId } = req.body;
+    if (name !== undefined) {
+      if (!String(name).trim()) return res.status(400).json({ error: 'name cannot be empty' });
+      category.name = String(name).trim();
+    }
+    if (slug !== undefined) {
+      const nextSlug = slugify(slug);
+      if (!nextSlug) return res.status(400).json({ error: 'slug must contain letters or numbers' });
+      const taken = await repository.findOne({ where: { slug: nextSlug } });
+      if (taken && taken.id !== category.id) return res.status(409).json({ error: 'slug taken' });
+      category.slug = nextSlug;
+    }
+    if (parentId !== undefined) {
+      const parentError = await validateParent(repository, parentId, category.id);
+      if (parentError) return res.status(400).json({ error: parentError });
+      category.parentId = parentId || null;
+    }
+
+    res.json(await repository.save(category));
+  } catch (e) {
+    res.status(400).json({ error: e.message });
+  }
+});
+
+// Children move up to the deleted category's parent; its products become uncategorised
+router.delete('/:id', auth, requirePermission('products:write'), async (req, res) => {
+  try {
+    const deleted = await req.AppDataSource.transaction(async (manager) => {
+      const category = await manager.findOne(Category, { where: { id: req.params.id } });
+      if (!category) return false;
+      await manager.update(Category, { parentId: category.id }, { parentId: category.parentId });
+      await manager.remove(Category, category);
+      return true;
+    });
+    if (!deleted) return res.status(404).json({ error: 'not found' });
+    res.json({ deleted: true });
+  } catch (e) {
+    res.status(400).json({ error: e.message });
+  }
+});
+
+export default router;
@@ -0,0 +1,78 @@
+import { Router } from 'express';
+import multer from 'multer';
+import Product from '../models/Product.js';
+import { auth, requirePermission } from '@microstore/service-auth';
+import { ALLOWED_IMAGE_TYPES, inspectImage, saveProductImage, deleteProductImage } from '../storage/images.js';
+
+const router = Router({ mergeParams: true });
+
+const MAX_IMAGES_PER_PRODUCT = 10;
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 5 * 1024 * 1024, files: 5 },
+  fileFilter: (req, file, cb) => {
+    if (ALLOWED_IMAGE_TYPES.includes(file.mimetype)) return cb(null, true);
+    cb(new multer.MulterError('LIMIT_UNEXPECTED_FILE', file.fieldname));
+  }
+}).array('images');
+
+// Upload one or more images as multipart field "images"
+router.post('/', auth, requirePermission('products:write'), (req, res) => {
+  upload(req, res, async (err) => {
+    if (err) {
+      const message = err.code === 'LIMIT_FILE_SIZE'
+        ? 'images must be 5MB or smaller'
+        : err.code === 'LIMIT_UNEXPECTED_FILE'
+          ? `images must be ${ALLOWED_IMAGE_TYPES.join(', ')} in field "images"`
+          : err.message;
+      return res.status(400).json({ error: message });
+    }
+    try {
+      if (!req.files?.length) return res.status(400).json({ error: 'no images uploaded' });
+
+      const productRepository = req.AppDataSource.getRepository(Product);
+      const product = await productRepository.findOne({ where: { id: req.params.id } });
+      if (!product) return res.status(404).json({ error: 'not found' });
+      if ((product.images || []).length + req.files.length > MAX_IMAGES_PER_PRODUCT) {
+        return res.status(400).json({ error: `a product can have at most ${MAX_IMAGES_PER_PRODUCT} images` });
+      }
+
+      // Every file is checked before any is written, so one bad file stores none
+      for (const file of req.files) await inspectImage(file);
+
+      const saved = [];
+      try {
+        for (const file of req.files) {
+          saved.push(await saveProductImage(product.id, file));
+        }
+        product.images = [...(product.images || []), ...saved];
+        res.status(201).json(await productRepository.save(product));
+      } catch (e) {
+        await Promise.all(saved.map(deleteProductImage));
+        throw e;
+      }
+    } catch (e) {
+      res.status(400).json({ error: e.message });
+    }
+  });
+});
+
+router.delete('/:imageId', auth, requirePermission('products:write'), async (req, res) => {
+  try {
+    const productRepository = req.AppDataSource.getRepository(Product);
+    const product = await productRepository.findOne({ where: { id: req.params.id } });
+    if (!product) return res.status(404).json({ error: 'not found' });
+    const image = (product.images || []).find((img) => img.id === req.params.imageId);
+    if (!image) return res.status(404).json({ error: 'image not found' });
+
+    product.images = product.images.filter((img) => img.id !== image.id);
+    const updatedProduct = await productRepository.save(product);
+    await deleteProductImage(image);
+    res.json(updatedProduct);
+  } catch (e) {
+    res.status(400).json({ error: e.message });
+  }
+});
+
+export default router;
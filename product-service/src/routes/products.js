@@ -1,34 +1,43 @@
 import { Router } from 'express';
+import { In } from 'typeorm';
 import Product from '../models/Product.js';
-import jwt from 'jsonwebtoken';
+import Category from '../models/Category.js';
+import { findCategory, categoryWithDescendantIds, categoryAncestorLookup } from './categories.js';
+import productImageRoutes from './productImages.js';
+import { deleteProductImages } from '../storage/images.js';
+import { auth, requirePermission } from '@microstore/service-auth';
 
 const router = Router();
 
-function auth(req, res, next) {
-  const h = req.headers.authorization || '';
-  const [, token] = h.split(' ');
-  if (!token) return res.status(401).json({ error: 'missing token' });
-  try {
-    const secret = process.env.ACCESS_TOKEN_SECRET || 'access_secret';
-    req.user = jwt.verify(token, secret);
-    next();
-  } catch {
-    res.status(401).json({ error: 'invalid token' });
-  }
+async function categoryExists(req, categoryId) {
+  if (!categoryId) return true;
+  return !!(await req.AppDataSource.getRepository(Category).findOne({ where: { id: categoryId } }));
 }
 
-function requireAdmin(req, res, next) {
-  if (req.user?.role !== 'admin') return res.status(403).json({ error: 'forbidden' });
-  next();
+function normalizeSku(sku) {
+  if (sku === undefined) return undefined;
+  const value = sku === null ? '' : String(sku).trim().toUpperCase();
+  return value || null;
 }
 
-router.get('/health', (_, res) => res.json({ ok: true, service: 'product-service' }));
+async function skuTaken(productRepository, sku, productId) {
+  if (!sku) return false;
+  const existing = await productRepository.findOne({ where: { sku } });
+  return !!existing && existing.id !== productId;
+}
 
-router.post('/', auth, requireAdmin, async (req, res) => {
+// Shipping weight in grams; null when unknown
+const isValidWeight = (weight) => weight === null || (Number.isInteger(weight) && weight >= 0);
+
+router.post('/', auth, requirePermission('products:write'), async (req, res) => {
   try {
-    const { name, price, stock } = req.body;
+    const { name, price, stock, description = null, categoryId = null, weight = null } = req.body;
+    const sku = normalizeSku(req.body.sku) ?? null;
+    if (!isValidWeight(weight)) return res.status(400).json({ error: 'weight must be a non-negative integer (grams)' });
+    if (!(await categoryExists(req, categoryId))) return res.status(400).json({ error: 'category not found' });
     const productRepository = req.AppDataSource.getRepository(Product);
-    const product = productRepository.create({ name, price, stock });
+    if (await skuTaken(productRepository, sku)) return res.status(409).json({ error: 'sku taken' });
+    const product = productRepository.create({ name, price, stock, description, sku, categoryId, weight });
     const savedProduct = await productRepository.save(product);
     res.status(201).json(savedProduct);
   } catch (e) {
@@ -36,13 +45,153 @@ router.post('/', auth, requireAdmin, async (req, res) => {
   }
 });
 
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const SORTABLE_FIELDS = ['name', 'price', 'stock', 'createdAt'];
+
+function parseNonNegativeNumber(raw, name) {
+  if (raw === undefined || raw === '') return { value: undefined };
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0) return { error: `${name} must be a non-negative number` };
+  return { value };
+}
+
+// Validates the list query string. `sort` is a field name, prefixed with `-` for descending.
+function parseListQuery(query) {
+  const page = query.page === undefined ? 1 : Number(query.page);
+  if (!Number.isInteger(page) || page < 1) return { error: 'page must be a positive integer' };
+
+  const limit = query.limit === undefined ? DEFAULT_PAGE_SIZE : Number(query.limit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return { error: `limit must be an integer between 1 and ${MAX_PAGE_SIZE}` };
+  }
+
+  const minPrice = parseNonNegativeNumber(query.minPrice, 'minPrice');
+  if (minPrice.error) return minPrice;
+  const maxPrice = parseNonNegativeNumber(query.maxPrice, 'maxPrice');
+  if (maxPrice.error) return maxPrice;
+
+  let inStock;
+  if (query.inStock !== undefined && query.inStock !== '') {
+    if (!['true', 'false'].includes(query.inStock)) return { error: 'inStock must be true or false' };
+    inStock = query.inStock === 'true';
+  }
+
+  const sort = typeof query.sort === 'string' && query.sort ? query.sort : '-createdAt';
+  const sortField = sort.replace(/^-/, '');
+  if (!SORTABLE_FIELDS.includes(sortField)) {
+    return { error: `sort must be one of ${SORTABLE_FIELDS.join(', ')}, optionally prefixed with -` };
+  }
+
+  return {
+    page,
+    limit,
+    q: typeof query.q === 'string' ? query.q.trim() : '',
+    category: typeof query.category === 'string' ? query.category.trim() : '',
+    minPrice: minPrice.value,
+    maxPrice: maxPrice.value,
+    inStock,
+    sort,
+    sortField,
+    sortOrder: sort.startsWith('-') ? 'DESC' : 'ASC'
+  };
+}
+
+function escapeLike(value) {
+  return value.replace(/[\\%_]/g, (c) => `\\${c}`);
+}
+
+function buildPageLinks(req, options, totalPages) {
+  // The gateway tells us the public prefix (e.g. /api/products) it strips before proxying
+  const basePath = req.headers['x-forwarded-prefix'] || req.baseUrl || '/';
+  const link = (page) => {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(req.query)) {
+      if (key !== 'page' && value !== undefined && value !== '') params.set(key, value);
+    }
+    params.set('page', page);
+    params.set('limit', options.limit);
+    return `${basePath}?${params.toString()}`;
+  };
+  return {
+    self: link(options.page),
+    next: options.page < totalPages ? link(options.page + 1) : null,
+    prev: options.page > 1 ? link(Math.min(options.page - 1, Math.max(totalPages, 1))) : null
+  };
+}
+
 router.get('/', async (req, res) => {
   try {
-    const productRepository = req.AppDataSource.getRepository(Product);
-    const products = await productRepository.find({
-      order: { createdAt: 'DESC' }
+    const options = parseListQuery(req.query);
+    if (options.error) return res.status(400).json({ error: options.error });
+
+    const qb = req.AppDataSource.getRepository(Product).createQueryBuilder('product');
+    if (options.category) {
+      // Browsing a category includes the products of all its subcategories
+      const categoryRepository = req.AppDataSource.getRepository(Category);
+      const category = await findCategory(categoryRepository, options.category);
+      if (!category) return res.status(400).json({ error: 'category not found' });
+      const categoryIds = await categoryWithDescendantIds(categoryRepository, category.id);
+      qb.andWhere('product.categoryId IN (:...categoryIds)', { categoryIds });
+    }
+    if (options.q) qb.andWhere('(product.name ILIKE :q OR product.sku ILIKE :q)', { q: `%${escapeLike(options.q)}%` });
+    if (options.minPrice !== undefined) qb.andWhere('product.price >= :minPrice', { minPrice: options.minPrice });
+    if (options.maxPrice !== undefined) qb.andWhere('product.price <= :maxPrice', { maxPrice: options.maxPrice });
+    if (options.inStock === true) qb.andWhere('product.stock > 0');
+    if (options.inStock === false) qb.andWhere('product.stock <= 0');
+
+    const [data, total] = await qb
+      .orderBy(`product.${options.sortField}`, options.sortOrder)
+      .addOrderBy('product.id', 'ASC')
+      .skip((options.page - 1) * options.limit)
+      .take(options.limit)
+      .getManyAndCount();
+
+    const totalPages = Math.ceil(total / options.limit);
+    res.json({
+      data,
+      page: options.page,
+      limit: options.limit,
+      total,
+      totalPages,
+      links: buildPageLinks(req, options, totalPages)
+    });
+  } catch (e) {
+    res.status(500).json({ error: e.message });
+  }
+});
+
+const MAX_BATCH_SIZE = 100;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Many products in one query, in the order asked for; ids with no product
+// (deleted, or not ids at all) come back in missing. Each product carries
+// categoryAncestorIds, its category's parents nearest first, so order-service
+// can apply tax rates and coupons set on a parent category.
+router.post('/batch', async (req, res) => {
+  try {
+    const { ids } = req.body;
+    if (!Array.isArray(ids) || ids.some((id) => typeof id !== 'string')) {
+      return res.status(400).json({ error: 'ids must be an array of product ids' });
+    }
+    const uniqueIds = [...new Set(ids)];
+    if (uniqueIds.length > MAX_BATCH_SIZE) return res.status(400).json({ error: `at most ${MAX_BATCH_SIZE} ids at a time` });
+
+    const validIds = uniqueIds.filter((id) => UUID_PATTERN.test(id));
+    const products = validIds.length
+      ? await req.AppDataSource.getRepository(Product).findBy({ id: In(validIds) })
+      : [];
+    const ancestorsOf = products.some((product) => product.categoryId)
+      ? await categoryAncestorLookup(req.AppDataSource.getRepository(Category))
+      : () => [];
+    const byId = new Map(products.map((product) => [
+      product.id,
+      { ...product, categoryAncestorIds: product.categoryId ? ancestorsOf(product.categoryId) : [] }
+    ]));
+    res.json({
+      data: uniqueIds.filter((id) => byId.has(id)).map((id) => byId.get(id)),
+      missing: uniqueIds.filter((id) => !byId.has(id))
     });
-    res.json(products);
   } catch (e) {
     res.status(500).json({ error: e.message });
   }
@@ -59,13 +208,27 @@ router.get('/:id', async (req, res) => {
   }
 });
 
-router.put('/:id', auth, requireAdmin, async (req, res) => {
+router.use('/:id/images', productImageRoutes);
+
+router.put('/:id', auth, requirePermission('products:write'), async (req, res) => {
   try {
     const productRepository = req.AppDataSource.getRepository(Product);
     const product = await productRepository.findOne({ where: { id: req.params.id } });
     if (!product) return res.status(404).json({ error: 'not found' });
+    // Images are managed through /:id/images
+    const { id, images, createdAt, updatedAt, ...changes } = req.body;
+    if (changes.categoryId !== undefined && !(await categoryExists(req, changes.categoryId))) {
+      return res.status(400).json({ error: 'category not found' });
+    }
+    if (changes.weight !== undefined && !isValidWeight(changes.weight)) {
+      return res.status(400).json({ error: 'weight must be a non-negative integer (grams)' });
+    }
+    if (changes.sku !== undefined) {
+      changes.sku = normalizeSku(changes.sku);
+      if (await skuTaken(productRepository, changes.sku, product.id)) return res.status(409).json({ error: 'sku taken' });
+    }
     
-    productRepository.merge(product, req.body);
+    productRepository.merge(product, changes);
     const updatedProduct = await productRepository.save(product);
     res.json(updatedProduct);
   } catch (e) {
@@ -73,13 +236,14 @@ router.put('/:id', auth, requireAdmin, async (req, res) => {
   }
 });
 
-router.delete('/:id', auth, requireAdmin, async (req, res) => {
+router.delete('/:id', auth, requirePermission('products:write'), async (req, res) => {
   try {
     const productRepository = req.AppDataSource.getRepository(Product);
     const product = await productRepository.findOne({ where: { id: req.params.id } });
     if (!product) return res.status(404).json({ error: 'not found' });
     
     await productRepository.remove(product);
+    await deleteProductImages(req.params.id);
     res.json({ deleted: true });
   } catch (e) {
     res.status(400).json({ error: e.message });
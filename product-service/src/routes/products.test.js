@@ -0,0 +1,75 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import express from 'express';
+import Category from '../models/Category.js';
+import productRoutes from './products.js';
+
+const BOOKS = '00000000-0000-4000-8000-000000000001';
+const FICTION = '00000000-0000-4000-8000-000000000002';
+const NOVELS = '00000000-0000-4000-8000-000000000003';
+const NOVEL = '10000000-0000-4000-8000-000000000001';
+const ATLAS = '10000000-0000-4000-8000-000000000002';
+const POSTER = '10000000-0000-4000-8000-000000000003';
+
+// Just the reads the batch lookup makes
+function fakeDataSource() {
+  const categories = [
+    { id: BOOKS, parentId: null },
+    { id: FICTION, parentId: BOOKS },
+    { id: NOVELS, parentId: FICTION }
+  ];
+  const products = [
+    { id: NOVEL, name: 'Novel', categoryId: NOVELS },
+    { id: ATLAS, name: 'Atlas', categoryId: BOOKS },
+    { id: POSTER, name: 'Poster', categoryId: null }
+  ];
+  return {
+    getRepository: (entity) => (entity === Category
+      ? { find: async () => categories.map((c) => ({ ...c })) }
+      : { findBy: async ({ id }) => products.filter((p) => id.value.includes(p.id)).map((p) => ({ ...p })) })
+  };
+}
+
+describe('product batch lookup', () => {
+  let server;
+  let baseUrl;
+
+  before(async () => {
+    const app = express();
+    app.use(express.json());
+    app.use((req, _, next) => {
+      req.AppDataSource = fakeDataSource();
+      next();
+    });
+    app.use('/', productRoutes);
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${server.address().port}`;
+  });
+
+  after(() => server.close());
+
+  async function batch(ids) {
+    const response = await fetch(`${baseUrl}/batch`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ids })
+    });
+    return { status: response.status, body: await response.json() };
+  }
+
+  it('gives each product its category\'s ancestors, nearest first', async () => {
+    const { status, body } = await batch([NOVEL, ATLAS, POSTER]);
+    assert.equal(status, 200);
+    assert.deepEqual(
+      body.data.map((p) => [p.id, p.categoryAncestorIds]),
+      [[NOVEL, [FICTION, BOOKS]], [ATLAS, []], [POSTER, []]]
+    );
+  });
+
+  it('returns the products in the order asked and lists the ids it has none for', async () => {
+    const { body } = await batch([POSTER, 'not-an-id', NOVEL]);
+    assert.deepEqual(body.data.map((p) => p.id), [POSTER, NOVEL]);
+    assert.deepEqual(body.missing, ['not-an-id']);
+  });
+});
@@ -0,0 +1,179 @@
+import { Router } from 'express';
+import Product from '../models/Product.js';
+import StockReservation from '../models/StockReservation.js';
+import { auth, hasPermission, requireService } from '@microstore/service-auth';
+
+const router = Router();
+
+class StockError extends Error {
+  constructor(status, message, productId) {
+    super(message);
+    this.status = status;
+    this.productId = productId;
+  }
+}
+
+// Merge duplicate lines and sort by productId so concurrent reservations
+// always lock product rows in the same order.
+function normalizeItems(items) {
+  if (!Array.isArray(items) || items.length === 0) return null;
+  const qtyById = new Map();
+  for (const it of items) {
+    const qty = Number(it?.qty);
+    if (!it?.productId || !Number.isInteger(qty) || qty <= 0) return null;
+    qtyById.set(it.productId, (qtyById.get(it.productId) || 0) + qty);
+  }
+  return [...qtyById.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([productId, qty]) => ({ productId, qty }));
+}
+
+async function adjustStock(manager, productId, delta, { requireAvailable = false } = {}) {
+  const qb = manager.createQueryBuilder()
+    .update(Product)
+    .set({ stock: () => 'stock + :delta' })
+    .where('id = :productId', { productId, delta });
+  if (requireAvailable) qb.andWhere('stock >= :needed', { needed: -delta });
+  const result = await qb.execute();
+  return result.affected || 0;
+}
+
+async function restoreStock(manager, items) {
+  for (const it of items) {
+    await adjustStock(manager, it.productId, it.qty);
+  }
+}
+
+function canAccess(req, reservation) {
+  return reservation.userId === req.user.sub || hasPermission(req.user, 'orders:manage');
+}
+
+// Releases a reservation that is still holding stock. Returns the reservation,
+// or null when it does not exist.
+async function releaseReservation(dataSource, id, fromStatuses = ['reserved']) {
+  return dataSource.transaction(async (manager) => {
+    const reservation = await manager.findOne(StockReservation, {
+      where: { id },
+      lock: { mode: 'pessimistic_write' }
+    });
+    if (!reservation) return null;
+    if (!fromStatuses.includes(reservation.status)) return reservation;
+
+    await restoreStock(manager, reservation.items);
+    reservation.status = 'released';
+    return manager.save(StockReservation, reservation);
+  });
+}
+
+export async function releaseExpiredReservations(dataSource) {
+  const expired = await dataSource.getRepository(StockReservation)
+    .createQueryBuilder('r')
+    .select('r.id', 'id')
+    .where('r.status = :status', { status: 'reserved' })
+    .andWhere('r.expiresAt < :now', { now: new Date() })
+    .getRawMany();
+
+  for (const { id } of expired) {
+    await releaseReservation(dataSource, id);
+  }
+  return expired.length;
+}
+
+// Reserve stock for every item or none of them, on behalf of userId. Only
+// services may hold stock, so a customer can't tie up the shelves by hand.
+router.post('/', requireService, async (req, res) => {
+  try {
+    const { userId } = req.body;
+    if (typeof userId !== 'string' || !userId) return res.status(400).json({ error: 'userId required' });
+    const items = normalizeItems(req.body.items);
+    if (!items) return res.status(400).json({ error: 'items must be a non-empty array of { productId, qty }' });
+
+    const reservation = await req.AppDataSource.transaction(async (manager) => {
+      for (const it of items) {
+        const affected = await adjustStock(manager, it.productId, -it.qty, { requireAvailable: true });
+        if (affected === 0) {
+          const exists = await manager.findOne(Product, { where: { id: it.productId } });
+          if (!exists) throw new StockError(404, 'product not found', it.productId);
+          throw new StockError(409, 'insufficient stock', it.productId);
+        }
+      }
+      const created = manager.create(StockReservation, {
+        userId,
+        items,
+        status: 'reserved',
+        expiresAt: new Date(Date.now() + Number(process.env.RESERVATION_TTL_SECONDS || 900) * 1000)
+      });
+      return manager.save(StockReservation, created);
+    });
+
+    res.status(201).json(reservation);
+  } catch (e) {
+    if (e instanceof StockError) return res.status(e.status).json({ error: e.message, productId: e.productId });
+    res.status(400).json({ error: e.message });
+  }
+});
+
+router.get('/:id', auth, async (req, res) => {
+  try {
+    const reservation = await req.AppDataSource.getRepository(StockReservation).findOne({ where: { id: req.params.id } });
+    if (!reservation || !canAccess(req, reservation)) return res.status(404).json({ error: 'not found' });
+    res.json(reservation);
+  } catch (e) {
+    res.status(400).json({ error: e.message });
+  }
+});
+
+// Make the stock decrement permanent
+router.post('/:id/commit', requireService, async (req, res) => {
+  try {
+    const repository = req.AppDataSource.getRepository(StockReservation);
+    const reservation = await repository.findOne({ where: { id: req.params.id } });
+    if (!reservation) return res.status(404).json({ error: 'not found' });
+
+    const result = await repository.createQueryBuilder()
+      .update(StockReservation)
+      .set({ status: 'committed' })
+      .where('id = :id AND status = :status', { id: reservation.id, status: 'reserved' })
+      .execute();
+    if (!result.affected) {
+      const current = await repository.findOne({ where: { id: reservation.id } });
+      if (current.status === 'committed') return res.json(current);
+      return res.status(409).json({ error: `reservation is ${current.status}` });
+    }
+
+    res.json(await repository.findOne({ where: { id: reservation.id } }));
+  } catch (e) {
+    res.status(400).json({ error: e.message });
+  }
+});
+
+// Give reserved stock back to the products
+router.post('/:id/release', requireService, async (req, res) => {
+  try {
+    const reservation = await releaseReservation(req.AppDataSource, req.params.id);
+    if (!reservation) return res.status(404).json({ error: 'not found' });
+    if (reservation.status !== 'released') {
+      return res.status(409).json({ error: `reservation is ${reservation.status}` });
+    }
+    res.json(reservation);
+  } catch (e) {
+    res.status(400).json({ error: e.message });
+  }
+});
+
+// Return the stock of a committed reservation, e.g. when its order is cancelled.
+// Only other services may do this; customers go through order cancellation.
+router.post('/:id/restock', requireService, async (req, res) => {
+  try {
+    const reservation = await releaseReservation(req.AppDataSource, req.params.id, ['committed']);
+    if (!reservation) return res.status(404).json({ error: 'not found' });
+    if (reservation.status !== 'released') {
+      return res.status(409).json({ error: `reservation is ${reservation.status}` });
+    }
+    res.json(reservation);
+  } catch (e) {
+    res.status(400).json({ error: e.message });
+  }
+});
+
+export default router;
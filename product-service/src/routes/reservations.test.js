@@ -0,0 +1,195 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import express from 'express';
+import Product from '../models/Product.js';
+import StockReservation from '../models/StockReservation.js';
+import reservationRoutes, { releaseExpiredReservations } from './reservations.js';
+
+// An in-memory stand-in for the TypeORM data source, covering just the calls
+// reservations.js makes. A failed transaction puts the stock back, as a real
+// rollback would.
+function fakeDataSource() {
+  const products = new Map();
+  const reservations = new Map();
+  let nextId = 1;
+
+  function queryBuilder() {
+    const query = { params: {} };
+    const builder = {
+      update(entity) { query.entity = entity; return builder; },
+      set(values) { query.values = values; return builder; },
+      select() { return builder; },
+      where(_, params) { Object.assign(query.params, params); return builder; },
+      andWhere(_, params) { Object.assign(query.params, params); return builder; },
+      async execute() {
+        const { params } = query;
+        if (query.entity === Product) {
+          const product = products.get(params.productId);
+          if (!product || (params.needed !== undefined && product.stock < params.needed)) return { affected: 0 };
+          product.stock += params.delta;
+          return { affected: 1 };
+        }
+        const reservation = reservations.get(params.id);
+        if (!reservation || reservation.status !== params.status) return { affected: 0 };
+        Object.assign(reservation, query.values);
+        return { affected: 1 };
+      },
+      async getRawMany() {
+        return [...reservations.values()]
+          .filter((r) => r.status === query.params.status && r.expiresAt < query.params.now)
+          .map(({ id }) => ({ id }));
+      }
+    };
+    return builder;
+  }
+
+  const tableFor = (entity) => (entity === Product ? products : reservations);
+  const copy = (row) => (row ? structuredClone(row) : null);
+
+  const manager = {
+    createQueryBuilder: queryBuilder,
+    findOne: async (entity, { where }) => copy(tableFor(entity).get(where.id)),
+    create: (_, values) => ({ ...values }),
+    save: async (entity, row) => {
+      const saved = { id: row.id || `reservation-${nextId++}`, ...row };
+      tableFor(entity).set(saved.id, structuredClone(saved));
+      return saved;
+    }
+  };
+
+  return {
+    products,
+    reservations,
+    async transaction(fn) {
+      const stock = new Map([...products].map(([id, product]) => [id, product.stock]));
+      try {
+        return await fn(manager);
+      } catch (e) {
+        for (const [id, value] of stock) products.get(id).stock = value;
+        throw e;
+      }
+    },
+    getRepository: (entity) => ({
+      findOne: ({ where }) => manager.findOne(entity, { where }),
+      createQueryBuilder: queryBuilder
+    })
+  };
+}
+
+describe('stock reservations', () => {
+  let server;
+  let baseUrl;
+  let dataSource;
+
+  before(async () => {
+    const app = express();
+    app.use(express.json());
+    app.use((req, _, next) => {
+      req.AppDataSource = dataSource;
+      next();
+    });
+    app.use('/reservations', reservationRoutes);
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${server.address().port}/reservations`;
+  });
+
+  after(() => server.close());
+
+  beforeEach(() => {
+    dataSource = fakeDataSource();
+    dataSource.products.set('apple', { id: 'apple', stock: 5 });
+    dataSource.products.set('pear', { id: 'pear', stock: 2 });
+  });
+
+  async function call(path, body, { serviceKey = 'service_key' } = {}) {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(serviceKey && { 'X-Service-Key': serviceKey }) },
+      body: JSON.stringify(body || {})
+    });
+    return { status: response.status, body: await response.json() };
+  }
+
+  const stockOf = (id) => dataSource.products.get(id).stock;
+
+  it('holds stock for every item, merging repeated products', async () => {
+    const { status, body } = await call('', {
+      userId: 'user-1',
+      items: [{ productId: 'pear', qty: 1 }, { productId: 'apple', qty: 2 }, { productId: 'pear', qty: 1 }]
+    });
+    assert.equal(status, 201);
+    assert.equal(body.status, 'reserved');
+    assert.equal(body.userId, 'user-1');
+    assert.deepEqual(body.items, [{ productId: 'apple', qty: 2 }, { productId: 'pear', qty: 2 }]);
+    assert.equal(stockOf('apple'), 3);
+    assert.equal(stockOf('pear'), 0);
+  });
+
+  it('takes nothing when any item is short', async () => {
+    const { status, body } = await call('', {
+      userId: 'user-1',
+      items: [{ productId: 'apple', qty: 1 }, { productId: 'pear', qty: 3 }]
+    });
+    assert.equal(status, 409);
+    assert.equal(body.productId, 'pear');
+    assert.equal(stockOf('apple'), 5);
+    assert.equal(stockOf('pear'), 2);
+  });
+
+  it('answers 404 for a product that does not exist', async () => {
+    const { status, body } = await call('', { userId: 'user-1', items: [{ productId: 'plum', qty: 1 }] });
+    assert.equal(status, 404);
+    assert.equal(body.productId, 'plum');
+  });
+
+  it('refuses bad items', async () => {
+    for (const items of [[], [{ productId: 'apple', qty: 0 }], [{ productId: 'apple', qty: 1.5 }], 'apple']) {
+      assert.equal((await call('', { userId: 'user-1', items })).status, 400);
+    }
+  });
+
+  it('is only open to services', async () => {
+    const items = [{ productId: 'apple', qty: 1 }];
+    assert.equal((await call('', { userId: 'user-1', items }, { serviceKey: null })).status, 403);
+    assert.equal((await call('', { userId: 'user-1', items }, { serviceKey: 'wrong' })).status, 403);
+    assert.equal(stockOf('apple'), 5);
+  });
+
+  it('gives the stock back on release, only once however often it is released', async () => {
+    const { body: reservation } = await call('', { userId: 'user-1', items: [{ productId: 'apple', qty: 3 }] });
+    const released = await call(`/${reservation.id}/release`);
+    assert.equal(released.status, 200);
+    assert.equal(released.body.status, 'released');
+    assert.equal(stockOf('apple'), 5);
+
+    assert.equal((await call(`/${reservation.id}/release`)).status, 200);
+    assert.equal(stockOf('apple'), 5);
+  });
+
+  it('keeps committed stock taken until it is restocked', async () => {
+    const { body: reservation } = await call('', { userId: 'user-1', items: [{ productId: 'apple', qty: 3 }] });
+    assert.equal((await call(`/${reservation.id}/commit`)).body.status, 'committed');
+    assert.equal((await call(`/${reservation.id}/commit`)).status, 200, 'committing again is harmless');
+    assert.equal((await call(`/${reservation.id}/release`)).status, 409);
+    assert.equal(stockOf('apple'), 2);
+
+    assert.equal((await call(`/${reservation.id}/restock`)).body.status, 'released');
+    assert.equal(stockOf('apple'), 5);
+  });
+
+  it('sweeps reservations that ran out of time and leaves the rest', async () => {
+    const { body: expired } = await call('', { userId: 'user-1', items: [{ productId: 'apple', qty: 2 }] });
+    const { body: current } = await call('', { userId: 'user-2', items: [{ productId: 'pear', qty: 1 }] });
+    const { body: committed } = await call('', { userId: 'user-3', items: [{ productId: 'apple', qty: 1 }] });
+    await call(`/${committed.id}/commit`);
+    for (const id of [expired.id, committed.id]) dataSource.reservations.get(id).expiresAt = new Date(Date.now() - 1000);
+
+    assert.equal(await releaseExpiredReservations(dataSource), 1);
+    assert.equal(dataSource.reservations.get(expired.id).status, 'released');
+    assert.equal(dataSource.reservations.get(current.id).status, 'reserved');
+    assert.equal(dataSource.reservations.get(committed.id).status, 'committed');
+    assert.equal(stockOf('apple'), 4);
+    assert.equal(stockOf('pear'), 1);
+  });
+});
@@ -0,0 +1,83 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import sharp from 'sharp';
+
+// Read lazily so values from .env (loaded after imports run) are honoured
+export const uploadDir = () => path.resolve(process.env.UPLOAD_DIR || 'uploads');
+const thumbnailSize = () => Number(process.env.THUMBNAIL_SIZE || 320);
+
+const EXTENSIONS = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp'
+};
+
+export const ALLOWED_IMAGE_TYPES = Object.keys(EXTENSIONS);
+
+// sharp's name for each format it reads, to the content type we store it as
+const CONTENT_TYPES = { jpeg: 'image/jpeg', png: 'image/png', webp: 'image/webp' };
+
+// An upload that isn't an image we take, whatever type the client declared
+export class ImageError extends Error {
+  constructor(message) {
+    super(message);
+    this.status = 400;
+  }
+}
+
+// Reads the file's real format and size from its contents. Throws ImageError
+// unless it is a jpeg, png or webp image sharp can decode.
+export async function inspectImage(file) {
+  let metadata;
+  try {
+    metadata = await sharp(file.buffer).metadata();
+  } catch {
+    metadata = null;
+  }
+  const contentType = CONTENT_TYPES[metadata?.format];
+  if (!contentType) throw new ImageError(`${file.originalname} is not a jpeg, png or webp image`);
+  return { contentType, width: metadata.width, height: metadata.height };
+}
+
+// Stores the original upload and a square webp thumbnail under <UPLOAD_DIR>/<productId>/.
+// Returned paths are relative to uploadDir(), which is served at /uploads.
+// Nothing is left behind when either can't be written.
+export async function saveProductImage(productId, file) {
+  const { contentType, width, height } = await inspectImage(file);
+  const id = crypto.randomUUID();
+  const dir = path.join(uploadDir(), productId);
+  await fs.mkdir(dir, { recursive: true });
+
+  const stored = {
+    id,
+    path: `${productId}/${id}.${EXTENSIONS[contentType]}`,
+    thumbnailPath: `${productId}/${id}-thumb.webp`,
+    contentType,
+    size: file.size,
+    width,
+    height
+  };
+  try {
+    await fs.writeFile(path.join(uploadDir(), stored.path), file.buffer);
+    await sharp(file.buffer)
+      .rotate()
+      .resize(thumbnailSize(), thumbnailSize(), { fit: 'cover' })
+      .webp({ quality: 80 })
+      .toFile(path.join(uploadDir(), stored.thumbnailPath));
+  } catch (e) {
+    await deleteProductImage(stored);
+    throw e;
+  }
+  return stored;
+}
+
+export async function deleteProductImage(image) {
+  await Promise.all(
+    [image.path, image.thumbnailPath].map((p) => fs.rm(path.join(uploadDir(), p), { force: true }))
+  );
+}
+
+export async function deleteProductImages(productId) {
+  await fs.rm(path.join(uploadDir(), productId), { recursive: true, force: true });
+}
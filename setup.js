@@ -9,15 +9,14 @@ console.log('🚀 Setting up Microstore Microservices...\n');
 // Install dependencies for all services
 const services = ['gateway', 'user-service', 'product-service', 'order-service'];
 
+// The services are workspaces of the root package, so one install covers them
+// and the shared packages they use
 console.log('📦 Installing dependencies...');
-services.forEach(service => {
-  console.log(`Installing dependencies for ${service}...`);
-  try {
-    execSync('npm install', { cwd: service, stdio: 'inherit' });
-  } catch (error) {
-    console.error(`Failed to install dependencies for ${service}`);
-  }
-});
+try {
+  execSync('npm install', { stdio: 'inherit' });
+} catch (error) {
+  console.error('Failed to install dependencies');
+}
 
 console.log('\n📝 Creating environment files...');
 services.forEach(service => {
@@ -0,0 +1,46 @@
+import { sendMail } from './mailer/index.js';
+import { signAccountToken } from './accountTokens.js';
+
+// Links point at the frontend pages that post the token back to us
+const appUrl = () => process.env.APP_URL || 'http://localhost:3000';
+
+function accountLink(page, user, purpose) {
+  return `${appUrl()}/${page}?token=${encodeURIComponent(signAccountToken(user, purpose))}`;
+}
+
+export function sendVerificationEmail(user) {
+  return sendMail({
+    to: user.email,
+    subject: 'Verify your MicroStore email address',
+    text: [
+      `Hi ${user.username},`,
+      '',
+      'Confirm this is your email address by opening the link below:',
+      accountLink('verify-email', user, 'verify_email'),
+      '',
+      "If you didn't create a MicroStore account, you can ignore this email."
+    ].join('\n')
+  });
+}
+
+export function sendPasswordResetEmail(user) {
+  return sendMail({
+    to: user.email,
+    subject: 'Reset your MicroStore password',
+    text: [
+      `Hi ${user.username},`,
+      '',
+      'Choose a new password by opening the link below. It works once and expires soon:',
+      accountLink('reset-password', user, 'reset_password'),
+      '',
+      "If you didn't ask to reset your password, you can ignore this email; your password stays the same."
+    ].join('\n')
+  });
+}
+
+// Lowercased and trimmed, or null when it doesn't look like an email address
+export function normalizeEmail(value) {
+  if (typeof value !== 'string') return null;
+  const email = value.trim().toLowerCase();
+  return email.length <= 254 && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email) ? email : null;
+}
@@ -0,0 +1,45 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import User from './models/User.js';
+
+// How long each kind of emailed link stays valid
+const TOKEN_TTLS = {
+  verify_email: () => process.env.VERIFY_EMAIL_TOKEN_TTL || '24h',
+  reset_password: () => process.env.PASSWORD_RESET_TOKEN_TTL || '1h'
+};
+
+const accountTokenSecret = () => process.env.ACCOUNT_TOKEN_SECRET || 'account_secret';
+
+// Ties a token to the state it changes, which makes it one-time without storing
+// it: a reset token stops working once the password hash changes, and a
+// verification token once the email is verified or replaced
+function fingerprint(user, purpose) {
+  const state = purpose === 'reset_password'
+    ? user.passwordHash
+    : `${user.email}:${user.emailVerifiedAt ? 'verified' : 'unverified'}`;
+  return crypto.createHmac('sha256', accountTokenSecret()).update(state).digest('base64url');
+}
+
+export function signAccountToken(user, purpose) {
+  return jwt.sign(
+    { sub: user.id, purpose, fp: fingerprint(user, purpose) },
+    accountTokenSecret(),
+    { expiresIn: TOKEN_TTLS[purpose]() }
+  );
+}
+
+// Returns the user the token was issued to, or null when it is invalid,
+// expired, for another purpose or already used
+export async function verifyAccountToken(dataSource, token, purpose) {
+  let payload;
+  try {
+    payload = jwt.verify(token, accountTokenSecret());
+  } catch {
+    return null;
+  }
+  if (payload.purpose !== purpose) return null;
+
+  const user = await dataSource.getRepository(User).findOne({ where: { id: payload.sub } });
+  if (!user || user.disabled || payload.fp !== fingerprint(user, purpose)) return null;
+  return user;
+}
@@ -0,0 +1,83 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import jwt from 'jsonwebtoken';
+import { signAccountToken, verifyAccountToken } from './accountTokens.js';
+
+// verifyAccountToken only looks the user up by id
+function fakeDataSource(users) {
+  return {
+    getRepository: () => ({
+      findOne: async ({ where }) => {
+        const user = users.find((u) => u.id === where.id);
+        return user ? { ...user } : null;
+      }
+    })
+  };
+}
+
+describe('account tokens', () => {
+  let user;
+  let dataSource;
+
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['Date'], now: new Date('2025-06-01T10:00:00Z') });
+    user = {
+      id: 'user-1',
+      email: 'asha@example.com',
+      emailVerifiedAt: null,
+      passwordHash: '$2a$10$original',
+      disabled: false
+    };
+    dataSource = fakeDataSource([user]);
+  });
+
+  afterEach(() => mock.timers.reset());
+
+  it('verifies a token for the purpose it was issued for', async () => {
+    const token = signAccountToken(user, 'reset_password');
+    assert.equal((await verifyAccountToken(dataSource, token, 'reset_password'))?.id, 'user-1');
+    assert.equal(await verifyAccountToken(dataSource, token, 'verify_email'), null);
+  });
+
+  it('stops a reset token working once the password has changed', async () => {
+    const token = signAccountToken(user, 'reset_password');
+    user.passwordHash = '$2a$10$changed';
+    assert.equal(await verifyAccountToken(dataSource, token, 'reset_password'), null);
+  });
+
+  it('stops a verification token working once the email is verified or replaced', async () => {
+    const token = signAccountToken(user, 'verify_email');
+    user.emailVerifiedAt = new Date();
+    assert.equal(await verifyAccountToken(dataSource, token, 'verify_email'), null);
+
+    user.emailVerifiedAt = null;
+    user.email = 'asha@example.org';
+    assert.equal(await verifyAccountToken(dataSource, token, 'verify_email'), null);
+  });
+
+  it('expires a reset token after an hour and a verification token after a day', async () => {
+    const reset = signAccountToken(user, 'reset_password');
+    const verify = signAccountToken(user, 'verify_email');
+    mock.timers.tick(3_599_000);
+    assert.ok(await verifyAccountToken(dataSource, reset, 'reset_password'));
+    mock.timers.tick(2_000);
+    assert.equal(await verifyAccountToken(dataSource, reset, 'reset_password'), null);
+    assert.ok(await verifyAccountToken(dataSource, verify, 'verify_email'));
+    mock.timers.tick(86_400_000);
+    assert.equal(await verifyAccountToken(dataSource, verify, 'verify_email'), null);
+  });
+
+  it('refuses tokens for disabled or deleted users', async () => {
+    const token = signAccountToken(user, 'reset_password');
+    user.disabled = true;
+    assert.equal(await verifyAccountToken(dataSource, token, 'reset_password'), null);
+    assert.equal(await verifyAccountToken(fakeDataSource([]), token, 'reset_password'), null);
+  });
+
+  it('refuses tokens not signed with the account secret', async () => {
+    const { fp } = jwt.decode(signAccountToken(user, 'reset_password'));
+    const forged = jwt.sign({ sub: 'user-1', purpose: 'reset_password', fp }, 'guessed_secret');
+    assert.equal(await verifyAccountToken(dataSource, forged, 'reset_password'), null);
+    assert.equal(await verifyAccountToken(dataSource, 'not-a-jwt', 'reset_password'), null);
+  });
+});
@@ -1,5 +1,4 @@
 import express from 'express';
-import morgan from 'morgan';
 import cors from 'cors';
 import dotenv from 'dotenv';
 import bcrypt from 'bcryptjs';
@@ -7,13 +6,56 @@ import jwt from 'jsonwebtoken';
 import { DataSource } from "typeorm";
 import "reflect-metadata";
 import User from './models/User.js';
+import Address from './models/Address.js';
+import Role from './models/Role.js';
+import Session from './models/Session.js';
+import LoginAttempt from './models/LoginAttempt.js';
+import SigningKey from './models/SigningKey.js';
+import addressRoutes from './routes/addresses.js';
+import userRoutes from './routes/users.js';
+import roleRoutes from './routes/roles.js';
+import sessionRoutes from './routes/sessions.js';
+import accountRoutes from './routes/account.js';
+import twoFactorRoutes from './routes/twoFactor.js';
+import { auth } from './middleware/auth.js';
+import { ADMIN_ROLE, DEFAULT_ROLE, ensureBuiltInRoles, permissionsForRole } from './permissions.js';
+import { normalizeEmail, sendVerificationEmail } from './accountEmails.js';
+import {
+  recordFailedLogin,
+  ipRetryAfter,
+  accountRetryAfter,
+  registerFailedLogin,
+  clearFailedLogins,
+  deleteOldLoginAttempts
+} from './loginThrottle.js';
+import {
+  roleRequiresTwoFactor,
+  twoFactorEnabled,
+  signChallengeToken,
+  verifyChallengeToken,
+  beginTwoFactorSetup,
+  enableTwoFactor,
+  verifySecondFactor
+} from './twoFactor.js';
+import { SessionError, createSession, rotateSession, revokeSessions, deleteExpiredSessions } from './sessions.js';
+import { SIGNING_ALGORITHM, getSigningKey, rotateSigningKeys, getJwks, deleteExpiredSigningKeys } from './signingKeys.js';
+import {
+  tracing,
+  logger,
+  healthRoutes,
+  databaseCheck,
+  requestMetrics,
+  registerDataSourceMetrics,
+  metricsHandler,
+  setServiceName
+} from '@microstore/observability';
+import { logins } from './metrics.js';
 
+setServiceName('user-service');
 dotenv.config();
 const PORT = process.env.PORT || 3001;
-const ACCESS_TOKEN_SECRET = process.env.ACCESS_TOKEN_SECRET || 'access_secret';
-const REFRESH_TOKEN_SECRET = process.env.REFRESH_TOKEN_SECRET || 'refresh_secret';
 const ACCESS_TOKEN_TTL = process.env.ACCESS_TOKEN_TTL || '15m';
-const REFRESH_TOKEN_TTL = process.env.REFRESH_TOKEN_TTL || '7d';
+const SESSION_SWEEP_INTERVAL_MS = Number(process.env.SESSION_SWEEP_INTERVAL_MS || 3600000);
 
 // Database configuration
 const AppDataSource = new DataSource({
@@ -25,10 +67,11 @@ const AppDataSource = new DataSource({
   database: process.env.DB_NAME || "microstore_users",
   synchronize: true,
   logging: false,
-  entities: [User],
+  entities: [User, Address, Role, Session, LoginAttempt, SigningKey],
   subscribers: [],
   migrations: [],
 });
+registerDataSourceMetrics(AppDataSource);
 
 const app = express();
 
@@ -36,139 +79,341 @@ const app = express();
 const corsOptions = {
   origin: ['http://localhost:3000', 'http://127.0.0.1:3000', 'http://localhost:8080'],
   credentials: true,
-  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+  methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
   allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
   optionsSuccessStatus: 200
 };
 
 app.use(cors(corsOptions));
 app.use(express.json());
-app.use(morgan('dev'));
+app.use(tracing);
+app.use(requestMetrics());
 
-app.get('/health', (_, res) => res.json({ ok: true, service: 'user-service' }));
+app.use(healthRoutes({ database: databaseCheck(AppDataSource) }));
+app.get('/metrics', metricsHandler);
+
+// Public keys for verifying access tokens; other services cache them by kid
+app.get('/.well-known/jwks.json', async (_, res) => {
+  try {
+    res.set('Cache-Control', 'public, max-age=300');
+    res.json(await getJwks(AppDataSource));
+  } catch (e) {
+    res.status(500).json({ error: e.message });
+  }
+});
+
+// Access tokens carry the role's permissions so other services can authorize
+// without calling back; a changed role applies from the user's next token.
+// sid names the session the token was issued for, kid the key that signed it.
+async function signAccessToken(user, sessionId) {
+  const permissions = await permissionsForRole(AppDataSource, user.role);
+  const signingKey = await getSigningKey(AppDataSource);
+  const accessToken = jwt.sign(
+    { sub: user.id, username: user.username, role: user.role, permissions, sid: sessionId },
+    signingKey.privateKey,
+    { algorithm: SIGNING_ALGORITHM, keyid: signingKey.kid, expiresIn: ACCESS_TOKEN_TTL }
+  );
+  return { accessToken, permissions };
+}
+
+// Registration never grants admin, so the first admin comes from ADMIN_USERNAME /
+// ADMIN_PASSWORD: created if missing, promoted if it already exists
+async function ensureBootstrapAdmin() {
+  const username = process.env.ADMIN_USERNAME;
+  const password = process.env.ADMIN_PASSWORD;
+  if (!username || !password) return;
+
+  const userRepository = AppDataSource.getRepository(User);
+  const existing = await userRepository.findOne({ where: { username } });
+  if (!existing) {
+    const passwordHash = await bcrypt.hash(password, 10);
+    await userRepository.save(userRepository.create({ username, passwordHash, role: ADMIN_ROLE }));
+    logger.info(`Created admin user ${username}`);
+  } else if (existing.role !== ADMIN_ROLE) {
+    await userRepository.update({ id: existing.id }, { role: ADMIN_ROLE });
+    logger.info(`Promoted ${username} to admin`);
+  }
+}
 
 // Initialize database connection
 AppDataSource.initialize()
-  .then(() => {
-    console.log("User PostgreSQL connected");
+  .then(async () => {
+    logger.info("User PostgreSQL connected");
+    await ensureBuiltInRoles(AppDataSource);
+    await ensureBootstrapAdmin();
+    await rotateSigningKeys(AppDataSource);
+
+    // Expired sessions can no longer be refreshed or reused; the failed-login
+    // audit is kept for LOGIN_ATTEMPT_RETENTION_DAYS. Signing keys are rotated
+    // here too, so a quiet service still retires its key on time.
+    setInterval(() => {
+      deleteExpiredSessions(AppDataSource)
+        .then((count) => { if (count) logger.info(`Deleted ${count} expired session(s)`); })
+        .catch((error) => logger.error("Session sweep failed", { error: error.message }));
+      deleteOldLoginAttempts(AppDataSource)
+        .then((count) => { if (count) logger.info(`Deleted ${count} old login attempt(s)`); })
+        .catch((error) => logger.error("Login attempt sweep failed", { error: error.message }));
+      rotateSigningKeys(AppDataSource)
+        .then(() => deleteExpiredSigningKeys(AppDataSource))
+        .then((count) => { if (count) logger.info(`Deleted ${count} retired signing key(s)`); })
+        .catch((error) => logger.error("Signing key rotation failed", { error: error.message }));
+    }, SESSION_SWEEP_INTERVAL_MS);
   })
   .catch((error) => {
-    console.error("Database error", error);
+    logger.error("Database error", { error: error.message });
     process.exit(1);
   });
 
+// Make AppDataSource available to routes
+app.use((req, res, next) => {
+  req.AppDataSource = AppDataSource;
+  next();
+});
+
+app.use('/me/addresses', addressRoutes);
+app.use('/me/sessions', sessionRoutes);
+app.use('/me/2fa', twoFactorRoutes);
+app.use('/roles', roleRoutes);
+app.use('/', accountRoutes);
+
 // Auth routes
 app.post('/register', async (req, res) => {
   try {
-    const { username, password, role } = req.body;
+    const { username, password } = req.body;
     if (!username || !password) return res.status(400).json({ error: 'username and password required' });
+    const email = normalizeEmail(req.body.email);
+    if (!email) return res.status(400).json({ error: 'valid email required' });
     
     const userRepository = AppDataSource.getRepository(User);
     const exists = await userRepository.findOne({ where: { username } });
     if (exists) return res.status(409).json({ error: 'username taken' });
+    if (await userRepository.findOne({ where: { email } })) return res.status(409).json({ error: 'email taken' });
     
     const passwordHash = await bcrypt.hash(password, 10);
-    const normalizedRole = role === 'admin' ? 'admin' : 'user';
-    const user = userRepository.create({ username, passwordHash, role: normalizedRole });
+    // Roles are granted by admins only, see routes/users.js
+    const user = userRepository.create({ username, email, passwordHash, role: DEFAULT_ROLE });
     const savedUser = await userRepository.save(user);
+
+    // Not verifying yet doesn't block anything, so a mail failure shouldn't fail registration
+    sendVerificationEmail(savedUser).catch((error) => logger.error('Verification email failed', { error: error.message }));
     
-    res.status(201).json({ id: savedUser.id, username: savedUser.username, role: savedUser.role });
+    res.status(201).json({ id: savedUser.id, username: savedUser.username, email: savedUser.email, role: savedUser.role });
   } catch (e) {
     res.status(500).json({ error: e.message });
   }
 });
 
+// Issues the tokens once every factor has checked out. Every login is a new
+// session, so each device can be signed out on its own.
+async function completeLogin(req, res, user, extra = {}) {
+  await clearFailedLogins(AppDataSource, user);
+  const { session, refreshToken } = await createSession(AppDataSource, user, req);
+  const { accessToken, permissions } = await signAccessToken(user, session.id);
+  logins.inc();
+
+  res.json({
+    accessToken,
+    refreshToken,
+    user: {
+      id: user.id,
+      username: user.username,
+      email: user.email,
+      emailVerifiedAt: user.emailVerifiedAt,
+      role: user.role,
+      twoFactorEnabled: twoFactorEnabled(user),
+      permissions
+    },
+    ...extra
+  });
+}
+
+// Login failures carry a machine-readable code, and a retryAfter in seconds
+// (also sent as Retry-After) when the client has to wait
+function loginError(res, status, code, error, retryAfter) {
+  if (retryAfter) res.set('Retry-After', String(retryAfter));
+  return res.status(status).json({ error, code, ...(retryAfter ? { retryAfter } : {}) });
+}
+
 app.post('/login', async (req, res) => {
   try {
     const { username, password } = req.body;
+    if (!username || !password) return res.status(400).json({ error: 'username and password required' });
+
+    const ipWait = await ipRetryAfter(AppDataSource, req);
+    if (ipWait) {
+      await recordFailedLogin(AppDataSource, req, { username, reason: 'too_many_attempts' });
+      return loginError(res, 429, 'too_many_attempts', 'too many failed logins from this address', ipWait);
+    }
+
     const userRepository = AppDataSource.getRepository(User);
     const user = await userRepository.findOne({ where: { username } });
-    
-    if (!user) return res.status(401).json({ error: 'invalid credentials' });
-    const ok = await bcrypt.compare(password, user.passwordHash);
-    if (!ok) return res.status(401).json({ error: 'invalid credentials' });
-    
-    const accessToken = jwt.sign({ sub: user.id, username: user.username, role: user.role }, ACCESS_TOKEN_SECRET, { expiresIn: ACCESS_TOKEN_TTL });
-    const refreshToken = jwt.sign({ sub: user.id, type: 'refresh' }, REFRESH_TOKEN_SECRET, { expiresIn: REFRESH_TOKEN_TTL });
-    const refreshTokenHash = await bcrypt.hash(refreshToken, 10);
-    await userRepository.update({ id: user.id }, { refreshTokenHash });
 
-    res.json({ accessToken, refreshToken, user: { id: user.id, username: user.username, role: user.role } });
+    // Checked before the password so a locked account can't be guessed at
+    const lockWait = accountRetryAfter(user);
+    if (lockWait) {
+      await recordFailedLogin(AppDataSource, req, { username, user, reason: 'account_locked' });
+      return loginError(res, 423, 'account_locked', 'account temporarily locked', lockWait);
+    }
+
+    const ok = user && await bcrypt.compare(password, user.passwordHash);
+    if (!ok) {
+      await recordFailedLogin(AppDataSource, req, { username, user, reason: 'invalid_credentials' });
+      const lockedFor = user ? await registerFailedLogin(AppDataSource, user) : 0;
+      if (lockedFor) return loginError(res, 423, 'account_locked', 'account temporarily locked', lockedFor);
+      return loginError(res, 401, 'invalid_credentials', 'invalid credentials');
+    }
+    if (user.disabled) {
+      await recordFailedLogin(AppDataSource, req, { username, user, reason: 'account_disabled' });
+      return loginError(res, 403, 'account_disabled', 'account disabled');
+    }
+
+    // The password was right, but tokens wait for the second factor. Roles that
+    // require one enrol first, see /login/2fa/setup.
+    if (twoFactorEnabled(user) || roleRequiresTwoFactor(user.role)) {
+      return res.json({
+        twoFactorRequired: true,
+        enrollmentRequired: !twoFactorEnabled(user),
+        challengeToken: signChallengeToken(user)
+      });
+    }
+
+    await completeLogin(req, res, user);
   } catch (e) {
     res.status(500).json({ error: e.message });
   }
 });
 
-// Auth middleware
-function auth(req, res, next) {
-  const h = req.headers.authorization || '';
-  const [, token] = h.split(' ');
-  if (!token) return res.status(401).json({ error: 'missing token' });
-  try {
-    req.user = jwt.verify(token, ACCESS_TOKEN_SECRET);
-    next();
-  } catch {
-    res.status(401).json({ error: 'invalid token' });
+// Loads the user a login challenge was issued to. Responds and returns null
+// when the login can't go on.
+async function loadChallengedUser(req, res) {
+  const user = await verifyChallengeToken(AppDataSource, req.body.challengeToken);
+  if (!user) {
+    loginError(res, 401, 'invalid_challenge', 'invalid or expired challenge token');
+    return null;
+  }
+  if (user.disabled) {
+    loginError(res, 403, 'account_disabled', 'account disabled');
+    return null;
+  }
+  const lockWait = accountRetryAfter(user);
+  if (lockWait) {
+    await recordFailedLogin(AppDataSource, req, { username: user.username, user, reason: 'account_locked' });
+    loginError(res, 423, 'account_locked', 'account temporarily locked', lockWait);
+    return null;
   }
+  return user;
 }
 
+// Second step of a login: an authenticator code or a recovery code. Wrong
+// codes count towards the same lockout as wrong passwords.
+app.post('/login/2fa', async (req, res) => {
+  try {
+    const { code, recoveryCode } = req.body;
+    if (!code && !recoveryCode) return res.status(400).json({ error: 'code or recoveryCode required' });
+
+    const user = await loadChallengedUser(req, res);
+    if (!user) return;
+    if (!twoFactorEnabled(user)) return res.status(409).json({ error: 'two-factor authentication not set up' });
+
+    if (!await verifySecondFactor(AppDataSource, user, { code, recoveryCode })) {
+      await recordFailedLogin(AppDataSource, req, { username: user.username, user, reason: 'invalid_two_factor_code' });
+      const lockedFor = await registerFailedLogin(AppDataSource, user);
+      if (lockedFor) return loginError(res, 423, 'account_locked', 'account temporarily locked', lockedFor);
+      return loginError(res, 401, 'invalid_two_factor_code', 'invalid code');
+    }
+
+    await completeLogin(req, res, user);
+  } catch (e) {
+    res.status(500).json({ error: e.message });
+  }
+});
+
+// Enrolment for users whose role requires two-factor but who haven't set it up
+app.post('/login/2fa/setup', async (req, res) => {
+  try {
+    const user = await loadChallengedUser(req, res);
+    if (!user) return;
+    if (twoFactorEnabled(user)) return res.status(409).json({ error: 'two-factor authentication already enabled' });
+
+    res.json(await beginTwoFactorSetup(AppDataSource, user));
+  } catch (e) {
+    res.status(500).json({ error: e.message });
+  }
+});
+
+// Confirms enrolment and completes the login; the response also carries the
+// recovery codes, which are never shown again
+app.post('/login/2fa/enable', async (req, res) => {
+  try {
+    const user = await loadChallengedUser(req, res);
+    if (!user) return;
+    if (twoFactorEnabled(user)) return res.status(409).json({ error: 'two-factor authentication already enabled' });
+    if (!user.totpSecret) return res.status(409).json({ error: 'start two-factor setup first' });
+
+    const recoveryCodes = await enableTwoFactor(AppDataSource, user, req.body.code);
+    if (!recoveryCodes) return loginError(res, 400, 'invalid_two_factor_code', 'invalid code');
+
+    await completeLogin(req, res, { ...user, totpEnabledAt: new Date() }, { recoveryCodes });
+  } catch (e) {
+    res.status(500).json({ error: e.message });
+  }
+});
+
 app.get('/me', auth, async (req, res) => {
   try {
     const userRepository = AppDataSource.getRepository(User);
     const user = await userRepository.findOne({ 
       where: { id: req.user.sub },
-      select: ['id', 'username', 'role', 'createdAt']
+      select: ['id', 'username', 'email', 'emailVerifiedAt', 'role', 'totpEnabledAt', 'createdAt']
     });
-    res.json(user);
+    if (!user) return res.status(404).json({ error: 'not found' });
+    const { totpEnabledAt, ...profile } = user;
+    res.json({ ...profile, twoFactorEnabled: !!totpEnabledAt, permissions: await permissionsForRole(AppDataSource, user.role) });
   } catch (e) {
     res.status(500).json({ error: e.message });
   }
 });
 
-// Refresh token endpoint
+// Refresh token endpoint. Tokens are single use: each call rotates the
+// session's refresh token, see rotateSession()
 app.post('/refresh-token', async (req, res) => {
   try {
     const { refreshToken } = req.body;
     if (!refreshToken) return res.status(400).json({ error: 'refreshToken required' });
 
-    let payload;
-    try {
-      payload = jwt.verify(refreshToken, REFRESH_TOKEN_SECRET);
-    } catch (e) {
-      return res.status(401).json({ error: 'invalid refresh token' });
-    }
-
-    if (payload.type !== 'refresh') return res.status(401).json({ error: 'invalid refresh token' });
+    const { session, refreshToken: newRefreshToken } = await rotateSession(AppDataSource, refreshToken, req);
 
     const userRepository = AppDataSource.getRepository(User);
-    const user = await userRepository.findOne({ where: { id: payload.sub } });
-    if (!user || !user.refreshTokenHash) return res.status(401).json({ error: 'invalid refresh token' });
-
-    const match = await bcrypt.compare(refreshToken, user.refreshTokenHash);
-    if (!match) return res.status(401).json({ error: 'invalid refresh token' });
-
-    // Rotate refresh token
-    const newRefreshToken = jwt.sign({ sub: user.id, type: 'refresh' }, REFRESH_TOKEN_SECRET, { expiresIn: REFRESH_TOKEN_TTL });
-    const newRefreshTokenHash = await bcrypt.hash(newRefreshToken, 10);
-    await userRepository.update({ id: user.id }, { refreshTokenHash: newRefreshTokenHash });
+    const user = await userRepository.findOne({ where: { id: session.userId } });
+    if (!user || user.disabled) {
+      await revokeSessions(AppDataSource, { id: session.id }, 'account disabled');
+      return res.status(401).json({ error: 'invalid refresh token' });
+    }
+    // E.g. just promoted to admin: log in again to enrol
+    if (roleRequiresTwoFactor(user.role) && !twoFactorEnabled(user)) {
+      await revokeSessions(AppDataSource, { id: session.id }, 'two-factor authentication required');
+      return res.status(401).json({ error: 'two-factor authentication required' });
+    }
 
-    const accessToken = jwt.sign({ sub: user.id, username: user.username, role: user.role }, ACCESS_TOKEN_SECRET, { expiresIn: ACCESS_TOKEN_TTL });
+    const { accessToken } = await signAccessToken(user, session.id);
     res.json({ accessToken, refreshToken: newRefreshToken });
   } catch (e) {
+    if (e instanceof SessionError) return res.status(e.status).json({ error: e.message });
     res.status(500).json({ error: e.message });
   }
 });
 
-// Logout - invalidate refresh token
+// Logout - revoke this device's session; other devices stay signed in
 app.post('/logout', auth, async (req, res) => {
   try {
-    const userRepository = AppDataSource.getRepository(User);
-    await userRepository.update({ id: req.user.sub }, { refreshTokenHash: null });
+    if (req.user.sid) await revokeSessions(AppDataSource, { id: req.user.sid, userId: req.user.sub }, 'logged out');
     res.json({ ok: true });
   } catch (e) {
     res.status(500).json({ error: e.message });
   }
 });
 
+// Admin user management; last, because GET /:id would otherwise shadow /me
+app.use('/', userRoutes);
 
-app.listen(PORT, () => console.log(`User service on ${PORT}`));
+app.listen(PORT, () => logger.info(`User service on ${PORT}`));
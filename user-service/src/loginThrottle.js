@@ -0,0 +1,82 @@
+import { LessThan, MoreThan } from 'typeorm';
+import User from './models/User.js';
+import LoginAttempt from './models/LoginAttempt.js';
+import { clientInfo, clientAddress } from './sessions.js';
+import { logger } from '@microstore/observability';
+import { loginFailures } from './metrics.js';
+
+// Read lazily so settings from .env (loaded after imports run) are honoured
+const setting = (name, fallback) => Number(process.env[name] || fallback);
+
+// Nothing below the threshold, then base * 2^(failures past it) seconds, capped
+function backoffSeconds(failures, threshold) {
+  if (failures < threshold) return 0;
+  return Math.min(
+    setting('LOGIN_LOCKOUT_BASE_SECONDS', 30) * 2 ** (failures - threshold),
+    setting('LOGIN_LOCKOUT_MAX_SECONDS', 3600)
+  );
+}
+
+export async function recordFailedLogin(dataSource, req, { username, user, reason }) {
+  const loginAttemptRepository = dataSource.getRepository(LoginAttempt);
+  await loginAttemptRepository.save(loginAttemptRepository.create({
+    username: String(username).slice(0, 255),
+    userId: user?.id || null,
+    reason,
+    ...clientInfo(req)
+  }));
+  loginFailures.inc({ reason });
+}
+
+// Seconds until the client's address may try again; 0 when it isn't blocked.
+// Counts wrong passwords from the address across all usernames, which catches
+// password spraying that the per-account lockout never sees.
+export async function ipRetryAfter(dataSource, req) {
+  const ip = clientAddress(req);
+  if (!ip) return 0;
+
+  const loginAttemptRepository = dataSource.getRepository(LoginAttempt);
+  const where = {
+    ip,
+    reason: 'invalid_credentials',
+    createdAt: MoreThan(new Date(Date.now() - setting('LOGIN_IP_WINDOW_SECONDS', 900) * 1000))
+  };
+  const failures = await loginAttemptRepository.count({ where });
+  const seconds = backoffSeconds(failures, setting('LOGIN_IP_THRESHOLD', 20));
+  if (!seconds) return 0;
+
+  const latest = await loginAttemptRepository.findOne({ where, order: { createdAt: 'DESC' } });
+  return Math.max(Math.ceil((latest.createdAt.getTime() + seconds * 1000 - Date.now()) / 1000), 0);
+}
+
+// Seconds left on the account's lockout; 0 when it isn't locked
+export function accountRetryAfter(user) {
+  if (!user?.lockedUntil) return 0;
+  return Math.max(Math.ceil((user.lockedUntil.getTime() - Date.now()) / 1000), 0);
+}
+
+// Counts a wrong password or two-factor code against the account and locks it
+// once there are enough in a row. Returns the lockout in seconds, 0 when not locked.
+export async function registerFailedLogin(dataSource, user) {
+  const userRepository = dataSource.getRepository(User);
+  await userRepository.increment({ id: user.id }, 'failedLoginCount', 1);
+  const { failedLoginCount } = await userRepository.findOne({ where: { id: user.id }, select: ['id', 'failedLoginCount'] });
+
+  const seconds = backoffSeconds(failedLoginCount, setting('LOGIN_LOCKOUT_THRESHOLD', 5));
+  if (!seconds) return 0;
+
+  await userRepository.update({ id: user.id }, { lockedUntil: new Date(Date.now() + seconds * 1000) });
+  logger.warn(`Locked ${user.username} for ${seconds}s after ${failedLoginCount} failed logins`);
+  return seconds;
+}
+
+export async function clearFailedLogins(dataSource, user) {
+  if (!user.failedLoginCount && !user.lockedUntil) return;
+  await dataSource.getRepository(User).update({ id: user.id }, { failedLoginCount: 0, lockedUntil: null });
+}
+
+export async function deleteOldLoginAttempts(dataSource) {
+  const cutoff = new Date(Date.now() - setting('LOGIN_ATTEMPT_RETENTION_DAYS', 30) * 24 * 3600 * 1000);
+  const result = await dataSource.getRepository(LoginAttempt).delete({ createdAt: LessThan(cutoff) });
+  return result.affected || 0;
+}
@@ -0,0 +1,128 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { FindOperator } from 'typeorm';
+import User from './models/User.js';
+import {
+  recordFailedLogin,
+  ipRetryAfter,
+  accountRetryAfter,
+  registerFailedLogin,
+  clearFailedLogins
+} from './loginThrottle.js';
+
+// Enough of TypeORM's repositories for loginThrottle.js, kept in memory.
+// MoreThan() is the only operator it uses.
+function matches(row, where) {
+  return Object.entries(where).every(([field, value]) => {
+    if (value instanceof FindOperator && value.type === 'moreThan') return row[field] > value.value;
+    return row[field] === value;
+  });
+}
+
+function fakeDataSource(users) {
+  const attempts = [];
+  const userRepository = {
+    findOne: async ({ where }) => ({ ...users.find((u) => matches(u, where)) }),
+    increment: async (where, field, by) => {
+      for (const user of users.filter((u) => matches(u, where))) user[field] += by;
+    },
+    update: async (where, values) => {
+      for (const user of users.filter((u) => matches(u, where))) Object.assign(user, values);
+    }
+  };
+  const attemptRepository = {
+    create: (values) => ({ ...values }),
+    save: async (attempt) => attempts.push({ ...attempt, createdAt: new Date() }),
+    count: async ({ where }) => attempts.filter((a) => matches(a, where)).length,
+    findOne: async ({ where }) => attempts.filter((a) => matches(a, where)).at(-1) || null
+  };
+  return { attempts, getRepository: (entity) => (entity === User ? userRepository : attemptRepository) };
+}
+
+const fromAddress = (ip) => ({ headers: {}, socket: { remoteAddress: ip } });
+
+describe('login throttling', () => {
+  let user;
+  let dataSource;
+
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['Date'], now: new Date('2025-06-01T10:00:00Z') });
+    user = { id: 'user-1', username: 'asha', failedLoginCount: 0, lockedUntil: null };
+    dataSource = fakeDataSource([user]);
+  });
+
+  afterEach(() => mock.timers.reset());
+
+  async function failLogins(count) {
+    let seconds = 0;
+    for (let i = 0; i < count; i++) seconds = await registerFailedLogin(dataSource, user);
+    return seconds;
+  }
+
+  describe('per account', () => {
+    it('locks only once five logins in a row have failed', async () => {
+      assert.equal(await failLogins(4), 0);
+      assert.equal(accountRetryAfter(user), 0);
+      assert.equal(await failLogins(1), 30);
+      assert.equal(accountRetryAfter(user), 30);
+    });
+
+    it('doubles the lockout with each further failure, up to an hour', async () => {
+      await failLogins(5);
+      assert.equal(await failLogins(1), 60);
+      assert.equal(await failLogins(1), 120);
+      assert.equal(await failLogins(10), 3600);
+    });
+
+    it('releases the lock when it runs out', async () => {
+      await failLogins(5);
+      mock.timers.tick(29_500);
+      assert.equal(accountRetryAfter(user), 1);
+      mock.timers.tick(500);
+      assert.equal(accountRetryAfter(user), 0);
+    });
+
+    it('starts counting again after a successful login', async () => {
+      await failLogins(5);
+      await clearFailedLogins(dataSource, user);
+      assert.deepEqual([user.failedLoginCount, user.lockedUntil], [0, null]);
+      assert.equal(await failLogins(4), 0);
+    });
+  });
+
+  describe('per address', () => {
+    async function failFrom(ip, count) {
+      for (let i = 0; i < count; i++) {
+        await recordFailedLogin(dataSource, fromAddress(ip), { username: `user${i}`, reason: 'invalid_credentials' });
+      }
+    }
+
+    it('blocks an address after twenty wrong passwords across any usernames', async () => {
+      await failFrom('203.0.113.7', 19);
+      assert.equal(await ipRetryAfter(dataSource, fromAddress('203.0.113.7')), 0);
+      await failFrom('203.0.113.7', 1);
+      assert.equal(await ipRetryAfter(dataSource, fromAddress('203.0.113.7')), 30);
+      assert.equal(await ipRetryAfter(dataSource, fromAddress('198.51.100.1')), 0, 'other addresses are not affected');
+    });
+
+    it('releases the address once the block has passed since its latest failure', async () => {
+      await failFrom('203.0.113.7', 20);
+      mock.timers.tick(30_000);
+      assert.equal(await ipRetryAfter(dataSource, fromAddress('203.0.113.7')), 0);
+    });
+
+    it('forgets failures older than the fifteen minute window', async () => {
+      await failFrom('203.0.113.7', 19);
+      mock.timers.tick(901_000);
+      await failFrom('203.0.113.7', 1);
+      assert.equal(await ipRetryAfter(dataSource, fromAddress('203.0.113.7')), 0);
+    });
+
+    it('does not count failures other than wrong passwords', async () => {
+      for (let i = 0; i < 20; i++) {
+        await recordFailedLogin(dataSource, fromAddress('203.0.113.7'), { username: 'asha', reason: 'account_locked' });
+      }
+      assert.equal(await ipRetryAfter(dataSource, fromAddress('203.0.113.7')), 0);
+    });
+  });
+});
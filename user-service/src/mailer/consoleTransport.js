@@ -0,0 +1,8 @@
+// Prints messages instead of sending them; the default for local development
+export default {
+  name: 'console',
+
+  async send(message) {
+    console.log(`--- mail to ${message.to}: ${message.subject} ---\n${message.text}\n--- end of mail ---`);
+  }
+};
@@ -0,0 +1,27 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import { logger } from '@microstore/observability';
+
+// Writes each message to MAIL_DIR as an .eml file any mail client can open
+export default {
+  name: 'file',
+
+  async send(message) {
+    const dir = path.resolve(process.env.MAIL_DIR || 'mail');
+    await fs.mkdir(dir, { recursive: true });
+
+    const file = path.join(dir, `${Date.now()}-${crypto.randomBytes(4).toString('hex')}.eml`);
+    const eml = [
+      `From: ${message.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      message.text
+    ].join('\r\n');
+    await fs.writeFile(file, eml);
+    logger.info(`Mail to ${message.to} written to ${file}`);
+  }
+};
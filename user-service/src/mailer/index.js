@@ -0,0 +1,25 @@
+import consoleTransport from './consoleTransport.js';
+import fileTransport from './fileTransport.js';
+import smtpTransport from './smtpTransport.js';
+
+// A mail transport implements:
+//   name
+//   send({ from, to, subject, text })    -> resolves once the message is handed off
+const transports = {
+  [consoleTransport.name]: consoleTransport,
+  [fileTransport.name]: fileTransport,
+  [smtpTransport.name]: smtpTransport
+};
+
+// Read lazily so MAIL_TRANSPORT from .env (loaded after imports run) is honoured
+export function getMailTransport() {
+  const name = process.env.MAIL_TRANSPORT || 'console';
+  const transport = transports[name];
+  if (!transport) throw new Error(`unknown mail transport ${name}`);
+  return transport;
+}
+
+export function sendMail(message) {
+  const from = process.env.MAIL_FROM || 'MicroStore <no-reply@microstore.local>';
+  return getMailTransport().send({ from, ...message });
+}
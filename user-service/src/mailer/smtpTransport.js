@@ -0,0 +1,24 @@
+import nodemailer from 'nodemailer';
+
+let transporter;
+
+// Created on first use so SMTP_* from .env (loaded after imports run) is honoured
+function getTransporter() {
+  if (!transporter) {
+    transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST || 'localhost',
+      port: Number(process.env.SMTP_PORT || 587),
+      secure: process.env.SMTP_SECURE === 'true',
+      auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD } : undefined
+    });
+  }
+  return transporter;
+}
+
+export default {
+  name: 'smtp',
+
+  async send(message) {
+    await getTransporter().sendMail(message);
+  }
+};
@@ -0,0 +1,15 @@
+import { client } from '@microstore/observability';
+
+// user-service's own metrics; request, process and database pool metrics come
+// from @microstore/observability
+
+export const loginFailures = new client.Counter({
+  name: 'login_failures_total',
+  help: 'Failed logins, by reason (the login error code)',
+  labelNames: ['reason']
+});
+
+export const logins = new client.Counter({
+  name: 'logins_total',
+  help: 'Completed logins'
+});
@@ -0,0 +1,68 @@
+import { EntitySchema } from "typeorm";
+
+export default new EntitySchema({
+  name: "Address",
+  tableName: "addresses",
+  columns: {
+    id: {
+      primary: true,
+      type: "uuid",
+      generated: "uuid"
+    },
+    userId: {
+      type: "uuid",
+      nullable: false
+    },
+    fullName: {
+      type: "varchar",
+      nullable: false
+    },
+    phone: {
+      type: "varchar",
+      length: 10,
+      nullable: false
+    },
+    line1: {
+      type: "varchar",
+      nullable: false
+    },
+    line2: {
+      type: "varchar",
+      nullable: true
+    },
+    city: {
+      type: "varchar",
+      nullable: false
+    },
+    state: {
+      type: "varchar",
+      nullable: false
+    },
+    pincode: {
+      type: "varchar",
+      length: 6,
+      nullable: false
+    },
+    isDefault: {
+      type: "boolean",
+      nullable: false,
+      default: false
+    },
+    createdAt: {
+      type: "timestamp",
+      createDate: true
+    },
+    updatedAt: {
+      type: "timestamp",
+      updateDate: true
+    }
+  },
+  relations: {
+    user: {
+      type: "many-to-one",
+      target: "User",
+      joinColumn: { name: "userId" },
+      onDelete: "CASCADE"
+    }
+  }
+});
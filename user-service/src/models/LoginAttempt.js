@@ -0,0 +1,46 @@
+import { EntitySchema } from "typeorm";
+
+// Audit trail of failed logins; also what the per-IP throttle counts
+export default new EntitySchema({
+  name: "LoginAttempt",
+  tableName: "login_attempts",
+  indices: [
+    { name: "IDX_login_attempts_ip_created", columns: ["ip", "createdAt"] },
+    { name: "IDX_login_attempts_username_created", columns: ["username", "createdAt"] }
+  ],
+  columns: {
+    id: {
+      primary: true,
+      type: "uuid",
+      generated: "uuid"
+    },
+    // As typed, so attempts against unknown usernames are recorded too
+    username: {
+      type: "varchar",
+      nullable: false
+    },
+    userId: {
+      type: "uuid",
+      nullable: true
+    },
+    ip: {
+      type: "varchar",
+      nullable: true
+    },
+    userAgent: {
+      type: "varchar",
+      length: 500,
+      nullable: true
+    },
+    // invalid_credentials, invalid_two_factor_code, account_locked,
+    // too_many_attempts or account_disabled
+    reason: {
+      type: "varchar",
+      nullable: false
+    },
+    createdAt: {
+      type: "timestamp",
+      createDate: true
+    }
+  }
+});
@@ -0,0 +1,35 @@
+import { EntitySchema } from "typeorm";
+
+export default new EntitySchema({
+  name: "Role",
+  tableName: "roles",
+  columns: {
+    name: {
+      primary: true,
+      type: "varchar",
+      length: 50
+    },
+    description: {
+      type: "varchar",
+      nullable: true
+    },
+    permissions: {
+      type: "json",
+      nullable: false,
+      default: () => "'[]'"
+    },
+    builtIn: {
+      type: "boolean",
+      nullable: false,
+      default: false
+    },
+    createdAt: {
+      type: "timestamp",
+      createDate: true
+    },
+    updatedAt: {
+      type: "timestamp",
+      updateDate: true
+    }
+  }
+});
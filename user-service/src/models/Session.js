@@ -0,0 +1,70 @@
+import { EntitySchema } from "typeorm";
+
+// One row per signed-in device. Only the hash of the current refresh token is
+// kept; the previous one is remembered briefly to tell a race from a replay.
+export default new EntitySchema({
+  name: "Session",
+  tableName: "sessions",
+  indices: [
+    { name: "IDX_sessions_user", columns: ["userId"] }
+  ],
+  columns: {
+    id: {
+      primary: true,
+      type: "uuid"
+    },
+    userId: {
+      type: "uuid",
+      nullable: false
+    },
+    tokenHash: {
+      type: "varchar",
+      nullable: false
+    },
+    previousTokenHash: {
+      type: "varchar",
+      nullable: true
+    },
+    rotatedAt: {
+      type: "timestamp",
+      nullable: true
+    },
+    userAgent: {
+      type: "varchar",
+      length: 500,
+      nullable: true
+    },
+    ip: {
+      type: "varchar",
+      nullable: true
+    },
+    lastUsedAt: {
+      type: "timestamp",
+      nullable: false
+    },
+    expiresAt: {
+      type: "timestamp",
+      nullable: false
+    },
+    revokedAt: {
+      type: "timestamp",
+      nullable: true
+    },
+    revokedReason: {
+      type: "varchar",
+      nullable: true
+    },
+    createdAt: {
+      type: "timestamp",
+      createDate: true
+    }
+  },
+  relations: {
+    user: {
+      type: "many-to-one",
+      target: "User",
+      joinColumn: { name: "userId" },
+      onDelete: "CASCADE"
+    }
+  }
+});
@@ -0,0 +1,34 @@
+import { EntitySchema } from "typeorm";
+
+// Key pairs for signing access tokens. The newest unretired key signs; retired
+// keys stay published in the JWKS until tokens signed with them have expired.
+export default new EntitySchema({
+  name: "SigningKey",
+  tableName: "signing_keys",
+  columns: {
+    kid: {
+      primary: true,
+      type: "varchar"
+    },
+    algorithm: {
+      type: "varchar",
+      nullable: false
+    },
+    publicKey: {
+      type: "text",
+      nullable: false
+    },
+    privateKey: {
+      type: "text",
+      nullable: false
+    },
+    retiredAt: {
+      type: "timestamp",
+      nullable: true
+    },
+    createdAt: {
+      type: "timestamp",
+      createDate: true
+    }
+  }
+});
@@ -14,6 +14,16 @@ export default new EntitySchema({
       unique: true,
       nullable: false
     },
+    // Nullable for accounts created before emails were collected
+    email: {
+      type: "varchar",
+      unique: true,
+      nullable: true
+    },
+    emailVerifiedAt: {
+      type: "timestamp",
+      nullable: true
+    },
     passwordHash: {
       type: "varchar",
       nullable: false
@@ -23,10 +33,40 @@ export default new EntitySchema({
       nullable: false,
       default: "user"
     },
-    refreshTokenHash: {
+    disabled: {
+      type: "boolean",
+      nullable: false,
+      default: false
+    },
+    // Consecutive failed logins; reset by a successful login or password reset
+    failedLoginCount: {
+      type: "int",
+      nullable: false,
+      default: 0
+    },
+    lockedUntil: {
+      type: "timestamp",
+      nullable: true
+    },
+    // Set during enrolment; two-factor is on once totpEnabledAt is set too
+    totpSecret: {
       type: "varchar",
       nullable: true
     },
+    totpEnabledAt: {
+      type: "timestamp",
+      nullable: true
+    },
+    // The last time step a code was accepted for, so codes can't be replayed
+    totpLastUsedStep: {
+      type: "int",
+      nullable: true
+    },
+    // SHA-256 hashes of the unused recovery codes
+    recoveryCodeHashes: {
+      type: "json",
+      nullable: true
+    },
     createdAt: {
       type: "timestamp",
       createDate: true
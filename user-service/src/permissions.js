@@ -0,0 +1,52 @@
+import Role from './models/Role.js';
+
+// Every permission a role can grant. Services enforce them with
+// requirePermission() in their own middleware/auth.js.
+export const PERMISSIONS = {
+  'products:write': 'Create, edit and delete products, their images and categories',
+  'orders:manage': "Move orders through their lifecycle and see any stock reservation",
+  'pricing:manage': 'Manage coupons, tax rates and shipping rules',
+  'users:read': 'List and view user accounts',
+  'users:write': 'Change user roles, disable and delete accounts',
+  'roles:manage': 'Create, edit and delete roles',
+  'system:read': 'See the health of every service and its dependencies'
+};
+
+export const PERMISSION_NAMES = Object.keys(PERMISSIONS);
+
+// Always present and cannot be deleted. admin holds every permission, including
+// ones added later, so it is never stored with a fixed list.
+export const ADMIN_ROLE = 'admin';
+export const DEFAULT_ROLE = 'user';
+export const BUILT_IN_ROLES = [
+  { name: ADMIN_ROLE, description: 'Full access', permissions: [] },
+  { name: DEFAULT_ROLE, description: 'Shopper; no admin access', permissions: [] }
+];
+
+export async function ensureBuiltInRoles(dataSource) {
+  const roleRepository = dataSource.getRepository(Role);
+  for (const role of BUILT_IN_ROLES) {
+    if (!await roleRepository.findOne({ where: { name: role.name } })) {
+      await roleRepository.save(roleRepository.create({ ...role, builtIn: true }));
+    }
+  }
+}
+
+export function permissionsOf(role) {
+  if (!role) return [];
+  if (role.name === ADMIN_ROLE) return PERMISSION_NAMES;
+  return (role.permissions || []).filter((permission) => PERMISSIONS[permission]);
+}
+
+// The permissions in `permissions` the caller doesn't hold. Nobody can hand
+// out more than they have; admins hold everything.
+export function permissionsBeyond(caller, permissions) {
+  if (caller?.role === ADMIN_ROLE) return [];
+  const held = caller?.permissions || [];
+  return permissions.filter((permission) => !held.includes(permission));
+}
+
+// The permissions that go into a user's access token
+export async function permissionsForRole(dataSource, roleName) {
+  return permissionsOf(await dataSource.getRepository(Role).findOne({ where: { name: roleName } }));
+}
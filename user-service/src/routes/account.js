@@ -0,0 +1,84 @@
+import { Router } from 'express';
+import bcrypt from 'bcryptjs';
+import User from '../models/User.js';
+import { auth } from '../middleware/auth.js';
+import { verifyAccountToken } from '../accountTokens.js';
+import { normalizeEmail, sendPasswordResetEmail, sendVerificationEmail } from '../accountEmails.js';
+import { revokeUserSessions } from '../sessions.js';
+import { logger } from '@microstore/observability';
+
+// Account recovery and email verification; mounted at the service root
+const router = Router();
+
+// Answers the same whether or not the address has an account, and sends in the
+// background so the response time doesn't tell either
+router.post('/forgot-password', async (req, res) => {
+  try {
+    const email = normalizeEmail(req.body.email);
+    if (!email) return res.status(400).json({ error: 'valid email required' });
+
+    const user = await req.AppDataSource.getRepository(User).findOne({ where: { email } });
+    if (user && !user.disabled) {
+      sendPasswordResetEmail(user).catch((error) => logger.error('Password reset email failed', { error: error.message }));
+    }
+    res.json({ ok: true });
+  } catch (e) {
+    res.status(500).json({ error: e.message });
+  }
+});
+
+// Signs the user out everywhere, since whoever had the old password may be signed in
+router.post('/reset-password', async (req, res) => {
+  try {
+    const { token, password } = req.body;
+    if (!token || !password) return res.status(400).json({ error: 'token and password required' });
+
+    const user = await verifyAccountToken(req.AppDataSource, token, 'reset_password');
+    if (!user) return res.status(400).json({ error: 'invalid or expired token' });
+
+    // Conditional on the old hash so the same link cannot be used twice at once.
+    // Getting the link also proves the mailbox is theirs, and lifts any lockout.
+    const passwordHash = await bcrypt.hash(password, 10);
+    const result = await req.AppDataSource.getRepository(User).update(
+      { id: user.id, passwordHash: user.passwordHash },
+      { passwordHash, emailVerifiedAt: user.emailVerifiedAt || new Date(), failedLoginCount: 0, lockedUntil: null }
+    );
+    if (!result.affected) return res.status(400).json({ error: 'invalid or expired token' });
+
+    await revokeUserSessions(req.AppDataSource, user.id, 'password reset');
+    res.json({ ok: true });
+  } catch (e) {
+    res.status(500).json({ error: e.message });
+  }
+});
+
+router.post('/verify-email', async (req, res) => {
+  try {
+    const { token } = req.body;
+    if (!token) return res.status(400).json({ error: 'token required' });
+
+    const user = await verifyAccountToken(req.AppDataSource, token, 'verify_email');
+    if (!user) return res.status(400).json({ error: 'invalid or expired token' });
+
+    await req.AppDataSource.getRepository(User).update({ id: user.id, email: user.email }, { emailVerifiedAt: new Date() });
+    res.json({ ok: true, email: user.email });
+  } catch (e) {
+    res.status(500).json({ error: e.message });
+  }
+});
+
+router.post('/verify-email/resend', auth, async (req, res) => {
+  try {
+    const user = await req.AppDataSource.getRepository(User).findOne({ where: { id: req.user.sub } });
+    if (!user) return res.status(404).json({ error: 'not found' });
+    if (!user.email) return res.status(400).json({ error: 'no email on this account' });
+    if (user.emailVerifiedAt) return res.status(409).json({ error: 'email already verified' });
+
+    await sendVerificationEmail(user);
+    res.json({ ok: true });
+  } catch (e) {
+    res.status(500).json({ error: e.message });
+  }
+});
+
+export default router;
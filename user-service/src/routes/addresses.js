@@ -0,0 +1,159 @@
+import { Router } from 'express';
+import Address from '../models/Address.js';
+import { auth } from '../middleware/auth.js';
+
+const router = Router();
+
+// Six digits, not starting with 0
+const PINCODE_PATTERN = /^[1-9][0-9]{5}$/;
+const MAX_ADDRESSES = 20;
+const FIELD_LIMITS = { fullName: 100, line1: 200, line2: 200, city: 100, state: 100 };
+const REQUIRED_FIELDS = ['fullName', 'phone', 'line1', 'city', 'state', 'pincode'];
+
+// Accepts +91 / 0 prefixes, spaces and dashes; stores the ten-digit mobile number
+function normalizePhone(raw) {
+  let digits = String(raw).replace(/\D/g, '');
+  if (digits.length === 12 && digits.startsWith('91')) digits = digits.slice(2);
+  if (digits.length === 11 && digits.startsWith('0')) digits = digits.slice(1);
+  return /^[6-9][0-9]{9}$/.test(digits) ? digits : null;
+}
+
+function normalizePincode(raw) {
+  const pincode = String(raw).replace(/\s/g, '');
+  return PINCODE_PATTERN.test(pincode) ? pincode : null;
+}
+
+// Validates the address fields present in body. Returns { values } or { error }.
+function parseAddressInput(body, { partial = false } = {}) {
+  const values = {};
+  for (const field of REQUIRED_FIELDS) {
+    if (partial && body[field] === undefined) continue;
+    if (body[field] === undefined || body[field] === null || !String(body[field]).trim()) {
+      return { error: `${field} required` };
+    }
+  }
+  for (const [field, limit] of Object.entries(FIELD_LIMITS)) {
+    if (body[field] === undefined) continue;
+    const value = body[field] === null ? '' : String(body[field]).trim();
+    if (value.length > limit) return { error: `${field} must be at most ${limit} characters` };
+    values[field] = value || null;
+  }
+  if (body.phone !== undefined) {
+    values.phone = normalizePhone(body.phone);
+    if (!values.phone) return { error: 'phone must be a 10-digit Indian mobile number' };
+  }
+  if (body.pincode !== undefined) {
+    values.pincode = normalizePincode(body.pincode);
+    if (!values.pincode) return { error: 'pincode must be a 6-digit Indian PIN code' };
+  }
+  return { values };
+}
+
+async function makeDefault(manager, userId, addressId) {
+  await manager.update(Address, { userId }, { isDefault: false });
+  await manager.update(Address, { id: addressId, userId }, { isDefault: true });
+}
+
+function findOwnAddress(manager, req) {
+  return manager.findOne(Address, { where: { id: req.params.id, userId: req.user.sub } });
+}
+
+router.use(auth);
+
+router.get('/', async (req, res) => {
+  try {
+    const addresses = await req.AppDataSource.getRepository(Address).find({
+      where: { userId: req.user.sub },
+      order: { isDefault: 'DESC', createdAt: 'DESC' }
+    });
+    res.json(addresses);
+  } catch (e) {
+    res.status(500).json({ error: e.message });
+  }
+});
+
+router.get('/:id', async (req, res) => {
+  try {
+    const address = await findOwnAddress(req.AppDataSource.manager, req);
+    if (!address) return res.status(404).json({ error: 'not found' });
+    res.json(address);
+  } catch (e) {
+    res.status(400).json({ error: e.message });
+  }
+});
+
+// The first address always becomes the default
+router.post('/', async (req, res) => {
+  try {
+    const { values, error } = parseAddressInput(req.body);
+    if (error) return res.status(400).json({ error });
+
+    const address = await req.AppDataSource.transaction(async (manager) => {
+      const count = await manager.count(Address, { where: { userId: req.user.sub } });
+      if (count >= MAX_ADDRESSES) return null;
+      const saved = await manager.save(Address, manager.create(Address, { ...values, userId: req.user.sub }));
+      if (count === 0 || req.body.isDefault) await makeDefault(manager, req.user.sub, saved.id);
+      return manager.findOne(Address, { where: { id: saved.id } });
+    });
+    if (!address) return res.status(409).json({ error: `you can save at most ${MAX_ADDRESSES} addresses` });
+    res.status(201).json(address);
+  } catch (e) {
+    res.status(400).json({ error: e.message });
+  }
+});
+
+router.put('/:id', async (req, res) => {
+  try {
+    const { values, error } = parseAddressInput(req.body, { partial: true });
+    if (error) return res.status(400).json({ error });
+
+    const address = await req.AppDataSource.transaction(async (manager) => {
+      const existing = await findOwnAddress(manager, req);
+      if (!existing) return null;
+      if (Object.keys(values).length > 0) await manager.update(Address, { id: existing.id }, values);
+      if (req.body.isDefault) await makeDefault(manager, req.user.sub, existing.id);
+      return manager.findOne(Address, { where: { id: existing.id } });
+    });
+    if (!address) return res.status(404).json({ error: 'not found' });
+    res.json(address);
+  } catch (e) {
+    res.status(400).json({ error: e.message });
+  }
+});
+
+router.post('/:id/default', async (req, res) => {
+  try {
+    const address = await req.AppDataSource.transaction(async (manager) => {
+      const existing = await findOwnAddress(manager, req);
+      if (!existing) return null;
+      await makeDefault(manager, req.user.sub, existing.id);
+      return manager.findOne(Address, { where: { id: existing.id } });
+    });
+    if (!address) return res.status(404).json({ error: 'not found' });
+    res.json(address);
+  } catch (e) {
+    res.status(400).json({ error: e.message });
+  }
+});
+
+// Deleting the default promotes the most recently added remaining address
+router.delete('/:id', async (req, res) => {
+  try {
+    const deleted = await req.AppDataSource.transaction(async (manager) => {
+      const existing = await findOwnAddress(manager, req);
+      if (!existing) return false;
+      await manager.remove(Address, existing);
+      if (existing.isDefault) {
+        const next = await manager.findOne(Address, { where: { userId: req.user.sub }, order: { createdAt: 'DESC' } });
+        if (next) await makeDefault(manager, req.user.sub, next.id);
+      }
+      return true;
+    });
+    if (!deleted) return res.status(404).json({ error: 'not found' });
+    res.json({ deleted: true });
+  } catch (e) {
+    res.status(400).json({ error: e.message });
+  }
+});
+
+export default router;
@@ -0,0 +1,142 @@
+import { Router } from 'express';
+import Role from '../models/Role.js';
+import User from '../models/User.js';
+import { auth, requirePermission } from '../middleware/auth.js';
+import { ADMIN_ROLE, PERMISSIONS, PERMISSION_NAMES, permissionsOf, permissionsBeyond } from '../permissions.js';
+
+const router = Router();
+
+// Stored permissions are filtered through the catalogue, so a permission that
+// has since been removed from PERMISSIONS is not reported as granted
+function toPublicRole(role) {
+  return {
+    name: role.name,
+    description: role.description,
+    permissions: permissionsOf(role),
+    builtIn: role.builtIn,
+    createdAt: role.createdAt,
+    updatedAt: role.updatedAt
+  };
+}
+
+// Validates the writable role fields present in body. Returns { values } or { error }.
+function parseRoleInput(body, { partial = false } = {}) {
+  const values = {};
+  if (!partial) {
+    const name = typeof body.name === 'string' ? body.name.trim().toLowerCase() : '';
+    if (!/^[a-z][a-z0-9_-]{1,49}$/.test(name)) {
+      return { error: 'name must be 2-50 lowercase letters, numbers, dashes or underscores, starting with a letter' };
+    }
+    values.name = name;
+  }
+  if (body.description !== undefined) {
+    const description = body.description === null ? '' : String(body.description).trim();
+    if (description.length > 200) return { error: 'description must be at most 200 characters' };
+    values.description = description || null;
+  }
+  if (body.permissions !== undefined || !partial) {
+    if (!Array.isArray(body.permissions)) return { error: 'permissions must be an array' };
+    const unknown = body.permissions.filter((permission) => !PERMISSIONS[permission]);
+    if (unknown.length > 0) return { error: `unknown permissions: ${unknown.join(', ')}` };
+    values.permissions = [...new Set(body.permissions)];
+  }
+  return { values };
+}
+
+// A role editor can't grant what they don't hold, nor change their own role's
+// permissions. Returns the reason to refuse, or null.
+function checkPermissionGrant(req, role, permissions) {
+  if (role && role.name === req.user.role) return 'you cannot change the permissions of your own role';
+  const granted = role ? permissions.filter((permission) => !permissionsOf(role).includes(permission)) : permissions;
+  const beyond = permissionsBeyond(req.user, granted);
+  return beyond.length > 0 ? `you do not have these permissions: ${beyond.join(', ')}` : null;
+}
+
+function findRole(req) {
+  return req.AppDataSource.getRepository(Role).findOne({ where: { name: req.params.name } });
+}
+
+router.use(auth);
+
+// The catalogue of permissions roles can grant, for building role editors
+router.get('/permissions', requirePermission('users:read'), (req, res) => {
+  res.json(PERMISSION_NAMES.map((name) => ({ name, description: PERMISSIONS[name] })));
+});
+
+router.get('/', requirePermission('users:read'), async (req, res) => {
+  try {
+    const roles = await req.AppDataSource.getRepository(Role).find({ order: { builtIn: 'DESC', name: 'ASC' } });
+    res.json(roles.map(toPublicRole));
+  } catch (e) {
+    res.status(500).json({ error: e.message });
+  }
+});
+
+router.get('/:name', requirePermission('users:read'), async (req, res) => {
+  try {
+    const role = await findRole(req);
+    if (!role) return res.status(404).json({ error: 'not found' });
+    res.json(toPublicRole(role));
+  } catch (e) {
+    res.status(400).json({ error: e.message });
+  }
+});
+
+router.post('/', requirePermission('roles:manage'), async (req, res) => {
+  try {
+    const { values, error } = parseRoleInput(req.body);
+    if (error) return res.status(400).json({ error });
+    const grantError = checkPermissionGrant(req, null, values.permissions);
+    if (grantError) return res.status(403).json({ error: grantError });
+
+    const roleRepository = req.AppDataSource.getRepository(Role);
+    if (await roleRepository.findOne({ where: { name: values.name } })) return res.status(409).json({ error: 'role exists' });
+
+    const role = await roleRepository.save(roleRepository.create({ ...values, builtIn: false }));
+    res.status(201).json(toPublicRole(role));
+  } catch (e) {
+    res.status(400).json({ error: e.message });
+  }
+});
+
+// Users pick up changed permissions with their next access token
+router.put('/:name', requirePermission('roles:manage'), async (req, res) => {
+  try {
+    const role = await findRole(req);
+    if (!role) return res.status(404).json({ error: 'not found' });
+
+    const { values, error } = parseRoleInput(req.body, { partial: true });
+    if (error) return res.status(400).json({ error });
+    if (role.name === ADMIN_ROLE && values.permissions) {
+      return res.status(409).json({ error: 'the admin role always has every permission' });
+    }
+    if (values.permissions) {
+      const grantError = checkPermissionGrant(req, role, values.permissions);
+      if (grantError) return res.status(403).json({ error: grantError });
+    }
+
+    const roleRepository = req.AppDataSource.getRepository(Role);
+    roleRepository.merge(role, values);
+    res.json(toPublicRole(await roleRepository.save(role)));
+  } catch (e) {
+    res.status(400).json({ error: e.message });
+  }
+});
+
+router.delete('/:name', requirePermission('roles:manage'), async (req, res) => {
+  try {
+    const role = await findRole(req);
+    if (!role) return res.status(404).json({ error: 'not found' });
+    if (role.builtIn) return res.status(409).json({ error: 'built-in roles cannot be deleted' });
+
+    const members = await req.AppDataSource.getRepository(User).count({ where: { role: role.name } });
+    if (members > 0) return res.status(409).json({ error: `role is assigned to ${members} user(s)` });
+
+    await req.AppDataSource.getRepository(Role).delete({ name: role.name });
+    res.json({ deleted: true });
+  } catch (e) {
+    res.status(400).json({ error: e.message });
+  }
+});
+
+export default router;
@@ -0,0 +1,60 @@
+import { Router } from 'express';
+import Session from '../models/Session.js';
+import { auth } from '../middleware/auth.js';
+import { activeSessionsWhere, revokeSessions, revokeUserSessions } from '../sessions.js';
+
+const router = Router();
+
+// The caller's own session is the one named by the sid in their access token
+function toPublicSession(session, currentSessionId) {
+  return {
+    id: session.id,
+    userAgent: session.userAgent,
+    ip: session.ip,
+    createdAt: session.createdAt,
+    lastUsedAt: session.lastUsedAt,
+    expiresAt: session.expiresAt,
+    current: session.id === currentSessionId
+  };
+}
+
+router.use(auth);
+
+router.get('/', async (req, res) => {
+  try {
+    const sessions = await req.AppDataSource.getRepository(Session).find({
+      where: activeSessionsWhere(req.user.sub),
+      order: { lastUsedAt: 'DESC' }
+    });
+    res.json(sessions.map((session) => toPublicSession(session, req.user.sid)));
+  } catch (e) {
+    res.status(500).json({ error: e.message });
+  }
+});
+
+// Signs out every other device; the current session stays
+router.delete('/', async (req, res) => {
+  try {
+    const revoked = await revokeUserSessions(req.AppDataSource, req.user.sub, 'signed out by user', { except: req.user.sid });
+    res.json({ revoked });
+  } catch (e) {
+    res.status(500).json({ error: e.message });
+  }
+});
+
+// Access tokens already issued to that device stay valid until they expire
+router.delete('/:id', async (req, res) => {
+  try {
+    const revoked = await revokeSessions(
+      req.AppDataSource,
+      { ...activeSessionsWhere(req.user.sub), id: req.params.id },
+      'signed out by user'
+    );
+    if (!revoked) return res.status(404).json({ error: 'not found' });
+    res.json({ deleted: true });
+  } catch (e) {
+    res.status(400).json({ error: e.message });
+  }
+});
+
+export default router;
@@ -0,0 +1,134 @@
+import { Router } from 'express';
+import bcrypt from 'bcryptjs';
+import User from '../models/User.js';
+import { auth } from '../middleware/auth.js';
+import {
+  beginTwoFactorSetup,
+  enableTwoFactor,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+  verifySecondFactor,
+  roleRequiresTwoFactor,
+  twoFactorEnabled,
+  twoFactorStatus
+} from '../twoFactor.js';
+import { recordFailedLogin, accountRetryAfter, registerFailedLogin, clearFailedLogins } from '../loginThrottle.js';
+
+// The signed-in user's own two-factor settings. Admins whose role requires it
+// enrol during login instead, see /login/2fa/* in index.js.
+const router = Router();
+
+function findCurrentUser(req) {
+  return req.AppDataSource.getRepository(User).findOne({ where: { id: req.user.sub } });
+}
+
+// Wrong passwords and codes here count towards the same lockout as at login,
+// so a stolen session can't be used to guess them instead
+function sendLocked(res, retryAfter) {
+  res.set('Retry-After', String(retryAfter));
+  return res.status(423).json({ error: 'account temporarily locked', code: 'account_locked', retryAfter });
+}
+
+// Responds and returns false when the account is locked
+async function checkNotLocked(req, res, user) {
+  const lockWait = accountRetryAfter(user);
+  if (!lockWait) return true;
+  await recordFailedLogin(req.AppDataSource, req, { username: user.username, user, reason: 'account_locked' });
+  sendLocked(res, lockWait);
+  return false;
+}
+
+async function rejectAttempt(req, res, user, reason, error) {
+  await recordFailedLogin(req.AppDataSource, req, { username: user.username, user, reason });
+  const lockedFor = await registerFailedLogin(req.AppDataSource, user);
+  if (lockedFor) return sendLocked(res, lockedFor);
+  return res.status(400).json({ error });
+}
+
+router.use(auth);
+
+router.get('/', async (req, res) => {
+  try {
+    const user = await findCurrentUser(req);
+    if (!user) return res.status(404).json({ error: 'not found' });
+    res.json(twoFactorStatus(user));
+  } catch (e) {
+    res.status(500).json({ error: e.message });
+  }
+});
+
+// Returns the secret and its otpauth:// URI, also as a QR code data URL
+router.post('/setup', async (req, res) => {
+  try {
+    const user = await findCurrentUser(req);
+    if (!user) return res.status(404).json({ error: 'not found' });
+    if (twoFactorEnabled(user)) return res.status(409).json({ error: 'two-factor authentication already enabled' });
+
+    res.json(await beginTwoFactorSetup(req.AppDataSource, user));
+  } catch (e) {
+    res.status(500).json({ error: e.message });
+  }
+});
+
+router.post('/enable', async (req, res) => {
+  try {
+    const user = await findCurrentUser(req);
+    if (!user) return res.status(404).json({ error: 'not found' });
+    if (twoFactorEnabled(user)) return res.status(409).json({ error: 'two-factor authentication already enabled' });
+    if (!user.totpSecret) return res.status(409).json({ error: 'start two-factor setup first' });
+
+    const recoveryCodes = await enableTwoFactor(req.AppDataSource, user, req.body.code);
+    if (!recoveryCodes) return res.status(400).json({ error: 'invalid code' });
+    res.json({ recoveryCodes });
+  } catch (e) {
+    res.status(500).json({ error: e.message });
+  }
+});
+
+// Takes the password and a current code (or a recovery code), so a stolen
+// session alone can't switch it off
+router.post('/disable', async (req, res) => {
+  try {
+    const { password, code, recoveryCode } = req.body;
+    if (!password || (!code && !recoveryCode)) return res.status(400).json({ error: 'password and code required' });
+
+    const user = await findCurrentUser(req);
+    if (!user) return res.status(404).json({ error: 'not found' });
+    if (!twoFactorEnabled(user)) return res.status(409).json({ error: 'two-factor authentication not enabled' });
+    if (roleRequiresTwoFactor(user.role)) return res.status(409).json({ error: 'your role requires two-factor authentication' });
+    if (!await checkNotLocked(req, res, user)) return;
+
+    if (!await bcrypt.compare(password, user.passwordHash)) {
+      return rejectAttempt(req, res, user, 'invalid_credentials', 'invalid password');
+    }
+    if (!await verifySecondFactor(req.AppDataSource, user, { code, recoveryCode })) {
+      return rejectAttempt(req, res, user, 'invalid_two_factor_code', 'invalid code');
+    }
+
+    await clearFailedLogins(req.AppDataSource, user);
+    await disableTwoFactor(req.AppDataSource, user);
+    res.json({ ok: true });
+  } catch (e) {
+    res.status(500).json({ error: e.message });
+  }
+});
+
+// Replaces every recovery code, used or not
+router.post('/recovery-codes', async (req, res) => {
+  try {
+    const user = await findCurrentUser(req);
+    if (!user) return res.status(404).json({ error: 'not found' });
+    if (!twoFactorEnabled(user)) return res.status(409).json({ error: 'two-factor authentication not enabled' });
+    if (!await checkNotLocked(req, res, user)) return;
+    if (!await verifySecondFactor(req.AppDataSource, user, { code: req.body.code })) {
+      return rejectAttempt(req, res, user, 'invalid_two_factor_code', 'invalid code');
+    }
+
+    await clearFailedLogins(req.AppDataSource, user);
+    res.json({ recoveryCodes: await regenerateRecoveryCodes(req.AppDataSource, user) });
+  } catch (e) {
+    res.status(500).json({ error: e.message });
+  }
+});
+
+export default router;
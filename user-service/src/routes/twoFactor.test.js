@@ -0,0 +1,125 @@
+import { describe, it, before, after, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import express from 'express';
+import bcrypt from 'bcryptjs';
+import User from '../models/User.js';
+import twoFactorRoutes from './twoFactor.js';
+
+// RFC 6238's SHA-1 secret and its code at 1111111109s, see totp.test.js
+const SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+const NOW = 1111111109 * 1000;
+const CODE = '081804';
+const WRONG_CODE = '000000';
+
+// Enough of TypeORM for the routes and loginThrottle.js, kept in memory. Spending
+// a code through the query builder just writes it to the one user.
+function fakeDataSource(user) {
+  const attempts = [];
+  const userRepository = {
+    findOne: async () => ({ ...user }),
+    increment: async (_, field, by) => { user[field] += by; },
+    update: async (_, values) => { Object.assign(user, values); return { affected: 1 }; },
+    createQueryBuilder: () => {
+      const query = {
+        update: () => query,
+        set: (values) => { query.values = values; return query; },
+        where: () => query,
+        execute: async () => { Object.assign(user, query.values); return { affected: 1 }; }
+      };
+      return query;
+    }
+  };
+  const attemptRepository = {
+    create: (values) => ({ ...values }),
+    save: async (attempt) => attempts.push(attempt)
+  };
+  return { attempts, getRepository: (entity) => (entity === User ? userRepository : attemptRepository) };
+}
+
+describe('two-factor settings', () => {
+  const passwordHash = bcrypt.hashSync('correct horse', 4);
+  let server;
+  let baseUrl;
+  let user;
+  let dataSource;
+
+  before(async () => {
+    const app = express();
+    app.use(express.json());
+    app.use((req, _, next) => {
+      req.AppDataSource = dataSource;
+      next();
+    });
+    app.use('/', twoFactorRoutes);
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${server.address().port}`;
+  });
+
+  after(() => server.close());
+
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['Date'], now: NOW });
+    user = {
+      id: 'user-1',
+      username: 'asha',
+      role: 'user',
+      passwordHash,
+      totpSecret: SECRET,
+      totpEnabledAt: new Date(NOW - 86_400_000),
+      totpLastUsedStep: null,
+      recoveryCodeHashes: [],
+      failedLoginCount: 0,
+      lockedUntil: null
+    };
+    dataSource = fakeDataSource(user);
+  });
+
+  afterEach(() => mock.timers.reset());
+
+  async function call(path, body) {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Gateway-Key': 'gateway_key', 'X-User-Id': 'user-1', 'X-User-Role': 'user' },
+      body: JSON.stringify(body)
+    });
+    return { status: response.status, retryAfter: response.headers.get('retry-after'), body: await response.json() };
+  }
+
+  const disable = (code, password = 'correct horse') => call('/disable', { password, code });
+
+  it('counts wrong codes given to turn two-factor off towards the lockout', async () => {
+    for (let i = 0; i < 4; i++) assert.equal((await disable(WRONG_CODE)).status, 400);
+    const locked = await disable(WRONG_CODE);
+    assert.deepEqual([locked.status, locked.retryAfter, locked.body.code], [423, '30', 'account_locked']);
+    assert.deepEqual(dataSource.attempts.map((a) => a.reason), Array(5).fill('invalid_two_factor_code'));
+  });
+
+  it('counts wrong passwords given to turn two-factor off towards the lockout', async () => {
+    await disable(CODE, 'wrong');
+    assert.equal(user.failedLoginCount, 1);
+    assert.equal(user.totpEnabledAt instanceof Date, true, 'still enabled');
+  });
+
+  it('refuses a locked account even the right password and code', async () => {
+    user.lockedUntil = new Date(NOW + 30_000);
+    const { status, retryAfter } = await disable(CODE);
+    assert.deepEqual([status, retryAfter], [423, '30']);
+    assert.equal(user.totpEnabledAt instanceof Date, true, 'still enabled');
+    assert.equal((await call('/recovery-codes', { code: CODE })).status, 423);
+  });
+
+  it('counts wrong codes given to replace the recovery codes towards the lockout', async () => {
+    for (let i = 0; i < 4; i++) assert.equal((await call('/recovery-codes', { code: WRONG_CODE })).status, 400);
+    assert.equal((await call('/recovery-codes', { code: WRONG_CODE })).status, 423);
+    assert.equal(user.failedLoginCount, 5);
+  });
+
+  it('clears the count once the right code is given', async () => {
+    for (let i = 0; i < 4; i++) await call('/recovery-codes', { code: WRONG_CODE });
+    const { status, body } = await call('/recovery-codes', { code: CODE });
+    assert.equal(status, 200);
+    assert.equal(body.recoveryCodes.length, 10);
+    assert.equal(user.failedLoginCount, 0);
+  });
+});
@@ -0,0 +1,256 @@
+import { Router } from 'express';
+import User from '../models/User.js';
+import Role from '../models/Role.js';
+import { auth, requirePermission } from '../middleware/auth.js';
+import { ADMIN_ROLE, permissionsBeyond, permissionsForRole, permissionsOf } from '../permissions.js';
+import { revokeUserSessions } from '../sessions.js';
+import { disableTwoFactor } from '../twoFactor.js';
+
+// Mounted at the service root next to /register, /login and /me, so each
+// route carries its own guards instead of a router-wide router.use()
+const router = Router();
+const canRead = [auth, requirePermission('users:read')];
+const canWrite = [auth, requirePermission('users:write')];
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+// Everything but the password hash and two-factor secrets
+export function toPublicUser(user) {
+  return {
+    id: user.id,
+    username: user.username,
+    email: user.email,
+    emailVerifiedAt: user.emailVerifiedAt,
+    role: user.role,
+    disabled: user.disabled,
+    lockedUntil: user.lockedUntil,
+    twoFactorEnabled: !!user.totpEnabledAt,
+    createdAt: user.createdAt,
+    updatedAt: user.updatedAt
+  };
+}
+
+// Validates the list query string. Returns the options or { error }.
+function parseListQuery(query) {
+  const page = query.page === undefined ? 1 : Number(query.page);
+  if (!Number.isInteger(page) || page < 1) return { error: 'page must be a positive integer' };
+
+  const limit = query.limit === undefined ? DEFAULT_PAGE_SIZE : Number(query.limit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return { error: `limit must be an integer between 1 and ${MAX_PAGE_SIZE}` };
+  }
+
+  let disabled;
+  if (query.disabled !== undefined && query.disabled !== '') {
+    if (!['true', 'false'].includes(query.disabled)) return { error: 'disabled must be true or false' };
+    disabled = query.disabled === 'true';
+  }
+
+  return {
+    page,
+    limit,
+    q: typeof query.q === 'string' ? query.q.trim() : '',
+    role: typeof query.role === 'string' && query.role ? query.role : undefined,
+    disabled
+  };
+}
+
+function escapeLike(value) {
+  return value.replace(/[\\%_]/g, (c) => `\\${c}`);
+}
+
+function buildPageLinks(req, options, totalPages) {
+  // The gateway tells us the public prefix (e.g. /api/users) it strips before proxying
+  const basePath = req.headers['x-forwarded-prefix'] || '/';
+  const link = (page) => {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(req.query)) {
+      if (key !== 'page' && value !== undefined && value !== '') params.set(key, value);
+    }
+    params.set('page', page);
+    params.set('limit', options.limit);
+    return `${basePath}?${params.toString()}`;
+  };
+  return {
+    self: link(options.page),
+    next: options.page < totalPages ? link(options.page + 1) : null,
+    prev: options.page > 1 ? link(Math.min(options.page - 1, Math.max(totalPages, 1))) : null
+  };
+}
+
+// Admins cannot lock themselves out, and the last enabled admin cannot be removed
+async function checkAdminChange(req, user, { demotes }) {
+  if (user.id === req.user.sub) return 'you cannot change your own account here';
+  if (!demotes || user.role !== ADMIN_ROLE || user.disabled) return null;
+  const admins = await req.AppDataSource.getRepository(User).count({ where: { role: ADMIN_ROLE, disabled: false } });
+  return admins <= 1 ? 'cannot remove the last admin' : null;
+}
+
+// Nobody can give out, or take away, more than they hold themselves: acting on
+// an account needs every permission its role grants (plus `grants`, for a new
+// role), and only admins can act on admins
+async function checkAuthority(req, user, grants = []) {
+  if (user.role === ADMIN_ROLE && req.user.role !== ADMIN_ROLE) return 'only admins can change an admin account';
+  const beyond = permissionsBeyond(req.user, [
+    ...grants,
+    ...await permissionsForRole(req.AppDataSource, user.role)
+  ]);
+  return beyond.length > 0 ? `you do not have these permissions: ${[...new Set(beyond)].join(', ')}` : null;
+}
+
+function findUser(req) {
+  return req.AppDataSource.getRepository(User).findOne({ where: { id: req.params.id } });
+}
+
+router.get('/', canRead, async (req, res) => {
+  try {
+    const options = parseListQuery(req.query);
+    if (options.error) return res.status(400).json({ error: options.error });
+
+    const qb = req.AppDataSource.getRepository(User).createQueryBuilder('user');
+    if (options.q) qb.andWhere('user.username ILIKE :q', { q: `%${escapeLike(options.q)}%` });
+    if (options.role) qb.andWhere('user.role = :role', { role: options.role });
+    if (options.disabled !== undefined) qb.andWhere('user.disabled = :disabled', { disabled: options.disabled });
+
+    const [users, total] = await qb
+      .orderBy('user.createdAt', 'DESC')
+      .addOrderBy('user.id', 'ASC')
+      .skip((options.page - 1) * options.limit)
+      .take(options.limit)
+      .getManyAndCount();
+
+    const totalPages = Math.ceil(total / options.limit);
+    res.json({
+      data: users.map(toPublicUser),
+      page: options.page,
+      limit: options.limit,
+      total,
+      totalPages,
+      links: buildPageLinks(req, options, totalPages)
+    });
+  } catch (e) {
+    res.status(500).json({ error: e.message });
+  }
+});
+
+router.get('/:id', canRead, async (req, res) => {
+  try {
+    const user = await findUser(req);
+    if (!user) return res.status(404).json({ error: 'not found' });
+    res.json(toPublicUser(user));
+  } catch (e) {
+    res.status(400).json({ error: e.message });
+  }
+});
+
+// A changed role shows up in the user's next access token
+router.patch('/:id/role', canWrite, async (req, res) => {
+  try {
+    const { role } = req.body;
+    const target = typeof role === 'string' && await req.AppDataSource.getRepository(Role).findOne({ where: { name: role } });
+    if (!target) return res.status(400).json({ error: 'role not found' });
+
+    const user = await findUser(req);
+    if (!user) return res.status(404).json({ error: 'not found' });
+    const error = await checkAdminChange(req, user, { demotes: role !== ADMIN_ROLE });
+    if (error) return res.status(409).json({ error });
+
+    if ((role === ADMIN_ROLE || user.role === ADMIN_ROLE) && req.user.role !== ADMIN_ROLE) {
+      return res.status(403).json({ error: 'only admins can assign or remove the admin role' });
+    }
+    const denied = await checkAuthority(req, user, permissionsOf(target));
+    if (denied) return res.status(403).json({ error: denied });
+
+    const userRepository = req.AppDataSource.getRepository(User);
+    await userRepository.update({ id: user.id }, { role });
+    res.json(toPublicUser(await findUser(req)));
+  } catch (e) {
+    res.status(400).json({ error: e.message });
+  }
+});
+
+// Disabled users cannot log in and all their sessions are revoked; access tokens
+// already issued live out their TTL
+router.post('/:id/disable', canWrite, async (req, res) => {
+  try {
+    const user = await findUser(req);
+    if (!user) return res.status(404).json({ error: 'not found' });
+    const error = await checkAdminChange(req, user, { demotes: true });
+    if (error) return res.status(409).json({ error });
+    const denied = await checkAuthority(req, user);
+    if (denied) return res.status(403).json({ error: denied });
+
+    await req.AppDataSource.getRepository(User).update({ id: user.id }, { disabled: true });
+    await revokeUserSessions(req.AppDataSource, user.id, 'account disabled');
+    res.json(toPublicUser(await findUser(req)));
+  } catch (e) {
+    res.status(400).json({ error: e.message });
+  }
+});
+
+router.post('/:id/enable', canWrite, async (req, res) => {
+  try {
+    const user = await findUser(req);
+    if (!user) return res.status(404).json({ error: 'not found' });
+    const denied = await checkAuthority(req, user);
+    if (denied) return res.status(403).json({ error: denied });
+
+    await req.AppDataSource.getRepository(User).update({ id: user.id }, { disabled: false });
+    res.json(toPublicUser(await findUser(req)));
+  } catch (e) {
+    res.status(400).json({ error: e.message });
+  }
+});
+
+// Lifts a lockout from failed logins early
+router.post('/:id/unlock', canWrite, async (req, res) => {
+  try {
+    const user = await findUser(req);
+    if (!user) return res.status(404).json({ error: 'not found' });
+    const denied = await checkAuthority(req, user);
+    if (denied) return res.status(403).json({ error: denied });
+
+    await req.AppDataSource.getRepository(User).update({ id: user.id }, { failedLoginCount: 0, lockedUntil: null });
+    res.json(toPublicUser(await findUser(req)));
+  } catch (e) {
+    res.status(400).json({ error: e.message });
+  }
+});
+
+// For a user who lost their authenticator and recovery codes. Their sessions
+// are revoked; if their role requires two-factor they enrol again at next login.
+router.post('/:id/2fa/reset', canWrite, async (req, res) => {
+  try {
+    const user = await findUser(req);
+    if (!user) return res.status(404).json({ error: 'not found' });
+    if (user.id === req.user.sub) return res.status(409).json({ error: 'you cannot change your own account here' });
+    const denied = await checkAuthority(req, user);
+    if (denied) return res.status(403).json({ error: denied });
+
+    await disableTwoFactor(req.AppDataSource, user);
+    await revokeUserSessions(req.AppDataSource, user.id, 'two-factor authentication reset');
+    res.json(toPublicUser(await findUser(req)));
+  } catch (e) {
+    res.status(400).json({ error: e.message });
+  }
+});
+
+// Saved addresses and sessions go with the user; orders in order-service are kept
+router.delete('/:id', canWrite, async (req, res) => {
+  try {
+    const user = await findUser(req);
+    if (!user) return res.status(404).json({ error: 'not found' });
+    const error = await checkAdminChange(req, user, { demotes: true });
+    if (error) return res.status(409).json({ error });
+    const denied = await checkAuthority(req, user);
+    if (denied) return res.status(403).json({ error: denied });
+
+    await req.AppDataSource.getRepository(User).delete({ id: user.id });
+    res.json({ deleted: true });
+  } catch (e) {
+    res.status(400).json({ error: e.message });
+  }
+});
+
+export default router;
@@ -0,0 +1,148 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import express from 'express';
+import { FindOperator } from 'typeorm';
+import User from '../models/User.js';
+import Role from '../models/Role.js';
+import userRoutes from './users.js';
+
+// Enough of TypeORM's repositories for users.js, kept in memory. IsNull() and
+// Not() are the only operators the routes use.
+function matches(row, where) {
+  return Object.entries(where).every(([field, value]) => {
+    if (value instanceof FindOperator && value.type === 'isNull') return row[field] == null;
+    if (value instanceof FindOperator && value.type === 'not') return row[field] !== value.value;
+    return row[field] === value;
+  });
+}
+
+function fakeRepository(rows) {
+  return {
+    findOne: async ({ where }) => {
+      const row = rows.find((r) => matches(r, where));
+      return row ? { ...row } : null;
+    },
+    count: async ({ where }) => rows.filter((r) => matches(r, where)).length,
+    update: async (where, values) => {
+      const matched = rows.filter((r) => matches(r, where));
+      for (const row of matched) Object.assign(row, values);
+      return { affected: matched.length };
+    },
+    delete: async (where) => {
+      const kept = rows.filter((r) => !matches(r, where));
+      const affected = rows.length - kept.length;
+      rows.splice(0, rows.length, ...kept);
+      return { affected };
+    }
+  };
+}
+
+function fakeDataSource() {
+  const tables = {
+    users: [
+      { id: 'admin-1', username: 'asha', role: 'admin', disabled: false },
+      { id: 'admin-2', username: 'ravi', role: 'admin', disabled: false },
+      { id: 'support-1', username: 'meera', role: 'support', disabled: false },
+      { id: 'manager-1', username: 'dev', role: 'manager', disabled: false },
+      { id: 'user-1', username: 'kiran', role: 'user', disabled: false }
+    ],
+    roles: [
+      { name: 'admin', permissions: [] },
+      { name: 'user', permissions: [] },
+      { name: 'support', permissions: ['users:read', 'users:write'] },
+      { name: 'manager', permissions: ['products:write'] }
+    ],
+    other: []
+  };
+  const repositories = new Map([
+    [User, fakeRepository(tables.users)],
+    [Role, fakeRepository(tables.roles)]
+  ]);
+  return {
+    users: tables.users,
+    getRepository: (entity) => repositories.get(entity) || fakeRepository(tables.other)
+  };
+}
+
+describe('user management authority', () => {
+  let server;
+  let baseUrl;
+  let dataSource;
+
+  before(async () => {
+    const app = express();
+    app.use(express.json());
+    app.use((req, _, next) => {
+      req.AppDataSource = dataSource;
+      next();
+    });
+    app.use('/', userRoutes);
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${server.address().port}`;
+  });
+
+  after(() => server.close());
+
+  beforeEach(() => {
+    dataSource = fakeDataSource();
+  });
+
+  // Callers come through the gateway, which forwards who they are
+  const support = { id: 'support-1', role: 'support', permissions: ['users:read', 'users:write'] };
+  const admin = { id: 'admin-1', role: 'admin', permissions: ['users:read', 'users:write'] };
+
+  async function call(caller, method, path, body) {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Gateway-Key': 'gateway_key',
+        'X-User-Id': caller.id,
+        'X-User-Role': caller.role,
+        'X-User-Permissions': caller.permissions.join(',')
+      },
+      body: body && JSON.stringify(body)
+    });
+    return { status: response.status, body: await response.json() };
+  }
+
+  const userById = (id) => dataSource.users.find((user) => user.id === id);
+
+  const adminActions = [
+    ['POST', '/admin-2/disable'],
+    ['POST', '/admin-2/enable'],
+    ['POST', '/admin-2/unlock'],
+    ['POST', '/admin-2/2fa/reset'],
+    ['DELETE', '/admin-2'],
+    ['PATCH', '/admin-2/role', { role: 'user' }]
+  ];
+
+  for (const [method, path, body] of adminActions) {
+    it(`refuses ${method} ${path} to a users:write holder who is not an admin`, async () => {
+      const { status } = await call(support, method, path, body);
+      assert.equal(status, 403);
+      assert.deepEqual(userById('admin-2'), { id: 'admin-2', username: 'ravi', role: 'admin', disabled: false });
+    });
+  }
+
+  it('refuses to act on an account whose role grants permissions the caller lacks', async () => {
+    const { status, body } = await call(support, 'POST', '/manager-1/disable');
+    assert.equal(status, 403);
+    assert.equal(body.error, 'you do not have these permissions: products:write');
+    assert.equal(userById('manager-1').disabled, false);
+  });
+
+  it('lets a users:write holder act on accounts within their own permissions', async () => {
+    assert.equal((await call(support, 'POST', '/user-1/disable')).status, 200);
+    assert.equal(userById('user-1').disabled, true);
+    assert.equal((await call(support, 'POST', '/user-1/enable')).status, 200);
+    assert.equal(userById('user-1').disabled, false);
+  });
+
+  it('lets an admin disable another admin', async () => {
+    const { status, body } = await call(admin, 'POST', '/admin-2/disable');
+    assert.equal(status, 200);
+    assert.equal(body.disabled, true);
+  });
+});
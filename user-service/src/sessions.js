@@ -0,0 +1,135 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { IsNull, LessThan, MoreThan, Not } from 'typeorm';
+import Session from './models/Session.js';
+import { logger } from '@microstore/observability';
+import { fromGateway } from './middleware/auth.js';
+
+// A second tab refreshing with the token another tab just rotated is a race,
+// not a replay, if it arrives within this window
+const ROTATION_GRACE_MS = 10000;
+
+export class SessionError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const refreshTokenSecret = () => process.env.REFRESH_TOKEN_SECRET || 'refresh_secret';
+const refreshTokenTtl = () => process.env.REFRESH_TOKEN_TTL || '7d';
+
+function hashToken(token) {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+// Behind the gateway the client address is the X-Client-Ip it sets. The
+// header only counts alongside the gateway key; anyone else is taken to be
+// the client, at the socket's address.
+export function clientAddress(req) {
+  if (fromGateway(req) && req.headers['x-client-ip']) return req.headers['x-client-ip'];
+  return req.socket?.remoteAddress || null;
+}
+
+export function clientInfo(req) {
+  return {
+    userAgent: req.headers['user-agent']?.slice(0, 500) || null,
+    ip: clientAddress(req)
+  };
+}
+
+// Each refresh token is unique (jti) and names its session (sid)
+function signRefreshToken(userId, sessionId) {
+  const token = jwt.sign(
+    { sub: userId, type: 'refresh', sid: sessionId, jti: crypto.randomUUID() },
+    refreshTokenSecret(),
+    { expiresIn: refreshTokenTtl() }
+  );
+  return { token, tokenHash: hashToken(token), expiresAt: new Date(jwt.decode(token).exp * 1000) };
+}
+
+// Only sessions that can still be refreshed
+export function activeSessionsWhere(userId) {
+  return { userId, revokedAt: IsNull(), expiresAt: MoreThan(new Date()) };
+}
+
+export async function createSession(dataSource, user, req) {
+  const sessionRepository = dataSource.getRepository(Session);
+  const id = crypto.randomUUID();
+  const { token, tokenHash, expiresAt } = signRefreshToken(user.id, id);
+  const session = await sessionRepository.save(sessionRepository.create({
+    id,
+    userId: user.id,
+    tokenHash,
+    expiresAt,
+    lastUsedAt: new Date(),
+    ...clientInfo(req)
+  }));
+  return { session, refreshToken: token };
+}
+
+// Swaps a refresh token for the next one in its session. A token the session
+// has already moved past means it was copied, so the session is revoked and
+// both the thief and the owner have to log in again.
+export async function rotateSession(dataSource, refreshToken, req) {
+  let payload;
+  try {
+    payload = jwt.verify(refreshToken, refreshTokenSecret());
+  } catch {
+    throw new SessionError(401, 'invalid refresh token');
+  }
+  if (payload.type !== 'refresh' || !payload.sid) throw new SessionError(401, 'invalid refresh token');
+
+  const sessionRepository = dataSource.getRepository(Session);
+  const session = await sessionRepository.findOne({ where: { id: payload.sid, userId: payload.sub } });
+  if (!session || session.revokedAt) throw new SessionError(401, 'invalid refresh token');
+
+  const presentedHash = hashToken(refreshToken);
+  if (presentedHash !== session.tokenHash) {
+    const justRotated = session.rotatedAt && Date.now() - session.rotatedAt.getTime() < ROTATION_GRACE_MS;
+    if (presentedHash === session.previousTokenHash && justRotated) {
+      throw new SessionError(409, 'refresh token already rotated');
+    }
+    await revokeSessions(dataSource, { id: session.id }, 'refresh token reused');
+    logger.warn(`Refresh token reused for session ${session.id}; session revoked`);
+    throw new SessionError(401, 'invalid refresh token');
+  }
+
+  // Conditional on the hash so two requests with the same token cannot both rotate
+  const next = signRefreshToken(session.userId, session.id);
+  const now = new Date();
+  const result = await sessionRepository.update(
+    { id: session.id, tokenHash: presentedHash, revokedAt: IsNull() },
+    {
+      tokenHash: next.tokenHash,
+      previousTokenHash: presentedHash,
+      rotatedAt: now,
+      lastUsedAt: now,
+      expiresAt: next.expiresAt,
+      ...clientInfo(req)
+    }
+  );
+  if (!result.affected) throw new SessionError(409, 'refresh token already rotated');
+
+  return { session, refreshToken: next.token };
+}
+
+// Revokes the active sessions matching where; returns how many
+export async function revokeSessions(dataSource, where, reason) {
+  const result = await dataSource.getRepository(Session).update(
+    { ...where, revokedAt: IsNull() },
+    { revokedAt: new Date(), revokedReason: reason }
+  );
+  return result.affected || 0;
+}
+
+export function revokeUserSessions(dataSource, userId, reason, { except } = {}) {
+  return revokeSessions(dataSource, except ? { userId, id: Not(except) } : { userId }, reason);
+}
+
+// Revoked sessions are kept until they would have expired anyway, so a reused
+// token still finds its session and is reported as a replay
+export async function deleteExpiredSessions(dataSource) {
+  const result = await dataSource.getRepository(Session).delete({ expiresAt: LessThan(new Date()) });
+  return result.affected || 0;
+}
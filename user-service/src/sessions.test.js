@@ -0,0 +1,115 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { FindOperator } from 'typeorm';
+import { SessionError, createSession, rotateSession } from './sessions.js';
+
+// Enough of a TypeORM repository for sessions.js, kept in memory. IsNull() is
+// the only operator the rotation path uses.
+function matches(row, where) {
+  return Object.entries(where).every(([field, value]) => {
+    if (value instanceof FindOperator && value.type === 'isNull') return row[field] == null;
+    return row[field] === value;
+  });
+}
+
+function fakeDataSource() {
+  const rows = new Map();
+  const repository = {
+    create: (values) => ({ ...values }),
+    save: async (row) => {
+      rows.set(row.id, { ...row });
+      return row;
+    },
+    findOne: async ({ where }) => {
+      const row = [...rows.values()].find((r) => matches(r, where));
+      return row ? { ...row } : null;
+    },
+    update: async (where, values) => {
+      let affected = 0;
+      for (const row of rows.values()) {
+        if (!matches(row, where)) continue;
+        Object.assign(row, values);
+        affected += 1;
+      }
+      return { affected };
+    }
+  };
+  return { rows, getRepository: () => repository };
+}
+
+const req = { headers: { 'user-agent': 'test-agent' }, socket: { remoteAddress: '203.0.113.7' } };
+const user = { id: '7f0c7a8e-6d3c-4d43-9a55-3f6f1f2f0c11' };
+
+async function rejectsWith(promise, status) {
+  await assert.rejects(promise, (e) => e instanceof SessionError && e.status === status);
+}
+
+describe('refresh token rotation', () => {
+  let dataSource;
+
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['Date'], now: new Date('2025-06-01T10:00:00Z') });
+    dataSource = fakeDataSource();
+  });
+
+  afterEach(() => mock.timers.reset());
+
+  it('stores only a hash of the refresh token, with where it was issued', async () => {
+    const { session, refreshToken } = await createSession(dataSource, user, req);
+    const stored = dataSource.rows.get(session.id);
+    assert.notEqual(stored.tokenHash, refreshToken);
+    assert.equal(stored.ip, '203.0.113.7');
+    assert.equal(stored.userAgent, 'test-agent');
+  });
+
+  it('swaps a refresh token for a new one in the same session', async () => {
+    const { session, refreshToken } = await createSession(dataSource, user, req);
+    const rotated = await rotateSession(dataSource, refreshToken, req);
+    assert.equal(rotated.session.id, session.id);
+    assert.notEqual(rotated.refreshToken, refreshToken);
+    await rotateSession(dataSource, rotated.refreshToken, req);
+  });
+
+  it('answers 409 to the previous token just after a rotation, without revoking', async () => {
+    const { session, refreshToken } = await createSession(dataSource, user, req);
+    const rotated = await rotateSession(dataSource, refreshToken, req);
+    mock.timers.tick(5000);
+    await rejectsWith(rotateSession(dataSource, refreshToken, req), 409);
+    assert.equal(dataSource.rows.get(session.id).revokedAt, undefined);
+    await rotateSession(dataSource, rotated.refreshToken, req);
+  });
+
+  it('revokes the session when an old token comes back after the grace period', async () => {
+    const { session, refreshToken } = await createSession(dataSource, user, req);
+    const rotated = await rotateSession(dataSource, refreshToken, req);
+    mock.timers.tick(11000);
+    await rejectsWith(rotateSession(dataSource, refreshToken, req), 401);
+    assert.equal(dataSource.rows.get(session.id).revokedReason, 'refresh token reused');
+    await rejectsWith(rotateSession(dataSource, rotated.refreshToken, req), 401);
+  });
+
+  it('revokes at once when a token from two rotations back comes back', async () => {
+    const { session, refreshToken } = await createSession(dataSource, user, req);
+    const second = await rotateSession(dataSource, refreshToken, req);
+    await rotateSession(dataSource, second.refreshToken, req);
+    await rejectsWith(rotateSession(dataSource, refreshToken, req), 401);
+    assert.ok(dataSource.rows.get(session.id).revokedAt);
+  });
+
+  it('lets only one of two simultaneous refreshes with the same token through', async () => {
+    const { refreshToken } = await createSession(dataSource, user, req);
+    const results = await Promise.allSettled([
+      rotateSession(dataSource, refreshToken, req),
+      rotateSession(dataSource, refreshToken, req)
+    ]);
+    assert.equal(results.filter((r) => r.status === 'fulfilled').length, 1);
+    assert.equal(results.find((r) => r.status === 'rejected').reason.status, 409);
+  });
+
+  it('refuses tokens that are not refresh tokens for a live session', async () => {
+    await rejectsWith(rotateSession(dataSource, 'not-a-jwt', req), 401);
+    const { refreshToken } = await createSession(dataSource, user, req);
+    dataSource.rows.clear();
+    await rejectsWith(rotateSession(dataSource, refreshToken, req), 401);
+  });
+});
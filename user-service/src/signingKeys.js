@@ -0,0 +1,107 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+import { IsNull, LessThan, MoreThan, Not } from 'typeorm';
+import SigningKey from './models/SigningKey.js';
+import { logger } from '@microstore/observability';
+
+const generateKeyPair = promisify(crypto.generateKeyPair);
+
+// Access tokens are signed with a private key only user-service holds; other
+// services verify them with the public keys from /.well-known/jwks.json
+export const SIGNING_ALGORITHM = 'RS256';
+// How long a key served from memory is trusted before the table is checked again
+const CACHE_MS = 60 * 1000;
+
+const rotationMs = () => Number(process.env.SIGNING_KEY_ROTATION_DAYS || 30) * 24 * 60 * 60 * 1000;
+// Must outlast ACCESS_TOKEN_TTL, or tokens signed just before a rotation stop verifying
+const retentionMs = () => Number(process.env.SIGNING_KEY_RETENTION_HOURS || 24) * 60 * 60 * 1000;
+
+let activeKey = null;
+let activeKeyLoadedAt = 0;
+const publicKeys = new Map();
+
+async function createSigningKey(dataSource) {
+  const { publicKey, privateKey } = await generateKeyPair('rsa', {
+    modulusLength: 2048,
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+  });
+  const repository = dataSource.getRepository(SigningKey);
+  const key = await repository.save(repository.create({
+    kid: crypto.randomUUID(),
+    algorithm: SIGNING_ALGORITHM,
+    publicKey,
+    privateKey
+  }));
+  logger.info(`Created signing key ${key.kid}`);
+  return key;
+}
+
+// Makes sure a key younger than SIGNING_KEY_ROTATION_DAYS is signing, creating
+// one and retiring the others when it isn't. Returns the signing key.
+export async function rotateSigningKeys(dataSource) {
+  const repository = dataSource.getRepository(SigningKey);
+  const current = await repository.findOne({ where: { retiredAt: IsNull() }, order: { createdAt: 'DESC' } });
+  if (current && Date.now() - current.createdAt.getTime() < rotationMs()) return current;
+
+  const next = await createSigningKey(dataSource);
+  await repository.update({ retiredAt: IsNull(), kid: Not(next.kid) }, { retiredAt: new Date() });
+  return next;
+}
+
+// The key new access tokens are signed with
+export async function getSigningKey(dataSource) {
+  if (!activeKey || Date.now() - activeKeyLoadedAt > CACHE_MS) {
+    activeKey = await rotateSigningKeys(dataSource);
+    activeKeyLoadedAt = Date.now();
+  }
+  return activeKey;
+}
+
+// Keys whose tokens may still be in use: the signing key and recently retired ones
+function publishedKeysWhere() {
+  return [
+    { retiredAt: IsNull() },
+    { retiredAt: MoreThan(new Date(Date.now() - retentionMs())) }
+  ];
+}
+
+// Public key for verifying a token signed with kid, or null when it is unknown or retired too long ago
+export async function getVerificationKey(dataSource, kid) {
+  if (!kid) return null;
+  const cached = publicKeys.get(kid);
+  if (cached && Date.now() - cached.loadedAt < CACHE_MS) return cached.key;
+
+  const key = await dataSource.getRepository(SigningKey).findOne({
+    where: publishedKeysWhere().map((where) => ({ ...where, kid }))
+  });
+  if (!key) {
+    publicKeys.delete(kid);
+    return null;
+  }
+  publicKeys.set(kid, { key: key.publicKey, loadedAt: Date.now() });
+  return key.publicKey;
+}
+
+// The published keys as a JSON Web Key Set
+export async function getJwks(dataSource) {
+  const keys = await dataSource.getRepository(SigningKey).find({
+    where: publishedKeysWhere(),
+    order: { createdAt: 'DESC' }
+  });
+  return {
+    keys: keys.map((key) => ({
+      ...crypto.createPublicKey(key.publicKey).export({ format: 'jwk' }),
+      kid: key.kid,
+      alg: key.algorithm,
+      use: 'sig'
+    }))
+  };
+}
+
+export async function deleteExpiredSigningKeys(dataSource) {
+  const result = await dataSource.getRepository(SigningKey).delete({
+    retiredAt: LessThan(new Date(Date.now() - retentionMs()))
+  });
+  return result.affected || 0;
+}
@@ -0,0 +1,132 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import jwt from 'jsonwebtoken';
+import { FindOperator } from 'typeorm';
+import {
+  rotateSigningKeys,
+  getSigningKey,
+  getVerificationKey,
+  getJwks,
+  deleteExpiredSigningKeys
+} from './signingKeys.js';
+
+// Enough of a TypeORM repository for signingKeys.js, kept in memory. An array
+// of wheres matches rows that match any of them, as in TypeORM.
+function valueMatches(actual, expected) {
+  if (!(expected instanceof FindOperator)) return actual === expected;
+  if (expected.type === 'isNull') return actual == null;
+  if (expected.type === 'not') return !valueMatches(actual, expected.value);
+  if (expected.type === 'moreThan') return actual != null && actual > expected.value;
+  if (expected.type === 'lessThan') return actual != null && actual < expected.value;
+  throw new Error(`unsupported operator ${expected.type}`);
+}
+
+function matches(row, where) {
+  if (Array.isArray(where)) return where.some((w) => matches(row, w));
+  return Object.entries(where).every(([field, value]) => valueMatches(row[field], value));
+}
+
+function fakeDataSource() {
+  const rows = [];
+  const newestFirst = (list) => [...list].sort((a, b) => b.createdAt - a.createdAt);
+  const repository = {
+    create: (values) => ({ ...values }),
+    save: async (row) => {
+      const saved = { retiredAt: null, createdAt: new Date(), ...row };
+      rows.push(saved);
+      return { ...saved };
+    },
+    find: async ({ where }) => newestFirst(rows.filter((row) => matches(row, where))).map((row) => ({ ...row })),
+    findOne: async ({ where }) => {
+      const [row] = newestFirst(rows.filter((r) => matches(r, where)));
+      return row ? { ...row } : null;
+    },
+    update: async (where, values) => {
+      const matched = rows.filter((row) => matches(row, where));
+      for (const row of matched) Object.assign(row, values);
+      return { affected: matched.length };
+    },
+    delete: async (where) => {
+      const matched = rows.filter((row) => matches(row, where));
+      for (const row of matched) rows.splice(rows.indexOf(row), 1);
+      return { affected: matched.length };
+    }
+  };
+  return { rows, getRepository: () => repository };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('signing keys', () => {
+  let dataSource;
+
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['Date'], now: new Date('2025-06-01T10:00:00Z') });
+    dataSource = fakeDataSource();
+  });
+
+  afterEach(() => mock.timers.reset());
+
+  it('creates a key when there is none and keeps signing with it until it is thirty days old', async () => {
+    const first = await rotateSigningKeys(dataSource);
+    mock.timers.tick(29 * DAY_MS);
+    assert.equal((await rotateSigningKeys(dataSource)).kid, first.kid);
+    assert.equal(dataSource.rows.length, 1);
+  });
+
+  it('rotates to a new key after thirty days and retires the old one', async () => {
+    const first = await rotateSigningKeys(dataSource);
+    mock.timers.tick(30 * DAY_MS);
+    const second = await rotateSigningKeys(dataSource);
+    assert.notEqual(second.kid, first.kid);
+    const retired = dataSource.rows.find((row) => row.kid === first.kid);
+    assert.deepEqual(retired.retiredAt, new Date());
+    assert.equal(dataSource.rows.find((row) => row.kid === second.kid).retiredAt, null);
+  });
+
+  it('publishes the signing key and recently retired ones as a JWKS that verifies their tokens', async () => {
+    const first = await rotateSigningKeys(dataSource);
+    const oldToken = jwt.sign({ sub: 'user-1' }, first.privateKey, { algorithm: 'RS256', keyid: first.kid });
+    mock.timers.tick(30 * DAY_MS);
+    const second = await rotateSigningKeys(dataSource);
+
+    const { keys } = await getJwks(dataSource);
+    assert.deepEqual(keys.map((key) => key.kid), [second.kid, first.kid]);
+    for (const key of keys) {
+      assert.deepEqual([key.kty, key.alg, key.use], ['RSA', 'RS256', 'sig']);
+      assert.equal(key.d, undefined, 'no private parts');
+    }
+    const published = crypto.createPublicKey({ key: keys[1], format: 'jwk' });
+    assert.equal(jwt.verify(oldToken, published, { algorithms: ['RS256'] }).sub, 'user-1');
+  });
+
+  it('stops publishing and verifying with a retired key after the retention period', async () => {
+    const first = await rotateSigningKeys(dataSource);
+    mock.timers.tick(30 * DAY_MS);
+    await rotateSigningKeys(dataSource);
+    assert.equal(await getVerificationKey(dataSource, first.kid), first.publicKey);
+
+    mock.timers.tick(DAY_MS + 1000);
+    assert.equal((await getJwks(dataSource)).keys.length, 1);
+    assert.equal(await getVerificationKey(dataSource, first.kid), null);
+    assert.equal(await deleteExpiredSigningKeys(dataSource), 1);
+    assert.equal(dataSource.rows.length, 1);
+  });
+
+  it('knows no verification key for a missing or unknown kid', async () => {
+    await rotateSigningKeys(dataSource);
+    assert.equal(await getVerificationKey(dataSource, undefined), null);
+    assert.equal(await getVerificationKey(dataSource, 'unknown'), null);
+  });
+
+  it('picks up a key another instance rotated to once the cached one is a minute old', async () => {
+    const first = await getSigningKey(dataSource);
+    dataSource.rows[0].retiredAt = new Date();
+    const second = await rotateSigningKeys(dataSource);
+    mock.timers.tick(30_000);
+    assert.equal((await getSigningKey(dataSource)).kid, first.kid, 'still cached');
+    mock.timers.tick(31_000);
+    assert.equal((await getSigningKey(dataSource)).kid, second.kid);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  generateTotpSecret,
+  totpProvisioningUri,
+  verifyTotp,
+  generateRecoveryCodes,
+  hashRecoveryCode
+} from './totp.js';
+
+// RFC 6238 appendix B: the SHA-1 secret "12345678901234567890" in base32,
+// with the last six digits of each published eight-digit code
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+const RFC_VECTORS = [
+  { time: 59, step: 1, code: '287082' },
+  { time: 1111111109, step: 37037036, code: '081804' },
+  { time: 1234567890, step: 41152263, code: '005924' },
+  { time: 2000000000, step: 66666666, code: '279037' }
+];
+
+describe('verifyTotp', () => {
+  beforeEach(() => mock.timers.enable({ apis: ['Date'] }));
+  afterEach(() => mock.timers.reset());
+
+  for (const { time, step, code } of RFC_VECTORS) {
+    it(`matches the RFC 6238 code at ${time}s`, () => {
+      mock.timers.setTime(time * 1000);
+      assert.equal(verifyTotp(RFC_SECRET, code), step);
+    });
+  }
+
+  it('accepts a code from one step either side, for clock drift', () => {
+    mock.timers.setTime((1111111109 + 30) * 1000);
+    assert.equal(verifyTotp(RFC_SECRET, '081804'), 37037036);
+    mock.timers.setTime((1111111109 + 60) * 1000);
+    assert.equal(verifyTotp(RFC_SECRET, '081804'), null);
+  });
+
+  it('refuses a code for a step at or before the last one used', () => {
+    mock.timers.setTime(1234567890 * 1000);
+    assert.equal(verifyTotp(RFC_SECRET, '005924', 41152263), null);
+    assert.equal(verifyTotp(RFC_SECRET, '005924', 41152262), 41152263);
+  });
+
+  it('ignores spaces and refuses anything but six digits', () => {
+    mock.timers.setTime(1234567890 * 1000);
+    assert.equal(verifyTotp(RFC_SECRET, '005 924'), 41152263);
+    assert.equal(verifyTotp(RFC_SECRET, '5924'), null);
+    assert.equal(verifyTotp(RFC_SECRET, 'abcdef'), null);
+    assert.equal(verifyTotp(RFC_SECRET, undefined), null);
+  });
+});
+
+describe('generateTotpSecret', () => {
+  it('makes a 160-bit base32 secret', () => {
+    assert.match(generateTotpSecret(), /^[A-Z2-7]{32}$/);
+  });
+});
+
+describe('totpProvisioningUri', () => {
+  it('names the issuer and account and carries the parameters apps expect', () => {
+    const uri = new URL(totpProvisioningUri('asha@example.com', RFC_SECRET));
+    assert.equal(uri.protocol, 'otpauth:');
+    assert.equal(uri.host, 'totp');
+    assert.equal(decodeURIComponent(uri.pathname), '/MicroStore:asha@example.com');
+    assert.equal(uri.searchParams.get('secret'), RFC_SECRET);
+    assert.equal(uri.searchParams.get('digits'), '6');
+    assert.equal(uri.searchParams.get('period'), '30');
+  });
+});
+
+describe('recovery codes', () => {
+  it('are ten distinct codes shaped like xxxxx-xxxxx', () => {
+    const codes = generateRecoveryCodes();
+    assert.equal(codes.length, 10);
+    assert.equal(new Set(codes).size, 10);
+    for (const code of codes) assert.match(code, /^[a-z2-7]{5}-[a-z2-7]{5}$/);
+  });
+
+  it('hash the same whatever the case or dashes', () => {
+    assert.equal(hashRecoveryCode('abcde-fghij'), hashRecoveryCode('ABCDEFGHIJ'));
+    assert.notEqual(hashRecoveryCode('abcde-fghij'), hashRecoveryCode('abcde-fghik'));
+  });
+});
@@ -0,0 +1,122 @@
+import jwt from 'jsonwebtoken';
+import { IsNull } from 'typeorm';
+import QRCode from 'qrcode';
+import User from './models/User.js';
+import { ADMIN_ROLE } from './permissions.js';
+import { generateTotpSecret, totpProvisioningUri, verifyTotp, generateRecoveryCodes, hashRecoveryCode } from './totp.js';
+
+// Own secret, so a challenge token can never pass for an access token
+const challengeSecret = () => process.env.TWO_FACTOR_CHALLENGE_SECRET || 'two_factor_secret';
+const challengeTtl = () => process.env.TWO_FACTOR_CHALLENGE_TTL || '5m';
+
+// Admins can change everything, so a password alone is not enough for them
+export function roleRequiresTwoFactor(role) {
+  return role === ADMIN_ROLE;
+}
+
+export function twoFactorEnabled(user) {
+  return !!user.totpEnabledAt;
+}
+
+// Issued when the password was right but a second factor is still owed
+export function signChallengeToken(user) {
+  return jwt.sign({ sub: user.id, type: 'two_factor_challenge' }, challengeSecret(), { expiresIn: challengeTtl() });
+}
+
+// Returns the challenged user, or null when the token is invalid or expired
+export async function verifyChallengeToken(dataSource, token) {
+  let payload;
+  try {
+    payload = jwt.verify(token, challengeSecret());
+  } catch {
+    return null;
+  }
+  if (payload.type !== 'two_factor_challenge') return null;
+  return dataSource.getRepository(User).findOne({ where: { id: payload.sub } });
+}
+
+// Starts (or restarts) enrolment with a new secret. It only takes effect once
+// enableTwoFactor() sees a code from it, so an abandoned setup changes nothing.
+// Callers refuse when two-factor is already enabled; this would switch it off.
+export async function beginTwoFactorSetup(dataSource, user) {
+  const secret = generateTotpSecret();
+  await dataSource.getRepository(User).update({ id: user.id }, { totpSecret: secret, totpEnabledAt: null, totpLastUsedStep: null });
+  const otpauthUrl = totpProvisioningUri(user.username, secret);
+  return { secret, otpauthUrl, qrCode: await QRCode.toDataURL(otpauthUrl) };
+}
+
+function issueRecoveryCodes() {
+  const recoveryCodes = generateRecoveryCodes();
+  return { recoveryCodes, recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode) };
+}
+
+// Confirms the pending secret with a code from the app. Returns the recovery
+// codes, shown to the user this once, or null when the code is wrong. Only
+// applies while that secret is still pending, so of two requests racing to
+// enable it one gets codes, and the other's would never work.
+export async function enableTwoFactor(dataSource, user, code) {
+  if (!user.totpSecret || twoFactorEnabled(user)) return null;
+  const step = verifyTotp(user.totpSecret, code);
+  if (step === null) return null;
+
+  const { recoveryCodes, recoveryCodeHashes } = issueRecoveryCodes();
+  const result = await dataSource.getRepository(User).update(
+    { id: user.id, totpSecret: user.totpSecret, totpEnabledAt: IsNull() },
+    { totpEnabledAt: new Date(), totpLastUsedStep: step, recoveryCodeHashes }
+  );
+  return result.affected === 1 ? recoveryCodes : null;
+}
+
+export async function regenerateRecoveryCodes(dataSource, user) {
+  const { recoveryCodes, recoveryCodeHashes } = issueRecoveryCodes();
+  await dataSource.getRepository(User).update({ id: user.id }, { recoveryCodeHashes });
+  return recoveryCodes;
+}
+
+export async function disableTwoFactor(dataSource, user) {
+  await dataSource.getRepository(User).update(
+    { id: user.id },
+    { totpSecret: null, totpEnabledAt: null, totpLastUsedStep: null, recoveryCodeHashes: null }
+  );
+}
+
+// Checks an authenticator code, or failing that a recovery code, which is
+// used up. Each authenticator code works once. The code is spent by a
+// conditional update, so of two logins racing with the same code only the one
+// whose update changes the row gets in.
+export async function verifySecondFactor(dataSource, user, { code, recoveryCode }) {
+  if (!twoFactorEnabled(user)) return false;
+  const spend = dataSource.getRepository(User).createQueryBuilder().update(User);
+
+  if (code) {
+    const step = verifyTotp(user.totpSecret, code, user.totpLastUsedStep);
+    if (step === null) return false;
+    const result = await spend
+      .set({ totpLastUsedStep: step })
+      .where('id = :id AND ("totpLastUsedStep" IS NULL OR "totpLastUsedStep" < :step)', { id: user.id, step })
+      .execute();
+    return result.affected === 1;
+  }
+
+  if (recoveryCode) {
+    const hash = hashRecoveryCode(recoveryCode);
+    if (!(user.recoveryCodeHashes || []).includes(hash)) return false;
+    // Removed in SQL rather than saving the list read earlier, which could
+    // bring back a code another login used meanwhile
+    const result = await spend
+      .set({ recoveryCodeHashes: () => '("recoveryCodeHashes"::jsonb - :hash)::json' })
+      .where('id = :id AND jsonb_exists("recoveryCodeHashes"::jsonb, :hash)', { id: user.id, hash })
+      .execute();
+    return result.affected === 1;
+  }
+
+  return false;
+}
+
+export function twoFactorStatus(user) {
+  return {
+    enabled: twoFactorEnabled(user),
+    required: roleRequiresTwoFactor(user.role),
+    recoveryCodesRemaining: twoFactorEnabled(user) ? (user.recoveryCodeHashes || []).length : 0
+  };
+}
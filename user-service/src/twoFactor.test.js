@@ -0,0 +1,65 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { FindOperator } from 'typeorm';
+import { enableTwoFactor } from './twoFactor.js';
+import { hashRecoveryCode } from './totp.js';
+
+// RFC 6238's SHA-1 secret and its code at 1111111109s, see totp.test.js
+const SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+const CODE = '081804';
+
+// enableTwoFactor only updates the one user; IsNull() is the only operator
+function fakeDataSource(user) {
+  const matches = (where) => Object.entries(where).every(([field, value]) => (
+    value instanceof FindOperator && value.type === 'isNull' ? user[field] == null : user[field] === value
+  ));
+  return {
+    getRepository: () => ({
+      update: async (where, values) => {
+        if (!matches(where)) return { affected: 0 };
+        Object.assign(user, values);
+        return { affected: 1 };
+      }
+    })
+  };
+}
+
+describe('enableTwoFactor', () => {
+  let user;
+  let dataSource;
+
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['Date'], now: 1111111109 * 1000 });
+    user = { id: 'user-1', totpSecret: SECRET, totpEnabledAt: null, totpLastUsedStep: null, recoveryCodeHashes: null };
+    dataSource = fakeDataSource(user);
+  });
+
+  afterEach(() => mock.timers.reset());
+
+  it('enables the pending secret and returns the recovery codes', async () => {
+    const recoveryCodes = await enableTwoFactor(dataSource, { ...user }, CODE);
+    assert.equal(recoveryCodes.length, 10);
+    assert.ok(user.totpEnabledAt);
+    assert.equal(user.recoveryCodeHashes.length, 10);
+  });
+
+  it('refuses a wrong code', async () => {
+    assert.equal(await enableTwoFactor(dataSource, { ...user }, '000000'), null);
+    assert.equal(user.totpEnabledAt, null);
+  });
+
+  it('gives codes to only one of two requests enabling it at once', async () => {
+    // Both read the user before either has enabled it
+    const [a, b] = [{ ...user }, { ...user }];
+    const [first, second] = await Promise.all([enableTwoFactor(dataSource, a, CODE), enableTwoFactor(dataSource, b, CODE)]);
+    assert.equal([first, second].filter(Boolean).length, 1);
+    assert.deepEqual(user.recoveryCodeHashes, (first || second).map(hashRecoveryCode), 'the stored codes are the ones handed out');
+  });
+
+  it('does nothing once setup has restarted with another secret', async () => {
+    const stale = { ...user };
+    user.totpSecret = 'JBSWY3DPEHPK3PXP';
+    assert.equal(await enableTwoFactor(dataSource, stale, CODE), null);
+    assert.equal(user.totpEnabledAt, null);
+  });
+});